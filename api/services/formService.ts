@@ -1,85 +1,64 @@
 /**
  * Form Service
  * API service for form operations
- * Supports both Gaia API (legacy) and local API
- * 
- * Gaia API Endpoints:
- * - Forms List: POST /dataview_pid_1/Post
- * - Load Form: GET /forms/{id}
- * - Save Form: POST /forms
- * - Delete Form: DELETE /forms/{id}
+ * Forms are stored through the FormStorageAdapter selected in apiConfig:
+ * - rest: local/Cloudflare Worker API (default)
+ * - gaia: Gaia API (legacy, default when Gaia is enabled)
+ * - indexeddb: browser storage for offline authoring
+ * - memory: in-memory storage for tests
+ * Other backends: apiConfig.registerFormStorage(name, () => adapter) and apiConfig.setFormStorage(name)
+ *
+ * Every save of a form creates an immutable revision (rest, indexeddb, memory); rollback saves an
+ * old revision again as the newest one.
+ *
+ * Updates pass the revision/updatedAt they are based on (baseRevision/baseUpdatedAt); a form changed
+ * by someone else since rejects with FormConflictError carrying the stored form, to be merged
+ * (see utils/formMerge) and saved again on top of it.
  */
 
 import { apiConfig } from '../../config/apiConfig';
 import { RemoteArray } from '../../utils/data/RemoteArray';
-
-// ============================================
-// Types
-// ============================================
-
-export interface SaveFormRequest {
-  formName: string;
-  description?: string;
-  formData: any; // ComponentDefinition[]
-}
-
-export interface FormResponse {
-  id: string;
-  formName: string;
-  description?: string;
-  formData: any;
-  createdAt: string;
-  updatedAt: string;
-}
-
-/**
- * Gaia Form Data structure (from obviaversion)
- * form_literal contains the JSON string of the form structure
- */
-export interface GaiaFormData {
-  id?: string | number;
-  form_name?: string;
-  form_literal?: string; // JSON string of form structure
-  created_at?: string;
-  updated_at?: string;
-  // Additional fields from dataview_pid_1
-  [key: string]: any;
-}
-
-/**
- * Gaia API Input structure for dataview requests
- * Based on obviaversion/forms/app/forms.js
- */
-export interface GaiaDvInput {
-  tableData: {
-    currentRecord: number;
-    recordsPerPage: number;
-  };
-  advancedSqlFilters?: any;
-}
+import {
+  FormConflictError,
+  type FormResponse,
+  type FormRevision,
+  type FormStorageAdapter,
+  type ListFormsOptions,
+  type ListFormsResult,
+  type SaveFormRequest,
+} from './storage/formStorage';
+import { RestFormStorage } from './storage/restFormStorage';
+import { GaiaFormStorage } from './storage/gaiaFormStorage';
+import { IndexedDbFormStorage } from './storage/indexedDbFormStorage';
+import { MemoryFormStorage } from './storage/memoryFormStorage';
+
+export type {
+  FormResponse,
+  FormRevision,
+  FormStorageAdapter,
+  ListFormsOptions,
+  ListFormsResult,
+  SaveFormRequest,
+} from './storage/formStorage';
+export { FormConflictError } from './storage/formStorage';
+export type { GaiaFormData, GaiaDvInput } from './storage/gaiaFormStorage';
+
+// Built-in adapters
+apiConfig.registerFormStorage('rest', () => new RestFormStorage());
+apiConfig.registerFormStorage('gaia', () => new GaiaFormStorage());
+apiConfig.registerFormStorage('indexeddb', () => new IndexedDbFormStorage());
+apiConfig.registerFormStorage('memory', () => new MemoryFormStorage());
 
 // ============================================
 // Form Service
 // ============================================
 
 class FormService {
-  private localBaseUrl: string = '/api/forms';
-
   /**
-   * Get the effective base URL based on configuration
+   * Selected storage adapter
    */
-  private getBaseUrl(): string {
-    if (apiConfig.isGaiaEnabled()) {
-      return apiConfig.getGaiaFullUrl('forms');
-    }
-    return apiConfig.getFullUrl('forms') || this.localBaseUrl;
-  }
-
-  /**
-   * Get headers for API requests
-   */
-  private getHeaders(): Record<string, string> {
-    return apiConfig.getHeaders();
+  getStorage(): FormStorageAdapter {
+    return apiConfig.getFormStorage();
   }
 
   // ============================================
@@ -88,208 +67,107 @@ class FormService {
 
   /**
    * Save a form
-   * Gaia: POST /forms
-   * Local: POST /api/forms
    */
   async saveForm(data: SaveFormRequest): Promise<FormResponse> {
-    const url = this.getBaseUrl();
-    
-    // Transform to Gaia format if Gaia is enabled
-    const body = apiConfig.isGaiaEnabled()
-      ? {
-          form_name: data.formName,
-          form_literal: JSON.stringify(data.formData),
-          description: data.description,
-        }
-      : data;
-
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: this.getHeaders(),
-      body: JSON.stringify(body),
-    });
-
-    if (!response.ok) {
-      throw new Error('Failed to save form');
-    }
-
-    const result = await response.json();
-    
-    // Transform Gaia response to standard format
-    if (apiConfig.isGaiaEnabled()) {
-      return this.transformGaiaToFormResponse(result);
-    }
-    
-    return result;
+    return this.getStorage().save(data);
   }
 
   /**
    * Update an existing form
-   * Gaia: PUT /forms/{id} or POST /forms with id
-   * Local: PUT /api/forms/{id}
+   * Rejects with FormConflictError (always with the stored form) when the form changed since
+   * data.baseRevision/baseUpdatedAt
    */
   async updateForm(id: string, data: SaveFormRequest): Promise<FormResponse> {
-    const baseUrl = this.getBaseUrl();
-    const url = `${baseUrl}/${id}`;
-    
-    const body = apiConfig.isGaiaEnabled()
-      ? {
-          id,
-          form_name: data.formName,
-          form_literal: JSON.stringify(data.formData),
-          description: data.description,
-        }
-      : { ...data, id };
-
-    const response = await fetch(url, {
-      method: 'PUT',
-      headers: this.getHeaders(),
-      body: JSON.stringify(body),
-    });
-
-    if (!response.ok) {
-      throw new Error('Failed to update form');
-    }
-
-    const result = await response.json();
-    
-    if (apiConfig.isGaiaEnabled()) {
-      return this.transformGaiaToFormResponse(result);
+    try {
+      return await this.getStorage().update(id, data);
+    } catch (error) {
+      if (error instanceof FormConflictError && !error.current) {
+        throw new FormConflictError(id, await this.loadForm(id));
+      }
+      throw error;
     }
-    
-    return result;
   }
 
   /**
    * Load a form by ID
-   * Gaia: GET /forms/{id}
-   * Local: GET /api/forms/{id}
    */
   async loadForm(id: string): Promise<FormResponse> {
-    const baseUrl = this.getBaseUrl();
-    const url = `${baseUrl}/${id}`;
-
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: this.getHeaders(),
-    });
-
-    if (!response.ok) {
-      throw new Error('Failed to load form');
-    }
-
-    const result = await response.json();
-    
-    if (apiConfig.isGaiaEnabled()) {
-      return this.transformGaiaToFormResponse(result);
-    }
-    
-    return result;
+    return this.getStorage().load(id);
   }
 
   /**
    * List forms
-   * Gaia: POST /dataview_pid_1/Post (with pagination)
-   * Local: GET /api/forms
    */
-  async listForms(options?: {
-    page?: number;
-    pageSize?: number;
-    filters?: any;
-  }): Promise<{ data: FormResponse[]; totalRecords?: number; totalPages?: number }> {
-    if (apiConfig.isGaiaEnabled()) {
-      return this.listFormsGaia(options);
-    }
-    return this.listFormsLocal();
+  async listForms(options?: ListFormsOptions): Promise<ListFormsResult> {
+    return this.getStorage().list(options);
   }
 
   /**
-   * List forms from Gaia API using dataview_pid_1
+   * Delete a form
    */
-  private async listFormsGaia(options?: {
-    page?: number;
-    pageSize?: number;
-    filters?: any;
-  }): Promise<{ data: FormResponse[]; totalRecords?: number; totalPages?: number }> {
-    const url = apiConfig.getGaiaFullUrl('formsList');
-    const page = options?.page || 0;
-    const pageSize = options?.pageSize || 15;
-
-    const body: GaiaDvInput = {
-      tableData: {
-        currentRecord: page * pageSize,
-        recordsPerPage: pageSize,
-      },
-    };
+  async deleteForm(id: string): Promise<void> {
+    return this.getStorage().delete(id);
+  }
 
-    if (options?.filters) {
-      body.advancedSqlFilters = options.filters;
-    }
+  // ============================================
+  // Revisions
+  // ============================================
 
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: this.getHeaders(),
-      body: JSON.stringify(body),
-    });
+  /**
+   * Whether the selected storage keeps revisions
+   */
+  supportsRevisions(): boolean {
+    const storage = this.getStorage();
+    return Boolean(storage.listRevisions && storage.loadRevision);
+  }
 
-    if (!response.ok) {
-      throw new Error('Failed to list forms');
+  /**
+   * Revisions of a form, newest first
+   */
+  async listRevisions(formId: string): Promise<FormRevision[]> {
+    const storage = this.getStorage();
+    if (!storage.listRevisions) {
+      throw new Error(`Form storage "${storage.name}" does not keep revisions`);
     }
-
-    const result = await response.json();
-    
-    // Handle different response formats
-    const items = result.data || result.items || result.records || result;
-    const formsList = Array.isArray(items) ? items : [];
-    
-    return {
-      data: formsList.map((item: GaiaFormData) => this.transformGaiaToFormResponse(item)),
-      totalRecords: result.totalRecords || result.total || formsList.length,
-      totalPages: result.totalPages,
-    };
+    return storage.listRevisions(formId);
   }
 
   /**
-   * List forms from local API
+   * Load one revision of a form
    */
-  private async listFormsLocal(): Promise<{ data: FormResponse[]; totalRecords?: number }> {
-    const url = this.getBaseUrl();
-
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: this.getHeaders(),
-    });
-
-    if (!response.ok) {
-      throw new Error('Failed to list forms');
+  async loadRevision(formId: string, revisionId: string): Promise<FormRevision> {
+    const storage = this.getStorage();
+    if (!storage.loadRevision) {
+      throw new Error(`Form storage "${storage.name}" does not keep revisions`);
     }
-
-    const result = await response.json();
-    const data = Array.isArray(result) ? result : (result.data || result.items || []);
-    
-    return {
-      data,
-      totalRecords: data.length,
-    };
+    return storage.loadRevision(formId, revisionId);
   }
 
   /**
-   * Delete a form
-   * Gaia: DELETE /forms/{id}
-   * Local: DELETE /api/forms/{id}
+   * Revision by its number (e.g. the base of a conflicting save), null when not kept
    */
-  async deleteForm(id: string): Promise<void> {
-    const baseUrl = this.getBaseUrl();
-    const url = `${baseUrl}/${id}`;
+  async findRevision(formId: string, revision: number): Promise<FormRevision | null> {
+    if (!this.supportsRevisions()) return null;
+    const match = (await this.listRevisions(formId)).find((item) => item.revision === revision);
+    // Lists may leave out the form data
+    if (!match || match.formData !== undefined) return match || null;
+    return this.loadRevision(formId, match.id);
+  }
 
-    const response = await fetch(url, {
-      method: 'DELETE',
-      headers: this.getHeaders(),
+  /**
+   * Restore a revision - saved as a new revision, history is kept
+   * baseRevision is the latest revision the user saw; rejects with FormConflictError when the form
+   * was saved since
+   */
+  async rollback(formId: string, revisionId: string, baseRevision?: number): Promise<FormResponse> {
+    const revision = await this.loadRevision(formId, revisionId);
+    return this.updateForm(formId, {
+      formName: revision.formName,
+      description: revision.description,
+      formData: revision.formData,
+      message: `Rollback to revision ${revision.revision}`,
+      baseRevision,
     });
-
-    if (!response.ok) {
-      throw new Error('Failed to delete form');
-    }
   }
 
   // ============================================
@@ -320,47 +198,6 @@ class FormService {
     });
   }
 
-  // ============================================
-  // Transformation Helpers
-  // ============================================
-
-  /**
-   * Transform Gaia form data to standard FormResponse
-   */
-  private transformGaiaToFormResponse(gaiaForm: GaiaFormData): FormResponse {
-    let formData = gaiaForm.form_literal;
-    
-    // Parse form_literal if it's a JSON string
-    if (typeof formData === 'string') {
-      try {
-        formData = JSON.parse(formData);
-      } catch {
-        console.warn('Failed to parse form_literal:', gaiaForm.id);
-      }
-    }
-
-    return {
-      id: String(gaiaForm.id || ''),
-      formName: gaiaForm.form_name || 'Untitled Form',
-      description: gaiaForm.description || '',
-      formData,
-      createdAt: gaiaForm.created_at || new Date().toISOString(),
-      updatedAt: gaiaForm.updated_at || new Date().toISOString(),
-    };
-  }
-
-  /**
-   * Transform standard SaveFormRequest to Gaia format
-   */
-  private transformToGaiaFormat(data: SaveFormRequest, id?: string): GaiaFormData {
-    return {
-      id,
-      form_name: data.formName,
-      form_literal: JSON.stringify(data.formData),
-      description: data.description,
-    };
-  }
-
   // ============================================
   // Import/Export (Client-side)
   // ============================================
@@ -415,6 +252,13 @@ class FormService {
   useGaiaAPI(enabled: boolean = true): void {
     apiConfig.setGaiaEnabled(enabled);
   }
+
+  /**
+   * Switch storage adapter (rest, gaia, indexeddb, memory or a registered one)
+   */
+  useStorage(name: string): void {
+    apiConfig.setFormStorage(name);
+  }
 }
 
 export const formService = new FormService();
@@ -0,0 +1,157 @@
+/**
+ * Form Storage
+ * Backend-neutral interface FormService saves and loads forms through.
+ * Built-in adapters: rest (local/Cloudflare API), gaia, indexeddb (offline authoring), memory (tests).
+ * Custom adapters are registered with apiConfig.registerFormStorage and selected with apiConfig.setFormStorage.
+ *
+ * Adapters that keep history store every save as an immutable, numbered revision
+ * (listRevisions/loadRevision); the form itself is its latest revision.
+ *
+ * Updates carry the revision/updatedAt they were based on; when the stored form has moved on
+ * since, update() rejects with FormConflictError instead of overwriting it.
+ */
+
+export interface SaveFormRequest {
+  formName: string;
+  description?: string;
+  formData: any; // ComponentDefinition[]
+  message?: string; // Revision note
+  // Stored version this save is based on (updates) - checked for conflicts
+  baseRevision?: number;
+  baseUpdatedAt?: string;
+}
+
+export interface FormResponse {
+  id: string;
+  formName: string;
+  description?: string;
+  formData: any;
+  createdAt: string;
+  updatedAt: string;
+  revision?: number; // Latest revision number (adapters that keep history)
+}
+
+/**
+ * Immutable snapshot of a form, created by every save
+ */
+export interface FormRevision {
+  id: string;
+  formId: string;
+  revision: number; // 1 for the first save
+  formName: string;
+  description?: string;
+  formData: any;
+  createdAt: string;
+  message?: string;
+}
+
+export interface ListFormsOptions {
+  page?: number; // Zero-based
+  pageSize?: number;
+  filters?: any; // Backend-specific (e.g. Gaia advancedSqlFilters)
+}
+
+export interface ListFormsResult {
+  data: FormResponse[];
+  totalRecords?: number;
+  totalPages?: number;
+}
+
+export interface FormStorageAdapter {
+  // Adapter name (as registered)
+  readonly name: string;
+  save(data: SaveFormRequest): Promise<FormResponse>;
+  update(id: string, data: SaveFormRequest): Promise<FormResponse>;
+  load(id: string): Promise<FormResponse>;
+  list(options?: ListFormsOptions): Promise<ListFormsResult>;
+  delete(id: string): Promise<void>;
+  // Revisions, newest first (adapters that keep history)
+  listRevisions?(formId: string): Promise<FormRevision[]>;
+  loadRevision?(formId: string, revisionId: string): Promise<FormRevision>;
+}
+
+export type FormStorageFactory = () => FormStorageAdapter;
+
+/**
+ * The form was saved by someone else since the update's base version
+ */
+export class FormConflictError extends Error {
+  formId: string;
+  // Stored form the update would have overwritten (when the backend returned it)
+  current?: FormResponse;
+
+  constructor(formId: string, current?: FormResponse) {
+    super(
+      current?.revision
+        ? `Form ${formId} was changed by someone else (now at revision ${current.revision})`
+        : `Form ${formId} was changed by someone else`
+    );
+    this.name = 'FormConflictError';
+    this.formId = formId;
+    this.current = current;
+  }
+}
+
+/**
+ * Throw FormConflictError when the stored form is not the version an update is based on
+ * (revision when both sides have one, otherwise updatedAt; no base = no check)
+ */
+export function assertBaseVersion(existing: FormResponse, data: SaveFormRequest): void {
+  const conflict = data.baseRevision !== undefined && existing.revision !== undefined
+    ? existing.revision !== data.baseRevision
+    : data.baseUpdatedAt !== undefined && existing.updatedAt !== data.baseUpdatedAt;
+  if (conflict) {
+    throw new FormConflictError(existing.id, existing);
+  }
+}
+
+/**
+ * Page of stored forms, most recently updated first (adapters that list locally)
+ */
+export function pageForms(forms: FormResponse[], options?: ListFormsOptions): ListFormsResult {
+  const sorted = [...forms].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  if (!options?.pageSize) {
+    return { data: sorted, totalRecords: sorted.length, totalPages: 1 };
+  }
+
+  const start = (options.page || 0) * options.pageSize;
+  return {
+    data: sorted.slice(start, start + options.pageSize),
+    totalRecords: sorted.length,
+    totalPages: Math.ceil(sorted.length / options.pageSize),
+  };
+}
+
+/**
+ * Stored form record of a save/update request (next revision of existing)
+ */
+export function toFormRecord(id: string, data: SaveFormRequest, existing?: FormResponse): FormResponse {
+  const now = new Date().toISOString();
+  return {
+    id,
+    formName: data.formName,
+    description: data.description,
+    // Copied so later edits of the caller's object don't leak into storage
+    formData: data.formData === undefined ? undefined : JSON.parse(JSON.stringify(data.formData)),
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+    revision: (existing?.revision || 0) + 1,
+  };
+}
+
+/**
+ * Revision snapshot of a stored form record
+ */
+export function toRevisionRecord(form: FormResponse, message?: string): FormRevision {
+  const revision = form.revision || 1;
+  return {
+    id: `${form.id}@${revision}`,
+    formId: form.id,
+    revision,
+    formName: form.formName,
+    description: form.description,
+    formData: form.formData,
+    createdAt: form.updatedAt,
+    message,
+  };
+}
@@ -0,0 +1,190 @@
+/**
+ * Gaia Form Storage
+ * Gaia API (legacy) - forms are stored with their structure as a JSON string (form_literal)
+ * - Forms List: POST /dataview_pid_1/Post
+ * - Load Form: GET /forms/{id}
+ * - Save Form: POST /forms
+ * - Update Form: PUT /forms/{id} (the API has no conflict check - updated_at is compared before the PUT)
+ * - Delete Form: DELETE /forms/{id}
+ */
+
+import { apiConfig } from '../../../config/apiConfig';
+import {
+  FormConflictError,
+  type FormResponse,
+  type FormStorageAdapter,
+  type ListFormsOptions,
+  type ListFormsResult,
+  type SaveFormRequest,
+} from './formStorage';
+
+/**
+ * Gaia Form Data structure (from obviaversion)
+ * form_literal contains the JSON string of the form structure
+ */
+export interface GaiaFormData {
+  id?: string | number;
+  form_name?: string;
+  form_literal?: string; // JSON string of form structure
+  created_at?: string;
+  updated_at?: string;
+  // Additional fields from dataview_pid_1
+  [key: string]: any;
+}
+
+/**
+ * Gaia API Input structure for dataview requests
+ * Based on obviaversion/forms/app/forms.js
+ */
+export interface GaiaDvInput {
+  tableData: {
+    currentRecord: number;
+    recordsPerPage: number;
+  };
+  advancedSqlFilters?: any;
+}
+
+export class GaiaFormStorage implements FormStorageAdapter {
+  readonly name: string = 'gaia';
+
+  async save(data: SaveFormRequest): Promise<FormResponse> {
+    const response = await fetch(apiConfig.getGaiaFullUrl('forms'), {
+      method: 'POST',
+      headers: apiConfig.getHeaders(),
+      body: JSON.stringify(GaiaFormStorage.toGaiaFormat(data)),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to save form');
+    }
+
+    return GaiaFormStorage.toFormResponse(await response.json());
+  }
+
+  async update(id: string, data: SaveFormRequest): Promise<FormResponse> {
+    if (data.baseUpdatedAt) {
+      const current = await this.fetchForm(id);
+      if (current.updated_at && current.updated_at !== data.baseUpdatedAt) {
+        throw new FormConflictError(id, GaiaFormStorage.toFormResponse(current));
+      }
+    }
+
+    const response = await fetch(`${apiConfig.getGaiaFullUrl('forms')}/${id}`, {
+      method: 'PUT',
+      headers: apiConfig.getHeaders(),
+      body: JSON.stringify(GaiaFormStorage.toGaiaFormat(data, id)),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to update form');
+    }
+
+    return GaiaFormStorage.toFormResponse(await response.json());
+  }
+
+  async load(id: string): Promise<FormResponse> {
+    return GaiaFormStorage.toFormResponse(await this.fetchForm(id));
+  }
+
+  /**
+   * List forms using dataview_pid_1 (paged on the server)
+   */
+  async list(options?: ListFormsOptions): Promise<ListFormsResult> {
+    const page = options?.page || 0;
+    const pageSize = options?.pageSize || 15;
+
+    const body: GaiaDvInput = {
+      tableData: {
+        currentRecord: page * pageSize,
+        recordsPerPage: pageSize,
+      },
+    };
+
+    if (options?.filters) {
+      body.advancedSqlFilters = options.filters;
+    }
+
+    const response = await fetch(apiConfig.getGaiaFullUrl('formsList'), {
+      method: 'POST',
+      headers: apiConfig.getHeaders(),
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to list forms');
+    }
+
+    const result = await response.json();
+
+    // Handle different response formats
+    const items = result.data || result.items || result.records || result;
+    const formsList = Array.isArray(items) ? items : [];
+
+    return {
+      data: formsList.map((item: GaiaFormData) => GaiaFormStorage.toFormResponse(item)),
+      totalRecords: result.totalRecords || result.total || formsList.length,
+      totalPages: result.totalPages,
+    };
+  }
+
+  async delete(id: string): Promise<void> {
+    const response = await fetch(`${apiConfig.getGaiaFullUrl('forms')}/${id}`, {
+      method: 'DELETE',
+      headers: apiConfig.getHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to delete form');
+    }
+  }
+
+  private async fetchForm(id: string): Promise<GaiaFormData> {
+    const response = await fetch(`${apiConfig.getGaiaFullUrl('forms')}/${id}`, {
+      method: 'GET',
+      headers: apiConfig.getHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to load form');
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Transform Gaia form data to standard FormResponse
+   */
+  static toFormResponse(gaiaForm: GaiaFormData): FormResponse {
+    let formData = gaiaForm.form_literal;
+
+    // Parse form_literal if it's a JSON string
+    if (typeof formData === 'string') {
+      try {
+        formData = JSON.parse(formData);
+      } catch {
+        console.warn('Failed to parse form_literal:', gaiaForm.id);
+      }
+    }
+
+    return {
+      id: String(gaiaForm.id || ''),
+      formName: gaiaForm.form_name || 'Untitled Form',
+      description: gaiaForm.description || '',
+      formData,
+      createdAt: gaiaForm.created_at || new Date().toISOString(),
+      updatedAt: gaiaForm.updated_at || new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Transform standard SaveFormRequest to Gaia format
+   */
+  static toGaiaFormat(data: SaveFormRequest, id?: string): GaiaFormData {
+    return {
+      id,
+      form_name: data.formName,
+      form_literal: JSON.stringify(data.formData),
+      description: data.description,
+    };
+  }
+}
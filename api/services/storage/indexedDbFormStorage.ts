@@ -0,0 +1,161 @@
+/**
+ * IndexedDB Form Storage
+ * Stores forms in the browser for offline authoring (database "formx", object stores "forms" and
+ * "revisions" - every save adds a revision in the same transaction)
+ */
+
+import { generateGuid } from '../../../utils/idGenerator';
+import {
+  assertBaseVersion,
+  pageForms,
+  toFormRecord,
+  toRevisionRecord,
+  type FormResponse,
+  type FormRevision,
+  type FormStorageAdapter,
+  type ListFormsOptions,
+  type ListFormsResult,
+  type SaveFormRequest,
+} from './formStorage';
+
+export interface IndexedDbFormStorageOptions {
+  databaseName?: string;
+  storeName?: string;
+}
+
+const DATABASE_VERSION = 2;
+
+// Promise of an IndexedDB request
+const toPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Promise of a transaction's completion
+const whenDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
+  });
+
+export class IndexedDbFormStorage implements FormStorageAdapter {
+  readonly name: string = 'indexeddb';
+  private databaseName: string;
+  private storeName: string;
+  private revisionStoreName: string;
+  private database: Promise<IDBDatabase> | null = null;
+
+  constructor(options: IndexedDbFormStorageOptions = {}) {
+    this.databaseName = options.databaseName || 'formx';
+    this.storeName = options.storeName || 'forms';
+    this.revisionStoreName = `${this.storeName}-revisions`;
+  }
+
+  async save(data: SaveFormRequest): Promise<FormResponse> {
+    const form = toFormRecord(generateGuid(), data);
+    const transaction = await this.transaction('readwrite');
+    transaction.objectStore(this.storeName).put(form);
+    transaction.objectStore(this.revisionStoreName).put(toRevisionRecord(form, data.message));
+    await whenDone(transaction);
+    return form;
+  }
+
+  async update(id: string, data: SaveFormRequest): Promise<FormResponse> {
+    const transaction = await this.transaction('readwrite');
+    const forms = transaction.objectStore(this.storeName);
+    const existing: FormResponse | undefined = await toPromise(forms.get(id));
+    if (!existing) {
+      transaction.abort();
+      throw new Error(`Form not found: ${id}`);
+    }
+    try {
+      assertBaseVersion(existing, data);
+    } catch (error) {
+      transaction.abort();
+      throw error;
+    }
+    const form = toFormRecord(id, data, existing);
+    forms.put(form);
+    transaction.objectStore(this.revisionStoreName).put(toRevisionRecord(form, data.message));
+    await whenDone(transaction);
+    return form;
+  }
+
+  async load(id: string): Promise<FormResponse> {
+    const transaction = await this.transaction('readonly');
+    const form: FormResponse | undefined = await toPromise(transaction.objectStore(this.storeName).get(id));
+    if (!form) {
+      throw new Error(`Form not found: ${id}`);
+    }
+    return form;
+  }
+
+  async list(options?: ListFormsOptions): Promise<ListFormsResult> {
+    const transaction = await this.transaction('readonly');
+    const forms: FormResponse[] = await toPromise(transaction.objectStore(this.storeName).getAll());
+    return pageForms(forms, options);
+  }
+
+  async delete(id: string): Promise<void> {
+    const transaction = await this.transaction('readwrite');
+    transaction.objectStore(this.storeName).delete(id);
+    const revisions = transaction.objectStore(this.revisionStoreName);
+    const keys = await toPromise(revisions.index('formId').getAllKeys(id));
+    keys.forEach((key) => revisions.delete(key));
+    await whenDone(transaction);
+  }
+
+  async listRevisions(formId: string): Promise<FormRevision[]> {
+    const transaction = await this.transaction('readonly');
+    const revisions: FormRevision[] = await toPromise(
+      transaction.objectStore(this.revisionStoreName).index('formId').getAll(formId)
+    );
+    return revisions.sort((a, b) => b.revision - a.revision);
+  }
+
+  async loadRevision(formId: string, revisionId: string): Promise<FormRevision> {
+    const transaction = await this.transaction('readonly');
+    const revision: FormRevision | undefined = await toPromise(
+      transaction.objectStore(this.revisionStoreName).get(revisionId)
+    );
+    if (!revision || revision.formId !== formId) {
+      throw new Error(`Revision not found: ${revisionId}`);
+    }
+    return revision;
+  }
+
+  private async transaction(mode: IDBTransactionMode): Promise<IDBTransaction> {
+    const database = await this.open();
+    return database.transaction([this.storeName, this.revisionStoreName], mode);
+  }
+
+  /**
+   * Open the database once, creating the object stores on first use
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      if (typeof indexedDB === 'undefined') {
+        return Promise.reject(new Error('IndexedDB is not available'));
+      }
+
+      const request = indexedDB.open(this.databaseName, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        if (!database.objectStoreNames.contains(this.storeName)) {
+          database.createObjectStore(this.storeName, { keyPath: 'id' });
+        }
+        if (!database.objectStoreNames.contains(this.revisionStoreName)) {
+          database.createObjectStore(this.revisionStoreName, { keyPath: 'id' }).createIndex('formId', 'formId');
+        }
+      };
+      this.database = toPromise(request).catch((error) => {
+        // Allow a retry after a failed open (e.g. blocked by private browsing)
+        this.database = null;
+        throw error;
+      });
+    }
+    return this.database;
+  }
+}
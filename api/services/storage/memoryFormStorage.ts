@@ -0,0 +1,95 @@
+/**
+ * In-Memory Form Storage
+ * Keeps forms and their revisions in Maps for the lifetime of the adapter - for tests and demos
+ */
+
+import { generateGuid } from '../../../utils/idGenerator';
+import {
+  assertBaseVersion,
+  pageForms,
+  toFormRecord,
+  toRevisionRecord,
+  type FormResponse,
+  type FormRevision,
+  type FormStorageAdapter,
+  type ListFormsOptions,
+  type ListFormsResult,
+  type SaveFormRequest,
+} from './formStorage';
+
+// Copies keep callers from mutating stored forms
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+export class MemoryFormStorage implements FormStorageAdapter {
+  readonly name: string = 'memory';
+  private forms = new Map<string, FormResponse>();
+  // Revisions by form id, oldest first
+  private revisions = new Map<string, FormRevision[]>();
+
+  constructor(initialForms: FormResponse[] = []) {
+    initialForms.forEach((form) => {
+      const stored = { ...clone(form), revision: form.revision || 1 };
+      this.forms.set(form.id, stored);
+      this.revisions.set(form.id, [toRevisionRecord(stored)]);
+    });
+  }
+
+  async save(data: SaveFormRequest): Promise<FormResponse> {
+    const form = toFormRecord(generateGuid(), data);
+    this.forms.set(form.id, form);
+    this.revisions.set(form.id, [toRevisionRecord(form, data.message)]);
+    return clone(form);
+  }
+
+  async update(id: string, data: SaveFormRequest): Promise<FormResponse> {
+    const existing = this.forms.get(id);
+    if (!existing) {
+      throw new Error(`Form not found: ${id}`);
+    }
+    assertBaseVersion(existing, data);
+    const form = toFormRecord(id, data, existing);
+    this.forms.set(id, form);
+    this.revisions.set(id, [...(this.revisions.get(id) || []), toRevisionRecord(form, data.message)]);
+    return clone(form);
+  }
+
+  async load(id: string): Promise<FormResponse> {
+    const form = this.forms.get(id);
+    if (!form) {
+      throw new Error(`Form not found: ${id}`);
+    }
+    return clone(form);
+  }
+
+  async list(options?: ListFormsOptions): Promise<ListFormsResult> {
+    return pageForms(Array.from(this.forms.values()).map(clone), options);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.forms.delete(id);
+    this.revisions.delete(id);
+  }
+
+  async listRevisions(formId: string): Promise<FormRevision[]> {
+    if (!this.forms.has(formId)) {
+      throw new Error(`Form not found: ${formId}`);
+    }
+    return clone([...(this.revisions.get(formId) || [])].reverse());
+  }
+
+  async loadRevision(formId: string, revisionId: string): Promise<FormRevision> {
+    const revision = this.revisions.get(formId)?.find((item) => item.id === revisionId);
+    if (!revision) {
+      throw new Error(`Revision not found: ${revisionId}`);
+    }
+    return clone(revision);
+  }
+
+  /**
+   * Remove every form
+   */
+  clear(): void {
+    this.forms.clear();
+    this.revisions.clear();
+  }
+}
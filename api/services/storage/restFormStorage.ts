@@ -0,0 +1,141 @@
+/**
+ * REST Form Storage
+ * Local/Cloudflare Worker API
+ * - List: GET /forms
+ * - Load: GET /forms/{id}
+ * - Save: POST /forms
+ * - Update: PUT /forms/{id} (sends the base revision in the body and If-Match; 409/412 = conflict)
+ * - Delete: DELETE /forms/{id}
+ * - Revisions: GET /forms/{id}/revisions, GET /forms/{id}/revisions/{revisionId}
+ *   (the API stores a revision on every POST/PUT)
+ */
+
+import { apiConfig } from '../../../config/apiConfig';
+import {
+  FormConflictError,
+  type FormResponse,
+  type FormRevision,
+  type FormStorageAdapter,
+  type ListFormsResult,
+  type SaveFormRequest,
+} from './formStorage';
+
+export class RestFormStorage implements FormStorageAdapter {
+  readonly name: string = 'rest';
+  private localBaseUrl: string = '/api/forms';
+
+  async save(data: SaveFormRequest): Promise<FormResponse> {
+    const response = await fetch(this.getBaseUrl(), {
+      method: 'POST',
+      headers: apiConfig.getHeaders(),
+      body: JSON.stringify(data),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to save form');
+    }
+
+    return response.json();
+  }
+
+  async update(id: string, data: SaveFormRequest): Promise<FormResponse> {
+    const headers = apiConfig.getHeaders();
+    if (data.baseRevision !== undefined) {
+      headers['If-Match'] = `"${data.baseRevision}"`;
+    }
+
+    const response = await fetch(`${this.getBaseUrl()}/${id}`, {
+      method: 'PUT',
+      headers,
+      body: JSON.stringify({ ...data, id }),
+    });
+
+    if (response.status === 409 || response.status === 412) {
+      // The body may carry the stored form ({ current } or the form itself)
+      const result = await response.json().catch(() => null);
+      const current = result?.current || (result?.formData !== undefined ? result : undefined);
+      throw new FormConflictError(id, current);
+    }
+
+    if (!response.ok) {
+      throw new Error('Failed to update form');
+    }
+
+    return response.json();
+  }
+
+  async load(id: string): Promise<FormResponse> {
+    const response = await fetch(`${this.getBaseUrl()}/${id}`, {
+      method: 'GET',
+      headers: apiConfig.getHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to load form');
+    }
+
+    return response.json();
+  }
+
+  async list(): Promise<ListFormsResult> {
+    const response = await fetch(this.getBaseUrl(), {
+      method: 'GET',
+      headers: apiConfig.getHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to list forms');
+    }
+
+    const result = await response.json();
+    const data = Array.isArray(result) ? result : (result.data || result.items || []);
+
+    return {
+      data,
+      totalRecords: data.length,
+    };
+  }
+
+  async delete(id: string): Promise<void> {
+    const response = await fetch(`${this.getBaseUrl()}/${id}`, {
+      method: 'DELETE',
+      headers: apiConfig.getHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to delete form');
+    }
+  }
+
+  async listRevisions(formId: string): Promise<FormRevision[]> {
+    const response = await fetch(`${this.getBaseUrl()}/${formId}/revisions`, {
+      method: 'GET',
+      headers: apiConfig.getHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to list form revisions');
+    }
+
+    const result = await response.json();
+    const revisions: FormRevision[] = Array.isArray(result) ? result : (result.data || result.items || []);
+    return [...revisions].sort((a, b) => b.revision - a.revision);
+  }
+
+  async loadRevision(formId: string, revisionId: string): Promise<FormRevision> {
+    const response = await fetch(`${this.getBaseUrl()}/${formId}/revisions/${revisionId}`, {
+      method: 'GET',
+      headers: apiConfig.getHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to load form revision');
+    }
+
+    return response.json();
+  }
+
+  private getBaseUrl(): string {
+    return apiConfig.getFullUrl('forms') || this.localBaseUrl;
+  }
+}
@@ -10,10 +10,21 @@ import FormComponentRenderer from '../form-components/FormComponentRenderer';
 import { useFormBuilderStore } from '../../stores/formBuilderStore';
 import { useHistoryStore } from '../../stores/historyStore';
 import type { ComponentDefinition, ComponentType } from '../../stores/types';
+import { generateComponentId, generateGuid } from '../../utils/idGenerator';
 
 const DRAWER_WIDTH = 400;
 const PROPERTY_PANEL_WIDTH = 300;
 
+// Empty step of a Wizard (each step is a Container, its label is the step title)
+const createWizardStep = (wizardId: string, index: number): ComponentDefinition => ({
+  id: generateComponentId('Container'),
+  guid: generateGuid(),
+  type: 'Container',
+  parentId: wizardId,
+  props: { label: `Step ${index + 1}` },
+  children: [],
+});
+
 const BuilderContent: React.FC = () => {
   const [leftOpen, setLeftOpen] = useState(true);
   const [rightOpen, setRightOpen] = useState(true);
@@ -85,9 +96,9 @@ const BuilderContent: React.FC = () => {
       Calendar: {},
       CreditCard: {},
       Wizard: {},
-      RequiredFieldValidator: {},
-      RangeValidator: {},
-      RegExValidator: {},
+      RequiredFieldValidator: { targetField: '', errorMessage: 'This field is required', display: 'both' },
+      RangeValidator: { targetField: '', min: 0, max: 100, display: 'both' },
+      RegExValidator: { targetField: '', pattern: '', errorMessage: 'Invalid format', display: 'both' },
       DataBrowse: {},
       MapLocationPicker: {},
       Grid: { gridType: 'standard', columns: 12, spacing: 2 },
@@ -104,10 +115,13 @@ const BuilderContent: React.FC = () => {
       setDraggedComponent(data.component);
     } else if (data?.type) {
       // Dragging a new component from library
+      const id = `component-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
       setDraggedComponent({
-        id: `component-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        id,
         type: data.type as ComponentType,
         props: getDefaultProps(data.type as ComponentType),
+        // A new Wizard starts with three empty steps
+        ...(data.type === 'Wizard' && { children: [0, 1, 2].map((index) => createWizardStep(id, index)) }),
       });
     }
   };
@@ -166,7 +180,12 @@ const BuilderContent: React.FC = () => {
 
     // Handle dropping into containers
     if (isContainer) {
-      if (isNewComponent) {
+      if (isNewComponent && targetComponent.type === 'Wizard' && draggedComponent.type !== 'Container') {
+        // Fields dropped on a Wizard itself go into a new step
+        const step = createWizardStep(targetId, targetComponent.children?.length || 0);
+        addComponent(step, targetId);
+        addComponent(draggedComponent, step.id);
+      } else if (isNewComponent) {
         // Adding new component to a container
         addComponent(draggedComponent, targetId);
       } else if (targetId !== activeComponentId) {
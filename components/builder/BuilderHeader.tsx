@@ -22,24 +22,43 @@ import {
   ViewStream as LayoutIcon,
   OpenWith as FreePositionIcon,
   Dashboard as DashboardIcon,
+  FactCheck as ValidatorIcon,
+  Storage as CacheIcon,
+  History as HistoryIcon,
 } from '@mui/icons-material';
 import { useTranslation } from 'react-i18next';
 import { useFormBuilderStore } from '../../stores/formBuilderStore';
 import { useHistoryStore } from '../../stores/historyStore';
-import { downloadPersistedForm, readFormFromFile, exportAsStandardFormat } from '../../utils/formExport';
+import { downloadPersistedForm, readFormFileWithSettings, exportAsStandardFormat } from '../../utils/formExport';
 import { useModeStore, useModeActions } from '../../stores/modeStore';
 import { Switch, FormControlLabel, Tooltip } from '@mui/material';
-import SaveFormDialog from './SaveFormDialog';
+import SaveFormDialog, { type SaveFormMetadata } from './SaveFormDialog';
+import FormHistoryModal from './FormHistoryModal';
+import FormMergeModal from './FormMergeModal';
+import { formService, FormConflictError, type FormResponse } from '../../api/services/formService';
 import WorkAreaLayoutModal from './WorkAreaLayoutModal';
-import type { WorkAreaLayout } from '../../stores/formBuilderStore';
+import FormValidatorModal from './FormValidatorModal';
+import CacheInspectorModal from './CacheInspectorModal';
+import type { StoredFormRef, WorkAreaLayout } from '../../stores/formBuilderStore';
+import type { ComponentDefinition } from '../../stores/types';
 
 const BuilderHeader: React.FC = () => {
   const { t } = useTranslation();
-  const { formMode, toggleFormMode, setPreviewMode, previewMode, setComponents, components, canvasMode, setCanvasMode, workAreaLayout, setWorkAreaLayout } = useFormBuilderStore();
+  const { formMode, toggleFormMode, setPreviewMode, previewMode, setComponents, components, canvasMode, setCanvasMode, workAreaLayout, setWorkAreaLayout, formSettings, setFormSettings, storedForm, setStoredForm } = useFormBuilderStore();
   const { undo, redo, canUndo, canRedo } = useHistoryStore();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [saveDialogOpen, setSaveDialogOpen] = useState(false);
   const [layoutModalOpen, setLayoutModalOpen] = useState(false);
+  const [validatorModalOpen, setValidatorModalOpen] = useState(false);
+  const [cacheModalOpen, setCacheModalOpen] = useState(false);
+  const [historyModalOpen, setHistoryModalOpen] = useState(false);
+  // Conflicting storage save waiting for a merge
+  const [mergeState, setMergeState] = useState<{
+    metadata: SaveFormMetadata;
+    base: StoredFormRef;
+    mine: ComponentDefinition[];
+    current: FormResponse;
+  } | null>(null);
   
   // Advanced Mode
   const advancedMode = useModeStore((state) => state.advancedMode);
@@ -65,27 +84,64 @@ const BuilderHeader: React.FC = () => {
     setSaveDialogOpen(true);
   };
 
-  const handleSave = (metadata: {
-    formName: string;
-    description?: string;
-    author?: string;
-  }) => {
+  // Use Standard React Form Builder format (clean format without prop wrapping)
+  const toStandardForm = (formComponents: ComponentDefinition[], metadata: SaveFormMetadata) =>
+    exportAsStandardFormat(formComponents, {
+      metadata: {
+        formName: metadata.formName,
+        description: metadata.description,
+        author: metadata.author,
+        formVersion: '1.0',
+      },
+      defaultLanguage: 'al',
+      languages: [
+        { code: 'al', name: 'Albanian' },
+        { code: 'en-US', name: 'English (US)' },
+      ],
+      formValidator: formSettings.formValidator,
+      validateOnChange: formSettings.validateOnChange,
+      workAreaLayout,
+    });
+
+  // Form storage: every save is a new revision, based on the stored version the canvas started from
+  const saveToStorage = async (formComponents: ComponentDefinition[], metadata: SaveFormMetadata, base: StoredFormRef | null) => {
+    const request = {
+      formName: metadata.formName,
+      description: metadata.description,
+      formData: toStandardForm(formComponents, metadata),
+      message: metadata.message,
+      baseRevision: base?.revision,
+      baseUpdatedAt: base?.updatedAt,
+    };
     try {
-      // Use Standard React Form Builder format (clean format without prop wrapping)
-      const standardForm = exportAsStandardFormat(components, {
-        metadata: {
-          formName: metadata.formName,
-          description: metadata.description,
-          author: metadata.author,
-          formVersion: '1.0',
-        },
-        defaultLanguage: 'al',
-        languages: [
-          { code: 'al', name: 'Albanian' },
-          { code: 'en-US', name: 'English (US)' },
-        ],
+      const saved = base
+        ? await formService.updateForm(base.id, request)
+        : await formService.saveForm(request);
+      setStoredForm({
+        id: saved.id,
+        formName: saved.formName,
+        description: saved.description,
+        revision: saved.revision,
+        updatedAt: saved.updatedAt,
       });
-      
+    } catch (error) {
+      // Changed by someone else meanwhile - merge before saving again
+      if (error instanceof FormConflictError && base && error.current) {
+        setMergeState({ metadata, base, mine: formComponents, current: error.current });
+        return;
+      }
+      throw error;
+    }
+  };
+
+  const handleSave = async (metadata: SaveFormMetadata) => {
+    try {
+      if (metadata.destination === 'storage') {
+        await saveToStorage(components, metadata, metadata.asNew ? null : storedForm);
+        return;
+      }
+
+      const standardForm = toStandardForm(components, metadata);
       const dataStr = JSON.stringify(standardForm, null, 2);
       const dataBlob = new Blob([dataStr], { type: 'application/json' });
       const url = URL.createObjectURL(dataBlob);
@@ -99,6 +155,25 @@ const BuilderHeader: React.FC = () => {
     }
   };
 
+  // Save the merged components on top of the version that caused the conflict
+  const handleMerge = async (merged: ComponentDefinition[]) => {
+    if (!mergeState) return;
+    const { metadata, current } = mergeState;
+    setMergeState(null);
+    setComponents(merged);
+    try {
+      await saveToStorage(merged, metadata, {
+        id: current.id,
+        formName: current.formName,
+        description: current.description,
+        revision: current.revision,
+        updatedAt: current.updatedAt,
+      });
+    } catch (error) {
+      alert(`Failed to save form: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
   const handleLoad = () => {
     fileInputRef.current?.click();
   };
@@ -107,8 +182,14 @@ const BuilderHeader: React.FC = () => {
     const file = event.target.files?.[0];
     if (file) {
       try {
-        const importedComponents = await readFormFromFile(file);
-        setComponents(importedComponents);
+        const { components: importedComponents, settings, workAreaLayout: importedLayout } = await readFormFileWithSettings(file);
+        setWorkAreaLayout(importedLayout, importedComponents);
+        setFormSettings({
+          formValidator: settings.formValidator,
+          validateOnChange: settings.validateOnChange,
+        });
+        // File-based form - not linked to stored history
+        setStoredForm(null);
         // Clear file input so same file can be selected again
         if (fileInputRef.current) {
           fileInputRef.current.value = '';
@@ -256,6 +337,47 @@ const BuilderHeader: React.FC = () => {
             </IconButton>
           </Tooltip>
 
+          {/* Form Validator Button */}
+          <Tooltip title={formSettings.formValidator ? 'Edit Form Validator' : 'Add Form Validator'}>
+            <IconButton
+              color="inherit"
+              onClick={() => setValidatorModalOpen(true)}
+              size="small"
+              sx={{
+                border: formSettings.formValidator ? '2px solid rgba(76, 175, 80, 0.8)' : '1px dashed rgba(255,255,255,0.5)',
+                bgcolor: formSettings.formValidator ? 'rgba(76, 175, 80, 0.2)' : 'transparent',
+                transition: 'all 0.3s ease',
+                '&:hover': {
+                  bgcolor: 'rgba(255,255,255,0.2)',
+                  transform: 'scale(1.1)',
+                },
+              }}
+            >
+              <ValidatorIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+
+          {/* Data Cache Inspector (developer feature) */}
+          {advancedMode && (
+            <Tooltip title="Data Cache Inspector">
+              <IconButton
+                color="inherit"
+                onClick={() => setCacheModalOpen(true)}
+                size="small"
+                sx={{
+                  border: '1px dashed rgba(255,255,255,0.5)',
+                  transition: 'all 0.3s ease',
+                  '&:hover': {
+                    bgcolor: 'rgba(255,255,255,0.2)',
+                    transform: 'scale(1.1)',
+                  },
+                }}
+              >
+                <CacheIcon fontSize="small" />
+              </IconButton>
+            </Tooltip>
+          )}
+
           <Box sx={{ width: 1, height: 20, bgcolor: 'rgba(255,255,255,0.25)', mx: 0.5 }} />
 
           {/* Canvas Mode Toggle */}
@@ -372,6 +494,21 @@ const BuilderHeader: React.FC = () => {
             style={{ display: 'none' }}
             onChange={handleFileChange}
           />
+          <IconButton
+            color="inherit"
+            title={storedForm ? `Revision History: ${storedForm.formName}` : 'Stored Forms & Revision History'}
+            size="small"
+            onClick={() => setHistoryModalOpen(true)}
+            sx={{
+              transition: 'all 0.2s ease',
+              '&:hover': {
+                transform: 'scale(1.15)',
+                bgcolor: 'rgba(255,255,255,0.2)',
+              },
+            }}
+          >
+            <HistoryIcon fontSize="small" />
+          </IconButton>
           
           {/* Advanced Mode Toggle */}
           <Tooltip title={advancedMode ? "Switch to Simple Mode" : "Switch to Advanced Mode (Shows developer features)"}>
@@ -409,6 +546,28 @@ const BuilderHeader: React.FC = () => {
         onSelect={(layout) => setWorkAreaLayout(layout)}
         currentLayoutId={workAreaLayout?.id}
       />
+      <FormValidatorModal
+        open={validatorModalOpen}
+        onClose={() => setValidatorModalOpen(false)}
+      />
+      <CacheInspectorModal
+        open={cacheModalOpen}
+        onClose={() => setCacheModalOpen(false)}
+      />
+      <FormHistoryModal
+        open={historyModalOpen}
+        onClose={() => setHistoryModalOpen(false)}
+      />
+      {mergeState && (
+        <FormMergeModal
+          open
+          base={mergeState.base}
+          mine={mergeState.mine}
+          current={mergeState.current}
+          onCancel={() => setMergeState(null)}
+          onMerge={handleMerge}
+        />
+      )}
     </AppBar>
   );
 };
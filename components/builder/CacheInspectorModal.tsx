@@ -0,0 +1,163 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  IconButton,
+  Typography,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  Chip,
+  Tooltip,
+} from '@mui/material';
+import { Close as CloseIcon, Delete as DeleteIcon, Storage as CacheIcon } from '@mui/icons-material';
+import { dataCache, type CacheEntryInfo } from '../../utils/cache/dataCache';
+
+interface CacheInspectorModalProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const formatDuration = (ms: number): string => {
+  const seconds = Math.round(Math.abs(ms) / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+  return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+};
+
+const formatSize = (size: number): string => (size < 1024 ? `${size} B` : `${(size / 1024).toFixed(1)} KB`);
+
+const CacheInspectorModal: React.FC<CacheInspectorModalProps> = ({ open, onClose }) => {
+  const [entries, setEntries] = useState<CacheEntryInfo[]>([]);
+  const [inflight, setInflight] = useState<string[]>([]);
+
+  // Refresh on cache changes, and every second for the ages
+  useEffect(() => {
+    if (!open) return;
+    const refresh = () => {
+      setEntries(dataCache.getEntries());
+      setInflight(dataCache.getStats().inflight);
+    };
+    refresh();
+    const unsubscribe = dataCache.subscribe(refresh);
+    const timer = window.setInterval(refresh, 1000);
+    return () => {
+      unsubscribe();
+      window.clearInterval(timer);
+    };
+  }, [open]);
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth PaperProps={{ sx: { maxHeight: '90vh' } }}>
+      <DialogTitle>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <CacheIcon color="primary" />
+            <span>Data Cache</span>
+            <Chip label={`${entries.length} entries`} size="small" />
+          </Box>
+          <IconButton size="small" onClick={onClose} sx={{ ml: 2 }}>
+            <CloseIcon />
+          </IconButton>
+        </Box>
+      </DialogTitle>
+
+      <DialogContent dividers>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+          <Typography variant="body2" color="text.secondary">
+            Cached dataview data, fields and API specs. Stale entries are still served while they are refetched.
+            Click a tag to invalidate every entry with it.
+          </Typography>
+
+          {inflight.length > 0 && (
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, alignItems: 'center' }}>
+              <Typography variant="caption" sx={{ fontWeight: 600, mr: 0.5 }}>
+                Loading:
+              </Typography>
+              {inflight.map((key) => (
+                <Chip key={key} label={key} size="small" color="info" variant="outlined" />
+              ))}
+            </Box>
+          )}
+
+          {entries.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              The cache is empty
+            </Typography>
+          ) : (
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Key</TableCell>
+                  <TableCell>Age</TableCell>
+                  <TableCell>Expires</TableCell>
+                  <TableCell>Tags</TableCell>
+                  <TableCell align="right">Size</TableCell>
+                  <TableCell>Stored</TableCell>
+                  <TableCell />
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {entries.map((entry) => (
+                  <TableRow key={entry.key} hover>
+                    <TableCell sx={{ fontFamily: 'monospace', fontSize: '0.75rem', wordBreak: 'break-all' }}>
+                      {entry.key}
+                    </TableCell>
+                    <TableCell sx={{ whiteSpace: 'nowrap' }}>{formatDuration(entry.age)}</TableCell>
+                    <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                      {entry.expiresIn === undefined ? (
+                        '-'
+                      ) : entry.stale ? (
+                        <Chip label={`stale ${formatDuration(entry.expiresIn)}`} size="small" color="warning" />
+                      ) : (
+                        `in ${formatDuration(entry.expiresIn)}`
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+                        {entry.tags.map((tag) => (
+                          <Tooltip key={tag} title={`Invalidate all "${tag}" entries`}>
+                            <Chip label={tag} size="small" onClick={() => dataCache.invalidateTag(tag)} />
+                          </Tooltip>
+                        ))}
+                      </Box>
+                    </TableCell>
+                    <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                      {formatSize(entry.size)}
+                    </TableCell>
+                    <TableCell>{entry.persisted ? 'memory + local' : 'memory'}</TableCell>
+                    <TableCell padding="checkbox">
+                      <IconButton size="small" onClick={() => dataCache.delete(entry.key)}>
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </Box>
+      </DialogContent>
+
+      <DialogActions sx={{ px: 3, py: 2 }}>
+        <Button onClick={() => dataCache.clearExpired()} variant="outlined">
+          Clear Expired
+        </Button>
+        <Button onClick={() => dataCache.clear()} variant="outlined" color="error">
+          Clear All
+        </Button>
+        <Button onClick={onClose} variant="contained" color="primary">
+          Close
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default CacheInspectorModal;
@@ -13,6 +13,7 @@ import {
 } from '@mui/material';
 import type { ComponentProperty } from '../../stores/types/formEngine';
 import { ComputedPropertyEvaluator } from '../../utils/properties/computedProperties';
+import { ExpressionEngine } from '../../utils/expressions/expressionEngine';
 
 interface ComputedPropertyEditorProps {
   propertyKey: string;
@@ -85,6 +86,9 @@ const ComputedPropertyEditor: React.FC<ComputedPropertyEditorProps> = ({
     });
   };
 
+  // Sources outside the sandboxed grammar fall back to plain JavaScript
+  const sandboxError = property?.fnSource ? ExpressionEngine.check(property.fnSource, 'body') : null;
+
   return (
     <Box>
       <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1.5 }}>
@@ -138,6 +142,11 @@ const ComputedPropertyEditor: React.FC<ComputedPropertyEditorProps> = ({
               Error: {previewError}
             </Alert>
           )}
+          {sandboxError && (
+            <Alert severity="warning" sx={{ mt: 1 }}>
+              Not supported by the expression sandbox ({sandboxError}). It runs as plain JavaScript and is refused in strict mode.
+            </Alert>
+          )}
         </Box>
       )}
 
@@ -0,0 +1,381 @@
+/**
+ * Condition Rule Builder
+ * No-code editor for DependencyCondition trees: field comparisons in nested all/any/not groups.
+ * It edits the condition JSON itself, which the JSON view shows and accepts back.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Box,
+  Typography,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  ToggleButtonGroup,
+  ToggleButton,
+  Button,
+  IconButton,
+  Alert,
+} from '@mui/material';
+import { Add as AddIcon, Delete as DeleteIcon, AccountTree as GroupIcon } from '@mui/icons-material';
+import type { ComponentDefinition, DependencyCondition } from '../../stores/types';
+import { useFormBuilderStore } from '../../stores/formBuilderStore';
+
+type ConditionOperator = NonNullable<DependencyCondition['operator']>;
+type GroupType = 'all' | 'any' | 'not';
+
+export const CONDITION_OPERATORS: Record<ConditionOperator, string> = {
+  equals: 'Equals',
+  notEquals: 'Not Equals',
+  contains: 'Contains',
+  notContains: 'Not Contains',
+  gt: 'Greater Than',
+  gte: 'Greater Than or Equal',
+  lt: 'Less Than',
+  lte: 'Less Than or Equal',
+  empty: 'Is Empty',
+  notEmpty: 'Is Not Empty',
+  in: 'In Array',
+  notIn: 'Not In Array',
+};
+
+const GROUP_LABELS: Record<GroupType, string> = {
+  all: 'All of',
+  any: 'Any of',
+  not: 'Not',
+};
+
+// Operators without a compare value / with a list of values
+const UNARY_OPERATORS: ConditionOperator[] = ['empty', 'notEmpty'];
+const LIST_OPERATORS: ConditionOperator[] = ['in', 'notIn'];
+
+/**
+ * dataKeys of the form's components, sorted (the fields rules can compare)
+ */
+export const useFormDataKeys = (): string[] => {
+  const { components } = useFormBuilderStore();
+  return useMemo(() => {
+    const fields = new Set<string>();
+    const extractFields = (comps: ComponentDefinition[]) => {
+      comps.forEach((comp) => {
+        if (comp.props?.dataKey) {
+          fields.add(comp.props.dataKey);
+        }
+        if (comp.children) {
+          extractFields(comp.children);
+        }
+      });
+    };
+    extractFields(components);
+    return Array.from(fields).sort();
+  }, [components]);
+};
+
+export const isConditionGroup = (condition?: DependencyCondition): boolean =>
+  condition?.type === 'all' || condition?.type === 'any' || condition?.type === 'not';
+
+/**
+ * Whether a tree holds a Not group without conditions (nothing to negate)
+ */
+export const hasEmptyNotGroup = (condition?: DependencyCondition): boolean =>
+  Boolean(condition) &&
+  ((condition!.type === 'not' && (condition!.conditions || []).length === 0) ||
+    (condition!.conditions || []).some(hasEmptyNotGroup));
+
+// "true"/"false" and numbers are typed, everything else stays text
+const parseScalar = (text: string): any => {
+  if (text === 'true') return true;
+  if (text === 'false') return false;
+  if (text.trim() !== '' && !isNaN(Number(text))) return Number(text);
+  return text;
+};
+
+/**
+ * Compare value typed in a text field (comma separated for in/notIn)
+ */
+export const parseCompareValue = (text: string, operator?: ConditionOperator): any =>
+  operator && LIST_OPERATORS.includes(operator)
+    ? text.split(',').map((item) => parseScalar(item.trim()))
+    : parseScalar(text);
+
+const formatCompareValue = (value: any): string =>
+  Array.isArray(value) ? value.join(', ') : value === undefined ? '' : String(value);
+
+const newRule = (fields: string[]): DependencyCondition => ({
+  type: 'fieldValue',
+  field: fields[0] || '',
+  operator: 'notEmpty',
+});
+
+// Compare value field - keeps the typed text ("1." or "a, ") while the condition holds the parsed value
+const CompareValueField: React.FC<{
+  value: any;
+  operator?: ConditionOperator;
+  onChange: (value: any) => void;
+}> = ({ value, operator, onChange }) => {
+  const [text, setText] = useState(formatCompareValue(value));
+
+  useEffect(() => {
+    if (JSON.stringify(parseCompareValue(text, operator)) !== JSON.stringify(value)) {
+      setText(formatCompareValue(value));
+    }
+  }, [value, operator]);
+
+  return (
+    <TextField
+      label={operator && LIST_OPERATORS.includes(operator) ? 'Values (comma separated)' : 'Value'}
+      value={text}
+      onChange={(e) => {
+        setText(e.target.value);
+        onChange(parseCompareValue(e.target.value, operator));
+      }}
+      size="small"
+      sx={{ flex: 1 }}
+    />
+  );
+};
+
+interface ConditionNodeProps {
+  condition: DependencyCondition;
+  fields: string[];
+  depth: number;
+  onChange: (condition: DependencyCondition) => void;
+  onRemove?: () => void;
+}
+
+// Field comparison, or an expression/function written elsewhere (kept and editable as text)
+const RuleNode: React.FC<ConditionNodeProps> = ({ condition, fields, onChange, onRemove }) => {
+  const update = (updates: Partial<DependencyCondition>) => onChange({ ...condition, ...updates });
+  // Paths typed in JSON may not be among the form's dataKeys
+  const fieldOptions = condition.field && !fields.includes(condition.field) ? [condition.field, ...fields] : fields;
+
+  return (
+    <Box sx={{ display: 'flex', gap: 1, alignItems: 'flex-start' }}>
+      {condition.type === 'fieldValue' ? (
+        <Box sx={{ flex: 1, display: 'flex', flexDirection: 'column', gap: 1 }}>
+          <FormControl fullWidth size="small">
+            <InputLabel>Field</InputLabel>
+            <Select value={condition.field || ''} label="Field" onChange={(e) => update({ field: e.target.value })}>
+              {fieldOptions.map((field) => (
+                <MenuItem key={field} value={field}>
+                  {field}
+                </MenuItem>
+              ))}
+              {fieldOptions.length === 0 && <MenuItem disabled>No fields available (set dataKey on components)</MenuItem>}
+            </Select>
+          </FormControl>
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <FormControl size="small" sx={{ flex: 1 }}>
+              <InputLabel>Operator</InputLabel>
+              <Select
+                value={condition.operator || 'notEmpty'}
+                label="Operator"
+                onChange={(e) => {
+                  const operator = e.target.value as ConditionOperator;
+                  update({
+                    operator,
+                    value: UNARY_OPERATORS.includes(operator)
+                      ? undefined
+                      : parseCompareValue(formatCompareValue(condition.value), operator),
+                  });
+                }}
+              >
+                {(Object.keys(CONDITION_OPERATORS) as ConditionOperator[]).map((operator) => (
+                  <MenuItem key={operator} value={operator}>
+                    {CONDITION_OPERATORS[operator]}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            {condition.operator && !UNARY_OPERATORS.includes(condition.operator) && (
+              <CompareValueField
+                value={condition.value}
+                operator={condition.operator}
+                onChange={(value) => update({ value })}
+              />
+            )}
+          </Box>
+        </Box>
+      ) : (
+        <TextField
+          label={condition.type === 'function' ? 'Function' : 'Expression'}
+          value={(condition.type === 'function' ? condition.fnSource : condition.expression) || ''}
+          onChange={(e) =>
+            update(condition.type === 'function' ? { fnSource: e.target.value } : { expression: e.target.value })
+          }
+          size="small"
+          fullWidth
+          multiline
+          InputProps={{ sx: { fontFamily: 'monospace', fontSize: '0.75rem' } }}
+        />
+      )}
+      {onRemove && (
+        <IconButton size="small" onClick={onRemove} title="Remove rule">
+          <DeleteIcon fontSize="small" />
+        </IconButton>
+      )}
+    </Box>
+  );
+};
+
+const GroupNode: React.FC<ConditionNodeProps> = ({ condition, fields, depth, onChange, onRemove }) => {
+  const conditions = condition.conditions || [];
+  const setConditions = (next: DependencyCondition[]) => onChange({ ...condition, conditions: next });
+
+  const handleTypeChange = (type: GroupType) => {
+    // Not negates "all of" its conditions - it needs at least one
+    if (type === 'not' && conditions.length === 0) {
+      onChange({ ...condition, type, conditions: [newRule(fields)] });
+    } else {
+      onChange({ ...condition, type });
+    }
+  };
+
+  // The last condition of a Not group can't be removed
+  const canRemoveNested = condition.type !== 'not' || conditions.length > 1;
+
+  return (
+    <Box
+      sx={{
+        borderLeft: 3,
+        borderColor: depth % 2 === 0 ? 'primary.main' : 'secondary.main',
+        pl: 1.5,
+        py: 0.5,
+        display: 'flex',
+        flexDirection: 'column',
+        gap: 1,
+      }}
+    >
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <ToggleButtonGroup
+          value={condition.type}
+          exclusive
+          size="small"
+          onChange={(_, type) => type && handleTypeChange(type)}
+        >
+          {(Object.keys(GROUP_LABELS) as GroupType[]).map((type) => (
+            <ToggleButton key={type} value={type} sx={{ fontSize: '0.7rem', py: 0.25 }}>
+              {GROUP_LABELS[type]}
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+        <Box sx={{ flex: 1 }} />
+        {onRemove && (
+          <IconButton size="small" onClick={onRemove} title="Remove group">
+            <DeleteIcon fontSize="small" />
+          </IconButton>
+        )}
+      </Box>
+
+      {conditions.length === 0 && (
+        <Typography variant="caption" color="text.secondary">
+          {condition.type === 'any' ? 'No rules - never true' : 'No rules - always true'}
+        </Typography>
+      )}
+
+      {conditions.map((nested, index) => (
+        <ConditionNode
+          key={index}
+          condition={nested}
+          fields={fields}
+          depth={depth + 1}
+          onChange={(updated) => setConditions(conditions.map((item, i) => (i === index ? updated : item)))}
+          onRemove={canRemoveNested ? () => setConditions(conditions.filter((_, i) => i !== index)) : undefined}
+        />
+      ))}
+
+      <Box sx={{ display: 'flex', gap: 1 }}>
+        <Button size="small" startIcon={<AddIcon />} onClick={() => setConditions([...conditions, newRule(fields)])}>
+          Rule
+        </Button>
+        <Button
+          size="small"
+          startIcon={<GroupIcon />}
+          onClick={() => setConditions([...conditions, { type: 'any', conditions: [newRule(fields)] }])}
+        >
+          Group
+        </Button>
+      </Box>
+    </Box>
+  );
+};
+
+const ConditionNode: React.FC<ConditionNodeProps> = (props) =>
+  isConditionGroup(props.condition) ? <GroupNode {...props} /> : <RuleNode {...props} />;
+
+interface ConditionRuleBuilderProps {
+  // Root group (all/any/not)
+  condition: DependencyCondition;
+  // dataKeys to pick fields from
+  fields: string[];
+  onChange: (condition: DependencyCondition) => void;
+}
+
+const ConditionRuleBuilder: React.FC<ConditionRuleBuilderProps> = ({ condition, fields, onChange }) => {
+  const [view, setView] = useState<'rules' | 'json'>('rules');
+  const [jsonText, setJsonText] = useState('');
+  const [jsonError, setJsonError] = useState<string | null>(null);
+
+  const showJson = () => {
+    setJsonText(JSON.stringify(condition, null, 2));
+    setJsonError(null);
+    setView('json');
+  };
+
+  const handleJsonChange = (text: string) => {
+    setJsonText(text);
+    try {
+      const parsed = JSON.parse(text);
+      if (!isConditionGroup(parsed)) {
+        throw new Error('The root must be a group: { "type": "all" | "any" | "not", "conditions": [...] }');
+      }
+      if (hasEmptyNotGroup(parsed)) {
+        throw new Error('A "not" group needs at least one condition');
+      }
+      setJsonError(null);
+      onChange(parsed);
+    } catch (error) {
+      setJsonError(error instanceof Error ? error.message : 'Invalid JSON');
+    }
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+      <ToggleButtonGroup
+        value={view}
+        exclusive
+        size="small"
+        onChange={(_, value) => (value === 'json' ? showJson() : value && setView(value))}
+        sx={{ alignSelf: 'flex-end' }}
+      >
+        <ToggleButton value="rules" sx={{ fontSize: '0.7rem', py: 0.25 }}>Rules</ToggleButton>
+        <ToggleButton value="json" sx={{ fontSize: '0.7rem', py: 0.25 }}>JSON</ToggleButton>
+      </ToggleButtonGroup>
+
+      {view === 'rules' ? (
+        <ConditionNode condition={condition} fields={fields} depth={0} onChange={onChange} />
+      ) : (
+        <>
+          <TextField
+            value={jsonText}
+            onChange={(e) => handleJsonChange(e.target.value)}
+            size="small"
+            fullWidth
+            multiline
+            minRows={6}
+            InputProps={{ sx: { fontFamily: 'monospace', fontSize: '0.75rem' } }}
+          />
+          {jsonError && (
+            <Alert severity="error" sx={{ fontSize: '0.75rem' }}>
+              {jsonError}
+            </Alert>
+          )}
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default ConditionRuleBuilder;
@@ -11,10 +11,15 @@ import {
   ToggleButton,
   Alert,
 } from '@mui/material';
+import type { DependencyCondition } from '../../stores/types';
 import type { ComponentProperty } from '../../stores/types/formEngine';
 import { ConditionalRenderer } from '../../utils/rendering/conditionalRendering';
+import { ExpressionEngine } from '../../utils/expressions/expressionEngine';
 import { useModeStore } from '../../stores/modeStore';
 import { CONDITIONAL_RENDERING_MODES_CLASSIFICATION, isFeatureAvailable } from '../../utils/modes/featureClassification';
+import ConditionRuleBuilder, { useFormDataKeys } from './ConditionRuleBuilder';
+
+type RenderMode = 'always' | 'rules' | 'expression' | 'function';
 
 interface ConditionalRenderingEditorProps {
   renderWhen?: ComponentProperty<boolean>;
@@ -28,20 +33,27 @@ const ConditionalRenderingEditor: React.FC<ConditionalRenderingEditorProps> = ({
   onChange,
 }) => {
   const advancedMode = useModeStore((state) => state.advancedMode);
-  const [mode, setMode] = useState<'always' | 'expression' | 'function'>(
+  const availableFields = useFormDataKeys();
+  const [mode, setMode] = useState<RenderMode>(
     !renderWhen ? 'always' :
     renderWhen.computeType === 'function' ? 'function' :
+    renderWhen.computeType === 'condition' ? 'rules' :
     'expression'
   );
 
   const [previewResult, setPreviewResult] = useState<boolean | null>(null);
   const [previewError, setPreviewError] = useState<string | null>(null);
 
-  const handleModeChange = (newMode: 'always' | 'expression' | 'function') => {
+  const handleModeChange = (newMode: RenderMode) => {
     setMode(newMode);
     
     if (newMode === 'always') {
       onChange({ value: true });
+    } else if (newMode === 'rules') {
+      onChange({
+        computeType: 'condition',
+        condition: renderWhen?.condition || { type: 'all', conditions: [] },
+      });
     } else if (newMode === 'expression') {
       onChange({
         value: renderWhen?.value ?? true,
@@ -91,6 +103,18 @@ const ConditionalRenderingEditor: React.FC<ConditionalRenderingEditorProps> = ({
     }
   };
 
+  const handleConditionChange = (condition: DependencyCondition) => {
+    onChange({ computeType: 'condition', condition });
+  };
+
+  // Rules are previewed against the current form data
+  const rulesResult = mode === 'rules' && renderWhen?.condition
+    ? ConditionalRenderer.shouldRender(renderWhen, formData)
+    : null;
+
+  // Sources outside the sandboxed grammar fall back to plain JavaScript
+  const sandboxError = renderWhen?.fnSource ? ExpressionEngine.check(renderWhen.fnSource, 'body') : null;
+
   return (
     <Box>
       <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1.5 }}>
@@ -104,6 +128,9 @@ const ConditionalRenderingEditor: React.FC<ConditionalRenderingEditorProps> = ({
           size="small"
         >
           <ToggleButton value="always">Always</ToggleButton>
+          {isFeatureAvailable('rules', CONDITIONAL_RENDERING_MODES_CLASSIFICATION, advancedMode) && (
+            <ToggleButton value="rules">Rules</ToggleButton>
+          )}
           {isFeatureAvailable('expression', CONDITIONAL_RENDERING_MODES_CLASSIFICATION, advancedMode) && (
             <ToggleButton value="expression">Expression</ToggleButton>
           )}
@@ -117,6 +144,21 @@ const ConditionalRenderingEditor: React.FC<ConditionalRenderingEditorProps> = ({
         <Alert severity="info">Component will always render</Alert>
       )}
 
+      {mode === 'rules' && (
+        <Box>
+          <ConditionRuleBuilder
+            condition={renderWhen?.condition || { type: 'all', conditions: [] }}
+            fields={availableFields}
+            onChange={handleConditionChange}
+          />
+          {rulesResult !== null && (
+            <Alert severity={rulesResult ? 'success' : 'warning'} sx={{ mt: 1 }}>
+              {rulesResult ? 'Component will render' : 'Component will be hidden'}
+            </Alert>
+          )}
+        </Box>
+      )}
+
       {mode === 'expression' && (
         <Box>
           <TextField
@@ -166,6 +208,11 @@ const ConditionalRenderingEditor: React.FC<ConditionalRenderingEditorProps> = ({
               Error: {previewError}
             </Alert>
           )}
+          {sandboxError && (
+            <Alert severity="warning" sx={{ mt: 1 }}>
+              Not supported by the expression sandbox ({sandboxError}). It runs as plain JavaScript and is refused in strict mode.
+            </Alert>
+          )}
         </Box>
       )}
     </Box>
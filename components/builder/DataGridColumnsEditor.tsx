@@ -0,0 +1,210 @@
+/**
+ * DataGrid Columns Editor
+ * Per-column cell editor, select options, default value and validation rules of an editable DataGrid
+ */
+
+import React, { useState } from 'react';
+import {
+  Box,
+  Typography,
+  TextField,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  Select,
+  MenuItem,
+  Switch,
+  Accordion,
+  AccordionSummary,
+  AccordionDetails,
+  Chip,
+} from '@mui/material';
+import { ExpandMore as ExpandMoreIcon } from '@mui/icons-material';
+import type { DataGridColumn, DataGridEditorType } from '../../stores/types';
+import { GridEditing } from '../../utils/data/gridEditing';
+import ValidationEditor from './ValidationEditor';
+
+interface DataGridColumnsEditorProps {
+  // columns prop (plain field names are converted on change)
+  columns: any[];
+  dataviews: Array<{ id: string; name?: string }>;
+  onChange: (columns: DataGridColumn[]) => void;
+}
+
+const EDITOR_LABELS: Record<DataGridEditorType, string> = {
+  text: 'Text',
+  number: 'Number',
+  select: 'Select',
+  date: 'Date',
+  checkbox: 'Checkbox',
+};
+
+const DataGridColumnsEditor: React.FC<DataGridColumnsEditorProps> = ({ columns, dataviews, onChange }) => {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  // Options JSON as typed (applied once it parses)
+  const [optionsText, setOptionsText] = useState<Record<string, string>>({});
+  const normalized = GridEditing.toColumns(columns);
+
+  const updateColumn = (index: number, updates: Partial<DataGridColumn>) => {
+    const next = [...normalized];
+    next[index] = { ...next[index], ...updates };
+    // Cleared settings are removed rather than saved as undefined
+    Object.keys(updates).forEach((key) => {
+      const value = (next[index] as any)[key];
+      if (value === undefined || value === '') delete (next[index] as any)[key];
+    });
+    onChange(next);
+  };
+
+  if (normalized.length === 0) {
+    return (
+      <Typography variant="caption" color="text.secondary">
+        Define columns to configure their editors
+      </Typography>
+    );
+  }
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+      {normalized.map((col, index) => (
+        <Accordion
+          key={col.field}
+          expanded={expanded === col.field}
+          onChange={() => setExpanded(expanded === col.field ? null : col.field)}
+          sx={{ border: '1px solid', borderColor: 'divider' }}
+          disableGutters
+        >
+          <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, width: '100%' }}>
+              <Typography variant="body2" noWrap sx={{ flexGrow: 1 }}>
+                {col.headerName || col.field}
+              </Typography>
+              <Chip
+                label={col.editor ? EDITOR_LABELS[col.editor] : 'Read-only'}
+                size="small"
+                color={col.editor ? 'primary' : 'default'}
+                sx={{ fontSize: '0.7rem', height: 20 }}
+              />
+              {col.required && <Chip label="Required" size="small" sx={{ fontSize: '0.7rem', height: 20 }} />}
+            </Box>
+          </AccordionSummary>
+          <AccordionDetails>
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+              <FormControl fullWidth size="small">
+                <InputLabel>Editor</InputLabel>
+                <Select
+                  value={col.editor || ''}
+                  label="Editor"
+                  onChange={(e) => updateColumn(index, { editor: (e.target.value || undefined) as DataGridEditorType | undefined })}
+                >
+                  <MenuItem value="">
+                    <em>None (read-only)</em>
+                  </MenuItem>
+                  {(Object.keys(EDITOR_LABELS) as DataGridEditorType[]).map((editor) => (
+                    <MenuItem key={editor} value={editor}>
+                      {EDITOR_LABELS[editor]}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+
+              {col.editor && (
+                <>
+                  <FormControlLabel
+                    control={
+                      <Switch
+                        checked={Boolean(col.required)}
+                        onChange={(e) => updateColumn(index, { required: e.target.checked || undefined })}
+                        size="small"
+                      />
+                    }
+                    label="Required"
+                  />
+                  {col.editor !== 'checkbox' && (
+                    <TextField
+                      label="Default Value"
+                      size="small"
+                      fullWidth
+                      value={col.defaultValue ?? ''}
+                      onChange={(e) => updateColumn(index, { defaultValue: GridEditing.coerce(e.target.value, col.editor) ?? undefined })}
+                      helperText="Value of this column in added rows"
+                    />
+                  )}
+                </>
+              )}
+
+              {col.editor === 'select' && (
+                <>
+                  <FormControl fullWidth size="small">
+                    <InputLabel>Options Dataview</InputLabel>
+                    <Select
+                      value={col.dataview || ''}
+                      label="Options Dataview"
+                      onChange={(e) => updateColumn(index, { dataview: e.target.value || undefined })}
+                    >
+                      <MenuItem value="">
+                        <em>Static options</em>
+                      </MenuItem>
+                      {dataviews.map((dataview) => (
+                        <MenuItem key={dataview.id} value={dataview.id}>
+                          {dataview.name || dataview.id}
+                        </MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                  {col.dataview ? (
+                    <Box sx={{ display: 'flex', gap: 1 }}>
+                      <TextField
+                        label="Value Field"
+                        size="small"
+                        value={col.valueField || ''}
+                        placeholder="id"
+                        onChange={(e) => updateColumn(index, { valueField: e.target.value })}
+                      />
+                      <TextField
+                        label="Label Field"
+                        size="small"
+                        value={col.labelField || ''}
+                        placeholder="name"
+                        onChange={(e) => updateColumn(index, { labelField: e.target.value })}
+                      />
+                    </Box>
+                  ) : (
+                    <TextField
+                      label="Options (JSON)"
+                      size="small"
+                      fullWidth
+                      multiline
+                      rows={3}
+                      value={optionsText[col.field] ?? JSON.stringify(col.options || [], null, 2)}
+                      onChange={(e) => {
+                        setOptionsText({ ...optionsText, [col.field]: e.target.value });
+                        try {
+                          const parsed = JSON.parse(e.target.value);
+                          if (Array.isArray(parsed)) updateColumn(index, { options: parsed });
+                        } catch {
+                          // Keep typing until it parses
+                        }
+                      }}
+                      helperText='e.g. [{"value": "A", "label": "Option A"}]'
+                    />
+                  )}
+                </>
+              )}
+
+              {col.editor && (
+                <ValidationEditor
+                  schema={{ validations: col.validations || [] }}
+                  dataType={GridEditing.getDataType(col.editor)}
+                  onChange={(schema) => updateColumn(index, { validations: schema.validations.length > 0 ? schema.validations : undefined })}
+                />
+              )}
+            </Box>
+          </AccordionDetails>
+        </Accordion>
+      ))}
+    </Box>
+  );
+};
+
+export default DataGridColumnsEditor;
@@ -0,0 +1,83 @@
+/**
+ * Dataview Field Picker
+ * Autocomplete over a dataview's fields showing each field's type, format and description
+ */
+
+import React, { useMemo } from 'react';
+import { Autocomplete, TextField, Box, Typography } from '@mui/material';
+import type { DataviewField, DataviewFieldType } from '../../stores/types';
+import { DataviewFieldUtils } from '../../utils/dataviews/dataviewFields';
+
+interface DataviewFieldPickerProps {
+  label: string;
+  value: string;
+  // Field names (may include fields without metadata)
+  fields: string[];
+  metadata: DataviewField[];
+  // Types listed first (e.g. strings for a label field)
+  preferredTypes?: DataviewFieldType[];
+  onChange: (field: string) => void;
+}
+
+const DataviewFieldPicker: React.FC<DataviewFieldPickerProps> = ({
+  label,
+  value,
+  fields,
+  metadata,
+  preferredTypes = [],
+  onChange,
+}) => {
+  const byName = useMemo(() => new Map(metadata.map((field) => [field.name, field])), [metadata]);
+
+  // Preferred types first, otherwise field order
+  const options = useMemo(() => {
+    const rank = (name: string) => {
+      const type = byName.get(name)?.type;
+      const index = type ? preferredTypes.indexOf(type) : -1;
+      return index < 0 ? preferredTypes.length : index;
+    };
+    return [...fields].sort((a, b) => rank(a) - rank(b));
+  }, [fields, byName, preferredTypes]);
+
+  const selected = byName.get(value);
+
+  return (
+    <Autocomplete
+      freeSolo
+      autoSelect
+      size="small"
+      fullWidth
+      options={options}
+      value={value || null}
+      onChange={(_, newValue) => {
+        if (typeof newValue === 'string' && newValue !== value) onChange(newValue);
+      }}
+      renderOption={(props, option) => {
+        const field = byName.get(option);
+        return (
+          <Box component="li" {...props} key={option} title={field?.description}>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', width: '100%', gap: 1 }}>
+              <Typography variant="body2" noWrap>
+                {option}
+              </Typography>
+              {field && (
+                <Typography variant="caption" color="text.secondary" noWrap>
+                  {DataviewFieldUtils.describe(field)}
+                </Typography>
+              )}
+            </Box>
+          </Box>
+        );
+      }}
+      renderInput={(params) => (
+        <TextField
+          {...params}
+          label={label}
+          helperText={selected ? `${DataviewFieldUtils.describe(selected)}${selected.description ? ` - ${selected.description}` : ''}` : undefined}
+        />
+      )}
+    />
+  );
+};
+
+export default DataviewFieldPicker;
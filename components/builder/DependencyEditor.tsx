@@ -3,7 +3,7 @@
  * UI for configuring component dependencies
  * 
  * Supports:
- * - Conditional disabled/enabled states
+ * - Conditional disabled/enabled states (field value, rules in all/any/not groups, expression, function)
  * - Conditional visibility
  * - Data filtering (cascading dropdowns)
  * - Field reset on dependency change
@@ -11,7 +11,7 @@
  * - Conditional required state
  */
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import {
   Box,
   Typography,
@@ -42,11 +42,16 @@ import {
   Label as LabelIcon,
   Code as CodeIcon,
 } from '@mui/icons-material';
-import type { ComponentDependencies, DependencyCondition, FilterDependency, ComputedProperty } from '../../stores/types';
+import type { ComponentDependencies, DependencyCondition, FilterDependency, ComputedProperty, DataviewField } from '../../stores/types';
 import { useFormBuilderStore } from '../../stores/formBuilderStore';
 import { useFormDataStore } from '../../stores/formDataStore';
 import { DependencyEvaluator } from '../../utils/dependencies/dependencyEvaluator';
 import { useModeStore } from '../../stores/modeStore';
+import { getDataviewManager } from '../../utils/dataviews/dataviewManager';
+import DataviewFieldPicker from './DataviewFieldPicker';
+import ConditionRuleBuilder, { CONDITION_OPERATORS, isConditionGroup, useFormDataKeys } from './ConditionRuleBuilder';
+
+type ConditionMode = 'none' | 'fieldValue' | 'rules' | 'expression' | 'function';
 
 interface DependencyEditorProps {
   dependencies?: ComponentDependencies;
@@ -57,15 +62,16 @@ interface DependencyEditorProps {
 /**
  * Editor for a single dependency condition
  */
-const DependencyConditionEditor: React.FC<{
+export const DependencyConditionEditor: React.FC<{
   condition?: DependencyCondition;
   label: string;
   onChange: (condition: DependencyCondition | undefined) => void;
   formData?: Record<string, any>;
 }> = ({ condition, label, onChange, formData = {} }) => {
   const advancedMode = useModeStore((state) => state.advancedMode);
-  const [mode, setMode] = useState<'none' | 'fieldValue' | 'expression' | 'function'>(
+  const [mode, setMode] = useState<ConditionMode>(
     !condition ? 'none' :
+    isConditionGroup(condition) ? 'rules' :
     condition.type === 'function' ? 'function' :
     condition.type === 'expression' ? 'expression' :
     'fieldValue'
@@ -74,29 +80,22 @@ const DependencyConditionEditor: React.FC<{
   const [previewResult, setPreviewResult] = useState<any>(null);
   const [previewError, setPreviewError] = useState<string | null>(null);
 
-  // Get all components to list available dataKeys
-  const { components } = useFormBuilderStore();
-  const availableFields = useMemo(() => {
-    const fields = new Set<string>();
-    const extractFields = (comps: any[]) => {
-      comps.forEach((comp) => {
-        if (comp.props?.dataKey) {
-          fields.add(comp.props.dataKey);
-        }
-        if (comp.children) {
-          extractFields(comp.children);
-        }
-      });
-    };
-    extractFields(components);
-    return Array.from(fields).sort();
-  }, [components]);
+  // Available dataKeys
+  const availableFields = useFormDataKeys();
 
-  const handleModeChange = (newMode: 'none' | 'fieldValue' | 'expression' | 'function') => {
+  const handleModeChange = (newMode: ConditionMode) => {
     setMode(newMode);
     
     if (newMode === 'none') {
       onChange(undefined);
+    } else if (newMode === 'rules') {
+      // The current condition becomes the first rule
+      onChange({
+        type: 'all',
+        conditions: [condition && !isConditionGroup(condition)
+          ? condition
+          : { type: 'fieldValue', field: availableFields[0] || '', operator: 'notEmpty' }],
+      });
     } else if (newMode === 'fieldValue') {
       onChange({
         type: 'fieldValue',
@@ -180,6 +179,11 @@ const DependencyConditionEditor: React.FC<{
     }
   };
 
+  // Rules are previewed against the current form data
+  const rulesResult = mode === 'rules' && condition
+    ? Boolean(DependencyEvaluator.evaluateCondition(condition, { data: formData }))
+    : null;
+
   return (
     <Box>
       <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1.5 }}>
@@ -194,6 +198,7 @@ const DependencyConditionEditor: React.FC<{
         >
           <ToggleButton value="none">None</ToggleButton>
           <ToggleButton value="fieldValue">Field Value</ToggleButton>
+          <ToggleButton value="rules">Rules</ToggleButton>
           {advancedMode && <ToggleButton value="expression">Expression</ToggleButton>}
           {advancedMode && <ToggleButton value="function">Function</ToggleButton>}
         </ToggleButtonGroup>
@@ -232,18 +237,11 @@ const DependencyConditionEditor: React.FC<{
               label="Operator"
               onChange={(e) => handleFieldValueChange({ operator: e.target.value as any })}
             >
-              <MenuItem value="equals">Equals</MenuItem>
-              <MenuItem value="notEquals">Not Equals</MenuItem>
-              <MenuItem value="contains">Contains</MenuItem>
-              <MenuItem value="notContains">Not Contains</MenuItem>
-              <MenuItem value="gt">Greater Than</MenuItem>
-              <MenuItem value="gte">Greater Than or Equal</MenuItem>
-              <MenuItem value="lt">Less Than</MenuItem>
-              <MenuItem value="lte">Less Than or Equal</MenuItem>
-              <MenuItem value="empty">Is Empty</MenuItem>
-              <MenuItem value="notEmpty">Is Not Empty</MenuItem>
-              <MenuItem value="in">In Array</MenuItem>
-              <MenuItem value="notIn">Not In Array</MenuItem>
+              {Object.entries(CONDITION_OPERATORS).map(([operator, operatorLabel]) => (
+                <MenuItem key={operator} value={operator}>
+                  {operatorLabel}
+                </MenuItem>
+              ))}
             </Select>
           </FormControl>
 
@@ -275,6 +273,15 @@ const DependencyConditionEditor: React.FC<{
         </Box>
       )}
 
+      {mode === 'rules' && condition && isConditionGroup(condition) && (
+        <Box>
+          <ConditionRuleBuilder condition={condition} fields={availableFields} onChange={onChange} />
+          <Alert severity={rulesResult ? 'success' : 'warning'} sx={{ mt: 1 }}>
+            Rules evaluate to: {String(rulesResult)}
+          </Alert>
+        </Box>
+      )}
+
       {mode === 'expression' && (
         <Box>
           <TextField
@@ -446,8 +453,33 @@ const FilterDependencyEditor: React.FC<{
   onChange: (filterBy: FilterDependency | FilterDependency[] | undefined) => void;
   componentId: string;
 }> = ({ filterBy, onChange, componentId }) => {
-  const { components } = useFormBuilderStore();
+  const { components, findComponent } = useFormBuilderStore();
   const advancedMode = useModeStore((state) => state.advancedMode);
+
+  // Fields of the dataview this component loads, suggested as target parameters
+  const component = findComponent(componentId);
+  const dataviewId = [component?.props?.optionsSource, component?.props?.dataSource]
+    .find((source) => typeof source === 'string' && source && source !== '__DATAVIEW_PENDING__') as string | undefined;
+  const dataviewOperation = component?.props?.dataviewOperation as string | undefined;
+  const [targetFields, setTargetFields] = useState<DataviewField[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setTargetFields([]);
+    if (dataviewId && getDataviewManager().getDataview(dataviewId)) {
+      getDataviewManager()
+        .loadDataviewFieldMetadata(dataviewId, dataviewOperation)
+        .then((fields) => {
+          if (!cancelled) setTargetFields(fields);
+        })
+        .catch(() => {
+          // Not a dataview source - target parameters are typed by hand
+        });
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [dataviewId, dataviewOperation]);
   
   // Get all available dataKeys
   const availableFields = useMemo(() => {
@@ -573,15 +605,25 @@ const FilterDependencyEditor: React.FC<{
               />
             )}
 
-            <TextField
-              label="Target Parameter Name"
-              value={filter.targetParam || ''}
-              onChange={(e) => handleUpdateFilter(index, { targetParam: e.target.value })}
-              size="small"
-              fullWidth
-              placeholder="e.g., state_code, country_id"
-              helperText="API parameter name for filtering (e.g., 'state_code' for filtering cities by state)"
-            />
+            {targetFields.length > 0 ? (
+              <DataviewFieldPicker
+                label="Target Parameter Name"
+                value={filter.targetParam || ''}
+                fields={targetFields.map((field) => field.name)}
+                metadata={targetFields}
+                onChange={(field) => handleUpdateFilter(index, { targetParam: field })}
+              />
+            ) : (
+              <TextField
+                label="Target Parameter Name"
+                value={filter.targetParam || ''}
+                onChange={(e) => handleUpdateFilter(index, { targetParam: e.target.value })}
+                size="small"
+                fullWidth
+                placeholder="e.g., state_code, country_id"
+                helperText="API parameter name for filtering (e.g., 'state_code' for filtering cities by state)"
+              />
+            )}
 
             {advancedMode && (
               <TextField
@@ -7,9 +7,11 @@ import {
   Button,
   Box,
   IconButton,
+  Divider,
 } from '@mui/material';
 import { Close as CloseIcon } from '@mui/icons-material';
 import DependencyEditor from './DependencyEditor';
+import DependencyGraphPanel from './DependencyGraphPanel';
 import { useDependencyEditorStore } from '../../stores/dependencyEditorStore';
 import { useFormBuilderStore } from '../../stores/formBuilderStore';
 import { useHistoryStore } from '../../stores/historyStore';
@@ -105,6 +107,8 @@ const DependencyEditorModal: React.FC = () => {
             componentId={componentId || ''}
             onChange={handleDependenciesChange}
           />
+          <Divider sx={{ my: 2 }} />
+          <DependencyGraphPanel componentId={componentId || ''} dependencies={currentDependencies} />
         </Box>
       </DialogContent>
       
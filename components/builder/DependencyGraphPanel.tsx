@@ -0,0 +1,140 @@
+/**
+ * Dependency Graph Panel
+ * Upstream/downstream fields of a component, plus cycles and missing references
+ */
+
+import React, { useMemo } from 'react';
+import { Box, Typography, Chip, Alert, Tooltip } from '@mui/material';
+import {
+  ArrowUpward as UpstreamIcon,
+  ArrowDownward as DownstreamIcon,
+} from '@mui/icons-material';
+import type { ComponentDependencies } from '../../stores/types';
+import { useFormBuilderStore } from '../../stores/formBuilderStore';
+import {
+  DependencyGraphAnalyzer,
+  type DependencyEdge,
+  type DependencyGraph,
+} from '../../utils/dependencies/dependencyGraph';
+
+interface DependencyGraphPanelProps {
+  componentId: string;
+  // Unsaved dependencies of the component (the graph reflects them before saving)
+  dependencies?: ComponentDependencies;
+}
+
+const nodeLabel = (graph: DependencyGraph, componentId: string) => {
+  const node = graph.nodes[componentId];
+  return node?.name || node?.dataKey || componentId;
+};
+
+const EdgeList: React.FC<{
+  graph: DependencyGraph;
+  edges: DependencyEdge[];
+  direction: 'from' | 'to';
+  emptyText: string;
+}> = ({ graph, edges, direction, emptyText }) => {
+  // One chip per component, listing every kind of dependency on it
+  const grouped = useMemo(() => {
+    const byComponent = new Map<string, Set<string>>();
+    edges.forEach((edge) => {
+      const id = edge[direction];
+      if (!byComponent.has(id)) byComponent.set(id, new Set());
+      byComponent.get(id)!.add(edge.kind);
+    });
+    return Array.from(byComponent.entries());
+  }, [edges, direction]);
+
+  if (grouped.length === 0) {
+    return (
+      <Typography variant="caption" color="text.secondary">
+        {emptyText}
+      </Typography>
+    );
+  }
+
+  return (
+    <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+      {grouped.map(([id, kinds]) => (
+        <Tooltip key={id} title={graph.nodes[id]?.dataKey ? `dataKey: ${graph.nodes[id].dataKey}` : ''}>
+          <Chip
+            size="small"
+            variant="outlined"
+            label={`${nodeLabel(graph, id)} · ${Array.from(kinds).join(', ')}`}
+          />
+        </Tooltip>
+      ))}
+    </Box>
+  );
+};
+
+const DependencyGraphPanel: React.FC<DependencyGraphPanelProps> = ({ componentId, dependencies }) => {
+  const { components } = useFormBuilderStore();
+
+  const graph = useMemo(
+    () => DependencyGraphAnalyzer.build(components, { [componentId]: dependencies }),
+    [components, componentId, dependencies]
+  );
+
+  const upstream = DependencyGraphAnalyzer.getUpstream(graph, componentId);
+  const downstream = DependencyGraphAnalyzer.getDownstream(graph, componentId);
+  const cycles = DependencyGraphAnalyzer.getCycles(graph, componentId);
+  const missing = graph.missing.filter((reference) => reference.componentId === componentId);
+  const otherIssues =
+    graph.cycles.length - cycles.length + graph.missing.length - missing.length;
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+      <Typography variant="subtitle2">Dependency Graph</Typography>
+
+      {cycles.map((cycle) => (
+        <Alert key={cycle.join('|')} severity="error" sx={{ fontSize: '0.75rem' }}>
+          Cycle: {[...cycle, cycle[0]].map((id) => nodeLabel(graph, id)).join(' → ')}. These values keep
+          updating each other.
+        </Alert>
+      ))}
+
+      {missing.length > 0 && (
+        <Alert severity="warning" sx={{ fontSize: '0.75rem' }}>
+          No component is bound to:{' '}
+          {missing.map((reference) => `${reference.path} (${reference.kind})`).join(', ')}
+        </Alert>
+      )}
+
+      {graph.nodes[componentId]?.readsAll && (
+        <Alert severity="info" sx={{ fontSize: '0.75rem' }}>
+          An expression uses the whole data object, so it is re-evaluated on every change.
+        </Alert>
+      )}
+
+      <Box>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, mb: 0.5 }}>
+          <UpstreamIcon fontSize="small" color="action" />
+          <Typography variant="caption" sx={{ fontWeight: 600 }}>
+            Depends on
+          </Typography>
+        </Box>
+        <EdgeList graph={graph} edges={upstream} direction="from" emptyText="No fields" />
+      </Box>
+
+      <Box>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, mb: 0.5 }}>
+          <DownstreamIcon fontSize="small" color="action" />
+          <Typography variant="caption" sx={{ fontWeight: 600 }}>
+            Used by
+          </Typography>
+        </Box>
+        <EdgeList graph={graph} edges={downstream} direction="to" emptyText="No components read this field" />
+      </Box>
+
+      {otherIssues > 0 && (
+        <Typography variant="caption" color="text.secondary">
+          {graph.cycles.length - cycles.length} other cycle(s) and {graph.missing.length - missing.length} other
+          missing reference(s) in this form.
+        </Typography>
+      )}
+    </Box>
+  );
+};
+
+export default DependencyGraphPanel;
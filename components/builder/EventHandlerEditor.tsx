@@ -44,11 +44,21 @@ const COMMON_ACTIONS = [
   { value: 'log', label: 'Log', type: 'common' },
   { value: 'addRow', label: 'Add Row', type: 'common' },
   { value: 'removeRow', label: 'Remove Row', type: 'common' },
+  { value: 'moveRow', label: 'Move Row', type: 'common' },
+  { value: 'duplicateRow', label: 'Duplicate Row', type: 'common' },
   { value: 'openModal', label: 'Open Modal', type: 'common' },
   { value: 'closeModal', label: 'Close Modal', type: 'common' },
+  { value: 'invalidateCache', label: 'Invalidate Cache', type: 'common' },
+  { value: 'goToStep', label: 'Go To Wizard Step', type: 'common' },
+  { value: 'nextStep', label: 'Next Wizard Step', type: 'common' },
+  { value: 'previousStep', label: 'Previous Wizard Step', type: 'common' },
   { value: 'custom', label: 'Custom Function', type: 'custom' },
 ];
 
+const ROW_ACTIONS = ['addRow', 'removeRow', 'moveRow', 'duplicateRow'];
+
+const WIZARD_ACTIONS = ['goToStep', 'nextStep', 'previousStep'];
+
 const EventHandlerEditor: React.FC<EventHandlerEditorProps> = ({ events = {}, onChange }) => {
   const advancedMode = useModeStore((state) => state.advancedMode);
   const [expandedEvent, setExpandedEvent] = useState<string | null>(null);
@@ -311,6 +321,116 @@ const EventHandlerEditor: React.FC<EventHandlerEditorProps> = ({ events = {}, on
                                   />
                                 </>
                               )}
+
+                              {action.name === 'invalidateCache' && (
+                                <>
+                                  <Divider />
+                                  <Typography variant="caption" sx={{ fontWeight: 600 }}>
+                                    Arguments
+                                  </Typography>
+                                  <TextField
+                                    label="Dataview"
+                                    value={action.args?.dataview || ''}
+                                    onChange={(e) =>
+                                      handleUpdateActionArg(eventName, actionIndex, 'dataview', e.target.value || undefined)
+                                    }
+                                    size="small"
+                                    fullWidth
+                                    helperText="Drops every cached load of this dataview (e.g. after saving to it)"
+                                  />
+                                  <TextField
+                                    label="Cache Tag"
+                                    value={action.args?.tag || ''}
+                                    onChange={(e) =>
+                                      handleUpdateActionArg(eventName, actionIndex, 'tag', e.target.value || undefined)
+                                    }
+                                    size="small"
+                                    fullWidth
+                                    helperText="Optional: drops every entry with this tag"
+                                  />
+                                </>
+                              )}
+
+                              {WIZARD_ACTIONS.includes(action.name) && (
+                                <>
+                                  <Divider />
+                                  <Typography variant="caption" sx={{ fontWeight: 600 }}>
+                                    Arguments
+                                  </Typography>
+                                  <TextField
+                                    label="Wizard"
+                                    value={action.args?.wizardId || ''}
+                                    onChange={(e) =>
+                                      handleUpdateActionArg(eventName, actionIndex, 'wizardId', e.target.value || undefined)
+                                    }
+                                    size="small"
+                                    fullWidth
+                                    helperText="Id or name of the Wizard. Empty = every Wizard of the form"
+                                  />
+                                  {action.name === 'goToStep' && (
+                                    <TextField
+                                      label="Step"
+                                      value={action.args?.step ?? ''}
+                                      onChange={(e) =>
+                                        handleUpdateActionArg(eventName, actionIndex, 'step', e.target.value || undefined)
+                                      }
+                                      size="small"
+                                      fullWidth
+                                      helperText="Step index (0-based), or the step's id, name or title"
+                                    />
+                                  )}
+                                </>
+                              )}
+
+                              {ROW_ACTIONS.includes(action.name) && (
+                                <>
+                                  <Divider />
+                                  <Typography variant="caption" sx={{ fontWeight: 600 }}>
+                                    Arguments
+                                  </Typography>
+                                  <TextField
+                                    label="Array Data Key"
+                                    value={action.args?.dataKey || ''}
+                                    onChange={(e) =>
+                                      handleUpdateActionArg(eventName, actionIndex, 'dataKey', e.target.value || undefined)
+                                    }
+                                    size="small"
+                                    fullWidth
+                                    helperText='Bound array, e.g. "items" or "orders[].lines". Empty = the row the event is raised in'
+                                  />
+                                  <TextField
+                                    label="Row Index"
+                                    type="number"
+                                    value={action.args?.index ?? ''}
+                                    onChange={(e) =>
+                                      handleUpdateActionArg(
+                                        eventName,
+                                        actionIndex,
+                                        'index',
+                                        e.target.value === '' ? undefined : Number(e.target.value)
+                                      )
+                                    }
+                                    size="small"
+                                    fullWidth
+                                    helperText="Empty = index of the current row"
+                                  />
+                                  {action.name === 'moveRow' && (
+                                    <FormControl fullWidth size="small">
+                                      <InputLabel>Direction</InputLabel>
+                                      <Select
+                                        value={action.args?.direction || 'down'}
+                                        label="Direction"
+                                        onChange={(e) =>
+                                          handleUpdateActionArg(eventName, actionIndex, 'direction', e.target.value)
+                                        }
+                                      >
+                                        <MenuItem value="up">Up</MenuItem>
+                                        <MenuItem value="down">Down</MenuItem>
+                                      </Select>
+                                    </FormControl>
+                                  )}
+                                </>
+                              )}
                             </Box>
                           </AccordionDetails>
                         </Accordion>
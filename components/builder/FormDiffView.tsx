@@ -0,0 +1,94 @@
+import React from 'react';
+import { Box, Chip, Typography } from '@mui/material';
+import { FORM_CHANGE_LABELS, FormDiff, type FormChange, type FormChangeKind, type FormPosition } from '../../utils/formDiff';
+
+interface FormDiffViewProps {
+  changes: FormChange[];
+  // Names of parent containers (ids are shown otherwise)
+  getComponentLabel?: (id: string) => string | undefined;
+  emptyText?: string;
+}
+
+const KIND_COLORS: Record<FormChangeKind, 'success' | 'error' | 'info' | 'warning' | 'secondary'> = {
+  added: 'success',
+  removed: 'error',
+  moved: 'info',
+  propsChanged: 'warning',
+  dependenciesChanged: 'secondary',
+};
+
+export const formatValue = (value: any): string => {
+  if (value === undefined) return '(none)';
+  const text = typeof value === 'string' ? `"${value}"` : JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+};
+
+const FormDiffView: React.FC<FormDiffViewProps> = ({ changes, getComponentLabel, emptyText = 'No changes' }) => {
+  const summary = FormDiff.summarize(changes);
+
+  const formatPosition = (position?: FormPosition) => {
+    if (!position) return '';
+    const parent = position.parentId ? getComponentLabel?.(position.parentId) || position.parentId : 'root';
+    return `${parent} #${position.index + 1}`;
+  };
+
+  if (changes.length === 0) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        {emptyText}
+      </Typography>
+    );
+  }
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+        {(Object.keys(summary) as FormChangeKind[])
+          .filter((kind) => summary[kind] > 0)
+          .map((kind) => (
+            <Chip key={kind} size="small" color={KIND_COLORS[kind]} label={`${FORM_CHANGE_LABELS[kind]}: ${summary[kind]}`} />
+          ))}
+      </Box>
+
+      {changes.map((change, index) => (
+        <Box
+          key={`${change.kind}-${change.componentId}-${index}`}
+          sx={{ border: 1, borderColor: 'divider', borderRadius: 1, p: 1 }}
+        >
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+            <Chip size="small" variant="outlined" color={KIND_COLORS[change.kind]} label={FORM_CHANGE_LABELS[change.kind]} />
+            <Typography variant="body2" sx={{ fontWeight: 600 }}>
+              {change.label}
+            </Typography>
+            <Typography variant="caption" color="text.secondary">
+              {change.type}
+            </Typography>
+            {change.descendants ? (
+              <Typography variant="caption" color="text.secondary">
+                (with {change.descendants} inside)
+              </Typography>
+            ) : null}
+          </Box>
+
+          {change.kind === 'moved' && (
+            <Typography variant="caption" color="text.secondary" component="div" sx={{ mt: 0.5 }}>
+              {formatPosition(change.from)} → {formatPosition(change.to)}
+            </Typography>
+          )}
+
+          {change.props && (
+            <Box component="ul" sx={{ m: 0, mt: 0.5, pl: 2.5 }}>
+              {change.props.map((prop) => (
+                <Typography key={prop.key} component="li" variant="caption" sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                  <strong>{prop.key}</strong>: {formatValue(prop.before)} → {formatValue(prop.after)}
+                </Typography>
+              ))}
+            </Box>
+          )}
+        </Box>
+      ))}
+    </Box>
+  );
+};
+
+export default FormDiffView;
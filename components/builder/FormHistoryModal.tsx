@@ -0,0 +1,361 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  IconButton,
+  Typography,
+  Alert,
+  Chip,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  List,
+  ListItemButton,
+  ListItemText,
+  LinearProgress,
+} from '@mui/material';
+import { Close as CloseIcon, History as HistoryIcon, Restore as RestoreIcon } from '@mui/icons-material';
+import { useFormBuilderStore } from '../../stores/formBuilderStore';
+import type { ComponentDefinition } from '../../stores/types';
+import { formService, FormConflictError, type FormResponse, type FormRevision } from '../../api/services/formService';
+import { apiConfig } from '../../config/apiConfig';
+import { importFormData } from '../../utils/formExport';
+import { FormDiff, type FormChange } from '../../utils/formDiff';
+import FormDiffView from './FormDiffView';
+
+interface FormHistoryModalProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+// 'previous' = the revision before the selected one, 'canvas' = the builder's components
+type CompareTarget = 'previous' | 'canvas' | string;
+
+const toMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+// Loading a form replaces the canvas
+const confirmReplaceCanvas = (): boolean =>
+  window.confirm('This replaces the form in the builder. Unsaved changes will be lost. Continue?');
+
+// Components of a revision, imported once per revision
+const getRevisionComponents = async (
+  revision: FormRevision,
+  cache: Map<string, ComponentDefinition[]>
+): Promise<ComponentDefinition[]> => {
+  const key = `${revision.formId}/${revision.id}`;
+  const cached = cache.get(key);
+  if (cached) return cached;
+  // Lists may leave out the form data
+  const full = revision.formData === undefined ? await formService.loadRevision(revision.formId, revision.id) : revision;
+  const { components } = await importFormData(full.formData);
+  cache.set(key, components);
+  return components;
+};
+
+const FormHistoryModal: React.FC<FormHistoryModalProps> = ({ open, onClose }) => {
+  const { components, storedForm, setWorkAreaLayout, setFormSettings, setStoredForm } = useFormBuilderStore();
+  const [forms, setForms] = useState<FormResponse[]>([]);
+  const [formId, setFormId] = useState('');
+  const [revisions, setRevisions] = useState<FormRevision[]>([]);
+  const [selectedId, setSelectedId] = useState('');
+  const [compareTo, setCompareTo] = useState<CompareTarget>('previous');
+  const [diff, setDiff] = useState<{ changes: FormChange[]; labels: Map<string, string> } | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+  const revisionComponents = useRef(new Map<string, ComponentDefinition[]>());
+
+  const storageName = apiConfig.getFormStorageName();
+  const supportsRevisions = open && formService.supportsRevisions();
+
+  // Stored forms - the one on the canvas is selected
+  useEffect(() => {
+    if (!open) return;
+    setError(null);
+    setFormId(storedForm?.id || '');
+    revisionComponents.current.clear();
+    formService.listForms().then(
+      (result) => {
+        setForms(result.data);
+        if (!storedForm && result.data.length > 0) setFormId(result.data[0].id);
+      },
+      (listError) => setError(toMessage(listError))
+    );
+  }, [open]);
+
+  // Revisions of the selected form, newest selected
+  useEffect(() => {
+    setRevisions([]);
+    setSelectedId('');
+    if (!open || !formId || !supportsRevisions) return;
+
+    let cancelled = false;
+    setLoading(true);
+    formService
+      .listRevisions(formId)
+      .then(
+        (list) => {
+          if (cancelled) return;
+          setRevisions(list);
+          setSelectedId(list[0]?.id || '');
+          setCompareTo('previous');
+        },
+        (listError) => {
+          if (!cancelled) setError(toMessage(listError));
+        }
+      )
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, formId, supportsRevisions, reloadCount]);
+
+  // Diff of the selected revision against the compare target
+  useEffect(() => {
+    const position = revisions.findIndex((revision) => revision.id === selectedId);
+    if (position < 0) {
+      setDiff(null);
+      return;
+    }
+
+    let cancelled = false;
+    const cache = revisionComponents.current;
+    const compute = async () => {
+      const selected = await getRevisionComponents(revisions[position], cache);
+      let before: ComponentDefinition[];
+      let after: ComponentDefinition[];
+      if (compareTo === 'canvas') {
+        // What the canvas changed since the revision
+        before = selected;
+        after = components;
+      } else {
+        const base = compareTo === 'previous'
+          ? revisions[position + 1]
+          : revisions.find((revision) => revision.id === compareTo);
+        before = base ? await getRevisionComponents(base, cache) : [];
+        after = selected;
+      }
+
+      const labels = new Map<string, string>();
+      [FormDiff.index(before), FormDiff.index(after)].forEach((index) =>
+        index.forEach(({ component }, id) => labels.set(id, FormDiff.getLabel(component)))
+      );
+      return { changes: FormDiff.diff(before, after), labels };
+    };
+
+    compute().then(
+      (result) => {
+        if (!cancelled) setDiff(result);
+      },
+      (diffError) => {
+        if (!cancelled) setError(toMessage(diffError));
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [revisions, selectedId, compareTo, components]);
+
+  const loadIntoCanvas = async (form: FormResponse) => {
+    const { components: imported, settings, workAreaLayout } = await importFormData(form.formData);
+    setWorkAreaLayout(workAreaLayout, imported);
+    setFormSettings({
+      formValidator: settings.formValidator,
+      validateOnChange: settings.validateOnChange,
+    });
+    setStoredForm({
+      id: form.id,
+      formName: form.formName,
+      description: form.description,
+      revision: form.revision,
+      updatedAt: form.updatedAt,
+    });
+  };
+
+  const handleOpen = async () => {
+    if (!confirmReplaceCanvas()) return;
+    setBusy(true);
+    try {
+      await loadIntoCanvas(await formService.loadForm(formId));
+      onClose();
+    } catch (openError) {
+      setError(toMessage(openError));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Saves the revision again as the newest one and loads it
+  const handleRestore = async (revision: FormRevision) => {
+    if (!confirmReplaceCanvas()) return;
+    setBusy(true);
+    try {
+      // Based on the newest revision in the list - a save made since is not overwritten
+      await loadIntoCanvas(await formService.rollback(formId, revision.id, revisions[0]?.revision));
+      setReloadCount((count) => count + 1);
+    } catch (restoreError) {
+      if (restoreError instanceof FormConflictError) {
+        setError(`${restoreError.message}. The history was reloaded, check the new revision before restoring.`);
+        setReloadCount((count) => count + 1);
+      } else {
+        setError(toMessage(restoreError));
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const selected = revisions.find((revision) => revision.id === selectedId);
+  const isLatest = selected !== undefined && selected.id === revisions[0]?.id;
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth PaperProps={{ sx: { maxHeight: '90vh' } }}>
+      <DialogTitle>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <HistoryIcon color="primary" />
+            <span>Form History</span>
+            <Chip label={`Storage: ${storageName}`} size="small" />
+          </Box>
+          <IconButton size="small" onClick={onClose} sx={{ ml: 2 }}>
+            <CloseIcon />
+          </IconButton>
+        </Box>
+      </DialogTitle>
+
+      <DialogContent dividers>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+          {error && (
+            <Alert severity="error" onClose={() => setError(null)}>
+              {error}
+            </Alert>
+          )}
+
+          <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+            <FormControl size="small" sx={{ flex: 1 }}>
+              <InputLabel>Form</InputLabel>
+              <Select value={formId} label="Form" onChange={(e) => setFormId(e.target.value)}>
+                {forms.map((form) => (
+                  <MenuItem key={form.id} value={form.id}>
+                    {form.formName}
+                    {form.id === storedForm?.id ? ' (on canvas)' : ''}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <Button variant="outlined" onClick={handleOpen} disabled={!formId || busy}>
+              Open in Builder
+            </Button>
+          </Box>
+
+          {forms.length === 0 && (
+            <Typography variant="body2" color="text.secondary">
+              No stored forms yet. Save a form to "Form storage" to start its history.
+            </Typography>
+          )}
+
+          {formId && !supportsRevisions && (
+            <Alert severity="info">Form storage "{storageName}" does not keep revisions.</Alert>
+          )}
+
+          {loading && <LinearProgress />}
+
+          {revisions.length > 0 && (
+            <Box sx={{ display: 'flex', gap: 2, alignItems: 'flex-start' }}>
+              <List dense sx={{ width: 260, flexShrink: 0, border: 1, borderColor: 'divider', borderRadius: 1, maxHeight: '60vh', overflow: 'auto' }}>
+                {revisions.map((revision, index) => (
+                  <ListItemButton
+                    key={revision.id}
+                    selected={revision.id === selectedId}
+                    onClick={() => setSelectedId(revision.id)}
+                  >
+                    <ListItemText
+                      primary={
+                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                          <span>Revision {revision.revision}</span>
+                          {index === 0 && <Chip label="latest" size="small" color="primary" sx={{ height: 18 }} />}
+                        </Box>
+                      }
+                      secondary={
+                        <>
+                          {new Date(revision.createdAt).toLocaleString()}
+                          {revision.message && (
+                            <Typography component="span" variant="caption" display="block">
+                              {revision.message}
+                            </Typography>
+                          )}
+                        </>
+                      }
+                    />
+                  </ListItemButton>
+                ))}
+              </List>
+
+              {selected && (
+                <Box sx={{ flex: 1, minWidth: 0, display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    <Typography variant="subtitle2" sx={{ flex: 1 }}>
+                      Revision {selected.revision}
+                    </Typography>
+                    <FormControl size="small" sx={{ minWidth: 220 }}>
+                      <InputLabel>Compare With</InputLabel>
+                      <Select value={compareTo} label="Compare With" onChange={(e) => setCompareTo(e.target.value)}>
+                        <MenuItem value="previous">Previous revision</MenuItem>
+                        <MenuItem value="canvas">Current canvas</MenuItem>
+                        {revisions
+                          .filter((revision) => revision.id !== selected.id)
+                          .map((revision) => (
+                            <MenuItem key={revision.id} value={revision.id}>
+                              Revision {revision.revision}
+                            </MenuItem>
+                          ))}
+                      </Select>
+                    </FormControl>
+                    <Button
+                      variant="contained"
+                      size="small"
+                      startIcon={<RestoreIcon />}
+                      onClick={() => handleRestore(selected)}
+                      disabled={isLatest || busy}
+                    >
+                      Restore
+                    </Button>
+                  </Box>
+                  <Typography variant="caption" color="text.secondary">
+                    {compareTo === 'canvas'
+                      ? 'Changes on the canvas since this revision.'
+                      : 'Changes made by this revision.'}{' '}
+                    Restoring saves it as a new revision and loads it into the builder.
+                  </Typography>
+                  {diff && (
+                    <FormDiffView
+                      changes={diff.changes}
+                      getComponentLabel={(id) => diff.labels.get(id)}
+                      emptyText="No structural changes"
+                    />
+                  )}
+                </Box>
+              )}
+            </Box>
+          )}
+        </Box>
+      </DialogContent>
+
+      <DialogActions sx={{ px: 3, py: 2 }}>
+        <Button onClick={onClose} variant="contained" color="primary">
+          Close
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default FormHistoryModal;
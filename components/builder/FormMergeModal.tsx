@@ -0,0 +1,229 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  IconButton,
+  Typography,
+  Alert,
+  Chip,
+  LinearProgress,
+  ToggleButton,
+  ToggleButtonGroup,
+} from '@mui/material';
+import { Close as CloseIcon, MergeType as MergeIcon } from '@mui/icons-material';
+import type { ComponentDefinition } from '../../stores/types';
+import type { StoredFormRef } from '../../stores/formBuilderStore';
+import { formService, type FormResponse } from '../../api/services/formService';
+import { apiConfig } from '../../config/apiConfig';
+import { importFormData } from '../../utils/formExport';
+import { FormDiff } from '../../utils/formDiff';
+import { FormMerge, type FormConflictKind, type FormMergeConflict, type MergeSide } from '../../utils/formMerge';
+import FormDiffView, { formatValue } from './FormDiffView';
+
+interface FormMergeModalProps {
+  open: boolean;
+  // Stored version the canvas started from
+  base: StoredFormRef;
+  // Components of the rejected save
+  mine: ComponentDefinition[];
+  // Stored form saved meanwhile
+  current: FormResponse;
+  onCancel: () => void;
+  onMerge: (components: ComponentDefinition[]) => void;
+}
+
+const CONFLICT_LABELS: Record<FormConflictKind, string> = {
+  props: 'Changed on both sides',
+  deleted: 'Deleted on one side, changed on the other',
+  moved: 'Moved to different places',
+};
+
+const toMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+// Value of a conflicting key on one side (type and name are not props)
+const getValue = (component: ComponentDefinition, key: string): any =>
+  key === 'type' || key === 'name' ? component[key] : component.props?.[key];
+
+const FormMergeModal: React.FC<FormMergeModalProps> = ({ open, base, mine, current, onCancel, onMerge }) => {
+  // null = the base version is not available
+  const [baseComponents, setBaseComponents] = useState<ComponentDefinition[] | null>(null);
+  const [theirs, setTheirs] = useState<ComponentDefinition[] | null>(null);
+  const [choices, setChoices] = useState<Record<string, MergeSide>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    setChoices({});
+    setError(null);
+    const load = async () => {
+      const baseRevision = base.revision !== undefined ? await formService.findRevision(base.id, base.revision) : null;
+      return {
+        base: baseRevision ? (await importFormData(baseRevision.formData)).components : null,
+        theirs: (await importFormData(current.formData)).components,
+      };
+    };
+    load().then(
+      (result) => {
+        if (cancelled) return;
+        setBaseComponents(result.base);
+        setTheirs(result.theirs);
+      },
+      (loadError) => {
+        if (!cancelled) setError(toMessage(loadError));
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [open, base, current]);
+
+  // Without a base every difference counts as changed on both sides
+  const result = useMemo(
+    () => (theirs ? FormMerge.merge(baseComponents || [], mine, theirs, choices) : null),
+    [baseComponents, mine, theirs, choices]
+  );
+  const changes = useMemo(() => (result ? FormDiff.diff(mine, result.components) : []), [mine, result]);
+  const labels = useMemo(() => {
+    const map = new Map<string, string>();
+    [mine, theirs || []].forEach((components) =>
+      FormDiff.index(components).forEach(({ component }, id) => map.set(id, FormDiff.getLabel(component)))
+    );
+    return map;
+  }, [mine, theirs]);
+
+  const savedAt = current.revision !== undefined
+    ? `revision ${current.revision}, ${new Date(current.updatedAt).toLocaleString()}`
+    : new Date(current.updatedAt).toLocaleString();
+
+  const setChoice = (id: string, side: MergeSide) => setChoices((previous) => ({ ...previous, [id]: side }));
+
+  const renderSide = (conflict: FormMergeConflict, side: MergeSide) => {
+    const component = conflict[side];
+    return (
+      <Box sx={{ flex: 1, minWidth: 0 }}>
+        <Typography variant="caption" color="text.secondary" sx={{ fontWeight: 600 }}>
+          {side === 'mine' ? 'Mine' : 'Theirs'}
+        </Typography>
+        {!component ? (
+          <Typography variant="caption" component="div" color="error">
+            Deleted
+          </Typography>
+        ) : (
+          conflict.keys.map((key) => (
+            <Typography key={key} variant="caption" component="div" sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+              <strong>{key}</strong>: {formatValue(getValue(component, key))}
+            </Typography>
+          ))
+        )}
+      </Box>
+    );
+  };
+
+  return (
+    <Dialog open={open} onClose={onCancel} maxWidth="lg" fullWidth PaperProps={{ sx: { maxHeight: '90vh' } }}>
+      <DialogTitle>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <MergeIcon color="primary" />
+            <span>Merge Changes</span>
+          </Box>
+          <IconButton size="small" onClick={onCancel} sx={{ ml: 2 }}>
+            <CloseIcon />
+          </IconButton>
+        </Box>
+      </DialogTitle>
+
+      <DialogContent dividers>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+          <Alert severity="warning">
+            "{current.formName}" was saved by someone else ({savedAt}) since you opened it. Changes made on one
+            side only are merged; pick a version for each component changed on both sides.
+          </Alert>
+
+          {error && (
+            <Alert severity="error" onClose={() => setError(null)}>
+              {error}
+            </Alert>
+          )}
+
+          {!result && !error && <LinearProgress />}
+
+          {result && !baseComponents && (
+            <Alert severity="info">
+              The version you started from is not available (form storage "{apiConfig.getFormStorageName()}" keeps no
+              revisions), so every component that differs needs a choice.
+            </Alert>
+          )}
+
+          {result && result.conflicts.length > 0 && (
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+              <Typography variant="subtitle2">Conflicts ({result.conflicts.length})</Typography>
+              {result.conflicts.map((conflict) => (
+                <Box key={conflict.componentId} sx={{ border: 1, borderColor: 'divider', borderRadius: 1, p: 1 }}>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+                    <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                      {conflict.label}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary" sx={{ flex: 1 }}>
+                      {conflict.type}
+                    </Typography>
+                    {conflict.kinds.map((kind) => (
+                      <Chip key={kind} size="small" variant="outlined" color="warning" label={CONFLICT_LABELS[kind]} />
+                    ))}
+                    <ToggleButtonGroup
+                      size="small"
+                      exclusive
+                      value={choices[conflict.componentId] || 'mine'}
+                      onChange={(_, side) => side && setChoice(conflict.componentId, side)}
+                    >
+                      <ToggleButton value="mine">Mine</ToggleButton>
+                      <ToggleButton value="theirs">Theirs</ToggleButton>
+                    </ToggleButtonGroup>
+                  </Box>
+                  {(conflict.keys.length > 0 || conflict.kinds.includes('deleted')) && (
+                    <Box sx={{ display: 'flex', gap: 2, mt: 0.5 }}>
+                      {renderSide(conflict, 'mine')}
+                      {renderSide(conflict, 'theirs')}
+                    </Box>
+                  )}
+                </Box>
+              ))}
+            </Box>
+          )}
+
+          {result && (
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+              <Typography variant="subtitle2">Changes to your canvas</Typography>
+              <FormDiffView
+                changes={changes}
+                getComponentLabel={(id) => labels.get(id)}
+                emptyText="Nothing to take over - saving keeps your version"
+              />
+            </Box>
+          )}
+        </Box>
+      </DialogContent>
+
+      <DialogActions sx={{ px: 3, py: 2 }}>
+        <Button onClick={onCancel}>Cancel</Button>
+        <Button
+          variant="contained"
+          color="primary"
+          startIcon={<MergeIcon />}
+          onClick={() => result && onMerge(result.components)}
+          disabled={!result}
+        >
+          Save Merged
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default FormMergeModal;
@@ -0,0 +1,183 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  IconButton,
+  TextField,
+  Typography,
+  Alert,
+  Switch,
+  FormControlLabel,
+} from '@mui/material';
+import { Close as CloseIcon, PlayArrow as RunIcon, FactCheck as ValidatorIcon } from '@mui/icons-material';
+import { useFormBuilderStore } from '../../stores/formBuilderStore';
+import type { ComponentDefinition } from '../../stores/types';
+import { FormValidatorRunner, FORM_ERROR_KEY, type FormValidatorResult } from '../../utils/validation/formValidator';
+
+interface FormValidatorModalProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const EXAMPLE_SOURCE = `// data: form values, rootData: root form values
+// addError(dataKey, message) / addFormError(message)
+if (data.endDate && data.startDate && data.endDate < data.startDate) {
+  addError('endDate', 'End date must be after start date');
+}`;
+
+// Collect dataKeys of all components to prefill sample data
+const collectDataKeys = (components: ComponentDefinition[], keys: string[] = []): string[] => {
+  for (const component of components) {
+    const dataKey = component.props?.dataKey;
+    if (dataKey && !keys.includes(dataKey)) keys.push(dataKey);
+    if (component.children) collectDataKeys(component.children, keys);
+  }
+  return keys;
+};
+
+const FormValidatorModal: React.FC<FormValidatorModalProps> = ({ open, onClose }) => {
+  const { components, formSettings, setFormSettings } = useFormBuilderStore();
+  const [source, setSource] = useState('');
+  const [validateOnChange, setValidateOnChange] = useState(false);
+  const [sampleData, setSampleData] = useState('{}');
+  const [testResult, setTestResult] = useState<FormValidatorResult | null>(null);
+  const [sampleError, setSampleError] = useState<string | null>(null);
+
+  const dataKeys = useMemo(() => collectDataKeys(components), [components]);
+
+  // Load current settings when the modal opens
+  useEffect(() => {
+    if (open) {
+      setSource(formSettings.formValidator || '');
+      setValidateOnChange(!!formSettings.validateOnChange);
+      setSampleData(JSON.stringify(Object.fromEntries(dataKeys.map((key) => [key, ''])), null, 2));
+      setTestResult(null);
+      setSampleError(null);
+    }
+  }, [open]);
+
+  const handleTest = async () => {
+    let data: Record<string, any>;
+    try {
+      data = JSON.parse(sampleData || '{}');
+      setSampleError(null);
+    } catch (error) {
+      setSampleError(error instanceof Error ? error.message : 'Invalid JSON');
+      setTestResult(null);
+      return;
+    }
+    setTestResult(await FormValidatorRunner.run(source, data, data));
+  };
+
+  const handleSave = () => {
+    setFormSettings({
+      formValidator: source.trim() ? source : undefined,
+      validateOnChange: validateOnChange || undefined,
+    });
+    onClose();
+  };
+
+  const resultEntries = testResult ? Object.entries(testResult.errors) : [];
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth PaperProps={{ sx: { maxHeight: '90vh' } }}>
+      <DialogTitle>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <ValidatorIcon color="primary" />
+            <span>Form Validator</span>
+          </Box>
+          <IconButton size="small" onClick={onClose} sx={{ ml: 2 }}>
+            <CloseIcon />
+          </IconButton>
+        </Box>
+      </DialogTitle>
+
+      <DialogContent dividers>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+          <Typography variant="body2" color="text.secondary">
+            Cross-field rules run on submit, after the field rules. Use <code>addError(dataKey, message)</code> to
+            attach an error to a field or <code>addFormError(message)</code> for a form-level error.
+          </Typography>
+
+          <TextField
+            label="Validator Code"
+            value={source}
+            onChange={(e) => setSource(e.target.value)}
+            placeholder={EXAMPLE_SOURCE}
+            multiline
+            minRows={8}
+            fullWidth
+            size="small"
+            InputProps={{ sx: { fontFamily: 'monospace', fontSize: '0.8rem' } }}
+          />
+
+          <FormControlLabel
+            control={
+              <Switch
+                checked={validateOnChange}
+                onChange={(e) => setValidateOnChange(e.target.checked)}
+                size="small"
+              />
+            }
+            label={<Typography variant="body2">Also validate on every change</Typography>}
+          />
+
+          <Box sx={{ display: 'flex', gap: 2, alignItems: 'flex-start' }}>
+            <TextField
+              label="Sample Data (JSON)"
+              value={sampleData}
+              onChange={(e) => setSampleData(e.target.value)}
+              multiline
+              minRows={6}
+              fullWidth
+              size="small"
+              error={!!sampleError}
+              helperText={sampleError || 'Form data used to test the validator'}
+              InputProps={{ sx: { fontFamily: 'monospace', fontSize: '0.8rem' } }}
+            />
+            <Button variant="outlined" startIcon={<RunIcon />} onClick={handleTest} sx={{ flexShrink: 0 }}>
+              Test
+            </Button>
+          </Box>
+
+          {testResult && (
+            testResult.exception ? (
+              <Alert severity="error">Validator failed: {testResult.exception}</Alert>
+            ) : resultEntries.length === 0 ? (
+              <Alert severity="success">No errors - sample data is valid</Alert>
+            ) : (
+              <Alert severity="warning">
+                <Box component="ul" sx={{ m: 0, pl: 2 }}>
+                  {resultEntries.map(([dataKey, messages]) => (
+                    <li key={dataKey || 'form'}>
+                      <strong>{dataKey === FORM_ERROR_KEY ? '(form)' : dataKey}</strong>
+                      {!dataKeys.includes(dataKey) && dataKey !== FORM_ERROR_KEY && ' (unknown dataKey)'}
+                      {': '}
+                      {messages.join(', ')}
+                    </li>
+                  ))}
+                </Box>
+              </Alert>
+            )
+          )}
+        </Box>
+      </DialogContent>
+
+      <DialogActions sx={{ px: 3, py: 2 }}>
+        <Button onClick={onClose} variant="outlined">
+          Cancel
+        </Button>
+        <Button onClick={handleSave} variant="contained" color="primary">
+          Save Validator
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default FormValidatorModal;
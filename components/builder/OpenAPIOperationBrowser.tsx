@@ -0,0 +1,256 @@
+/**
+ * OpenAPI Operation Browser
+ * Lists the operations of a dataview's OpenAPI/Swagger spec with their parameters and
+ * response fields, so the operation feeding a dataview can be picked instead of guessed
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Box,
+  Typography,
+  Alert,
+  Chip,
+  List,
+  ListItemButton,
+  ListItemText,
+  ListSubheader,
+  CircularProgress,
+  Divider,
+} from '@mui/material';
+import { openAPIUtils, type OpenAPIOperation } from '../../utils/api/openApiUtils';
+
+interface OpenAPIOperationBrowserProps {
+  open: boolean;
+  // URL of the OpenAPI/Swagger spec (JSON or YAML)
+  specUrl: string;
+  selectedOperationId?: string;
+  onClose: () => void;
+  onSelect: (operation: OpenAPIOperation) => void;
+}
+
+const METHOD_COLORS: Record<string, 'success' | 'primary' | 'warning' | 'error' | 'default'> = {
+  GET: 'success',
+  POST: 'primary',
+  PUT: 'warning',
+  PATCH: 'warning',
+  DELETE: 'error',
+};
+
+const schemaType = (schema: any): string => {
+  if (!schema) return '';
+  if (schema.type === 'array') return `${schemaType(schema.items) || 'any'}[]`;
+  return [schema.type, schema.format].filter(Boolean).join(' · ');
+};
+
+const OperationDetails: React.FC<{ operation: OpenAPIOperation }> = ({ operation }) => (
+  <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+    <Box>
+      <Typography variant="subtitle2" sx={{ fontFamily: 'monospace' }}>
+        {operation.method} {operation.path}
+      </Typography>
+      {(operation.summary || operation.description) && (
+        <Typography variant="caption" color="text.secondary">
+          {operation.summary || operation.description}
+        </Typography>
+      )}
+    </Box>
+
+    <Box>
+      <Typography variant="caption" sx={{ fontWeight: 600, display: 'block', mb: 0.5 }}>
+        Parameters
+      </Typography>
+      {operation.parameters.length === 0 ? (
+        <Typography variant="caption" color="text.secondary">
+          None
+        </Typography>
+      ) : (
+        operation.parameters.map((parameter) => (
+          <Typography key={`${parameter.in}:${parameter.name}`} variant="caption" component="div" sx={{ fontFamily: 'monospace' }}>
+            {parameter.name}
+            {parameter.required ? '*' : ''} <span style={{ color: '#666' }}>({parameter.in}{schemaType(parameter.schema) ? `, ${schemaType(parameter.schema)}` : ''})</span>
+          </Typography>
+        ))
+      )}
+    </Box>
+
+    <Box>
+      <Typography variant="caption" sx={{ fontWeight: 600, display: 'block', mb: 0.5 }}>
+        Response fields
+        {operation.itemsPath !== undefined && (
+          <span style={{ fontWeight: 400, color: '#666' }}>
+            {' '}(records at {operation.itemsPath ? `"${operation.itemsPath}"` : 'the response root'})
+          </span>
+        )}
+      </Typography>
+      {operation.fields.length === 0 ? (
+        <Typography variant="caption" color="text.secondary">
+          No response schema - fields are taken from the loaded records
+        </Typography>
+      ) : (
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+          {operation.fields.map((field) => (
+            <Chip
+              key={field.name}
+              size="small"
+              variant="outlined"
+              label={`${field.name}${field.type ? `: ${[field.type, field.format].filter(Boolean).join(' · ')}` : ''}`}
+              title={field.description}
+            />
+          ))}
+        </Box>
+      )}
+    </Box>
+  </Box>
+);
+
+const OpenAPIOperationBrowser: React.FC<OpenAPIOperationBrowserProps> = ({
+  open,
+  specUrl,
+  selectedOperationId,
+  onClose,
+  onSelect,
+}) => {
+  const [operations, setOperations] = useState<OpenAPIOperation[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [selectedId, setSelectedId] = useState<string | undefined>(selectedOperationId);
+
+  useEffect(() => {
+    if (!open || !specUrl) return;
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    setSelectedId(selectedOperationId);
+    openAPIUtils
+      .getOperations(specUrl)
+      .then((result) => {
+        if (!cancelled) setOperations(result);
+      })
+      .catch((loadError) => {
+        if (!cancelled) setError(loadError instanceof Error ? loadError.message : String(loadError));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, specUrl, selectedOperationId]);
+
+  // Filtered operations grouped by their first tag
+  const groups = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const byTag = new Map<string, OpenAPIOperation[]>();
+    operations
+      .filter((operation) =>
+        !query ||
+        [operation.id, operation.path, operation.method, operation.summary, ...operation.tags]
+          .some((text) => text?.toLowerCase().includes(query))
+      )
+      .forEach((operation) => {
+        const tag = operation.tags[0] || 'Other';
+        byTag.set(tag, [...(byTag.get(tag) || []), operation]);
+      });
+    return Array.from(byTag.entries());
+  }, [operations, search]);
+
+  const selected = operations.find((operation) => operation.id === selectedId);
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Choose Operation</DialogTitle>
+      <DialogContent dividers>
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1, wordBreak: 'break-all' }}>
+          {specUrl}
+        </Typography>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 1 }}>
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+            <CircularProgress size={24} />
+          </Box>
+        ) : (
+          <Box sx={{ display: 'flex', gap: 2, minHeight: 320 }}>
+            <Box sx={{ flex: 1, minWidth: 0, display: 'flex', flexDirection: 'column' }}>
+              <TextField
+                size="small"
+                placeholder="Search operations"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                sx={{ mb: 1 }}
+              />
+              <List dense sx={{ overflow: 'auto', maxHeight: 400 }}>
+                {groups.map(([tag, tagOperations]) => (
+                  <React.Fragment key={tag}>
+                    <ListSubheader sx={{ lineHeight: '28px' }}>{tag}</ListSubheader>
+                    {tagOperations.map((operation) => (
+                      <ListItemButton
+                        key={operation.id}
+                        selected={operation.id === selectedId}
+                        onClick={() => setSelectedId(operation.id)}
+                        onDoubleClick={() => onSelect(operation)}
+                      >
+                        <Chip
+                          size="small"
+                          label={operation.method}
+                          color={METHOD_COLORS[operation.method] || 'default'}
+                          sx={{ mr: 1, minWidth: 64, fontSize: '0.7rem' }}
+                        />
+                        <ListItemText
+                          primary={operation.path}
+                          secondary={operation.summary || operation.operationId}
+                          primaryTypographyProps={{
+                            variant: 'body2',
+                            sx: { fontFamily: 'monospace', textDecoration: operation.deprecated ? 'line-through' : undefined },
+                          }}
+                          secondaryTypographyProps={{ variant: 'caption', noWrap: true }}
+                        />
+                      </ListItemButton>
+                    ))}
+                  </React.Fragment>
+                ))}
+                {!error && groups.length === 0 && (
+                  <Typography variant="caption" color="text.secondary" sx={{ p: 1, display: 'block' }}>
+                    No operations found
+                  </Typography>
+                )}
+              </List>
+            </Box>
+
+            <Divider orientation="vertical" flexItem />
+
+            <Box sx={{ flex: 1, minWidth: 0, overflow: 'auto', maxHeight: 450 }}>
+              {selected ? (
+                <OperationDetails operation={selected} />
+              ) : (
+                <Typography variant="caption" color="text.secondary">
+                  Select an operation to see its parameters and response fields
+                </Typography>
+              )}
+            </Box>
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" disabled={!selected} onClick={() => selected && onSelect(selected)}>
+          Use Operation
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default OpenAPIOperationBrowser;
@@ -17,20 +17,26 @@ import {
   AccordionDetails,
 } from '@mui/material';
 import { ExpandMore as ExpandMoreIcon, Delete as DeleteIcon, ContentCopy as DuplicateIcon, Code as CodeIcon } from '@mui/icons-material';
-import type { ComponentDefinition } from '../../stores/types';
+import type { ComponentDefinition, DataviewField } from '../../stores/types';
 import { useHistoryStore } from '../../stores/historyStore';
 import { CommonPropertiesEditor } from './CommonPropertiesEditor';
 import ValidationEditor from './ValidationEditor';
+import DataGridColumnsEditor from './DataGridColumnsEditor';
 import EventHandlerEditor from './EventHandlerEditor';
 import ComputedPropertyEditor from './ComputedPropertyEditor';
 import ResponsiveStylesEditor from './ResponsiveStylesEditor';
 import ConditionalRenderingEditor from './ConditionalRenderingEditor';
 import DependencyEditor from './DependencyEditor';
 import AutoBrowse from './AutoBrowse';
+import OpenAPIOperationBrowser from './OpenAPIOperationBrowser';
+import DataviewFieldPicker from './DataviewFieldPicker';
 // Import store directly for getState()
 import { useFormBuilderStore } from '../../stores/formBuilderStore';
+import { WizardSteps } from '../../utils/rendering/wizardSteps';
+import { generateComponentId } from '../../utils/idGenerator';
 import { getDataviewManager } from '../../utils/dataviews/dataviewManager';
-import { openAPIUtils } from '../../utils/api/openApiUtils';
+import { openAPIUtils, type OpenAPIOperation } from '../../utils/api/openApiUtils';
+import { DataviewFieldUtils } from '../../utils/dataviews/dataviewFields';
 import { useBuilderDataStore } from '../../stores/builderDataStore';
 import { useModeStore } from '../../stores/modeStore';
 import { DATA_SOURCE_TYPES_CLASSIFICATION, COMPONENT_PROPERTIES_CLASSIFICATION, SECTIONS_CLASSIFICATION, isFeatureAvailable } from '../../utils/modes/featureClassification';
@@ -104,7 +110,7 @@ const OptionsInput: React.FC<{
 };
 
 const PropertyEditor: React.FC<PropertyEditorProps> = ({ component }) => {
-  const { updateComponent, deleteComponent, duplicateComponent, components, findComponent } = useFormBuilderStore();
+  const { updateComponent, deleteComponent, duplicateComponent, components, findComponent, addComponent, selectComponent } = useFormBuilderStore();
   const { addToHistory } = useHistoryStore();
   const updatingRef = useRef(false);
   
@@ -120,8 +126,10 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({ component }) => {
   const [dataviewManager] = useState(() => getDataviewManager());
   const [dataviewsLoading, setDataviewsLoading] = useState(false);
   const [dataviewFields, setDataviewFields] = useState<string[]>([]);
+  const [dataviewFieldMetadata, setDataviewFieldMetadata] = useState<DataviewField[]>([]);
   const [dataviewsList, setDataviewsList] = useState<any[]>([]);
   const [selectedDataviewResponse, setSelectedDataviewResponse] = useState<any>(null);
+  const [operationBrowserOpen, setOperationBrowserOpen] = useState(false);
   const { setDataviewData, getDataviewData } = useBuilderDataStore();
   
   // Load dataviews list on mount
@@ -232,6 +240,62 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({ component }) => {
     }, 0);
   }, [component.id, findComponent, updateComponent, addToHistory]);
 
+  // Several props in one update (handlePropertyChange ignores calls while an update is pending)
+  const handlePropertiesChange = useCallback((updates: Record<string, any>) => {
+    const currentComponent = findComponent(component.id);
+    if (!currentComponent) return;
+
+    const newProps = { ...(currentComponent.props || {}) };
+    Object.entries(updates).forEach(([key, value]) => {
+      if (value === undefined) {
+        delete newProps[key];
+      } else {
+        newProps[key] = value;
+      }
+    });
+    updateComponent(component.id, { props: newProps });
+
+    setTimeout(() => {
+      const currentComponents = useFormBuilderStore.getState().components;
+      addToHistory(JSON.parse(JSON.stringify(currentComponents)));
+    }, 0);
+  }, [component.id, findComponent, updateComponent, addToHistory]);
+
+  // Feed a dataview from a chosen OpenAPI operation and map its fields to value/label
+  const handleOperationSelect = useCallback(async (dataviewId: string, specUrl: string, operation: OpenAPIOperation) => {
+    setOperationBrowserOpen(false);
+
+    let data: any[] = [];
+    try {
+      data = await openAPIUtils.generateAndLoadDataView(specUrl, 50, operation.id);
+    } catch (error) {
+      // Fields still come from the response schema
+      console.error('Failed to load operation data:', error);
+    }
+
+    // Schema fields first, then fields only present in the loaded records
+    const fieldMetadata = DataviewFieldUtils.merge(
+      DataviewFieldUtils.fromOpenAPI(operation.fields),
+      DataviewFieldUtils.inferFromRecords(data)
+    );
+    const fields = fieldMetadata.map((field) => field.name);
+    setDataviewFields(fields);
+    setDataviewFieldMetadata(fieldMetadata);
+    setDataviewData(dataviewId, data);
+    setSelectedDataviewResponse(data);
+
+    // Keep the current mapping when the operation still returns those fields
+    const props = findComponent(component.id)?.props || {};
+    const labelFieldCandidates = ['name', 'title', 'description', 'label', 'text'];
+    handlePropertiesChange({
+      dataviewOperation: operation.id,
+      valueField: fields.includes(props.valueField) ? props.valueField : (fields.includes('id') ? 'id' : fields[0]),
+      labelField: fields.includes(props.labelField)
+        ? props.labelField
+        : labelFieldCandidates.find((field) => fields.includes(field)) || fields[1] || fields[0],
+    });
+  }, [component.id, findComponent, handlePropertiesChange, setDataviewData]);
+
   const handleDelete = () => {
     if (window.confirm('Are you sure you want to delete this component?')) {
       addToHistory(components);
@@ -363,6 +427,65 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({ component }) => {
     );
   };
 
+  // Windowed rendering settings of DataGrid, DataBrowse, List and Tree
+  const renderVirtualizationFields = (defaults: {
+    rowHeight: number;
+    viewportHeight: number;
+    // Remote sources load page by page as the view scrolls
+    loadThreshold?: boolean;
+    pageSize?: number;
+  }) => {
+    const virtualized = componentWithProps.props?.virtualized === true;
+    return (
+      <>
+        <FormControlLabel
+          control={
+            <Switch
+              checked={virtualized}
+              onChange={(e) => handlePropertyChange('virtualized', e.target.checked)}
+              size="small"
+            />
+          }
+          label="Virtualized"
+          sx={{ mt: 0.75 }}
+        />
+        {virtualized && (
+          <Box sx={{ mt: 1, p: 1.5, border: '1px solid', borderColor: 'divider', borderRadius: 1 }}>
+            <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+              Only the rows in view are rendered{defaults.loadThreshold ? '; remote rows load as the view scrolls instead of by page' : ''}
+            </Typography>
+            {createTextFieldWithLocalState('rowHeight', 'Row Height', componentWithProps.props?.rowHeight ?? defaults.rowHeight, (val) => handlePropertyChange('rowHeight', val), {
+              type: 'number',
+              helperText: 'Estimate in px; rows are measured once rendered',
+            })}
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={componentWithProps.props?.fixedRowHeight === true}
+                  onChange={(e) => handlePropertyChange('fixedRowHeight', e.target.checked)}
+                  size="small"
+                />
+              }
+              label="Fixed Row Height"
+              sx={{ mt: 0.75 }}
+            />
+            {createTextFieldWithLocalState('viewportHeight', 'Viewport Height', componentWithProps.props?.viewportHeight ?? defaults.viewportHeight, (val) => handlePropertyChange('viewportHeight', val), {
+              type: 'number',
+              helperText: 'Height of the scrolling area in px',
+            })}
+            {defaults.pageSize !== undefined &&
+              createTextFieldWithLocalState('pageSize', 'Page Size', componentWithProps.props?.pageSize ?? defaults.pageSize, (val) => handlePropertyChange('pageSize', val), { type: 'number' })}
+            {defaults.loadThreshold &&
+              createTextFieldWithLocalState('loadThreshold', 'Load Threshold', componentWithProps.props?.loadThreshold ?? 10, (val) => handlePropertyChange('loadThreshold', val), {
+                type: 'number',
+                helperText: 'Rows from the end of the loaded rows at which the next page loads',
+              })}
+          </Box>
+        )}
+      </>
+    );
+  };
+
   const renderPropertyField = (key: string, value: any) => {
     const valueType = typeof value;
 
@@ -709,6 +832,19 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({ component }) => {
                 <MenuItem value="warning">Warning</MenuItem>
               </Select>
             </FormControl>
+            <FormControl fullWidth sx={{ mt: 1 }}>
+              <InputLabel>Button Type</InputLabel>
+              <Select
+                value={componentWithProps.props?.type || 'button'}
+                label="Button Type"
+                onChange={(e) => handlePropertyChange('type', e.target.value)}
+                size="small"
+              >
+                <MenuItem value="button">Button</MenuItem>
+                <MenuItem value="submit">Submit (validates form)</MenuItem>
+                <MenuItem value="reset">Reset</MenuItem>
+              </Select>
+            </FormControl>
           </>
         );
 
@@ -738,6 +874,71 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({ component }) => {
           </>
         );
 
+      case 'RequiredFieldValidator':
+      case 'RangeValidator':
+      case 'RegExValidator': {
+        // Validators target another component by name or dataKey
+        const targetOptions: string[] = [];
+        const collectTargets = (comps: typeof components) => {
+          comps.forEach((comp) => {
+            const ref = comp.props?.dataKey || comp.name;
+            if (ref && comp.id !== componentWithProps.id && !targetOptions.includes(ref)) {
+              targetOptions.push(ref);
+            }
+            if (comp.children) collectTargets(comp.children);
+          });
+        };
+        collectTargets(components);
+        const targetField = componentWithProps.props?.targetField || '';
+
+        return (
+          <>
+            <FormControl fullWidth sx={{ mt: 1 }}>
+              <InputLabel>Target Field</InputLabel>
+              <Select
+                value={targetOptions.includes(targetField) || !targetField ? targetField : ''}
+                label="Target Field"
+                onChange={(e) => handlePropertyChange('targetField', e.target.value)}
+                size="small"
+              >
+                <MenuItem value="">
+                  <em>None</em>
+                </MenuItem>
+                {targetOptions.map((option) => (
+                  <MenuItem key={option} value={option}>{option}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            {componentWithProps.type === 'RangeValidator' && (
+              <>
+                {createTextFieldWithLocalState('min', 'Minimum', componentWithProps.props?.min, (val) => handlePropertyChange('min', val === '' || isNaN(Number(val)) ? val : Number(val)), { helperText: 'Number or date (YYYY-MM-DD)' })}
+                {createTextFieldWithLocalState('max', 'Maximum', componentWithProps.props?.max, (val) => handlePropertyChange('max', val === '' || isNaN(Number(val)) ? val : Number(val)), { helperText: 'Number or date (YYYY-MM-DD)' })}
+              </>
+            )}
+            {componentWithProps.type === 'RegExValidator' && (
+              <>
+                {createTextFieldWithLocalState('pattern', 'Pattern', componentWithProps.props?.pattern || componentWithProps.props?.regex, (val) => handlePropertyChange('pattern', val), { placeholder: '^[A-Z]{2}[0-9]+$' })}
+                {createTextFieldWithLocalState('flags', 'Flags', componentWithProps.props?.flags, (val) => handlePropertyChange('flags', val), { placeholder: 'i' })}
+              </>
+            )}
+            {createTextFieldWithLocalState('errorMessage', 'Error Message', componentWithProps.props?.errorMessage || componentWithProps.props?.message, (val) => handlePropertyChange('errorMessage', val))}
+            <FormControl fullWidth sx={{ mt: 1 }}>
+              <InputLabel>Display</InputLabel>
+              <Select
+                value={componentWithProps.props?.display || 'both'}
+                label="Display"
+                onChange={(e) => handlePropertyChange('display', e.target.value)}
+                size="small"
+              >
+                <MenuItem value="inline">Inline (at the field)</MenuItem>
+                <MenuItem value="summary">Error summary only</MenuItem>
+                <MenuItem value="both">Inline and summary</MenuItem>
+              </Select>
+            </FormControl>
+          </>
+        );
+      }
+
       case 'Link':
         return (
           <>
@@ -782,6 +983,7 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({ component }) => {
                       handlePropertyChange('optionsSource', undefined);
                       setSelectedDataviewResponse(null);
                       setDataviewFields([]);
+                      setDataviewFieldMetadata([]);
                     } else if (newValue === 'dataview') {
                       // Only set marker if not already a dataview
                       const currentType = detectSourceType(currentOptionsSource, 'optionsSource');
@@ -793,10 +995,12 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({ component }) => {
                       handlePropertyChange('optionsSource', '(data, component) => { return []; }');
                       setSelectedDataviewResponse(null);
                       setDataviewFields([]);
+                      setDataviewFieldMetadata([]);
                     } else if (newValue === 'computed') {
                       handlePropertyChange('optionsSource', { computeType: 'function', fnSource: 'return [];' });
                       setSelectedDataviewResponse(null);
                       setDataviewFields([]);
+                      setDataviewFieldMetadata([]);
                     } else if (newValue === 'dataKey') {
                       // Only set empty string if not already a dataKey
                       const currentType = detectSourceType(currentOptionsSource, 'optionsSource');
@@ -805,6 +1009,7 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({ component }) => {
                       }
                       setSelectedDataviewResponse(null);
                       setDataviewFields([]);
+                      setDataviewFieldMetadata([]);
                     }
                   }}
                   onClick={(e) => e.stopPropagation()}
@@ -848,7 +1053,11 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({ component }) => {
                             const dataview = selected[0];
                             const dataviewId = dataview.id || dataview.dataview_id;
                             const dataviewUrl = dataview.url || dataview.openapi_url;
-                            handlePropertyChange('optionsSource', dataviewId);
+                            // An operation belongs to the previous dataview's spec
+                            handlePropertiesChange({
+                              optionsSource: dataviewId,
+                              dataviewOperation: dataviewId === optionsSource ? componentWithProps.props?.dataviewOperation : undefined,
+                            });
                             
                             try {
                               // Use the selected dataview's specific API URL
@@ -881,6 +1090,11 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({ component }) => {
                               setDataviewFields(fields);
                               setDataviewData(dataviewId, data);
                               setSelectedDataviewResponse(data);
+                              // Typed fields for the value/label pickers (schema first when the dataview has one)
+                              setDataviewFieldMetadata(DataviewFieldUtils.merge(
+                                await dataviewManager.loadDataviewFieldMetadata(dataviewId).catch(() => []),
+                                DataviewFieldUtils.inferFromRecords(data)
+                              ));
                               
                               // Auto-populate valueField and labelField if not already set
                               if (fields.length > 0) {
@@ -900,11 +1114,13 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({ component }) => {
                             } catch (error) {
                               console.error('Failed to load dataview:', error);
                               setDataviewFields([]);
+                              setDataviewFieldMetadata([]);
                               setSelectedDataviewResponse(null);
                             }
                           } else {
-                            handlePropertyChange('optionsSource', undefined);
+                            handlePropertiesChange({ optionsSource: undefined, dataviewOperation: undefined });
                             setDataviewFields([]);
+                            setDataviewFieldMetadata([]);
                             setSelectedDataviewResponse(null);
                           }
                         }}
@@ -942,6 +1158,11 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({ component }) => {
                             setDataviewFields(fields);
                             setDataviewData(dataviewId, data);
                             setSelectedDataviewResponse(data);
+                            // Typed fields for the value/label pickers (schema first when the dataview has one)
+                            setDataviewFieldMetadata(DataviewFieldUtils.merge(
+                              await dataviewManager.loadDataviewFieldMetadata(dataviewId).catch(() => []),
+                              DataviewFieldUtils.inferFromRecords(data)
+                            ));
                             
                             // Auto-populate valueField and labelField if not already set
                             if (fields.length > 0) {
@@ -961,10 +1182,45 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({ component }) => {
                           } catch (error) {
                             console.error('Failed to load dataview:', error);
                             setDataviewFields([]);
+                            setDataviewFieldMetadata([]);
                             setSelectedDataviewResponse(null);
                           }
                         }}
                       />
+                      {/* OpenAPI operation feeding the dataview (default: the spec's list operation) */}
+                      {(() => {
+                        const selectedDataview = dataviewsList.find(
+                          (dv: any) => (dv.id || dv.dataview_id) === optionsSource
+                        );
+                        const specUrl = selectedDataview?.url || selectedDataview?.openapi_url;
+                        if (!specUrl) return null;
+                        const operationId = componentWithProps.props?.dataviewOperation;
+                        return (
+                          <Box sx={{ mt: 1, display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+                            <Button size="small" variant="outlined" onClick={() => setOperationBrowserOpen(true)}>
+                              {operationId ? 'Change Operation' : 'Choose Operation'}
+                            </Button>
+                            {operationId ? (
+                              <Chip
+                                size="small"
+                                label={operationId}
+                                onDelete={() => handlePropertyChange('dataviewOperation', undefined)}
+                              />
+                            ) : (
+                              <Typography variant="caption" color="text.secondary">
+                                Default list operation
+                              </Typography>
+                            )}
+                            <OpenAPIOperationBrowser
+                              open={operationBrowserOpen}
+                              specUrl={specUrl}
+                              selectedOperationId={operationId}
+                              onClose={() => setOperationBrowserOpen(false)}
+                              onSelect={(operation) => handleOperationSelect(optionsSource, specUrl, operation)}
+                            />
+                          </Box>
+                        );
+                      })()}
                       {/* Field Selection UI after dataview is selected */}
                       {dataviewFields.length > 0 && selectedDataviewResponse !== null && (
                         <Box sx={{ mt: 2, p: 1.5, border: '1px solid', borderColor: 'divider', borderRadius: 1 }}>
@@ -974,35 +1230,22 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({ component }) => {
                           
                           {/* Field Selection Dropdowns */}
                           <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
-                            <FormControl fullWidth size="small">
-                              <InputLabel>Value Field</InputLabel>
-                              <Select
-                                value={componentWithProps.props?.valueField || dataviewFields[0] || ''}
-                                label="Value Field"
-                                onChange={(e) => handlePropertyChange('valueField', e.target.value)}
-                              >
-                                {dataviewFields.map((field) => (
-                                  <MenuItem key={field} value={field}>
-                                    {field}
-                                  </MenuItem>
-                                ))}
-                              </Select>
-                            </FormControl>
-                            
-                            <FormControl fullWidth size="small">
-                              <InputLabel>Label Field</InputLabel>
-                              <Select
-                                value={componentWithProps.props?.labelField || (dataviewFields[1] || dataviewFields[0] || '')}
-                                label="Label Field"
-                                onChange={(e) => handlePropertyChange('labelField', e.target.value)}
-                              >
-                                {dataviewFields.map((field) => (
-                                  <MenuItem key={field} value={field}>
-                                    {field}
-                                  </MenuItem>
-                                ))}
-                              </Select>
-                            </FormControl>
+                            <DataviewFieldPicker
+                              label="Value Field"
+                              value={componentWithProps.props?.valueField || dataviewFields[0] || ''}
+                              fields={dataviewFields}
+                              metadata={dataviewFieldMetadata}
+                              preferredTypes={['integer', 'string']}
+                              onChange={(field) => handlePropertyChange('valueField', field)}
+                            />
+                            <DataviewFieldPicker
+                              label="Label Field"
+                              value={componentWithProps.props?.labelField || (dataviewFields[1] || dataviewFields[0] || '')}
+                              fields={dataviewFields}
+                              metadata={dataviewFieldMetadata}
+                              preferredTypes={['string']}
+                              onChange={(field) => handlePropertyChange('labelField', field)}
+                            />
                           </Box>
 
                          
@@ -1211,45 +1454,61 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({ component }) => {
           </>
         );
 
-      case 'Wizard':
+      case 'Wizard': {
+        const wizardSteps = componentWithProps.children || [];
+        const legacyTitles: string[] = componentWithProps.props?.steps || [];
         return (
           <>
             {createTextFieldWithLocalState('label', 'Label', componentWithProps.props?.label, (val) => handlePropertyChange('label', val))}
             <Box sx={{ mt: 1 }}>
-              <Typography variant="caption">Steps (one per line)</Typography>
-              {(() => {
-                const fieldKey = `${component.id}.steps`;
-                const stepsValue = (componentWithProps.props?.steps || []).join('\n');
-                const localValue = focusedFieldRef.current === fieldKey 
-                  ? localFieldValues[fieldKey] ?? stepsValue
-                  : stepsValue;
-                
-                return (
-                  <TextField
-                    value={localValue}
-                    onChange={(e) => {
-                      setLocalFieldValues(prev => ({ ...prev, [fieldKey]: e.target.value }));
-                    }}
-                    onFocus={() => {
-                      focusedFieldRef.current = fieldKey;
-                      setLocalFieldValues(prev => ({ ...prev, [fieldKey]: stepsValue }));
-                    }}
-                    onBlur={(e) => {
-                      focusedFieldRef.current = null;
-                      const steps = e.target.value.split('\n').filter((s) => s.trim());
-                      handlePropertyChange('steps', steps);
-                    }}
+              <Typography variant="caption">Steps</Typography>
+              <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, mt: 0.5 }}>
+                {wizardSteps.map((step, index) => (
+                  <Chip
+                    key={step.id}
+                    label={WizardSteps.getTitle(step, index, legacyTitles)}
                     size="small"
-                    fullWidth
-                    multiline
-                    rows={4}
-                    sx={{ mt: 0.5 }}
+                    variant={step.props?.renderWhen ? 'outlined' : 'filled'}
+                    onClick={() => selectComponent(step.id)}
                   />
-                );
-              })()}
+                ))}
+              </Box>
+              <Button
+                size="small"
+                sx={{ mt: 0.5 }}
+                onClick={() => {
+                  addToHistory(JSON.parse(JSON.stringify(components)));
+                  addComponent({
+                    id: generateComponentId('Container'),
+                    type: 'Container',
+                    props: { label: `Step ${wizardSteps.length + 1}` },
+                    children: [],
+                  }, component.id);
+                }}
+              >
+                Add Step
+              </Button>
+              <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                Each step is a Container; select it to set its title (Label) and Render When (steps that don't render are skipped)
+              </Typography>
             </Box>
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={componentWithProps.props?.validateSteps !== false}
+                  onChange={(e) => handlePropertyChange('validateSteps', e.target.checked)}
+                  size="small"
+                />
+              }
+              label="Validate Step on Next"
+              sx={{ mt: 0.75 }}
+            />
+            {createTextFieldWithLocalState('progressDataKey', 'Progress Data Key', componentWithProps.props?.progressDataKey, (val) => handlePropertyChange('progressDataKey', val || undefined), {
+              helperText: 'Keeps the current step (0-based index) in form data',
+            })}
           </>
         );
+      }
 
       case 'ViewStack':
         return (
@@ -1685,6 +1944,28 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({ component }) => {
               type: 'number',
               helperText: 'Maximum number of items allowed (leave empty for unlimited)'
             })}
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={componentWithProps.props?.allowReorder || false}
+                  onChange={(e) => handlePropertyChange('allowReorder', e.target.checked)}
+                  size="small"
+                />
+              }
+              label="Allow Reorder (move up/down)"
+              sx={{ mt: 0.75 }}
+            />
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={componentWithProps.props?.allowDuplicate || false}
+                  onChange={(e) => handlePropertyChange('allowDuplicate', e.target.checked)}
+                  size="small"
+                />
+              }
+              label="Allow Duplicate"
+              sx={{ mt: 0.75 }}
+            />
             <Box sx={{ mt: 1 }}>
               <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 0.5 }}>
                 <Typography variant="caption" sx={{ fontWeight: 600 }}>
@@ -2019,7 +2300,8 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({ component }) => {
                             
                             try {
                               // Load fields
-                              const fields = await dataviewManager.loadDataviewFields(dataviewId);
+                              const fieldMetadata = await dataviewManager.loadDataviewFieldMetadata(dataviewId);
+                              const fields = fieldMetadata.map((field) => field.name);
                               setDataviewFields(fields);
                               
                               // Load and cache data for builder preview
@@ -2052,6 +2334,8 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({ component }) => {
                                     return {
                                       ...existingCol,
                                       visible: existingCol.visible !== false, // Default to visible
+                                      // Field type picks the default cell renderer
+                                      type: existingCol.type ?? fieldMetadata.find((meta) => meta.name === field)?.type,
                                     };
                                   }
                                   
@@ -2061,6 +2345,7 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({ component }) => {
                                     headerName: field.charAt(0).toUpperCase() + field.slice(1).replace(/_/g, ' '),
                                     width: 150,
                                     visible: true, // Show all columns by default
+                                    type: fieldMetadata.find((meta) => meta.name === field)?.type,
                                   };
                                 });
                                 
@@ -2079,7 +2364,8 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({ component }) => {
                         onDataviewSelect={async (dataview) => {
                           const dataviewId = dataview.id || dataview.dataview_id;
                           try {
-                            const fields = await dataviewManager.loadDataviewFields(dataviewId);
+                            const fieldMetadata = await dataviewManager.loadDataviewFieldMetadata(dataviewId);
+                            const fields = fieldMetadata.map((field) => field.name);
                             setDataviewFields(fields);
                             
                             // Load and cache data for builder preview
@@ -2111,6 +2397,8 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({ component }) => {
                                   return {
                                     ...existingCol,
                                     visible: existingCol.visible !== false, // Default to visible
+                                    // Field type picks the default cell renderer
+                                    type: existingCol.type ?? fieldMetadata.find((meta) => meta.name === field)?.type,
                                   };
                                 }
                                 
@@ -2120,6 +2408,7 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({ component }) => {
                                   headerName: field.charAt(0).toUpperCase() + field.slice(1).replace(/_/g, ' '),
                                   width: 150,
                                   visible: true, // Show all columns by default
+                                  type: fieldMetadata.find((meta) => meta.name === field)?.type,
                                 };
                               });
                               
@@ -2238,6 +2527,56 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({ component }) => {
                 );
               })()}
             </Box>
+            <Typography variant="caption" sx={{ display: 'block', mt: 1.5, mb: 0.5, fontWeight: 600 }}>
+              Hierarchy
+            </Typography>
+            <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+              Flat rows are nested by their parent field; rows with a children array are used as they are
+            </Typography>
+            {createTextFieldWithLocalState('idField', 'Id Field', componentWithProps.props?.idField, (val) => handlePropertyChange('idField', val || undefined), { placeholder: 'id' })}
+            {createTextFieldWithLocalState('parentField', 'Parent Field', componentWithProps.props?.parentField, (val) => handlePropertyChange('parentField', val || undefined), { placeholder: 'parent_id' })}
+            {createTextFieldWithLocalState('labelField', 'Label Field', componentWithProps.props?.labelField, (val) => handlePropertyChange('labelField', val || undefined), { placeholder: 'label' })}
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={componentWithProps.props?.lazy === true}
+                  onChange={(e) => handlePropertyChange('lazy', e.target.checked)}
+                  size="small"
+                />
+              }
+              label="Load Children on Expand"
+              sx={{ mt: 0.75 }}
+            />
+            {componentWithProps.props?.lazy === true && (
+              <Box sx={{ mt: 1, p: 1.5, border: '1px solid', borderColor: 'divider', borderRadius: 1 }}>
+                <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                  Dataview sources load the root rows first, then a node's children filtered by the parent field when it is expanded
+                </Typography>
+                {createTextFieldWithLocalState('rootParentValue', 'Root Parent Value', componentWithProps.props?.rootParentValue, (val) => handlePropertyChange('rootParentValue', val || undefined), {
+                  helperText: 'Parent field value of the root rows (empty: no parent)',
+                })}
+                {createTextFieldWithLocalState('hasChildrenField', 'Has Children Field', componentWithProps.props?.hasChildrenField, (val) => handlePropertyChange('hasChildrenField', val || undefined), {
+                  helperText: 'Optional row field telling whether a node has children',
+                })}
+              </Box>
+            )}
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={componentWithProps.props?.checkboxes === true}
+                  onChange={(e) => handlePropertyChange('checkboxes', e.target.checked)}
+                  size="small"
+                />
+              }
+              label="Checkboxes"
+              sx={{ mt: 0.75 }}
+            />
+            {componentWithProps.props?.checkboxes === true && (
+              <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                Ids of the checked nodes are stored as an array at the Data Key
+              </Typography>
+            )}
+            {renderVirtualizationFields({ rowHeight: 48, viewportHeight: 300 })}
           </>
         );
 
@@ -2486,6 +2825,7 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({ component }) => {
               label="Show Avatar"
               sx={{ mt: 0.75 }}
             />
+            {renderVirtualizationFields({ rowHeight: 48, viewportHeight: 400, loadThreshold: true, pageSize: 50 })}
           </>
         );
 
@@ -2691,6 +3031,90 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({ component }) => {
                 );
               })()}
             </Box>
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={componentWithProps.props?.sortable !== false}
+                  onChange={(e) => handlePropertyChange('sortable', e.target.checked)}
+                  size="small"
+                />
+              }
+              label="Sortable"
+              sx={{ mt: 0.75 }}
+            />
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={componentWithProps.props?.filterable === true}
+                  onChange={(e) => handlePropertyChange('filterable', e.target.checked)}
+                  size="small"
+                />
+              }
+              label="Column Filters"
+              sx={{ mt: 0.75 }}
+            />
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={componentWithProps.props?.paginated === true}
+                  onChange={(e) => handlePropertyChange('paginated', e.target.checked)}
+                  size="small"
+                />
+              }
+              label="Paginated"
+              sx={{ mt: 0.75 }}
+            />
+            {createTextFieldWithLocalState('pageSize', 'Page Size', componentWithProps.props?.pageSize ?? 25, (val) => handlePropertyChange('pageSize', val), {
+              type: 'number',
+              helperText: 'Dataview and remote: sources always load page by page from the server',
+            })}
+            {renderVirtualizationFields({ rowHeight: 37, viewportHeight: 400, loadThreshold: true })}
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={componentWithProps.props?.editable === true}
+                  onChange={(e) => handlePropertyChange('editable', e.target.checked)}
+                  size="small"
+                />
+              }
+              label="Editable"
+              sx={{ mt: 0.75 }}
+            />
+            {componentWithProps.props?.editable === true && (
+              <Box sx={{ mt: 1, p: 1.5, border: '1px solid', borderColor: 'divider', borderRadius: 1 }}>
+                <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1 }}>
+                  Edits are written to the array at the Data Key; the data source only fills it when it is empty
+                </Typography>
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={componentWithProps.props?.allowAdd !== false}
+                      onChange={(e) => handlePropertyChange('allowAdd', e.target.checked)}
+                      size="small"
+                    />
+                  }
+                  label="Allow Add Rows"
+                />
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={componentWithProps.props?.allowDelete !== false}
+                      onChange={(e) => handlePropertyChange('allowDelete', e.target.checked)}
+                      size="small"
+                    />
+                  }
+                  label="Allow Delete Rows"
+                />
+                <Typography variant="subtitle2" sx={{ mt: 1, mb: 1, fontWeight: 600 }}>
+                  Column Editors
+                </Typography>
+                <DataGridColumnsEditor
+                  columns={componentWithProps.props?.columns || []}
+                  dataviews={dataviewsList.map((dv: any) => ({ id: dv.id || dv.dataview_id, name: dv.name }))}
+                  onChange={(columns) => handlePropertyChange('columns', columns)}
+                />
+              </Box>
+            )}
           </>
         );
 
@@ -2953,6 +3377,30 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({ component }) => {
               label="Paginated"
               sx={{ mt: 0.75 }}
             />
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={componentWithProps.props?.sortable !== false}
+                  onChange={(e) => handlePropertyChange('sortable', e.target.checked)}
+                  size="small"
+                />
+              }
+              label="Sortable"
+              sx={{ mt: 0.75 }}
+            />
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={componentWithProps.props?.filterable === true}
+                  onChange={(e) => handlePropertyChange('filterable', e.target.checked)}
+                  size="small"
+                />
+              }
+              label="Column Filters"
+              sx={{ mt: 0.75 }}
+            />
+            {createTextFieldWithLocalState('pageSize', 'Page Size', componentWithProps.props?.pageSize ?? 10, (val) => handlePropertyChange('pageSize', val), { type: 'number' })}
+            {renderVirtualizationFields({ rowHeight: 33, viewportHeight: 400, loadThreshold: true })}
           </>
         );
 
@@ -3187,6 +3635,12 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({ component }) => {
                 handlePropertyChange('schema', schema);
                 handlePropertyChange('validation', schema); // Also set as validation for compatibility
               }}
+              validationDependency={componentWithProps.props?.dependencies?.validation}
+              onValidationDependencyChange={(validation) => {
+                const dependencies = { ...componentWithProps.props?.dependencies, validation };
+                if (!validation) delete dependencies.validation;
+                handlePropertyChange('dependencies', Object.keys(dependencies).length > 0 ? dependencies : undefined);
+              }}
             />
           </Box>
         )}
@@ -3282,7 +3736,7 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({ component }) => {
         )}
 
         {/* Data Binding Section */}
-        {['TextInput', 'TextArea', 'Select', 'DropDown', 'CheckBox', 'RadioGroup', 'Toggle', 'DateTime', 'DateTimeCb', 'Amount', 'AutoComplete'].includes(componentWithProps.type) && (
+        {['TextInput', 'TextArea', 'Select', 'DropDown', 'CheckBox', 'RadioGroup', 'Toggle', 'DateTime', 'DateTimeCb', 'Amount', 'AutoComplete', 'DataGrid', 'Tree'].includes(componentWithProps.type) && (
           <Box sx={{ mt: 2, p: 1.5, borderTop: '1px solid', borderColor: 'divider' }}>
             <Typography variant="overline" sx={{ display: 'block', mb: 1.5, fontSize: '0.7rem', color: 'text.secondary', fontWeight: 600 }}>
               Data Binding
@@ -3327,7 +3781,7 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({ component }) => {
               ) {
                 return null;
               }
-              if (componentWithProps.type === 'Button' && ['label', 'text', 'variant', 'color'].includes(key)) {
+              if (componentWithProps.type === 'Button' && ['label', 'text', 'variant', 'color', 'type'].includes(key)) {
                 return null;
               }
               if ((componentWithProps.type === 'Label' || componentWithProps.type === 'Heading') && ['text', 'label', 'variant'].includes(key)) {
@@ -3336,6 +3790,12 @@ const PropertyEditor: React.FC<PropertyEditorProps> = ({ component }) => {
               if (componentWithProps.type === 'Link' && ['text', 'href'].includes(key)) {
                 return null;
               }
+              if (
+                ['RequiredFieldValidator', 'RangeValidator', 'RegExValidator'].includes(componentWithProps.type) &&
+                ['targetField', 'min', 'max', 'pattern', 'flags', 'errorMessage', 'display'].includes(key)
+              ) {
+                return null;
+              }
               if ((componentWithProps.type === 'Select' || componentWithProps.type === 'DropDown') && ['label', 'options'].includes(key)) {
                 return null;
               }
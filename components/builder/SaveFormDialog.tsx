@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import {
   Dialog,
   DialogTitle,
@@ -8,17 +8,54 @@ import {
   TextField,
   Box,
   Typography,
+  Alert,
+  List,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  Accordion,
+  AccordionSummary,
+  AccordionDetails,
+  Select,
+  MenuItem,
+  RadioGroup,
+  Radio,
+  FormControlLabel,
+  Switch,
 } from '@mui/material';
-import { Save as SaveIcon } from '@mui/icons-material';
+import {
+  Save as SaveIcon,
+  ErrorOutline as ErrorIcon,
+  WarningAmber as WarningIcon,
+  ExpandMore as ExpandMoreIcon,
+} from '@mui/icons-material';
+import { useFormBuilderStore } from '../../stores/formBuilderStore';
+import { getDataviewManager } from '../../utils/dataviews/dataviewManager';
+import { apiConfig } from '../../config/apiConfig';
+import {
+  FormLinter,
+  LINT_RULES,
+  DEFAULT_LINT_SEVERITY,
+  type LintRuleId,
+  type LintSeverity,
+} from '../../utils/formLint';
+
+// 'file' downloads the form, 'storage' saves it through formService (a new revision)
+export type SaveDestination = 'file' | 'storage';
+
+export interface SaveFormMetadata {
+  formName: string;
+  description?: string;
+  author?: string;
+  destination: SaveDestination;
+  message?: string; // Revision note
+  asNew?: boolean; // Store as a new form instead of a revision of the stored one
+}
 
 interface SaveFormDialogProps {
   open: boolean;
   onClose: () => void;
-  onSave: (metadata: {
-    formName: string;
-    description?: string;
-    author?: string;
-  }) => void;
+  onSave: (metadata: SaveFormMetadata) => void;
   defaultFormName?: string;
 }
 
@@ -31,17 +68,59 @@ const SaveFormDialog: React.FC<SaveFormDialogProps> = ({
   const [formName, setFormName] = useState(defaultFormName);
   const [description, setDescription] = useState('');
   const [author, setAuthor] = useState('');
+  const [destination, setDestination] = useState<SaveDestination>('file');
+  const [message, setMessage] = useState('');
+  const [asNew, setAsNew] = useState(false);
+  const { components, selectComponent, formSettings, setFormSettings, storedForm } = useFormBuilderStore();
+
+  // Forms loaded from storage are saved back to it by default
+  useEffect(() => {
+    if (open) {
+      setFormName(storedForm?.formName || defaultFormName);
+      setDescription(storedForm?.description || '');
+      setDestination(storedForm ? 'storage' : 'file');
+      setMessage('');
+      setAsNew(false);
+    }
+  }, [open]);
+
+  // Lint pass over the canvas - errors block saving
+  const issues = useMemo(() => {
+    if (!open) return [];
+    const dataviewManager = getDataviewManager();
+    return FormLinter.lint(components, {
+      severity: formSettings.lintSeverity,
+      hasDataview: (dataviewId) => dataviewManager.hasDataview(dataviewId),
+    });
+  }, [open, components, formSettings.lintSeverity]);
+  const canSave = FormLinter.canSave(issues);
+  const errorCount = issues.filter((issue) => issue.severity === 'error').length;
+
+  const handleSeverityChange = (rule: LintRuleId, severity: LintSeverity) => {
+    setFormSettings({ lintSeverity: { ...formSettings.lintSeverity, [rule]: severity } });
+  };
+
+  const handleIssueClick = (componentId: string) => {
+    selectComponent(componentId);
+    onClose();
+  };
 
   const handleSave = () => {
     if (!formName.trim()) {
       alert('Please enter a form name');
       return;
     }
+    if (!canSave) {
+      return;
+    }
 
     onSave({
       formName: formName.trim(),
       description: description.trim() || undefined,
       author: author.trim() || undefined,
+      destination,
+      message: destination === 'storage' ? message.trim() || undefined : undefined,
+      asNew: destination === 'storage' && (asNew || !storedForm),
     });
 
     // Reset form
@@ -101,13 +180,116 @@ const SaveFormDialog: React.FC<SaveFormDialogProps> = ({
             size="small"
             helperText="Optional: Your name or identifier"
           />
+
+          <Box>
+            <Typography variant="caption" sx={{ fontWeight: 600 }}>
+              Save To
+            </Typography>
+            <RadioGroup
+              row
+              value={destination}
+              onChange={(e) => setDestination(e.target.value as SaveDestination)}
+            >
+              <FormControlLabel value="file" control={<Radio size="small" />} label={<Typography variant="body2">File download</Typography>} />
+              <FormControlLabel
+                value="storage"
+                control={<Radio size="small" />}
+                label={<Typography variant="body2">Form storage ({apiConfig.getFormStorageName()})</Typography>}
+              />
+            </RadioGroup>
+          </Box>
+
+          {destination === 'storage' && (
+            <>
+              {storedForm && (
+                <FormControlLabel
+                  control={<Switch size="small" checked={asNew} onChange={(e) => setAsNew(e.target.checked)} />}
+                  label={
+                    <Typography variant="body2">
+                      {asNew
+                        ? 'Save as a new form'
+                        : `Save as a new revision of "${storedForm.formName}"${storedForm.revision ? ` (currently revision ${storedForm.revision})` : ''}`}
+                    </Typography>
+                  }
+                />
+              )}
+              <TextField
+                label="Revision Note"
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                fullWidth
+                size="small"
+                helperText="Optional: What changed in this revision"
+              />
+            </>
+          )}
+
+          {issues.length > 0 ? (
+            <Box>
+              <Alert severity={canSave ? 'warning' : 'error'} sx={{ fontSize: '0.75rem', mb: 1 }}>
+                {canSave
+                  ? `${issues.length} warning(s) found. You can still save.`
+                  : `Fix ${errorCount} error(s) before saving. Click an issue to select the component.`}
+              </Alert>
+              <List dense disablePadding sx={{ maxHeight: 220, overflow: 'auto', border: 1, borderColor: 'divider', borderRadius: 1 }}>
+                {issues.map((issue, index) => (
+                  <ListItemButton key={`${issue.rule}-${issue.componentId}-${index}`} onClick={() => handleIssueClick(issue.componentId)}>
+                    <ListItemIcon sx={{ minWidth: 32 }}>
+                      {issue.severity === 'error'
+                        ? <ErrorIcon fontSize="small" color="error" />
+                        : <WarningIcon fontSize="small" color="warning" />}
+                    </ListItemIcon>
+                    <ListItemText
+                      primary={issue.message}
+                      secondary={LINT_RULES[issue.rule]}
+                      primaryTypographyProps={{ fontSize: '0.8125rem' }}
+                      secondaryTypographyProps={{ fontSize: '0.75rem' }}
+                    />
+                  </ListItemButton>
+                ))}
+              </List>
+            </Box>
+          ) : (
+            <Alert severity="success" sx={{ fontSize: '0.75rem' }}>
+              No problems found
+            </Alert>
+          )}
+
+          <Accordion disableGutters variant="outlined">
+            <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+              <Typography variant="caption" sx={{ fontWeight: 600 }}>
+                Lint Rules
+              </Typography>
+            </AccordionSummary>
+            <AccordionDetails>
+              <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+                {(Object.keys(LINT_RULES) as LintRuleId[]).map((rule) => (
+                  <Box key={rule} sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 1 }}>
+                    <Typography variant="body2" sx={{ fontSize: '0.8125rem' }}>
+                      {LINT_RULES[rule]}
+                    </Typography>
+                    <Select
+                      size="small"
+                      value={formSettings.lintSeverity?.[rule] || DEFAULT_LINT_SEVERITY[rule]}
+                      onChange={(e) => handleSeverityChange(rule, e.target.value as LintSeverity)}
+                      sx={{ minWidth: 120, fontSize: '0.8125rem' }}
+                    >
+                      <MenuItem value="error">Error (blocks save)</MenuItem>
+                      <MenuItem value="warning">Warning</MenuItem>
+                      <MenuItem value="off">Off</MenuItem>
+                    </Select>
+                  </Box>
+                ))}
+              </Box>
+            </AccordionDetails>
+          </Accordion>
         </Box>
       </DialogContent>
       <DialogActions sx={{ px: 2, pb: 2 }}>
         <Button onClick={handleCancel} color="inherit">
           Cancel
         </Button>
-        <Button onClick={handleSave} variant="contained" color="primary" startIcon={<SaveIcon />}>
+        <Button onClick={handleSave} variant="contained" color="primary" startIcon={<SaveIcon />} disabled={!canSave}>
           Save
         </Button>
       </DialogActions>
@@ -20,16 +20,24 @@ import {
   Delete as DeleteIcon,
   ExpandMore as ExpandMoreIcon,
 } from '@mui/icons-material';
+import type { DependencyCondition, ValidationDependency } from '../../stores/types';
 import type { ValidationRule, ValidationSchema } from '../../stores/types/formEngine';
 import { useModeStore } from '../../stores/modeStore';
+import { useFormDataStore } from '../../stores/formDataStore';
+import { DependencyConditionEditor } from './DependencyEditor';
 import { VALIDATION_RULES_CLASSIFICATION, isFeatureAvailable } from '../../utils/modes/featureClassification';
 
 interface ValidationEditorProps {
   schema?: ValidationSchema;
   dataType?: 'string' | 'number' | 'boolean' | 'date' | 'array' | 'object';
   onChange: (schema: ValidationSchema) => void;
+  // dependencies.validation - the section is shown when a change handler is given
+  validationDependency?: ValidationDependency;
+  onValidationDependencyChange?: (validation: ValidationDependency | undefined) => void;
 }
 
+type ConditionalRule = NonNullable<ValidationDependency['rules']>[number];
+
 const VALIDATION_RULES: Record<string, { label: string; args: string[]; dataTypes: string[] }> = {
   required: { label: 'Required', args: [], dataTypes: ['string', 'number', 'boolean', 'date', 'array', 'object'] },
   min: { label: 'Minimum', args: ['limit'], dataTypes: ['string', 'number', 'array'] },
@@ -48,12 +56,74 @@ const VALIDATION_RULES: Record<string, { label: string; args: string[]; dataType
   moreThan: { label: 'More Than', args: ['limit'], dataTypes: ['number'] },
   integer: { label: 'Integer', args: [], dataTypes: ['number'] },
   multipleOf: { label: 'Multiple Of', args: ['value'], dataTypes: ['number'] },
+  // Async rules (checked against the server, see utils/validation/asyncValidation.ts)
+  unique: { label: 'Unique in Dataview', args: ['dataview', 'field', 'debounce'], dataTypes: ['string', 'number'] },
+  remote: { label: 'Remote Check', args: ['endpoint', 'debounce'], dataTypes: ['string', 'number'] },
+};
+
+// Arguments edited as numbers
+const NUMERIC_ARGS = ['limit', 'value', 'debounce'];
+
+// Argument fields of a rule type
+const RuleArgFields: React.FC<{
+  ruleKey: string;
+  args?: Record<string, any>;
+  onChange: (argKey: string, value: any) => void;
+}> = ({ ruleKey, args, onChange }) => {
+  const ruleDef = VALIDATION_RULES[ruleKey];
+  if (!ruleDef?.args || ruleDef.args.length === 0) return null;
+
+  return (
+    <>
+      <Divider />
+      <Typography variant="caption" sx={{ fontWeight: 600 }}>
+        Arguments
+      </Typography>
+      {ruleDef.args.map((argKey) => {
+        const argValue = args?.[argKey];
+        return (
+          <TextField
+            key={argKey}
+            label={argKey.charAt(0).toUpperCase() + argKey.slice(1)}
+            value={argValue || ''}
+            onChange={(e) => {
+              const value = NUMERIC_ARGS.includes(argKey)
+                ? (isNaN(Number(e.target.value)) ? e.target.value : Number(e.target.value))
+                : e.target.value;
+              onChange(argKey, value);
+            }}
+            size="small"
+            fullWidth
+            type={NUMERIC_ARGS.includes(argKey) ? 'number' : 'text'}
+            helperText={
+              argKey === 'pattern' ? 'Regular expression pattern (e.g., ^[A-Z]+$)' :
+              argKey === 'limit' ? 'Numeric limit value' :
+              argKey === 'value' ? 'Value to check against' :
+              argKey === 'dataview' ? 'Dataview id - the value must not exist in it' :
+              argKey === 'field' ? 'Dataview field compared with the value' :
+              argKey === 'endpoint' ? 'URL receiving POST { value }, answering true/false or { valid, message }' :
+              argKey === 'debounce' ? 'Milliseconds to wait after typing (default 400)' : ''
+            }
+          />
+        );
+      })}
+    </>
+  );
 };
 
-const ValidationEditor: React.FC<ValidationEditorProps> = ({ schema, dataType = 'string', onChange }) => {
+const ValidationEditor: React.FC<ValidationEditorProps> = ({
+  schema,
+  dataType = 'string',
+  onChange,
+  validationDependency,
+  onValidationDependencyChange,
+}) => {
   const validations = schema?.validations || [];
   const [expandedRule, setExpandedRule] = useState<number | null>(null);
+  const [expandedConditionalRule, setExpandedConditionalRule] = useState<number | null>(null);
   const advancedMode = useModeStore((state) => state.advancedMode);
+  const formData = useFormDataStore((state) => state.data);
+  const conditionalRules = validationDependency?.rules || [];
 
   // Filter rules based on mode using feature classification
   const availableRules = useMemo(() => {
@@ -100,6 +170,32 @@ const ValidationEditor: React.FC<ValidationEditorProps> = ({ schema, dataType =
     handleUpdateRule(index, { args });
   };
 
+  // Empty validation dependencies are removed
+  const handleValidationDependencyChange = (updates: Partial<ValidationDependency>) => {
+    const next: ValidationDependency = { ...validationDependency, ...updates };
+    if (!next.enabledWhen) delete next.enabledWhen;
+    if (!next.rules || next.rules.length === 0) delete next.rules;
+    onValidationDependencyChange?.(Object.keys(next).length > 0 ? next : undefined);
+  };
+
+  const handleAddConditionalRule = () => {
+    const newRule: ConditionalRule = { type: availableRules[0]?.[0] || 'required', params: {} };
+    handleValidationDependencyChange({ rules: [...conditionalRules, newRule] });
+    setExpandedConditionalRule(conditionalRules.length);
+  };
+
+  const handleUpdateConditionalRule = (index: number, updates: Partial<ConditionalRule>) => {
+    const rules = [...conditionalRules];
+    rules[index] = { ...rules[index], ...updates };
+    if (!rules[index].enabledWhen) delete rules[index].enabledWhen;
+    if (!rules[index].message) delete rules[index].message;
+    handleValidationDependencyChange({ rules });
+  };
+
+  const handleRemoveConditionalRule = (index: number) => {
+    handleValidationDependencyChange({ rules: conditionalRules.filter((_, i) => i !== index) });
+  };
+
   return (
     <Box>
       <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1.5 }}>
@@ -188,38 +284,11 @@ const ValidationEditor: React.FC<ValidationEditorProps> = ({ schema, dataType =
                       </Select>
                     </FormControl>
 
-                    {ruleDef?.args && ruleDef.args.length > 0 && (
-                      <>
-                        <Divider />
-                        <Typography variant="caption" sx={{ fontWeight: 600 }}>
-                          Arguments
-                        </Typography>
-                        {ruleDef.args.map((argKey) => {
-                          const argValue = rule.args?.[argKey];
-                          return (
-                            <TextField
-                              key={argKey}
-                              label={argKey.charAt(0).toUpperCase() + argKey.slice(1)}
-                              value={argValue || ''}
-                              onChange={(e) => {
-                                const value = argKey === 'limit' || argKey === 'value' 
-                                  ? (isNaN(Number(e.target.value)) ? e.target.value : Number(e.target.value))
-                                  : e.target.value;
-                                handleUpdateRuleArg(index, argKey, value);
-                              }}
-                              size="small"
-                              fullWidth
-                              type={argKey === 'limit' || argKey === 'value' ? 'number' : 'text'}
-                              helperText={
-                                argKey === 'pattern' ? 'Regular expression pattern (e.g., ^[A-Z]+$)' :
-                                argKey === 'limit' ? 'Numeric limit value' :
-                                argKey === 'value' ? 'Value to check against' : ''
-                              }
-                            />
-                          );
-                        })}
-                      </>
-                    )}
+                    <RuleArgFields
+                      ruleKey={rule.key}
+                      args={rule.args}
+                      onChange={(argKey, value) => handleUpdateRuleArg(index, argKey, value)}
+                    />
 
                     <Divider />
                     <TextField
@@ -254,6 +323,125 @@ const ValidationEditor: React.FC<ValidationEditorProps> = ({ schema, dataType =
           })}
         </Box>
       )}
+
+      {onValidationDependencyChange && (
+        <Box sx={{ mt: 2 }}>
+          <Divider sx={{ mb: 1.5 }} />
+          <Typography variant="subtitle2" sx={{ fontSize: '0.8125rem', fontWeight: 600, mb: 1 }}>
+            Conditional Validation
+          </Typography>
+          <DependencyConditionEditor
+            condition={validationDependency?.enabledWhen}
+            label="Validate When"
+            onChange={(enabledWhen) => handleValidationDependencyChange({ enabledWhen })}
+            formData={formData}
+          />
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 0.5 }}>
+            While the condition is false the field is not validated (required included).
+          </Typography>
+
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mt: 2, mb: 1 }}>
+            <Typography variant="caption" sx={{ fontWeight: 600 }}>
+              Conditional Rules
+            </Typography>
+            <Button
+              size="small"
+              startIcon={<AddIcon />}
+              onClick={handleAddConditionalRule}
+              variant="outlined"
+              sx={{ fontSize: '0.75rem', py: 0.5 }}
+            >
+              Add Rule
+            </Button>
+          </Box>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+            {conditionalRules.map((rule, index) => {
+              const isExpanded = expandedConditionalRule === index;
+              return (
+                <Accordion
+                  key={index}
+                  expanded={isExpanded}
+                  onChange={() => setExpandedConditionalRule(isExpanded ? null : index)}
+                  sx={{ border: '1px solid', borderColor: 'divider' }}
+                >
+                  <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, width: '100%' }}>
+                      <Chip
+                        label={VALIDATION_RULES[rule.type]?.label || rule.type}
+                        size="small"
+                        color="secondary"
+                        sx={{ fontSize: '0.7rem', height: 20 }}
+                      />
+                      {rule.enabledWhen && (
+                        <Typography variant="caption" color="text.secondary">
+                          conditional
+                        </Typography>
+                      )}
+                      <Box sx={{ flexGrow: 1 }} />
+                      <IconButton
+                        size="small"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleRemoveConditionalRule(index);
+                        }}
+                        sx={{ mr: 1 }}
+                      >
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </Box>
+                  </AccordionSummary>
+                  <AccordionDetails>
+                    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+                      <FormControl fullWidth size="small">
+                        <InputLabel>Rule Type</InputLabel>
+                        <Select
+                          value={rule.type}
+                          label="Rule Type"
+                          onChange={(e) => handleUpdateConditionalRule(index, { type: e.target.value, params: {} })}
+                        >
+                          {availableRules.map(([key, def]) => (
+                            <MenuItem key={key} value={key}>
+                              {def.label}
+                            </MenuItem>
+                          ))}
+                        </Select>
+                      </FormControl>
+
+                      <RuleArgFields
+                        ruleKey={rule.type}
+                        args={rule.params}
+                        onChange={(argKey, value) =>
+                          handleUpdateConditionalRule(index, { params: { ...(rule.params || {}), [argKey]: value } })
+                        }
+                      />
+
+                      <Divider />
+                      <TextField
+                        label="Custom Error Message"
+                        value={rule.message || ''}
+                        onChange={(e) => handleUpdateConditionalRule(index, { message: e.target.value })}
+                        size="small"
+                        fullWidth
+                        placeholder="Leave empty for default message"
+                      />
+
+                      <Divider />
+                      <DependencyConditionEditor
+                        condition={rule.enabledWhen}
+                        label="Apply When"
+                        onChange={(enabledWhen: DependencyCondition | undefined) =>
+                          handleUpdateConditionalRule(index, { enabledWhen })
+                        }
+                        formData={formData}
+                      />
+                    </Box>
+                  </AccordionDetails>
+                </Accordion>
+              );
+            })}
+          </Box>
+        </Box>
+      )}
     </Box>
   );
 };
@@ -12,7 +12,7 @@ import { useFormBuilderStore } from '../../stores/formBuilderStore';
 import { exportAsPersistedForm } from '../../utils/formExport';
 
 const FormViewerDemo: React.FC = () => {
-  const { components } = useFormBuilderStore();
+  const { components, workAreaLayout } = useFormBuilderStore();
   const [formData, setFormData] = useState<PersistedForm | null>(null);
   const [submittedData, setSubmittedData] = useState<Record<string, any> | null>(null);
 
@@ -34,6 +34,7 @@ const FormViewerDemo: React.FC = () => {
         formName: 'Demo Form',
         description: 'Form created in builder',
       },
+      workAreaLayout,
     });
 
     setFormData(persistedForm);
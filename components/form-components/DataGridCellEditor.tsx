@@ -0,0 +1,125 @@
+/**
+ * DataGrid Cell Editor
+ * Inline editor of an editable DataGrid cell (text, number, select, date, checkbox)
+ */
+
+import React, { useEffect, useState } from 'react';
+import { TextField, Select, MenuItem, Checkbox, Tooltip, FormControl } from '@mui/material';
+import type { DataGridColumn } from '../../stores/types';
+
+interface DataGridCellEditorProps {
+  column: DataGridColumn;
+  value: any;
+  options?: Array<{ value: any; label: string }>;
+  error?: string;
+  disabled?: boolean;
+  onChange: (value: any) => void;
+}
+
+// Date-only part of a stored date for the date input
+const toDateInput = (value: any): string => {
+  if (!value) return '';
+  const text = String(value);
+  if (/^\d{4}-\d{2}-\d{2}/.test(text)) return text.slice(0, 10);
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? '' : date.toISOString().slice(0, 10);
+};
+
+const DataGridCellEditor: React.FC<DataGridCellEditorProps> = ({
+  column,
+  value,
+  options = [],
+  error,
+  disabled = false,
+  onChange,
+}) => {
+  // Text and number input is committed on blur/Enter (partial numbers like "1." stay editable)
+  const [draft, setDraft] = useState<string>(value === null || value === undefined ? '' : String(value));
+  useEffect(() => {
+    setDraft(value === null || value === undefined ? '' : String(value));
+  }, [value]);
+
+  const commitDraft = () => {
+    const current = value === null || value === undefined ? '' : String(value);
+    if (draft !== current) onChange(draft);
+  };
+
+  let editor: React.ReactElement;
+  switch (column.editor) {
+    case 'checkbox':
+      editor = (
+        <Checkbox
+          size="small"
+          checked={Boolean(value)}
+          disabled={disabled}
+          onChange={(e) => onChange(e.target.checked)}
+          sx={{ p: 0.5, ...(error ? { color: 'error.main' } : {}) }}
+        />
+      );
+      break;
+    case 'select':
+      editor = (
+        <FormControl variant="standard" size="small" fullWidth error={Boolean(error)}>
+          <Select
+            value={options.some((option) => option.value === value) ? value : ''}
+            disabled={disabled}
+            displayEmpty
+            onChange={(e) => onChange(e.target.value)}
+          >
+            <MenuItem value="">
+              <em>-</em>
+            </MenuItem>
+            {options.map((option) => (
+              <MenuItem key={String(option.value)} value={option.value}>
+                {option.label}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      );
+      break;
+    case 'date':
+      editor = (
+        <TextField
+          variant="standard"
+          size="small"
+          type="date"
+          fullWidth
+          value={toDateInput(value)}
+          disabled={disabled}
+          error={Boolean(error)}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      );
+      break;
+    default:
+      editor = (
+        <TextField
+          variant="standard"
+          size="small"
+          type={column.editor === 'number' ? 'number' : 'text'}
+          fullWidth
+          value={draft}
+          disabled={disabled}
+          error={Boolean(error)}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commitDraft}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commitDraft();
+          }}
+          inputProps={column.editor === 'number' ? { style: { textAlign: 'right' } } : undefined}
+        />
+      );
+  }
+
+  // Error shown as a tooltip so rows keep their height
+  return error ? (
+    <Tooltip title={error} arrow>
+      <span style={{ display: 'block' }}>{editor}</span>
+    </Tooltip>
+  ) : (
+    editor
+  );
+};
+
+export default DataGridCellEditor;
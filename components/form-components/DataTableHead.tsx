@@ -0,0 +1,252 @@
+/**
+ * Data Table Head
+ * Sortable column headers and a per-column filter row for DataGrid/DataBrowse
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  TableHead,
+  TableRow,
+  TableCell,
+  TableSortLabel,
+  TextField,
+  Select,
+  MenuItem,
+  Box,
+} from '@mui/material';
+import { Check as CheckIcon, Close as CloseIcon } from '@mui/icons-material';
+import type { DataviewFieldType } from '../../stores/types';
+import {
+  DataviewFieldUtils,
+  type DataviewFieldRenderer,
+  type DataviewFilterOperator,
+} from '../../utils/dataviews/dataviewFields';
+import type { GridFilter, GridFilterData, GridSort } from '../../utils/data/gridQuery';
+
+export interface DataTableColumn {
+  field: string;
+  headerName: string;
+  type: DataviewFieldType;
+  nullable?: boolean;
+  enum?: any[];
+  renderer: DataviewFieldRenderer;
+  align: 'left' | 'right';
+  sortable?: boolean;
+  filterable?: boolean;
+}
+
+/**
+ * Visible columns of a grid's columns prop (strings or objects), inferred from the rows when empty
+ * Types come from the column, then from the values seen in the rows
+ */
+export function toDataTableColumns(columns: any[], rows: any[]): DataTableColumn[] {
+  const inferred = DataviewFieldUtils.inferFromRecords(rows);
+  const byName = new Map(inferred.map((field) => [field.name, field]));
+  const source = columns.length > 0 ? columns : inferred.map((field) => field.name);
+
+  return source
+    .filter((col: any) => typeof col === 'string' || col.visible !== false)
+    .map((col: any) => {
+      const definition = typeof col === 'string' ? { field: col } : col;
+      const seen = byName.get(definition.field);
+      const type: DataviewFieldType = definition.type || seen?.type || 'string';
+      const renderer: DataviewFieldRenderer = definition.renderer || DataviewFieldUtils.getRenderer({ type });
+      return {
+        field: definition.field,
+        headerName: definition.headerName || definition.field,
+        type,
+        nullable: definition.nullable ?? seen?.nullable,
+        enum: definition.enum,
+        renderer,
+        align: renderer === 'number' ? 'right' : 'left',
+        sortable: definition.sortable,
+        filterable: definition.filterable,
+      };
+    });
+}
+
+/**
+ * Cell content of a value (booleans as icons)
+ */
+export function renderDataTableValue(value: any, renderer: DataviewFieldRenderer): React.ReactNode {
+  if (renderer === 'boolean' && typeof value === 'boolean') {
+    return value
+      ? <CheckIcon fontSize="small" color="success" />
+      : <CloseIcon fontSize="small" color="disabled" />;
+  }
+  return DataviewFieldUtils.formatValue(value, renderer);
+}
+
+/**
+ * Empty row standing in for the rows outside the window of a virtualized table
+ */
+export function renderDataTableSpacer(height: number, colSpan: number, key: string): React.ReactNode {
+  if (height <= 0) return null;
+  return (
+    <TableRow key={key} aria-hidden style={{ height }}>
+      <TableCell colSpan={colSpan} sx={{ p: 0, border: 0 }} />
+    </TableRow>
+  );
+}
+
+interface DataTableHeadProps {
+  columns: DataTableColumn[];
+  sortable: boolean;
+  filterable: boolean;
+  sortData: GridSort[];
+  filterData: GridFilterData;
+  // Builder preview: controls are shown but do nothing
+  disabled?: boolean;
+  // Trailing column for row actions (e.g. delete)
+  actionsColumn?: boolean;
+  onSortChange: (sortData: GridSort[]) => void;
+  onFiltersChange: (filterData: GridFilterData) => void;
+}
+
+const OPERATOR_LABELS: Record<DataviewFilterOperator, string> = {
+  equals: '=',
+  notEquals: '≠',
+  contains: 'contains',
+  notContains: 'excludes',
+  gt: '>',
+  gte: '≥',
+  lt: '<',
+  lte: '≤',
+  empty: 'empty',
+  notEmpty: 'not empty',
+  in: 'in',
+  notIn: 'not in',
+};
+
+// Delay before typed filter values are applied
+const FILTER_DEBOUNCE_MS = 400;
+
+const defaultOperator = (operators: DataviewFilterOperator[]): DataviewFilterOperator =>
+  operators.includes('contains') ? 'contains' : operators[0] || 'equals';
+
+const DataTableHead: React.FC<DataTableHeadProps> = ({
+  columns,
+  sortable,
+  filterable,
+  sortData,
+  filterData,
+  disabled = false,
+  actionsColumn = false,
+  onSortChange,
+  onFiltersChange,
+}) => {
+  // Filters as typed, applied after FILTER_DEBOUNCE_MS
+  const [drafts, setDrafts] = useState<Record<string, GridFilter>>({});
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Latest filterData for debounced commits (search may change meanwhile)
+  const filterDataRef = useRef(filterData);
+  filterDataRef.current = filterData;
+
+  useEffect(() => () => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+  }, []);
+
+  const commit = (next: Record<string, GridFilter>, immediate: boolean) => {
+    setDrafts(next);
+    if (timerRef.current) clearTimeout(timerRef.current);
+    const apply = () => onFiltersChange({ ...filterDataRef.current, conditions: Object.values(next) });
+    if (immediate) apply();
+    else timerRef.current = setTimeout(apply, FILTER_DEBOUNCE_MS);
+  };
+
+  // asc -> desc -> unsorted
+  const handleSort = (field: string) => {
+    if (disabled) return;
+    const current = sortData.find((sort) => sort.field === field);
+    if (!current) onSortChange([{ field, direction: 'asc' }]);
+    else if (current.direction === 'asc') onSortChange([{ field, direction: 'desc' }]);
+    else onSortChange([]);
+  };
+
+  return (
+    <TableHead>
+      <TableRow>
+        {columns.map((column) => {
+          const sort = sortData.find((item) => item.field === column.field);
+          return (
+            <TableCell key={column.field} align={column.align} sortDirection={sort ? sort.direction : false}>
+              {sortable && column.sortable !== false ? (
+                <TableSortLabel
+                  active={Boolean(sort)}
+                  direction={sort?.direction || 'asc'}
+                  onClick={() => handleSort(column.field)}
+                >
+                  {column.headerName}
+                </TableSortLabel>
+              ) : (
+                column.headerName
+              )}
+            </TableCell>
+          );
+        })}
+        {actionsColumn && <TableCell padding="checkbox" />}
+      </TableRow>
+      {filterable && (
+        <TableRow>
+          {columns.map((column) => {
+            const operators = DataviewFieldUtils.getOperators({ ...column, nullable: Boolean(column.nullable) });
+            if (column.filterable === false || operators.length === 0) {
+              return <TableCell key={column.field} />;
+            }
+
+            const draft = drafts[column.field] || {
+              field: column.field,
+              operator: defaultOperator(operators),
+              value: '',
+              type: column.type,
+            };
+            const needsValue = draft.operator !== 'empty' && draft.operator !== 'notEmpty';
+
+            return (
+              <TableCell key={column.field} sx={{ py: 0.5 }}>
+                <Box sx={{ display: 'flex', gap: 0.5, alignItems: 'flex-end', minWidth: 120 }}>
+                  <Select
+                    variant="standard"
+                    size="small"
+                    value={draft.operator}
+                    disabled={disabled}
+                    onChange={(e) => {
+                      const operator = e.target.value as DataviewFilterOperator;
+                      commit({ ...drafts, [column.field]: { ...draft, operator } }, true);
+                    }}
+                    sx={{ fontSize: '0.75rem', minWidth: 40 }}
+                  >
+                    {operators.map((operator) => (
+                      <MenuItem key={operator} value={operator} dense>
+                        {OPERATOR_LABELS[operator]}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                  {needsValue && (
+                    <TextField
+                      variant="standard"
+                      size="small"
+                      placeholder={draft.operator === 'in' || draft.operator === 'notIn' ? 'a, b' : 'Filter'}
+                      type={column.type === 'date' ? 'date' : column.type === 'datetime' ? 'datetime-local' : 'text'}
+                      value={draft.value ?? ''}
+                      disabled={disabled}
+                      onChange={(e) => commit({ ...drafts, [column.field]: { ...draft, value: e.target.value } }, false)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commit(drafts, true);
+                      }}
+                      inputProps={{ style: { fontSize: '0.75rem' } }}
+                      fullWidth
+                    />
+                  )}
+                </Box>
+              </TableCell>
+            );
+          })}
+          {actionsColumn && <TableCell padding="checkbox" />}
+        </TableRow>
+      )}
+    </TableHead>
+  );
+};
+
+export default DataTableHead;
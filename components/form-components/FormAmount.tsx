@@ -1,5 +1,5 @@
 import React from 'react';
-import { TextField, Box, InputAdornment } from '@mui/material';
+import { TextField, Box, InputAdornment, CircularProgress } from '@mui/material';
 import type { ComponentDefinition } from '../../stores/types';
 import { useFormBuilderStore } from '../../stores/formBuilderStore';
 import { useFormComponent } from '../../hooks/useFormComponent';
@@ -23,6 +23,7 @@ const FormAmount: React.FC<FormAmountProps> = ({ component }) => {
     computedPlaceholder,
     validationError,
     isValid,
+    validationPending,
     boundValue,
     setBoundValue,
     responsiveSx,
@@ -50,7 +51,8 @@ const FormAmount: React.FC<FormAmountProps> = ({ component }) => {
   
   const calculatedWidth = width || (fullWidth ? '100%' : 'auto');
   const displayValue = formMode ? boundValue : computedValue;
-  const displayHelperText = validationError || computedHelperText || '';
+  // Async rules being checked
+  const displayHelperText = validationPending ? 'Checking...' : validationError || computedHelperText || '';
   const hasError = !!validationError || !isValid;
 
   if (!computedVisible) return null;
@@ -108,6 +110,11 @@ const FormAmount: React.FC<FormAmountProps> = ({ component }) => {
           startAdornment: (
             <InputAdornment position="start">{currency}</InputAdornment>
           ),
+          endAdornment: validationPending ? (
+            <InputAdornment position="end">
+              <CircularProgress size={16} />
+            </InputAdornment>
+          ) : undefined,
         }}
         helperText={displayHelperText}
         error={hasError || undefined}
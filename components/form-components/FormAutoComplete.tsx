@@ -15,7 +15,7 @@ interface FormAutoCompleteProps {
 
 const FormAutoComplete: React.FC<FormAutoCompleteProps> = ({ component }) => {
   const { selectComponent, selectedComponentId, formMode } = useFormBuilderStore();
-  const { data, getAllData, getData } = useFormDataStore();
+  const { data, getAllData, getData, strictExpressions } = useFormDataStore();
   const { getDataviewData } = useBuilderDataStore();
   const isSelected = selectedComponentId === component.id;
 
@@ -60,6 +60,9 @@ const FormAutoComplete: React.FC<FormAutoCompleteProps> = ({ component }) => {
   const [filteredDataviewData, setFilteredDataviewData] = React.useState<any[]>([]);
   const [isLoadingDataview, setIsLoadingDataview] = React.useState(false);
   
+  // OpenAPI operation chosen in the builder to feed the options
+  const dataviewOperation = latestComponent.props?.dataviewOperation as string | undefined;
+
   // Load dataview data with filters when filterParams change
   React.useEffect(() => {
     if (!formMode || !optionsSource || typeof optionsSource !== 'string') {
@@ -84,7 +87,7 @@ const FormAutoComplete: React.FC<FormAutoCompleteProps> = ({ component }) => {
       setIsLoadingDataview(true);
       try {
         const dataviewManager = getDataviewManager();
-        const data = await dataviewManager.loadDataview(optionsSource, filterParams);
+        const data = await dataviewManager.loadDataview(optionsSource, filterParams, dataviewOperation);
         setFilteredDataviewData(Array.isArray(data) ? data : []);
       } catch (error) {
         console.error('Error loading filtered dataview data:', error);
@@ -95,7 +98,7 @@ const FormAutoComplete: React.FC<FormAutoCompleteProps> = ({ component }) => {
     };
     
     loadFilteredData();
-  }, [formMode, optionsSource, filterParams, getDataviewData]);
+  }, [formMode, optionsSource, filterParams, getDataviewData, dataviewOperation]);
   
   // Resolve data from various sources (sync version for useMemo)
   // Në builder mode, nëse optionsSource është dataview reference (string), merr të dhënat nga builder store
@@ -132,8 +135,9 @@ const FormAutoComplete: React.FC<FormAutoCompleteProps> = ({ component }) => {
       component: latestComponent,
       getAllData,
       getData,
+      strict: strictExpressions,
     });
-  }, [optionsSource, data, latestComponent, getAllData, getData, formMode, getDataviewData, filteredDataviewData, isLoadingDataview]);
+  }, [optionsSource, data, latestComponent, getAllData, getData, formMode, getDataviewData, filteredDataviewData, isLoadingDataview, strictExpressions]);
   
   const placeholder = computedPlaceholder || 'Type to search...';
   const variant = latestComponent.props?.variant || 'outlined';
@@ -2,6 +2,7 @@ import React from 'react';
 import { Button, Box } from '@mui/material';
 import type { ComponentDefinition } from '../../stores/types';
 import { useFormBuilderStore } from '../../stores/formBuilderStore';
+import { useFormDataStore } from '../../stores/formDataStore';
 import { useFormComponent } from '../../hooks/useFormComponent';
 import { useComponentProperties } from '../../hooks/useComponentProperties';
 
@@ -33,6 +34,10 @@ const FormButton: React.FC<FormButtonProps> = ({ component }) => {
   const width = latestComponent.props?.width;
   const startIcon = latestComponent.props?.startIcon;
   const endIcon = latestComponent.props?.endIcon;
+  // 'submit' runs the FormViewer submit pipeline (validation + onSubmit)
+  const buttonType = formMode ? latestComponent.props?.type || 'button' : 'button';
+  // Submit waits until async validation checks are done
+  const checksPending = useFormDataStore((state) => Object.keys(state.validating).length > 0);
 
   if (!shouldRender) return null;
 
@@ -67,7 +72,8 @@ const FormButton: React.FC<FormButtonProps> = ({ component }) => {
         variant={variant as any} 
         color={color as any}
         size={size as any}
-        disabled={!formMode || disabled}
+        type={buttonType}
+        disabled={!formMode || disabled || (buttonType === 'submit' && checksPending)}
         fullWidth={fullWidth || (!!width && width !== 'auto')}
         onClick={(e) => {
           if (formMode) {
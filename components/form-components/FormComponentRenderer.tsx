@@ -52,7 +52,8 @@ const FormComponentRenderer: React.FC<FormComponentRendererProps> = ({ component
   const { formMode } = useFormBuilderStore();
   
   // Check conditional rendering in form mode (always call hook, but only use in form mode)
-  const { shouldRender } = useFormComponent({ component, formMode });
+  // This is also the single place each component registers for submit validation
+  const { shouldRender } = useFormComponent({ component, formMode, registerField: true });
   
   // Don't render if conditional rendering says no (only in form mode)
   if (formMode && !shouldRender) {
@@ -1,12 +1,14 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import {
+  Alert,
   Box,
+  Button,
+  LinearProgress,
   Paper,
   Table,
   TableBody,
   TableCell,
   TableContainer,
-  TableHead,
   TableRow,
   TablePagination,
   TextField,
@@ -20,6 +22,12 @@ import { useFormDataStore } from '../../stores/formDataStore';
 import { useFormComponent } from '../../hooks/useFormComponent';
 import { resolveArrayDataSourceSync } from '../../utils/data/dataSourceResolver';
 import { useBuilderDataStore } from '../../stores/builderDataStore';
+import { useGridQuery } from '../../hooks/useGridQuery';
+import { useVirtualRows } from '../../hooks/useVirtualRows';
+import DataTableHead, { toDataTableColumns, renderDataTableValue, renderDataTableSpacer } from './DataTableHead';
+
+// Delay before the search term is applied
+const SEARCH_DEBOUNCE_MS = 400;
 
 interface FormDataBrowseProps {
   component: ComponentDefinition;
@@ -27,7 +35,7 @@ interface FormDataBrowseProps {
 
 const FormDataBrowse: React.FC<FormDataBrowseProps> = ({ component }) => {
   const { selectComponent, selectedComponentId, formMode, findComponent, components } = useFormBuilderStore();
-  const { data, getAllData, getData } = useFormDataStore();
+  const { data, getAllData, getData, strictExpressions } = useFormDataStore();
   const { getDataviewData } = useBuilderDataStore();
   const isSelected = selectedComponentId === component.id;
   
@@ -41,8 +49,6 @@ const FormDataBrowse: React.FC<FormDataBrowseProps> = ({ component }) => {
     htmlAttributes,
   } = useFormComponent({ component, formMode });
   
-  const [page, setPage] = useState(0);
-  const [rowsPerPage, setRowsPerPage] = useState(10);
   const [searchTerm, setSearchTerm] = useState('');
   
   // Get latest component - subscribe to components array for real-time updates
@@ -75,8 +81,9 @@ const FormDataBrowse: React.FC<FormDataBrowseProps> = ({ component }) => {
       component: latestComponent,
       getAllData,
       getData,
+      strict: strictExpressions,
     });
-  }, [dataSource, data, latestComponent, getAllData, getData, formMode, getDataviewData]);
+  }, [dataSource, data, latestComponent, getAllData, getData, formMode, getDataviewData, strictExpressions]);
   
   const columns = latestComponent.props?.columns || [];
   const label = latestComponent.props?.label || 'Data Browse';
@@ -86,25 +93,50 @@ const FormDataBrowse: React.FC<FormDataBrowseProps> = ({ component }) => {
   const padding = component.props?.padding;
   const classes = component.props?.classes || component.props?.className || [];
 
-  // Infer columns from data if not provided
-  const inferredColumns =
-    columns.length === 0 && resolvedData.length > 0
-      ? Object.keys(resolvedData[0]).map((key) => ({ field: key, headerName: key }))
-      : columns;
+  const sortable = component.props?.sortable !== false;
+  const filterable = component.props?.filterable === true;
+  const pageSize = Number(component.props?.pageSize) || 10;
+  // Windowed rendering in a scrolling body - remote pages are loaded as the table scrolls
+  const virtualized = component.props?.virtualized === true;
+  const rowHeight = Number(component.props?.rowHeight) || 33;
+  const fixedRowHeight = component.props?.fixedRowHeight === true;
+  const viewportHeight = Number(component.props?.viewportHeight) || 400;
+  const loadThreshold = Number(component.props?.loadThreshold) || 10;
+
+  // Search, sort, filters and paging - sent to the server for dataview/endpoint sources in form mode
+  const grid = useGridQuery({
+    source: dataSource,
+    rows: resolvedData,
+    remote: formMode,
+    operationId: latestComponent.props?.dataviewOperation,
+    pageSize,
+    paginated,
+    infinite: virtualized,
+    threshold: loadThreshold,
+  });
 
-  // Filter data based on search term
-  const filteredData = searchable && searchTerm
-    ? resolvedData.filter((row: any) =>
-        Object.values(row).some((value: any) =>
-          String(value).toLowerCase().includes(searchTerm.toLowerCase())
-        )
-      )
-    : resolvedData;
+  const { filterData, setFilters } = grid;
+  useEffect(() => {
+    if ((filterData.search || '') === searchTerm) return;
+    const timer = setTimeout(() => setFilters({ ...filterData, search: searchTerm }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchTerm, filterData, setFilters]);
+
+  // Infer columns from data if not provided
+  const sampleRows = resolvedData.length > 0 ? resolvedData : grid.rows;
+  const tableColumns = useMemo(() => toDataTableColumns(columns, sampleRows), [columns, sampleRows]);
 
-  // Paginate data
-  const paginatedData = paginated
-    ? filteredData.slice(page * rowsPerPage, page * rowsPerPage + rowsPerPage)
-    : filteredData;
+  const virtual = useVirtualRows({
+    count: grid.rows.length,
+    rowHeight,
+    height: viewportHeight,
+    fixedHeight: fixedRowHeight,
+    enabled: virtualized,
+  });
+  const { loadMoreAt } = grid;
+  useEffect(() => {
+    if (virtualized) loadMoreAt(virtual.end - 1);
+  }, [virtualized, virtual.end, grid.rows.length, loadMoreAt]);
 
   if (!shouldRender) return null;
 
@@ -146,7 +178,6 @@ const FormDataBrowse: React.FC<FormDataBrowseProps> = ({ component }) => {
             onChange={(e) => {
               if (formMode) {
                 setSearchTerm(e.target.value);
-                setPage(0); // Reset to first page on search
               }
             }}
             InputProps={{
@@ -165,60 +196,97 @@ const FormDataBrowse: React.FC<FormDataBrowseProps> = ({ component }) => {
           />
         )}
 
-        {paginatedData && paginatedData.length > 0 ? (
+        {grid.loading && <LinearProgress sx={{ mb: 1 }} />}
+        {grid.error && (
+          <Alert
+            severity="error"
+            sx={{ mb: 2 }}
+            action={
+              <Button color="inherit" size="small" onClick={grid.reload}>
+                Retry
+              </Button>
+            }
+          >
+            {grid.error}
+          </Alert>
+        )}
+
+        {tableColumns.length > 0 ? (
           <>
-            <TableContainer>
+            <TableContainer
+              ref={virtual.containerRef}
+              onScroll={virtualized ? virtual.onScroll : undefined}
+              sx={virtualized ? { maxHeight: viewportHeight } : undefined}
+            >
               <Table size="small" stickyHeader>
-                <TableHead>
-                  <TableRow>
-                    {inferredColumns.map((col: any, index: number) => (
-                      <TableCell key={index}>
-                        {typeof col === 'string' ? col : col.headerName || col.field}
-                      </TableCell>
-                    ))}
-                  </TableRow>
-                </TableHead>
+                <DataTableHead
+                  columns={tableColumns}
+                  sortable={sortable}
+                  filterable={filterable}
+                  sortData={grid.sortData}
+                  filterData={grid.filterData}
+                  disabled={!formMode}
+                  onSortChange={grid.setSort}
+                  onFiltersChange={grid.setFilters}
+                />
                 <TableBody>
-                  {paginatedData.map((row: any, rowIndex: number) => (
-                    <TableRow key={rowIndex} hover={formMode}>
-                      {inferredColumns.map((col: any, colIndex: number) => {
-                        const field = typeof col === 'string' ? col : col.field;
+                  {grid.rows.length > 0 ? (
+                    <>
+                      {renderDataTableSpacer(virtual.paddingTop, tableColumns.length, 'spacer-top')}
+                      {grid.rows.slice(virtual.start, virtual.end).map((row: any, offset: number) => {
+                        const rowIndex = virtual.start + offset;
                         return (
-                          <TableCell key={colIndex}>
-                            {row[field] !== undefined ? String(row[field]) : '-'}
-                          </TableCell>
+                          <TableRow
+                            key={grid.pageIndex * grid.pageSize + rowIndex}
+                            ref={virtual.measureRow(rowIndex)}
+                            hover={formMode}
+                          >
+                            {tableColumns.map((col) => (
+                              <TableCell key={col.field} align={col.align}>
+                                {renderDataTableValue(row[col.field], col.renderer)}
+                              </TableCell>
+                            ))}
+                          </TableRow>
                         );
                       })}
+                      {renderDataTableSpacer(virtual.paddingBottom, tableColumns.length, 'spacer-bottom')}
+                    </>
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={tableColumns.length} align="center" sx={{ py: 4 }}>
+                        <Typography variant="body2" color="text.secondary">
+                          {grid.loading ? 'Loading...' : 'No matching rows'}
+                        </Typography>
+                      </TableCell>
                     </TableRow>
-                  ))}
+                  )}
                 </TableBody>
               </Table>
             </TableContainer>
             
-            {paginated && (
+            {!virtualized && (paginated || grid.isRemote) && (
               <TablePagination
                 component="div"
-                count={filteredData.length}
-                page={page}
+                count={grid.totalRecords}
+                page={grid.pageIndex}
                 onPageChange={(_, newPage) => {
                   if (formMode) {
-                    setPage(newPage);
+                    grid.goToPage(newPage);
                   }
                 }}
-                rowsPerPage={rowsPerPage}
+                rowsPerPage={grid.pageSize}
                 onRowsPerPageChange={(e) => {
                   if (formMode) {
-                    setRowsPerPage(parseInt(e.target.value, 10));
-                    setPage(0);
+                    grid.setPageSize(parseInt(e.target.value, 10));
                   }
                 }}
-                rowsPerPageOptions={[5, 10, 25, 50]}
+                rowsPerPageOptions={Array.from(new Set([5, 10, 25, 50, pageSize])).sort((a, b) => a - b)}
               />
             )}
           </>
         ) : (
           <Typography variant="body2" color="text.secondary" align="center" sx={{ py: 4 }}>
-            No data available
+            {grid.loading ? 'Loading...' : 'No data available'}
           </Typography>
         )}
       </Paper>
@@ -1,15 +1,21 @@
-import React, { useMemo } from 'react';
+import React, { useEffect, useMemo } from 'react';
 import {
+  Alert,
   Box,
+  Button,
+  IconButton,
+  LinearProgress,
   Paper,
   Table,
   TableBody,
   TableCell,
   TableContainer,
-  TableHead,
+  TablePagination,
   TableRow,
   Typography,
 } from '@mui/material';
+import { alpha } from '@mui/material/styles';
+import { Add as AddIcon, Delete as DeleteIcon } from '@mui/icons-material';
 import type { ComponentDefinition } from '../../stores/types';
 import { useFormBuilderStore } from '../../stores/formBuilderStore';
 import { useFormDataStore } from '../../stores/formDataStore';
@@ -17,6 +23,12 @@ import { useFormComponent } from '../../hooks/useFormComponent';
 import { useComponentProperties } from '../../hooks/useComponentProperties';
 import { resolveArrayDataSourceSync } from '../../utils/data/dataSourceResolver';
 import { useBuilderDataStore } from '../../stores/builderDataStore';
+import { useGridQuery } from '../../hooks/useGridQuery';
+import { useGridEditing, useGridColumnOptions } from '../../hooks/useGridEditing';
+import { useVirtualRows } from '../../hooks/useVirtualRows';
+import { GridEditing } from '../../utils/data/gridEditing';
+import DataTableHead, { toDataTableColumns, renderDataTableValue, renderDataTableSpacer } from './DataTableHead';
+import DataGridCellEditor from './DataGridCellEditor';
 
 interface FormDataGridProps {
   component: ComponentDefinition;
@@ -24,7 +36,7 @@ interface FormDataGridProps {
 
 const FormDataGrid: React.FC<FormDataGridProps> = ({ component }) => {
   const { selectComponent, selectedComponentId, formMode } = useFormBuilderStore();
-  const { data, getAllData, getData } = useFormDataStore();
+  const { data, getAllData, getData, strictExpressions } = useFormDataStore();
   const { getDataviewData } = useBuilderDataStore();
   const isSelected = selectedComponentId === component.id;
 
@@ -91,35 +103,81 @@ const FormDataGrid: React.FC<FormDataGridProps> = ({ component }) => {
       component: latestComponent,
       getAllData,
       getData,
+      strict: strictExpressions,
     });
     
     // Ensure we return an array
     return Array.isArray(resolved) ? resolved : [];
-  }, [dataSource, data, latestComponent, getAllData, getData, formMode, getDataviewData]);
+  }, [dataSource, data, latestComponent, getAllData, getData, formMode, getDataviewData, strictExpressions]);
   
   const label = computedLabel || latestComponent.props?.label || 'Data Grid';
   const size = latestComponent.props?.size || 'small';
   const stickyHeader = latestComponent.props?.stickyHeader !== false;
+  const sortable = latestComponent.props?.sortable !== false;
+  const filterable = latestComponent.props?.filterable === true;
+  // Local rows are paged only when asked; dataview/endpoint sources always load page by page
+  const paginated = latestComponent.props?.paginated === true;
+  const pageSize = Number(latestComponent.props?.pageSize) || 25;
+  // Windowed rendering in a scrolling body - remote pages are loaded as the grid scrolls
+  const virtualized = latestComponent.props?.virtualized === true;
+  const rowHeight = Number(latestComponent.props?.rowHeight) || (size === 'small' ? 37 : 53);
+  const fixedRowHeight = latestComponent.props?.fixedRowHeight === true;
+  const viewportHeight = Number(latestComponent.props?.viewportHeight) || 400;
+  const loadThreshold = Number(latestComponent.props?.loadThreshold) || 10;
 
-  // Filter columns by visibility and prepare for display
-  const visibleColumns = useMemo(() => {
-    if (columns.length === 0) {
-      // If no columns defined, infer from first row
-      if (rows.length > 0) {
-        return Object.keys(rows[0]).map((key) => ({ field: key, headerName: key, visible: true }));
-      }
-      return [];
-    }
-    
-    // Filter columns based on visibility property
-    return columns.filter((col: any) => {
-      if (typeof col === 'string') {
-        return true; // String columns are always visible
-      }
-      // Object columns: check visible property (default to true if not specified)
-      return col.visible !== false;
-    });
-  }, [columns, rows]);
+  // Inline editing of the array bound to dataKey (columns with an editor)
+  const editable = latestComponent.props?.editable === true;
+  const allowAdd = latestComponent.props?.allowAdd !== false;
+  const allowDelete = latestComponent.props?.allowDelete !== false;
+  const editColumns = useMemo(
+    () => GridEditing.toColumns(latestComponent.props?.columns || []),
+    [latestComponent.props?.columns]
+  );
+  const editColumnsByField = useMemo(() => new Map(editColumns.map((col) => [col.field, col])), [editColumns]);
+  const editing = useGridEditing({
+    componentId: component.id,
+    componentName: latestComponent.name,
+    label,
+    enabled: formMode && editable,
+    dataKey: latestComponent.props?.dataKey,
+    columns: editColumns,
+    seedRows: rows,
+    active: shouldRender,
+  });
+  const isEditing = Boolean(editing.arrayPath);
+  const columnOptions = useGridColumnOptions(editColumns, formMode && editable);
+  // Index of each bound row in the array (sorting and paging reorder them)
+  const rowIndexes = useMemo(() => new Map(editing.rows.map((row, index) => [row, index])), [editing.rows]);
+
+  // Sort, filters and paging - sent to the server for dataview/endpoint sources in form mode
+  const grid = useGridQuery({
+    source: dataSource,
+    rows: isEditing ? editing.rows : rows,
+    remote: formMode && !isEditing,
+    operationId: latestComponent.props?.dataviewOperation,
+    pageSize,
+    paginated,
+    infinite: virtualized,
+    threshold: loadThreshold,
+  });
+
+  // Columns from the columns prop, inferred from the rows when not set
+  const sampleRows = isEditing ? editing.rows : rows.length > 0 ? rows : grid.rows;
+  const visibleColumns = useMemo(() => toDataTableColumns(columns, sampleRows), [columns, sampleRows]);
+  const showPagination = !virtualized && (grid.isRemote || paginated);
+  const columnCount = visibleColumns.length + (editable && allowDelete ? 1 : 0);
+
+  const virtual = useVirtualRows({
+    count: grid.rows.length,
+    rowHeight,
+    height: viewportHeight,
+    fixedHeight: fixedRowHeight,
+    enabled: virtualized,
+  });
+  const { loadMoreAt } = grid;
+  useEffect(() => {
+    if (virtualized) loadMoreAt(virtual.end - 1);
+  }, [virtualized, virtual.end, grid.rows.length, loadMoreAt]);
 
   // Don't render if conditional rendering says no
   if (!shouldRender) {
@@ -156,37 +214,136 @@ const FormDataGrid: React.FC<FormDataGridProps> = ({ component }) => {
             {label}
           </Typography>
         )}
-        {rows && rows.length > 0 ? (
-          <TableContainer>
-            <Table size={size as any} stickyHeader={stickyHeader}>
-              <TableHead>
-                <TableRow>
-                  {visibleColumns.map((col: any, index: number) => (
-                    <TableCell key={index}>
-                      {typeof col === 'string' ? col : col.headerName || col.field}
-                    </TableCell>
-                  ))}
-                </TableRow>
-              </TableHead>
-              <TableBody>
-                {rows.map((row: any, rowIndex: number) => (
-                  <TableRow key={rowIndex} hover>
-                    {visibleColumns.map((col: any, colIndex: number) => {
-                      const field = typeof col === 'string' ? col : col.field;
-                      return (
-                        <TableCell key={colIndex}>
-                          {row[field] !== undefined ? String(row[field]) : '-'}
-                        </TableCell>
-                      );
-                    })}
-                  </TableRow>
-                ))}
-              </TableBody>
-            </Table>
-          </TableContainer>
+        {grid.loading && <LinearProgress sx={{ mb: 1 }} />}
+        {grid.error && (
+          <Alert
+            severity="error"
+            sx={{ mb: 1 }}
+            action={
+              <Button color="inherit" size="small" onClick={grid.reload}>
+                Retry
+              </Button>
+            }
+          >
+            {grid.error}
+          </Alert>
+        )}
+        {visibleColumns.length > 0 ? (
+          <>
+            <TableContainer
+              ref={virtual.containerRef}
+              onScroll={virtualized ? virtual.onScroll : undefined}
+              sx={virtualized ? { maxHeight: viewportHeight } : undefined}
+            >
+              <Table size={size as any} stickyHeader={stickyHeader}>
+                <DataTableHead
+                  columns={visibleColumns}
+                  sortable={sortable}
+                  filterable={filterable}
+                  sortData={grid.sortData}
+                  filterData={grid.filterData}
+                  disabled={!formMode}
+                  onSortChange={grid.setSort}
+                  onFiltersChange={grid.setFilters}
+                  actionsColumn={editable && allowDelete}
+                />
+                <TableBody>
+                  {grid.rows.length > 0 ? (
+                    <>
+                      {renderDataTableSpacer(virtual.paddingTop, columnCount, 'spacer-top')}
+                      {grid.rows.slice(virtual.start, virtual.end).map((row: any, offset: number) => {
+                        const rowIndex = virtual.start + offset;
+                        const index = isEditing ? rowIndexes.get(row) ?? -1 : -1;
+                        const dirty = index >= 0 && editing.dirtyRows[index];
+                        return (
+                          <TableRow
+                            key={index >= 0 ? index : grid.pageIndex * grid.pageSize + rowIndex}
+                            ref={virtual.measureRow(rowIndex)}
+                            hover
+                            sx={dirty ? {
+                              backgroundColor: (theme) => alpha(theme.palette.warning.main, 0.08),
+                              boxShadow: (theme) => `inset 3px 0 0 ${theme.palette.warning.main}`,
+                            } : undefined}
+                          >
+                            {visibleColumns.map((col) => {
+                              const editColumn = editColumnsByField.get(col.field);
+                              return (
+                                <TableCell key={col.field} align={col.align}>
+                                  {editable && editColumn?.editor ? (
+                                    <DataGridCellEditor
+                                      column={editColumn}
+                                      value={row[col.field]}
+                                      options={columnOptions[col.field]}
+                                      error={index >= 0 ? editing.cellErrors[GridEditing.cellKey(index, col.field)] : undefined}
+                                      disabled={index < 0}
+                                      onChange={(value) => editing.updateCell(index, col.field, value)}
+                                    />
+                                  ) : (
+                                    renderDataTableValue(row[col.field], col.renderer)
+                                  )}
+                                </TableCell>
+                              );
+                            })}
+                            {editable && allowDelete && (
+                              <TableCell padding="checkbox">
+                                <IconButton
+                                  size="small"
+                                  aria-label="Delete row"
+                                  disabled={index < 0}
+                                  onClick={() => editing.removeRow(index)}
+                                >
+                                  <DeleteIcon fontSize="small" />
+                                </IconButton>
+                              </TableCell>
+                            )}
+                          </TableRow>
+                        );
+                      })}
+                      {renderDataTableSpacer(virtual.paddingBottom, columnCount, 'spacer-bottom')}
+                    </>
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={columnCount} align="center">
+                        <Typography variant="body2" color="text.secondary">
+                          {grid.loading ? 'Loading...' : 'No matching rows'}
+                        </Typography>
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </TableContainer>
+            {showPagination && (
+              <TablePagination
+                component="div"
+                count={grid.totalRecords}
+                page={grid.pageIndex}
+                onPageChange={(_, newPage) => grid.goToPage(newPage)}
+                rowsPerPage={grid.pageSize}
+                onRowsPerPageChange={(e) => grid.setPageSize(parseInt(e.target.value, 10))}
+                rowsPerPageOptions={Array.from(new Set([10, 25, 50, 100, pageSize])).sort((a, b) => a - b)}
+              />
+            )}
+          </>
         ) : (
           <Typography variant="body2" color="text.secondary">
-            No data available
+            {grid.loading ? 'Loading...' : 'No data available'}
+          </Typography>
+        )}
+        {editable && allowAdd && (
+          <Button
+            size="small"
+            startIcon={<AddIcon />}
+            disabled={!isEditing}
+            onClick={editing.addRow}
+            sx={{ mt: 1 }}
+          >
+            Add Row
+          </Button>
+        )}
+        {editable && formMode && !latestComponent.props?.dataKey && (
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+            Set a Data Key to edit the rows
           </Typography>
         )}
       </Paper>
@@ -1,4 +1,4 @@
-import React, { useMemo } from 'react';
+import React, { useEffect, useMemo } from 'react';
 import {
   Box,
   Paper,
@@ -8,12 +8,15 @@ import {
   ListItemAvatar,
   Avatar,
   Typography,
+  LinearProgress,
 } from '@mui/material';
 import type { ComponentDefinition } from '../../stores/types';
 import { useFormBuilderStore } from '../../stores/formBuilderStore';
 import { useFormDataStore } from '../../stores/formDataStore';
 import { resolveArrayDataSourceSync } from '../../utils/data/dataSourceResolver';
 import { useBuilderDataStore } from '../../stores/builderDataStore';
+import { useGridQuery } from '../../hooks/useGridQuery';
+import { useVirtualRows } from '../../hooks/useVirtualRows';
 
 interface FormListProps {
   component: ComponentDefinition;
@@ -21,7 +24,7 @@ interface FormListProps {
 
 const FormList: React.FC<FormListProps> = ({ component }) => {
   const { selectComponent, selectedComponentId, formMode, findComponent, components } = useFormBuilderStore();
-  const { data, getAllData, getData } = useFormDataStore();
+  const { data, getAllData, getData, strictExpressions } = useFormDataStore();
   const { getDataviewData } = useBuilderDataStore();
   const isSelected = selectedComponentId === component.id;
 
@@ -55,13 +58,41 @@ const FormList: React.FC<FormListProps> = ({ component }) => {
       component: latestComponent,
       getAllData,
       getData,
+      strict: strictExpressions,
     });
-  }, [dataSource, data, latestComponent, getAllData, getData, formMode, getDataviewData]);
+  }, [dataSource, data, latestComponent, getAllData, getData, formMode, getDataviewData, strictExpressions]);
   
   const label = latestComponent.props?.label || 'List';
   const dense = latestComponent.props?.dense || false;
   const showAvatar = latestComponent.props?.showAvatar !== false;
 
+  // Windowed rendering in a scrolling list - dataview/endpoint sources load page by page as it scrolls
+  const virtualized = latestComponent.props?.virtualized === true;
+  const rowHeight = Number(latestComponent.props?.rowHeight) || (dense ? 36 : 48);
+  const fixedRowHeight = latestComponent.props?.fixedRowHeight === true;
+  const viewportHeight = Number(latestComponent.props?.viewportHeight) || 400;
+  const list = useGridQuery({
+    source: dataSource,
+    rows: items,
+    remote: formMode && virtualized,
+    pageSize: Number(latestComponent.props?.pageSize) || 50,
+    infinite: true,
+    threshold: Number(latestComponent.props?.loadThreshold) || 10,
+  });
+  const listItems = virtualized ? list.rows : items;
+
+  const virtual = useVirtualRows({
+    count: listItems.length,
+    rowHeight,
+    height: viewportHeight,
+    fixedHeight: fixedRowHeight,
+    enabled: virtualized,
+  });
+  const { loadMoreAt } = list;
+  useEffect(() => {
+    if (virtualized) loadMoreAt(virtual.end - 1);
+  }, [virtualized, virtual.end, listItems.length, loadMoreAt]);
+
   return (
     <Box
       onClick={(e) => {
@@ -81,36 +112,47 @@ const FormList: React.FC<FormListProps> = ({ component }) => {
             {label}
           </Typography>
         )}
-        {items && items.length > 0 ? (
-          <List dense={dense}>
-            {items.map((item: any, index: number) => {
-              const primaryText =
-                typeof item === 'string'
-                  ? item
-                  : item.label || item.text || item.primary || `Item ${index + 1}`;
-              const secondaryText =
-                typeof item === 'object' ? item.secondary || item.description : undefined;
-              const avatar =
-                typeof item === 'object' ? item.avatar || item.icon : undefined;
+        {list.loading && <LinearProgress sx={{ mb: 1 }} />}
+        {listItems && listItems.length > 0 ? (
+          <Box
+            ref={virtual.containerRef}
+            onScroll={virtualized ? virtual.onScroll : undefined}
+            sx={virtualized ? { maxHeight: viewportHeight, overflow: 'auto' } : undefined}
+          >
+            <List dense={dense}>
+              {virtual.paddingTop > 0 && <Box component="li" aria-hidden sx={{ height: virtual.paddingTop }} />}
+              {listItems.slice(virtual.start, virtual.end).map((item: any, offset: number) => {
+                const index = virtual.start + offset;
+                const primaryText =
+                  typeof item === 'string'
+                    ? item
+                    : item.label || item.text || item.primary || `Item ${index + 1}`;
+                const secondaryText =
+                  typeof item === 'object' ? item.secondary || item.description : undefined;
+                const avatar =
+                  typeof item === 'object' ? item.avatar || item.icon : undefined;
 
-              return (
-                <ListItem 
-                  key={index} 
-                  sx={{ 
-                    opacity: 0.6,
-                    pointerEvents: 'none'
-                  }}
-                >
-                  {showAvatar && avatar && (
-                    <ListItemAvatar>
-                      <Avatar>{avatar}</Avatar>
-                    </ListItemAvatar>
-                  )}
-                  <ListItemText primary={primaryText} secondary={secondaryText} />
-                </ListItem>
-              );
-            })}
-          </List>
+                return (
+                  <ListItem
+                    key={index}
+                    ref={virtual.measureRow(index)}
+                    sx={{ 
+                      opacity: 0.6,
+                      pointerEvents: 'none'
+                    }}
+                  >
+                    {showAvatar && avatar && (
+                      <ListItemAvatar>
+                        <Avatar>{avatar}</Avatar>
+                      </ListItemAvatar>
+                    )}
+                    <ListItemText primary={primaryText} secondary={secondaryText} />
+                  </ListItem>
+                );
+              })}
+              {virtual.paddingBottom > 0 && <Box component="li" aria-hidden sx={{ height: virtual.paddingBottom }} />}
+            </List>
+          </Box>
         ) : (
           <Typography variant="body2" color="text.secondary">
             No list items available
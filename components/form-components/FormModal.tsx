@@ -24,7 +24,7 @@ interface FormModalProps {
 
 const FormModal: React.FC<FormModalProps> = ({ component }) => {
   const { formMode, findComponent, components } = useFormBuilderStore();
-  const { data } = useFormDataStore();
+  const { data, scopeId } = useFormDataStore();
   
   // Get latest component - subscribe to components array for real-time updates
   const latestComponent = React.useMemo(() => {
@@ -39,6 +39,8 @@ const FormModal: React.FC<FormModalProps> = ({ component }) => {
     if (!formMode) return;
 
     const handleOpenModal = async (event: CustomEvent) => {
+      // Ignore events raised by another form instance
+      if (event.detail?.scopeId && event.detail.scopeId !== scopeId) return;
       const modalId = event.detail?.modalId || event.detail?.componentId;
       if (modalId === component.id || modalConfig?.type === event.detail?.modalType) {
         setOpen(true);
@@ -46,6 +48,7 @@ const FormModal: React.FC<FormModalProps> = ({ component }) => {
     };
 
     const handleCloseModal = async (event: CustomEvent) => {
+      if (event.detail?.scopeId && event.detail.scopeId !== scopeId) return;
       const modalId = event.detail?.modalId || event.detail?.componentId;
       if (modalId === component.id || modalConfig?.type === event.detail?.modalType) {
         setOpen(false);
@@ -59,7 +62,7 @@ const FormModal: React.FC<FormModalProps> = ({ component }) => {
       window.removeEventListener('formx:openModal' as any, handleOpenModal);
       window.removeEventListener('formx:closeModal' as any, handleCloseModal);
     };
-  }, [formMode, component.id, modalConfig]);
+  }, [formMode, component.id, modalConfig, scopeId]);
 
   const handleClose = async () => {
     setOpen(false);
@@ -1,8 +1,9 @@
 import React from 'react';
 import { Box, Alert } from '@mui/material';
 import type { ComponentDefinition } from '../../stores/types';
+import type { ValidationRule } from '../../stores/types/formEngine';
 import { useFormBuilderStore } from '../../stores/formBuilderStore';
-import { useFormComponent } from '../../hooks/useFormComponent';
+import { useFieldValidator } from '../../hooks/useFieldValidator';
 
 interface FormRangeValidatorProps {
   component: ComponentDefinition;
@@ -14,10 +15,16 @@ interface FormRangeValidatorProps {
  */
 const FormRangeValidator: React.FC<FormRangeValidatorProps> = ({ component }) => {
   const { formMode } = useFormBuilderStore();
-  const { shouldRender } = useFormComponent({ component, formMode });
 
-  const min = component.props?.min || component.props?.minimum;
-  const max = component.props?.max || component.props?.maximum;
+  const min = component.props?.min ?? component.props?.minimum;
+  const max = component.props?.max ?? component.props?.maximum;
+  const errorMessage = component.props?.errorMessage || component.props?.message;
+  const isConfigured = (min !== undefined && min !== '') || (max !== undefined && max !== '');
+  const rules: ValidationRule[] = isConfigured
+    ? [{ key: 'range', args: { min, max }, message: errorMessage }]
+    : [];
+
+  const { targetField, display } = useFieldValidator({ component, formMode, rules });
 
   if (!formMode) {
     // In builder mode, show a visual indicator
@@ -30,8 +37,9 @@ const FormRangeValidator: React.FC<FormRangeValidatorProps> = ({ component }) =>
           bgcolor: 'info.light',
         }}
       >
-        <Alert severity="info" sx={{ fontSize: '0.75rem', py: 0 }}>
-          Range Validator: {min !== undefined && max !== undefined ? `${min} - ${max}` : 'Not configured'}
+        <Alert severity={targetField && isConfigured ? 'info' : 'warning'} sx={{ fontSize: '0.75rem', py: 0 }}>
+          Range Validator: {isConfigured ? `${min ?? '…'} - ${max ?? '…'}` : 'Not configured'}
+          {targetField ? ` on ${targetField} (${display})` : ' (no target field)'}
         </Alert>
       </Box>
     );
@@ -42,4 +50,3 @@ const FormRangeValidator: React.FC<FormRangeValidatorProps> = ({ component }) =>
 };
 
 export default FormRangeValidator;
-
@@ -1,8 +1,9 @@
 import React from 'react';
 import { Box, Alert } from '@mui/material';
 import type { ComponentDefinition } from '../../stores/types';
+import type { ValidationRule } from '../../stores/types/formEngine';
 import { useFormBuilderStore } from '../../stores/formBuilderStore';
-import { useFormComponent } from '../../hooks/useFormComponent';
+import { useFieldValidator } from '../../hooks/useFieldValidator';
 
 interface FormRegExValidatorProps {
   component: ComponentDefinition;
@@ -14,10 +15,15 @@ interface FormRegExValidatorProps {
  */
 const FormRegExValidator: React.FC<FormRegExValidatorProps> = ({ component }) => {
   const { formMode } = useFormBuilderStore();
-  const { shouldRender } = useFormComponent({ component, formMode });
 
   const pattern = component.props?.pattern || component.props?.regex || '';
+  const flags = component.props?.flags || '';
   const errorMessage = component.props?.errorMessage || component.props?.message || 'Invalid format';
+  const rules: ValidationRule[] = pattern
+    ? [{ key: 'regex', args: { pattern, flags }, message: errorMessage }]
+    : [];
+
+  const { targetField, display } = useFieldValidator({ component, formMode, rules });
 
   if (!formMode) {
     // In builder mode, show a visual indicator
@@ -30,8 +36,9 @@ const FormRegExValidator: React.FC<FormRegExValidatorProps> = ({ component }) =>
           bgcolor: 'info.light',
         }}
       >
-        <Alert severity="info" sx={{ fontSize: '0.75rem', py: 0 }}>
+        <Alert severity={targetField && pattern ? 'info' : 'warning'} sx={{ fontSize: '0.75rem', py: 0 }}>
           RegEx Validator: {pattern || 'Not configured'}
+          {targetField ? ` on ${targetField} (${display})` : ' (no target field)'}
         </Alert>
       </Box>
     );
@@ -42,4 +49,3 @@ const FormRegExValidator: React.FC<FormRegExValidatorProps> = ({ component }) =>
 };
 
 export default FormRegExValidator;
-
@@ -1,13 +1,28 @@
-import React, { useState, useMemo, useCallback } from 'react';
+import React, { useEffect, useMemo, useCallback } from 'react';
 import { Box, Paper, Typography, Button, IconButton, Alert } from '@mui/material';
-import { Add as AddIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  ArrowUpward as MoveUpIcon,
+  ArrowDownward as MoveDownIcon,
+  ContentCopy as DuplicateIcon,
+} from '@mui/icons-material';
 import { useDroppable } from '@dnd-kit/core';
 import type { ComponentDefinition } from '../../stores/types';
+import type { ActionData, ActionEventArgs, ComponentProperty } from '../../stores/types/formEngine';
 import { useFormBuilderStore } from '../../stores/formBuilderStore';
-import { useFormDataStore } from '../../stores/formDataStore';
+import { useFormDataStore, useFormDataStoreApi } from '../../stores/formDataStore';
+import {
+  RepeaterRowContext,
+  useRepeaterRow,
+  createRowScope,
+  resolveDataKey,
+  getInstanceId,
+} from '../../stores/repeaterRowContext';
 import { ActionHandler } from '../../utils/actions/actionSystem';
 import { ConditionalRenderer } from '../../utils/rendering/conditionalRendering';
 import { resolveArrayDataSourceSync } from '../../utils/data/dataSourceResolver';
+import { getPath } from '../../utils/data/dataPath';
 import { useBuilderDataStore } from '../../stores/builderDataStore';
 import DraggableComponent from '../builder/DraggableComponent';
 
@@ -16,8 +31,10 @@ interface FormRepeaterProps {
 }
 
 const FormRepeater: React.FC<FormRepeaterProps> = ({ component }) => {
-  const { selectComponent, selectedComponentId, formMode, updateComponent, findComponent, components } = useFormBuilderStore();
-  const { data, getAllData, getData } = useFormDataStore();
+  const { selectComponent, selectedComponentId, formMode, findComponent, components } = useFormBuilderStore();
+  const { data, getAllData, getData, setData, strictExpressions } = useFormDataStore();
+  const dataStoreApi = useFormDataStoreApi();
+  const parentRow = useRepeaterRow();
   const { getDataviewData } = useBuilderDataStore();
   const isSelected = selectedComponentId === component.id;
   const { setNodeRef, isOver } = useDroppable({
@@ -44,6 +61,11 @@ const FormRepeater: React.FC<FormRepeaterProps> = ({ component }) => {
   
   const itemRenderWhen = latestComponent.props?.itemRenderWhen;
   
+  // Rows live in form data under dataKey (or the component name), relative to an enclosing row
+  const arrayKey = (latestComponent.props?.dataKey as string | undefined) || latestComponent.name || latestComponent.id;
+  const arrayPath = resolveDataKey(arrayKey, parentRow);
+  const boundRows = formMode ? getData(arrayPath) : undefined;
+  
   // Get data provider items using resolver (supports array, function, computed property, dataKey, JSON string)
   // Në builder mode, nëse dataSource është dataview reference (string), merr të dhënat nga builder store
   const dataProviderItems = useMemo(() => {
@@ -65,11 +87,26 @@ const FormRepeater: React.FC<FormRepeaterProps> = ({ component }) => {
       component: latestComponent,
       getAllData,
       getData,
+      strict: strictExpressions,
     });
-  }, [dataSource, data, latestComponent, getAllData, getData, formMode, getDataviewData]);
+  }, [dataSource, data, latestComponent, getAllData, getData, formMode, getDataviewData, strictExpressions]);
+
+  // Seed the bound array from the data source once
+  useEffect(() => {
+    if (formMode && boundRows === undefined && dataProviderItems.length > 0) {
+      setData(arrayPath, dataProviderItems);
+    }
+  }, [formMode, boundRows, dataProviderItems, arrayPath, setData]);
 
-  // Use data provider items if available, otherwise use component children
+  // Use bound rows / data provider items if available, otherwise use component children
   const items = useMemo(() => {
+    if (formMode && Array.isArray(boundRows)) {
+      return boundRows.map((item: any, index: number) => ({
+        id: `repeater-item-${index}`,
+        data: item,
+        index,
+      }));
+    }
     if (dataProviderItems.length > 0) {
       return dataProviderItems.map((item: any, index: number) => ({
         id: `repeater-item-${index}`,
@@ -86,83 +123,87 @@ const FormRepeater: React.FC<FormRepeaterProps> = ({ component }) => {
       }));
     }
     return [];
-  }, [dataProviderItems, latestComponent.children, formMode]);
+  }, [boundRows, dataProviderItems, latestComponent.children, formMode]);
+
+  // Row scopes for data binding of the row template (children)
+  const rowScopes = useMemo(() => {
+    return items.map((_: any, index: number) => createRowScope(arrayKey, index, parentRow));
+  }, [items.length, arrayKey, parentRow]);
 
   const itemCount = items.length;
   const canAdd = maxItems === undefined || itemCount < maxItems;
   const canRemove = itemCount > minItems;
+  const allowReorder = !!latestComponent.props?.allowReorder;
+  const allowDuplicate = !!latestComponent.props?.allowDuplicate;
+
+  // Row limits are enforced by the store's row operations (also for row actions raised by children)
+  useEffect(() => {
+    if (!formMode) return;
+    return dataStoreApi.getState().registerArray(arrayPath, { minItems, maxItems });
+  }, [formMode, arrayPath, minItems, maxItems, dataStoreApi]);
+
+  // Run the Repeater's own row event (onAddRow / onRemoveRow / onMoveRow / onDuplicateRow)
+  // Returns false when the event has no actions and the default behaviour should run
+  const runRowEvent = useCallback(async (eventName: string, index?: number, extraArgs: any[] = []) => {
+    const events = latestComponent.props?.events as Record<string, ActionData[]> | undefined;
+    const actions = events?.[eventName];
+    if (!actions || actions.length === 0) return false;
+
+    const rowData = index !== undefined ? getPath(data, `${arrayPath}[${index}]`) : undefined;
+    const eventArgs: ActionEventArgs = {
+      type: eventName,
+      sender: {
+        key: latestComponent.id,
+        dataKey: arrayPath,
+        type: latestComponent.type,
+        props: (latestComponent.props || {}) as Record<string, ComponentProperty>,
+        events,
+      },
+      store: dataStoreApi.getState(),
+      args: index !== undefined ? [index, ...extraArgs] : extraArgs,
+      renderedProps: latestComponent.props || {},
+      value: index,
+      data,
+      parentData: rowData,
+      rootData: data,
+      row: index !== undefined ? { arrayPath, index, data: rowData || {} } : undefined,
+    };
+    await ActionHandler.executeActions(actions, eventArgs);
+    return true;
+  }, [latestComponent, data, arrayPath, dataStoreApi]);
 
   // Add row handler
   const handleAddRow = useCallback(async () => {
-    if (!canAdd) return;
-    
-    if (formMode) {
-      // In form mode, execute addRow action
-      const events = latestComponent.props?.events as Record<string, any[]> | undefined;
-      const addRowActions = events?.onAddRow || events?.onClick;
-      
-      if (addRowActions && addRowActions.length > 0) {
-        const eventArgs = {
-          component: latestComponent as any,
-          data,
-          event: { type: 'addRow' },
-        };
-        await ActionHandler.executeActions(addRowActions, eventArgs);
-      } else {
-        // Default: add empty item to data source
-        if (Array.isArray(dataSource)) {
-          const newItems = [...dataSource, {}];
-          updateComponent(component.id, {
-            props: {
-              ...latestComponent.props,
-              dataSource: newItems,
-            },
-          });
-        }
-      }
-    } else {
-      // In builder mode, add a new child component
-      // This would need to be handled by the builder
+    if (!canAdd || !formMode) return;
+    // Custom onAddRow actions replace the default (append an empty row)
+    if (!(await runRowEvent('onAddRow'))) {
+      dataStoreApi.getState().addRow(arrayPath);
     }
-  }, [canAdd, formMode, latestComponent, data, dataSource, component.id, updateComponent]);
+  }, [canAdd, formMode, runRowEvent, arrayPath, dataStoreApi]);
 
   // Remove row handler
   const handleRemoveRow = useCallback(async (index: number) => {
-    if (!canRemove) return;
-    
-    if (formMode) {
-      // In form mode, execute removeRow action
-      const events = latestComponent.props?.events as Record<string, any[]> | undefined;
-      const removeRowActions = events?.onRemoveRow;
-      
-      if (removeRowActions && removeRowActions.length > 0) {
-        const eventArgs = {
-          component: latestComponent as any,
-          data,
-          parentData: items[index]?.data,
-          rowIndex: index,
-          event: { type: 'removeRow', index },
-        };
-        await ActionHandler.executeActions(removeRowActions, eventArgs);
-      } else {
-        // Default: remove item from data source
-        if (Array.isArray(dataSource)) {
-          const newItems = dataSource.filter((_: any, i: number) => i !== index);
-          updateComponent(component.id, {
-            props: {
-              ...latestComponent.props,
-              dataSource: newItems,
-            },
-          });
-        }
-      }
-    } else {
-      // In builder mode, remove child component
-      if (latestComponent.children && latestComponent.children[index]) {
-        // This would need to be handled by the builder's deleteComponent
-      }
+    if (!canRemove || !formMode) return;
+    if (!(await runRowEvent('onRemoveRow', index))) {
+      dataStoreApi.getState().removeRow(arrayPath, index);
+    }
+  }, [canRemove, formMode, runRowEvent, arrayPath, dataStoreApi]);
+
+  // Move row handler (to = target index)
+  const handleMoveRow = useCallback(async (index: number, to: number) => {
+    if (!formMode) return;
+    if (!(await runRowEvent('onMoveRow', index, [to]))) {
+      dataStoreApi.getState().moveRow(arrayPath, index, to);
     }
-  }, [canRemove, formMode, latestComponent, data, dataSource, items, component.id, updateComponent]);
+  }, [formMode, runRowEvent, arrayPath, dataStoreApi]);
+
+  // Duplicate row handler
+  const handleDuplicateRow = useCallback(async (index: number) => {
+    if (!canAdd || !formMode) return;
+    if (!(await runRowEvent('onDuplicateRow', index))) {
+      dataStoreApi.getState().duplicateRow(arrayPath, index);
+    }
+  }, [canAdd, formMode, runRowEvent, arrayPath, dataStoreApi]);
 
   // Check if item should render
   const shouldRenderItem = useCallback((item: any, index: number) => {
@@ -176,13 +217,16 @@ const FormRepeater: React.FC<FormRepeaterProps> = ({ component }) => {
           item: item.data || item,
           index,
           parentData: data,
-        }
+        },
+        undefined,
+        undefined,
+        { strict: strictExpressions }
       );
     } catch (error) {
       console.error('Error evaluating itemRenderWhen:', error);
       return true;
     }
-  }, [itemRenderWhen, data]);
+  }, [itemRenderWhen, data, strictExpressions]);
 
   // Validation errors
   const validationErrors = useMemo(() => {
@@ -279,6 +323,42 @@ const FormRepeater: React.FC<FormRepeaterProps> = ({ component }) => {
                     <Typography variant="caption" color="text.secondary">
                       Item {index + 1}
                     </Typography>
+                    {formMode && allowReorder && (
+                      <>
+                        <IconButton
+                          size="small"
+                          disabled={index === 0}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleMoveRow(index, index - 1);
+                          }}
+                        >
+                          <MoveUpIcon fontSize="small" />
+                        </IconButton>
+                        <IconButton
+                          size="small"
+                          disabled={index === itemCount - 1}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleMoveRow(index, index + 1);
+                          }}
+                        >
+                          <MoveDownIcon fontSize="small" />
+                        </IconButton>
+                      </>
+                    )}
+                    {formMode && allowDuplicate && (
+                      <IconButton
+                        size="small"
+                        disabled={!canAdd}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDuplicateRow(index);
+                        }}
+                      >
+                        <DuplicateIcon fontSize="small" />
+                      </IconButton>
+                    )}
                     {formMode && (
                       <IconButton
                         size="small"
@@ -294,8 +374,22 @@ const FormRepeater: React.FC<FormRepeaterProps> = ({ component }) => {
                     )}
                   </Box>
                   
-                  {/* Render component or data-based content */}
-                  {formMode && item.data ? (
+                  {/* Render row template, component or data-based content */}
+                  {formMode && latestComponent.children && latestComponent.children.length > 0 ? (
+                    <RepeaterRowContext.Provider value={rowScopes[index]}>
+                      <Box sx={{ mt: 3, display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+                        {latestComponent.children.map((child) => (
+                          <Box
+                            key={child.id}
+                            data-component-id={getInstanceId(child.id, rowScopes[index])}
+                            sx={{ display: 'contents' }}
+                          >
+                            <DraggableComponent component={child} />
+                          </Box>
+                        ))}
+                      </Box>
+                    </RepeaterRowContext.Provider>
+                  ) : formMode && item.data ? (
                     <Box sx={{ mt: 3 }}>
                       <Typography variant="body2" color="text.secondary">
                         {JSON.stringify(item.data, null, 2)}
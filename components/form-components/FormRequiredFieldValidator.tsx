@@ -1,8 +1,9 @@
 import React from 'react';
 import { Box, Alert } from '@mui/material';
 import type { ComponentDefinition } from '../../stores/types';
+import type { ValidationRule } from '../../stores/types/formEngine';
 import { useFormBuilderStore } from '../../stores/formBuilderStore';
-import { useFormComponent } from '../../hooks/useFormComponent';
+import { useFieldValidator } from '../../hooks/useFieldValidator';
 
 interface FormRequiredFieldValidatorProps {
   component: ComponentDefinition;
@@ -14,7 +15,11 @@ interface FormRequiredFieldValidatorProps {
  */
 const FormRequiredFieldValidator: React.FC<FormRequiredFieldValidatorProps> = ({ component }) => {
   const { formMode } = useFormBuilderStore();
-  const { shouldRender } = useFormComponent({ component, formMode });
+
+  const errorMessage = component.props?.errorMessage || component.props?.message || 'This field is required';
+  const rules: ValidationRule[] = [{ key: 'required', message: errorMessage }];
+
+  const { targetField, display } = useFieldValidator({ component, formMode, rules });
 
   // Validators are typically non-visual in form mode
   // They modify validation rules of target components
@@ -29,17 +34,16 @@ const FormRequiredFieldValidator: React.FC<FormRequiredFieldValidatorProps> = ({
           bgcolor: 'info.light',
         }}
       >
-        <Alert severity="info" sx={{ fontSize: '0.75rem', py: 0 }}>
-          Required Field Validator (applies to target field)
+        <Alert severity={targetField ? 'info' : 'warning'} sx={{ fontSize: '0.75rem', py: 0 }}>
+          Required Field Validator: {targetField ? `${targetField} (${display})` : 'No target field'}
         </Alert>
       </Box>
     );
   }
 
   // In form mode, validators don't render visually
-  // They work by modifying the validation schema of target components
+  // Their rules run as part of the target field's validation
   return null;
 };
 
 export default FormRequiredFieldValidator;
-
@@ -47,6 +47,7 @@ const FormSelect: React.FC<FormSelectProps> = ({ component }) => {
   const optionsSource = latestComponent.props?.optionsSource || latestComponent.props?.options;
   // Subscribe to form data for reactive updates
   const formData = useFormDataStore((state) => state.data);
+  const strictExpressions = useFormDataStore((state) => state.strictExpressions);
   const { getAllData, getData } = useFormDataStore();
   const { getDataviewData } = useBuilderDataStore();
   
@@ -54,6 +55,9 @@ const FormSelect: React.FC<FormSelectProps> = ({ component }) => {
   const [filteredDataviewData, setFilteredDataviewData] = React.useState<any[]>([]);
   const [isLoadingDataview, setIsLoadingDataview] = React.useState(false);
   
+  // OpenAPI operation chosen in the builder to feed the options
+  const dataviewOperation = latestComponent.props?.dataviewOperation as string | undefined;
+
   // Load dataview data with filters when filterParams change
   React.useEffect(() => {
     if (!formMode || !optionsSource || typeof optionsSource !== 'string') {
@@ -78,7 +82,7 @@ const FormSelect: React.FC<FormSelectProps> = ({ component }) => {
       setIsLoadingDataview(true);
       try {
         const dataviewManager = getDataviewManager();
-        const data = await dataviewManager.loadDataview(optionsSource, filterParams);
+        const data = await dataviewManager.loadDataview(optionsSource, filterParams, dataviewOperation);
         setFilteredDataviewData(Array.isArray(data) ? data : []);
       } catch (error) {
         console.error('Error loading filtered dataview data:', error);
@@ -89,7 +93,7 @@ const FormSelect: React.FC<FormSelectProps> = ({ component }) => {
     };
     
     loadFilteredData();
-  }, [formMode, optionsSource, filterParams, getDataviewData]);
+  }, [formMode, optionsSource, filterParams, getDataviewData, dataviewOperation]);
   
   const options = React.useMemo(() => {
     if (!optionsSource) return [];
@@ -158,7 +162,10 @@ const FormSelect: React.FC<FormSelectProps> = ({ component }) => {
       try {
         const evaluated = ComputedPropertyEvaluator.evaluate(
           optionsSource as any,
-          formData
+          formData,
+          undefined,
+          undefined,
+          { strict: strictExpressions }
         );
         return Array.isArray(evaluated) ? evaluated : [];
       } catch (error) {
@@ -192,7 +199,7 @@ const FormSelect: React.FC<FormSelectProps> = ({ component }) => {
     }
     
     return [];
-  }, [optionsSource, latestComponent, formData, getData, formMode, getDataviewData, filteredDataviewData, isLoadingDataview]);
+  }, [optionsSource, latestComponent, formData, getData, formMode, getDataviewData, filteredDataviewData, isLoadingDataview, strictExpressions]);
   
   const variant = latestComponent.props?.variant || 'outlined';
   const fullWidth = latestComponent.props?.fullWidth !== false;
@@ -23,6 +23,7 @@ const FormTextArea: React.FC<FormTextAreaProps> = ({ component }) => {
     computedPlaceholder,
     validationError,
     isValid,
+    validationPending,
     boundValue,
     setBoundValue,
     responsiveSx,
@@ -50,7 +51,8 @@ const FormTextArea: React.FC<FormTextAreaProps> = ({ component }) => {
   
   const calculatedWidth = width || (fullWidth ? '100%' : 'auto');
   const displayValue = formMode ? boundValue : computedValue;
-  const displayHelperText = validationError || computedHelperText || '';
+  // Async rules being checked
+  const displayHelperText = validationPending ? 'Checking...' : validationError || computedHelperText || '';
   const hasError = !!validationError || !isValid;
 
   if (!computedVisible) return null;
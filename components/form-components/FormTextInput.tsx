@@ -1,5 +1,5 @@
 import React from 'react';
-import { TextField, Box } from '@mui/material';
+import { TextField, Box, InputAdornment, CircularProgress } from '@mui/material';
 import type { ComponentDefinition } from '../../stores/types';
 import { useFormBuilderStore } from '../../stores/formBuilderStore';
 import { useFormComponent } from '../../hooks/useFormComponent';
@@ -24,6 +24,7 @@ const FormTextInput: React.FC<FormTextInputProps> = ({ component }) => {
     computedPlaceholder,
     validationError,
     isValid,
+    validationPending,
     boundValue,
     setBoundValue,
     responsiveSx,
@@ -64,7 +65,8 @@ const FormTextInput: React.FC<FormTextInputProps> = ({ component }) => {
   const displayValue = formMode ? boundValue : computedValue;
   
   // Combine validation error with helper text
-  const displayHelperText = validationError || computedHelperText || '';
+  // Async rules being checked
+  const displayHelperText = validationPending ? 'Checking...' : validationError || computedHelperText || '';
   const hasError = !!validationError || !isValid;
 
   return (
@@ -114,6 +116,13 @@ const FormTextInput: React.FC<FormTextInputProps> = ({ component }) => {
           pattern,
           ...htmlAttributes,
         }}
+        InputProps={validationPending ? {
+          endAdornment: (
+            <InputAdornment position="end">
+              <CircularProgress size={16} />
+            </InputAdornment>
+          ),
+        } : undefined}
         helperText={displayHelperText}
         error={hasError}
         size={size as any}
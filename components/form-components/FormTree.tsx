@@ -1,6 +1,8 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
 import {
+  Alert,
   Box,
+  Button,
   Paper,
   Typography,
   List,
@@ -9,6 +11,9 @@ import {
   ListItemText,
   Collapse,
   IconButton,
+  Checkbox,
+  CircularProgress,
+  LinearProgress,
 } from '@mui/material';
 import {
   ExpandMore as ExpandMoreIcon,
@@ -17,21 +22,37 @@ import {
 import type { ComponentDefinition } from '../../stores/types';
 import { useFormBuilderStore } from '../../stores/formBuilderStore';
 import { useFormDataStore } from '../../stores/formDataStore';
-import { resolveDataSource } from '../../utils/data/dataSourceResolver';
+import { useBuilderDataStore } from '../../stores/builderDataStore';
+import { useFormComponent } from '../../hooks/useFormComponent';
+import { resolveArrayDataSourceSync } from '../../utils/data/dataSourceResolver';
+import { TreeData, DEFAULT_TREE_KEYS, type TreeNode } from '../../utils/data/treeData';
+import { useTreeData } from '../../hooks/useTreeData';
+import { useVirtualRows } from '../../hooks/useVirtualRows';
 
 interface FormTreeProps {
   component: ComponentDefinition;
 }
 
-interface TreeNode {
-  id: string;
-  label: string;
-  children?: TreeNode[];
+interface VisibleNode {
+  node: TreeNode;
+  level: number;
 }
 
+// Nodes shown for the expanded set, in display order
+const flattenTree = (nodes: TreeNode[], expanded: Set<string>, level: number = 0, result: VisibleNode[] = []): VisibleNode[] => {
+  nodes.forEach((node) => {
+    result.push({ node, level });
+    if (node.children.length > 0 && expanded.has(node.id)) {
+      flattenTree(node.children, expanded, level + 1, result);
+    }
+  });
+  return result;
+};
+
 const FormTree: React.FC<FormTreeProps> = ({ component }) => {
-  const { selectComponent, selectedComponentId, findComponent, components } = useFormBuilderStore();
-  const { data, getAllData, getData } = useFormDataStore();
+  const { selectComponent, selectedComponentId, findComponent, components, formMode } = useFormBuilderStore();
+  const { data, getAllData, getData, strictExpressions } = useFormDataStore();
+  const { getDataviewData } = useBuilderDataStore();
   const isSelected = selectedComponentId === component.id;
   const [expanded, setExpanded] = useState<Set<string>>(new Set());
 
@@ -40,81 +61,182 @@ const FormTree: React.FC<FormTreeProps> = ({ component }) => {
     return findComponent(component.id) || component;
   }, [component.id, components, findComponent]);
 
+  // Selection bound to dataKey, conditional rendering
+  const { computedLabel, boundValue, handleChange, shouldRender } = useFormComponent({ component: latestComponent, formMode });
+
   // Support multiple data source types: data, treeData, dataSource
-  const dataSource = latestComponent.props?.dataSource || 
-                     latestComponent.props?.data || 
-                     latestComponent.props?.treeData || 
+  const dataSource = latestComponent.props?.dataSource ||
+                     latestComponent.props?.data ||
+                     latestComponent.props?.treeData ||
                      [];
-  
-  // Resolve data from various sources (Tree expects array of TreeNode)
-  const resolvedData = useMemo(() => {
-    const resolved = resolveDataSource({
+
+  // Nested nodes ({ id, label, children }) or flat rows linked by the key fields
+  const idField = latestComponent.props?.idField || DEFAULT_TREE_KEYS.idField;
+  const parentField = latestComponent.props?.parentField || DEFAULT_TREE_KEYS.parentField;
+  const labelField = latestComponent.props?.labelField || DEFAULT_TREE_KEYS.labelField;
+  const hasChildrenField = latestComponent.props?.hasChildrenField || undefined;
+  const keys = useMemo(
+    () => ({ idField, parentField, labelField, hasChildrenField }),
+    [idField, parentField, labelField, hasChildrenField]
+  );
+
+  // Local rows - in builder mode a dataview reference shows the preview data
+  const localRows = useMemo(() => {
+    if (!formMode && typeof dataSource === 'string' && dataSource) {
+      const builderData = getDataviewData(dataSource);
+      if (builderData && Array.isArray(builderData)) {
+        return builderData;
+      }
+    }
+    return resolveArrayDataSourceSync({
       source: dataSource,
       formData: data,
       component: latestComponent,
       getAllData,
       getData,
+      strict: strictExpressions,
     });
-    return Array.isArray(resolved) ? resolved : [];
-  }, [dataSource, data, latestComponent, getAllData, getData]);
-  
-  const label = latestComponent.props?.label || 'Tree View';
+  }, [dataSource, data, latestComponent, getAllData, getData, formMode, getDataviewData, strictExpressions]);
+
+  // Dataview sources are loaded in form mode - lazily: roots first, children on expand
+  const lazy = latestComponent.props?.lazy === true;
+  const tree = useTreeData({
+    source: dataSource,
+    localRows,
+    remote: formMode,
+    keys,
+    lazy,
+    rootParentValue: latestComponent.props?.rootParentValue,
+    operationId: latestComponent.props?.dataviewOperation,
+  });
+  const nodes = tree.nodes;
+
+  // Tri-state checkbox selection of node ids
+  const checkboxes = latestComponent.props?.checkboxes === true;
+  const selection = useMemo(() => TreeData.toSelection(boundValue), [boundValue]);
+
+  // Children loaded under a checked node are checked too
+  const selectionRef = useRef({ selection, boundValue, handleChange });
+  selectionRef.current = { selection, boundValue, handleChange };
+  useEffect(() => {
+    const current = selectionRef.current;
+    if (!formMode || !checkboxes || current.selection.size === 0) return;
+    const synced = TreeData.sync(nodes, current.selection);
+    if (synced.size !== current.selection.size || Array.from(synced).some((id) => !current.selection.has(id))) {
+      current.handleChange(TreeData.fromSelection(synced, nodes, current.boundValue));
+    }
+  }, [nodes, formMode, checkboxes]);
+
+  const toggleChecked = (node: TreeNode, checked: boolean) => {
+    if (!formMode) return;
+    handleChange(TreeData.fromSelection(TreeData.toggle(nodes, selection, node.id, checked), nodes, boundValue));
+  };
+
+  const label = computedLabel || latestComponent.props?.label || 'Tree View';
+
+  // Windowed rendering of the expanded nodes as one flat list
+  const virtualized = latestComponent.props?.virtualized === true;
+  const viewportHeight = Number(latestComponent.props?.viewportHeight) || 300;
+  const visibleNodes = useMemo(
+    () => (virtualized ? flattenTree(nodes, expanded) : []),
+    [virtualized, nodes, expanded]
+  );
+  const virtual = useVirtualRows({
+    count: visibleNodes.length,
+    rowHeight: Number(latestComponent.props?.rowHeight) || 48,
+    height: viewportHeight,
+    fixedHeight: latestComponent.props?.fixedRowHeight === true,
+    enabled: virtualized,
+  });
+
+  if (!shouldRender) return null;
 
-  const toggleNode = (nodeId: string) => {
+  const toggleNode = (node: TreeNode) => {
+    if (!expanded.has(node.id) && node.lazy) {
+      tree.loadChildren(node);
+    }
     setExpanded((prev) => {
       const newSet = new Set(prev);
-      if (newSet.has(nodeId)) {
-        newSet.delete(nodeId);
+      if (newSet.has(node.id)) {
+        newSet.delete(node.id);
       } else {
-        newSet.add(nodeId);
+        newSet.add(node.id);
       }
       return newSet;
     });
   };
 
-  const renderTree = (nodes: TreeNode[], level: number = 0): React.ReactNode => {
-    return nodes.map((node) => {
-      const hasChildren = node.children && node.children.length > 0;
-      const isExpanded = expanded.has(node.id);
+  const renderNode = (node: TreeNode, level: number, ref?: (element: HTMLElement | null) => void): React.ReactNode => {
+    const isExpanded = expanded.has(node.id);
+    const isLoading = tree.loadingNodes.has(node.id);
+    const checkState = checkboxes ? TreeData.getCheckState(node, selection) : 'unchecked';
 
-      return (
-        <React.Fragment key={node.id}>
-          <ListItem
-            disablePadding
-            sx={{ pl: level * 2 }}
-            onClick={(e) => {
-              e.stopPropagation();
-              selectComponent(component.id);
-            }}
-          >
-            <ListItemButton
+    return (
+      <ListItem
+        key={node.id}
+        ref={ref}
+        disablePadding
+        sx={{ pl: level * 2 }}
+        onClick={(e) => {
+          e.stopPropagation();
+          selectComponent(component.id);
+        }}
+      >
+        <ListItemButton
+          onClick={(e) => {
+            e.stopPropagation();
+            if (node.expandable) {
+              toggleNode(node);
+            }
+          }}
+        >
+          {node.expandable ? (
+            <IconButton
+              size="small"
               onClick={(e) => {
                 e.stopPropagation();
-                if (hasChildren) {
-                  toggleNode(node.id);
-                }
+                toggleNode(node);
               }}
             >
-              {hasChildren ? (
-                <IconButton
-                  size="small"
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    toggleNode(node.id);
-                  }}
-                >
-                  {isExpanded ? <ExpandMoreIcon /> : <ChevronRightIcon />}
-                </IconButton>
+              {isLoading ? (
+                <CircularProgress size={18} />
+              ) : isExpanded ? (
+                <ExpandMoreIcon />
               ) : (
-                <Box sx={{ width: 24 }} />
+                <ChevronRightIcon />
               )}
-              <ListItemText primary={node.label} />
-            </ListItemButton>
-          </ListItem>
-          {hasChildren && (
+            </IconButton>
+          ) : (
+            <Box sx={{ width: 24 }} />
+          )}
+          {checkboxes && (
+            <Checkbox
+              size="small"
+              checked={checkState === 'checked'}
+              indeterminate={checkState === 'indeterminate'}
+              disabled={!formMode}
+              onClick={(e) => e.stopPropagation()}
+              onChange={(e) => toggleChecked(node, e.target.checked)}
+              sx={{ p: 0.5 }}
+            />
+          )}
+          <ListItemText primary={node.label} />
+        </ListItemButton>
+      </ListItem>
+    );
+  };
+
+  const renderTree = (treeNodes: TreeNode[], level: number = 0): React.ReactNode => {
+    return treeNodes.map((node) => {
+      const isExpanded = expanded.has(node.id);
+
+      return (
+        <React.Fragment key={node.id}>
+          {renderNode(node, level)}
+          {node.children.length > 0 && (
             <Collapse in={isExpanded} timeout="auto" unmountOnExit>
               <List component="div" disablePadding>
-                {renderTree(node.children!, level + 1)}
+                {renderTree(node.children, level + 1)}
               </List>
             </Collapse>
           )}
@@ -142,13 +264,41 @@ const FormTree: React.FC<FormTreeProps> = ({ component }) => {
             {label}
           </Typography>
         )}
-        {resolvedData && resolvedData.length > 0 ? (
-          <List sx={{ maxHeight: 300, overflow: 'auto' }}>
-            {renderTree(resolvedData as TreeNode[])}
-          </List>
+        {tree.loading && <LinearProgress sx={{ mb: 1 }} />}
+        {tree.error && (
+          <Alert
+            severity="error"
+            sx={{ mb: 1 }}
+            action={
+              <Button color="inherit" size="small" onClick={tree.reload}>
+                Retry
+              </Button>
+            }
+          >
+            {tree.error}
+          </Alert>
+        )}
+        {nodes.length > 0 ? (
+          virtualized ? (
+            <List
+              ref={virtual.containerRef}
+              onScroll={virtual.onScroll}
+              sx={{ maxHeight: viewportHeight, overflow: 'auto' }}
+            >
+              {virtual.paddingTop > 0 && <Box component="li" aria-hidden sx={{ height: virtual.paddingTop }} />}
+              {visibleNodes
+                .slice(virtual.start, virtual.end)
+                .map(({ node, level }, offset) => renderNode(node, level, virtual.measureRow(virtual.start + offset)))}
+              {virtual.paddingBottom > 0 && <Box component="li" aria-hidden sx={{ height: virtual.paddingBottom }} />}
+            </List>
+          ) : (
+            <List sx={{ maxHeight: 300, overflow: 'auto' }}>
+              {renderTree(nodes)}
+            </List>
+          )
         ) : (
           <Typography variant="body2" color="text.secondary">
-            No tree data available
+            {tree.loading ? 'Loading...' : 'No tree data available'}
           </Typography>
         )}
       </Paper>
@@ -157,4 +307,3 @@ const FormTree: React.FC<FormTreeProps> = ({ component }) => {
 };
 
 export default FormTree;
-
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import {
   Box,
   Paper,
@@ -11,8 +11,12 @@ import {
 import { useDroppable } from '@dnd-kit/core';
 import type { ComponentDefinition } from '../../stores/types';
 import { useFormBuilderStore } from '../../stores/formBuilderStore';
+import { useFormDataStore, useFormDataStoreApi } from '../../stores/formDataStore';
+import { useRepeaterRow, resolveDataKey } from '../../stores/repeaterRowContext';
 import { useFormComponent } from '../../hooks/useFormComponent';
 import { useComponentProperties } from '../../hooks/useComponentProperties';
+import { getPath } from '../../utils/data/dataPath';
+import { WizardSteps, type WizardStepRef } from '../../utils/rendering/wizardSteps';
 import DraggableComponent from '../builder/DraggableComponent';
 
 interface FormWizardProps {
@@ -22,7 +26,14 @@ interface FormWizardProps {
 const FormWizard: React.FC<FormWizardProps> = ({ component }) => {
   const { selectComponent, selectedComponentId, formMode } = useFormBuilderStore();
   const isSelected = selectedComponentId === component.id;
-  const [activeStep, setActiveStep] = useState(0);
+  const dataStoreApi = useFormDataStoreApi();
+  const data = useFormDataStore((state) => state.data);
+  const scopeId = useFormDataStore((state) => state.scopeId);
+  const strictExpressions = useFormDataStore((state) => state.strictExpressions);
+  const row = useRepeaterRow();
+  const parentData = row ? getPath(data, row.rowPath) : undefined;
+  const [localStep, setLocalStep] = useState(0);
+  const [checkingStep, setCheckingStep] = useState(false);
   
   // Get dynamic properties using reusable hook
   const { latestComponent, className, getSxStyles } = useComponentProperties({ component, formMode });
@@ -45,24 +56,108 @@ const FormWizard: React.FC<FormWizardProps> = ({ component }) => {
     disabled: formMode, // Disable droppable in form mode
   });
 
-  const steps = latestComponent.props?.steps || ['Step 1', 'Step 2', 'Step 3'];
+  // Each child is a step; the legacy `steps` prop only supplies titles
+  const steps = latestComponent.children || [];
+  const legacyTitles: string[] = latestComponent.props?.steps || [];
   const label = computedLabel || latestComponent.props?.label || 'Wizard';
   const orientation = latestComponent.props?.orientation || 'horizontal';
   const alternativeLabel = latestComponent.props?.alternativeLabel || false;
+  const validateSteps = latestComponent.props?.validateSteps !== false;
 
-  // Don't render if conditional rendering says no
-  if (!shouldRender) {
-    return null;
-  }
+  // Progress is kept in form data when progressDataKey is set (step index, 0-based)
+  const rawProgressKey = latestComponent.props?.progressDataKey as string | undefined;
+  const progressKey = formMode && rawProgressKey ? resolveDataKey(rawProgressKey, row) : undefined;
+  const storedStep = progressKey ? getPath(data, progressKey) : undefined;
+  const requestedStep = Math.min(
+    Math.max(typeof storedStep === 'number' ? storedStep : localStep, 0),
+    Math.max(steps.length - 1, 0)
+  );
+
+  // Steps whose renderWhen is false are skipped (the builder shows every step)
+  const visible = steps.map(
+    (step) => !formMode || WizardSteps.isVisible(step, data, parentData, { strict: strictExpressions })
+  );
+  const activeStep = visible[requestedStep]
+    ? requestedStep
+    : [WizardSteps.findVisible(visible, requestedStep, 1), WizardSteps.findVisible(visible, requestedStep, -1)]
+        .find((index) => index >= 0) ?? -1;
+  const nextStep = WizardSteps.findVisible(visible, activeStep + 1, 1);
+  const previousStep = activeStep > 0 ? WizardSteps.findVisible(visible, activeStep - 1, -1) : -1;
+
+  const setStep = (index: number) => {
+    setLocalStep(index);
+    if (progressKey) {
+      dataStoreApi.getState().setData(progressKey, index);
+    }
+  };
+
+  // Validate the fields rendered in a step; true when it has no errors
+  const validateStep = async (index: number): Promise<boolean> => {
+    const ids = WizardSteps.collectIds(steps[index]);
+    const { getRegisteredFields, validateForm } = dataStoreApi.getState();
+    // Fields in Repeater rows are registered as `${componentId}@${rowPath}`
+    const dataKeys = getRegisteredFields()
+      .filter((field) => field.dataKey && ids.has(field.componentId.split('@')[0]))
+      .map((field) => field.dataKey!);
+    if (dataKeys.length === 0) return true;
+
+    setCheckingStep(true);
+    try {
+      const errors = await validateForm(dataKeys);
+      return errors.length === 0;
+    } finally {
+      setCheckingStep(false);
+    }
+  };
 
-  const handleNext = () => {
-    setActiveStep((prev) => Math.min(prev + 1, steps.length - 1));
+  const handleNext = async () => {
+    if (nextStep < 0 || checkingStep) return;
+    if (formMode && validateSteps && !(await validateStep(activeStep))) return;
+    setStep(nextStep);
   };
 
   const handleBack = () => {
-    setActiveStep((prev) => Math.max(prev - 1, 0));
+    if (previousStep >= 0) setStep(previousStep);
   };
 
+  const handleGoTo = (ref: WizardStepRef) => {
+    const index = WizardSteps.findStep(steps, ref);
+    if (index < 0 || !visible[index]) {
+      console.warn(`goToStep: step "${ref}" not found or skipped in wizard ${latestComponent.name || latestComponent.id}`);
+      return;
+    }
+    setStep(index);
+  };
+
+  // goToStep / nextStep / previousStep actions (latest handlers, the listener stays attached)
+  const navigationRef = useRef({ handleNext, handleBack, handleGoTo });
+  navigationRef.current = { handleNext, handleBack, handleGoTo };
+
+  useEffect(() => {
+    if (!formMode) return;
+
+    const handleStepEvent = (event: CustomEvent) => {
+      const { wizardId, action, step } = event.detail || {};
+      // Ignore events raised by another form instance
+      if (event.detail?.scopeId && event.detail.scopeId !== scopeId) return;
+      if (wizardId && wizardId !== component.id && wizardId !== latestComponent.name) return;
+
+      if (action === 'nextStep') navigationRef.current.handleNext();
+      else if (action === 'previousStep') navigationRef.current.handleBack();
+      else if (action === 'goToStep') navigationRef.current.handleGoTo(step);
+    };
+
+    window.addEventListener('formx:wizardStep' as any, handleStepEvent);
+    return () => {
+      window.removeEventListener('formx:wizardStep' as any, handleStepEvent);
+    };
+  }, [formMode, scopeId, component.id, latestComponent.name]);
+
+  // Don't render if conditional rendering says no
+  if (!shouldRender) {
+    return null;
+  }
+
   return (
     <Box
       ref={setNodeRef}
@@ -107,35 +202,41 @@ const FormWizard: React.FC<FormWizardProps> = ({ component }) => {
         )}
 
         <Stepper 
-          activeStep={activeStep} 
+          activeStep={visible.slice(0, activeStep).filter(Boolean).length} 
           orientation={orientation as any}
           alternativeLabel={alternativeLabel}
           sx={{ mb: 4 }}
         >
-          {steps.map((step: string, index: number) => (
-            <Step key={index}>
-              <StepLabel>{step}</StepLabel>
+          {steps.map((step, index) => visible[index] && (
+            <Step
+              key={step.id}
+              onClick={(e) => {
+                // Designers switch steps by clicking them
+                if (!formMode) {
+                  e.stopPropagation();
+                  setStep(index);
+                }
+              }}
+              sx={{ cursor: formMode ? 'default' : 'pointer' }}
+            >
+              <StepLabel>{WizardSteps.getTitle(step, index, legacyTitles)}</StepLabel>
             </Step>
           ))}
         </Stepper>
 
         <Box sx={{ minHeight: 200, mb: 3 }}>
-          {latestComponent.children && latestComponent.children.length > 0 ? (
-            latestComponent.children
-              .filter((_, index) => index === activeStep)
-              .map((child) => (
-                <DraggableComponent key={child.id} component={child} />
-              ))
+          {activeStep >= 0 ? (
+            <DraggableComponent key={steps[activeStep].id} component={steps[activeStep]} />
           ) : (
             <Typography variant="body2" color="text.secondary" align="center">
-              Drop components here for step {activeStep + 1}
+              {formMode ? 'No steps to show' : 'Drop a Container here to add a step'}
             </Typography>
           )}
         </Box>
 
         <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
           <Button
-            disabled={activeStep === 0}
+            disabled={previousStep < 0}
             onClick={(e) => {
               e.stopPropagation();
               handleBack();
@@ -145,13 +246,13 @@ const FormWizard: React.FC<FormWizardProps> = ({ component }) => {
           </Button>
           <Button
             variant="contained"
-            disabled={activeStep === steps.length - 1}
+            disabled={nextStep < 0 || checkingStep}
             onClick={(e) => {
               e.stopPropagation();
               handleNext();
             }}
           >
-            {activeStep === steps.length - 1 ? 'Finish' : 'Next'}
+            {nextStep < 0 ? 'Finish' : 'Next'}
           </Button>
         </Box>
       </Paper>
@@ -0,0 +1,94 @@
+/**
+ * FormErrorSummary
+ * Lists the validation errors collected on submit
+ * Rendered by FormViewer according to PersistedForm.errorType / errorProps
+ */
+
+import React from 'react';
+import { Alert, AlertTitle, Snackbar, Link, Box } from '@mui/material';
+import type { FieldValidationError } from '../../stores/types/formEngine';
+
+export interface FormErrorSummaryProps {
+  errors: FieldValidationError[];
+  /**
+   * Display type: 'MuiAlert' (default), 'MuiSnackbar' or 'none'
+   */
+  errorType?: string;
+  /**
+   * Display props: title, severity, variant, autoHideDuration
+   */
+  errorProps?: Record<string, any>;
+  /**
+   * Called when an error entry is clicked (used to focus the field)
+   */
+  onSelect?: (componentId: string) => void;
+  onClose?: () => void;
+}
+
+const FormErrorSummary: React.FC<FormErrorSummaryProps> = ({
+  errors,
+  errorType = 'MuiAlert',
+  errorProps = {},
+  onSelect,
+  onClose,
+}) => {
+  if (errorType === 'none' || errors.length === 0) {
+    return null;
+  }
+
+  const {
+    title = 'Please fix the following errors',
+    severity = 'error',
+    variant = 'standard',
+    autoHideDuration = 6000,
+    ...alertProps
+  } = errorProps;
+
+  const content = (
+    <Alert severity={severity} variant={variant} onClose={onClose} {...alertProps}>
+      {title && <AlertTitle>{title}</AlertTitle>}
+      <Box component="ul" sx={{ m: 0, pl: 2 }}>
+        {errors.map((error, index) => (
+          <li key={error.componentId || `form-${error.dataKey || index}`}>
+            {error.componentId ? (
+              <>
+                <Link
+                  component="button"
+                  type="button"
+                  color="inherit"
+                  underline="hover"
+                  onClick={() => onSelect?.(error.componentId)}
+                  sx={{ verticalAlign: 'baseline', textAlign: 'left' }}
+                >
+                  {error.label || error.dataKey || error.componentId}
+                </Link>
+                {': '}
+              </>
+            ) : (
+              // Form-level error (not attached to a rendered field)
+              error.label && `${error.label}: `
+            )}
+            {error.messages.join(', ')}
+          </li>
+        ))}
+      </Box>
+    </Alert>
+  );
+
+  if (errorType === 'MuiSnackbar') {
+    return (
+      <Snackbar
+        open
+        autoHideDuration={autoHideDuration}
+        onClose={(_, reason) => reason !== 'clickaway' && onClose?.()}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+      >
+        {content}
+      </Snackbar>
+    );
+  }
+
+  return <Box sx={{ mb: 2 }}>{content}</Box>;
+};
+
+export default FormErrorSummary;
@@ -0,0 +1,51 @@
+/**
+ * FormStoreProvider
+ * Provides an isolated builder/data store pair to every form component below it,
+ * so several forms can be rendered on the same page without sharing state
+ */
+
+import React, { useState } from 'react';
+import {
+  createFormBuilderStore,
+  FormBuilderStoreContext,
+  type FormBuilderStoreApi,
+} from '../../stores/formBuilderStore';
+import {
+  createFormDataStore,
+  FormDataStoreContext,
+  type FormDataStoreApi,
+} from '../../stores/formDataStore';
+
+export interface FormStoreProviderProps {
+  /**
+   * Existing builder store instance (a new one is created if omitted)
+   */
+  builderStore?: FormBuilderStoreApi;
+
+  /**
+   * Existing data store instance (a new one is created if omitted)
+   */
+  dataStore?: FormDataStoreApi;
+
+  children: React.ReactNode;
+}
+
+const FormStoreProvider: React.FC<FormStoreProviderProps> = ({
+  builderStore,
+  dataStore,
+  children,
+}) => {
+  // Create instances once per provider
+  const [ownBuilderStore] = useState(() => builderStore ?? createFormBuilderStore());
+  const [ownDataStore] = useState(() => dataStore ?? createFormDataStore());
+
+  return (
+    <FormBuilderStoreContext.Provider value={builderStore ?? ownBuilderStore}>
+      <FormDataStoreContext.Provider value={dataStore ?? ownDataStore}>
+        {children}
+      </FormDataStoreContext.Provider>
+    </FormBuilderStoreContext.Provider>
+  );
+};
+
+export default FormStoreProvider;
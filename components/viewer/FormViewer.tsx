@@ -4,14 +4,16 @@
  * Similar to FormEngine's FormViewer
  */
 
-import React, { useEffect, useMemo } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { Box, Paper, ThemeProvider, createTheme, CssBaseline } from '@mui/material';
-import type { ComponentDefinition } from '../../stores/types';
-import type { PersistedForm } from '../../stores/types/formEngine';
+import { useStore } from 'zustand';
+import type { PersistedForm, FieldValidationError } from '../../stores/types/formEngine';
 import { FormConverter } from '../../utils/formConversion';
-import { useFormBuilderStore } from '../../stores/formBuilderStore';
-import { useFormDataStore } from '../../stores/formDataStore';
+import { createFormBuilderStore } from '../../stores/formBuilderStore';
+import { createFormDataStore, filterMessagesForDisplay } from '../../stores/formDataStore';
+import FormStoreProvider from './FormStoreProvider';
 import FormViewerCanvas from './FormViewerCanvas';
+import FormErrorSummary from './FormErrorSummary';
 import FormModal from '../form-components/FormModal';
 
 export interface FormViewerProps {
@@ -30,6 +32,17 @@ export interface FormViewerProps {
    */
   onSubmit?: (data: Record<string, any>) => void | Promise<void>;
   
+  /**
+   * Callback when submit is blocked by validation errors
+   */
+  onValidationFailed?: (errors: FieldValidationError[]) => void;
+  
+  /**
+   * Show the error summary on failed submit (default: true)
+   * Display is configured by formData.errorType / formData.errorProps
+   */
+  showErrorSummary?: boolean;
+  
   /**
    * Callback when form data changes
    */
@@ -49,24 +62,46 @@ export interface FormViewerProps {
    * Enable form mode (default: true)
    */
   formMode?: boolean;
+  
+  /**
+   * Refuse expressions outside the sandboxed grammar (set for forms from untrusted sources)
+   * Defaults to the global ExpressionEngine setting
+   */
+  strictExpressions?: boolean;
 }
 
 const FormViewer: React.FC<FormViewerProps> = ({
   formData,
   initialValues = {},
   onSubmit,
+  onValidationFailed,
+  showErrorSummary = true,
   onDataChange,
   theme,
   containerSx,
   formMode = true,
+  strictExpressions,
 }) => {
-  const { setComponents, setFormMode } = useFormBuilderStore();
-  const { setInitialData, getAllData, data } = useFormDataStore();
+  // Each viewer owns its own store instances so multiple forms can coexist on a page
+  const [builderStore] = useState(createFormBuilderStore);
+  const [dataStore] = useState(() => {
+    // Set before the first render so no expression is evaluated in the wrong mode
+    const store = createFormDataStore();
+    store.getState().setStrictExpressions(strictExpressions);
+    return store;
+  });
+  const { setComponents, setFormMode } = builderStore.getState();
+  const { setInitialData, getAllData } = dataStore.getState();
+  const data = useStore(dataStore, (state) => state.data);
+  const errors = useStore(dataStore, (state) => state.errors);
+  const formErrors = useStore(dataStore, (state) => state.formErrors);
+  const formRef = useRef<HTMLFormElement>(null);
+  const [submitErrors, setSubmitErrors] = useState<FieldValidationError[]>([]);
 
   // Convert PersistedForm to ComponentDefinition[]
   const components = useMemo(() => {
     try {
-      return FormConverter.toComponentDefinitions(formData);
+      return FormConverter.fromPersistedForm(formData);
     } catch (error) {
       console.error('Error converting form data:', error);
       return [];
@@ -78,6 +113,10 @@ const FormViewer: React.FC<FormViewerProps> = ({
     setComponents(components);
   }, [components, setComponents]);
 
+  useEffect(() => {
+    dataStore.getState().setStrictExpressions(strictExpressions);
+  }, [dataStore, strictExpressions]);
+
   // Set form mode
   useEffect(() => {
     setFormMode(formMode);
@@ -90,6 +129,17 @@ const FormViewer: React.FC<FormViewerProps> = ({
     }
   }, [initialValues, setInitialData]);
 
+  // Form-level validator (cross-field rules)
+  useEffect(() => {
+    dataStore.getState().setFormValidator(formData.formValidator);
+  }, [dataStore, formData.formValidator]);
+
+  useEffect(() => {
+    if (formData.validateOnChange && formData.formValidator) {
+      dataStore.getState().runFormValidator();
+    }
+  }, [data, dataStore, formData.validateOnChange, formData.formValidator]);
+
   // Notify on data change
   useEffect(() => {
     if (onDataChange && Object.keys(data).length > 0) {
@@ -97,14 +147,61 @@ const FormViewer: React.FC<FormViewerProps> = ({
     }
   }, [data, getAllData, onDataChange]);
 
+  // Focus the first focusable element inside a field
+  const focusField = useCallback((componentId: string) => {
+    const container = formRef.current?.querySelector(`[data-component-id="${CSS.escape(componentId)}"]`);
+    const target = container?.querySelector<HTMLElement>(
+      'input:not([type="hidden"]), textarea, select, [tabindex]:not([tabindex="-1"])'
+    );
+    target?.focus();
+    (target ?? container)?.scrollIntoView?.({ block: 'center', behavior: 'smooth' });
+  }, []);
+
   // Handle form submission
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (onSubmit) {
-      await onSubmit(getAllData());
+    const { validateForm, setSubmitting, isSubmitting } = dataStore.getState();
+    if (isSubmitting) return;
+
+    setSubmitting(true);
+    try {
+      const validationErrors = await validateForm();
+      if (validationErrors.length > 0) {
+        // Focus the first invalid field in document order
+        const invalidIds = new Set(validationErrors.map((error) => error.componentId));
+        const fieldElements = formRef.current?.querySelectorAll<HTMLElement>('[data-component-id]') ?? [];
+        const firstInvalid = Array.from(fieldElements).find((el) =>
+          invalidIds.has(el.getAttribute('data-component-id') || '')
+        );
+        focusField(firstInvalid?.getAttribute('data-component-id') || validationErrors[0].componentId);
+
+        setSubmitErrors(validationErrors);
+        onValidationFailed?.(validationErrors);
+        return;
+      }
+
+      setSubmitErrors([]);
+      if (onSubmit) {
+        await onSubmit(getAllData());
+      }
+    } finally {
+      setSubmitting(false);
     }
   };
 
+  // Show current messages and drop summary entries once the field has been fixed
+  // (inline-only validator messages are left out of the summary)
+  const { getFieldValidators } = dataStore.getState();
+  const summaryErrors = submitErrors
+    .map((error) => ({
+      ...error,
+      messages: [
+        ...filterMessagesForDisplay(errors[error.componentId] || [], getFieldValidators(error.componentId), 'summary'),
+        ...(formErrors[error.dataKey || ''] || []),
+      ].filter((message, index, all) => all.indexOf(message) === index),
+    }))
+    .filter((error) => error.messages.length > 0);
+
   // Default theme
   const defaultTheme = useMemo(
     () =>
@@ -129,37 +226,51 @@ const FormViewer: React.FC<FormViewerProps> = ({
   }
 
   return (
-    <ThemeProvider theme={defaultTheme}>
-      <CssBaseline />
-      <Box
-        component="form"
-        onSubmit={handleSubmit}
-        sx={{
-          width: '100%',
-          ...containerSx,
-        }}
-      >
-        <Paper
-          elevation={0}
+    <FormStoreProvider builderStore={builderStore} dataStore={dataStore}>
+      <ThemeProvider theme={defaultTheme}>
+        <CssBaseline />
+        <Box
+          component="form"
+          ref={formRef}
+          noValidate
+          onSubmit={handleSubmit}
           sx={{
-            p: 2,
-            bgcolor: 'background.paper',
-            border: '1px solid',
-            borderColor: 'divider',
-            borderRadius: 2,
+            width: '100%',
+            ...containerSx,
           }}
         >
-          <FormViewerCanvas components={components} />
+          <Paper
+            elevation={0}
+            sx={{
+              p: 2,
+              bgcolor: 'background.paper',
+              border: '1px solid',
+              borderColor: 'divider',
+              borderRadius: 2,
+            }}
+          >
+            {showErrorSummary && (
+              <FormErrorSummary
+                errors={summaryErrors}
+                errorType={formData.errorType}
+                errorProps={formData.errorProps}
+                onSelect={focusField}
+                onClose={() => setSubmitErrors([])}
+              />
+            )}
+
+            <FormViewerCanvas components={components} workAreaLayout={formData.workAreaLayout} />
           
-          {/* Render modals separately (they manage their own visibility) */}
-          {components
-            .filter((comp) => comp.props?.modal)
-            .map((component) => (
-              <FormModal key={component.id} component={component} />
-            ))}
-        </Paper>
-      </Box>
-    </ThemeProvider>
+            {/* Render modals separately (they manage their own visibility) */}
+            {components
+              .filter((comp) => comp.props?.modal)
+              .map((component) => (
+                <FormModal key={component.id} component={component} />
+              ))}
+          </Paper>
+        </Box>
+      </ThemeProvider>
+    </FormStoreProvider>
   );
 };
 
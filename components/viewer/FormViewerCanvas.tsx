@@ -1,11 +1,15 @@
 /**
  * FormViewerCanvas
  * Simple canvas for FormViewer (no drag/drop, just rendering)
+ * With a work area layout the section containers are arranged as in the layout picker:
+ * headers on top, footers at the bottom, the other sections along the layout direction.
+ * Each section container goes through the component renderer (its renderWhen, style and className apply)
  */
 
 import React from 'react';
 import { Box } from '@mui/material';
 import type { ComponentDefinition } from '../../stores/types';
+import type { LayoutSection, WorkAreaLayout } from '../../stores/types/formEngine';
 import FormComponentRenderer from '../form-components/FormComponentRenderer';
 import TooltipWrapper from './TooltipWrapper';
 import { useFormBuilderStore } from '../../stores/formBuilderStore';
@@ -13,8 +17,17 @@ import { useFormComponent } from '../../hooks/useFormComponent';
 
 interface FormViewerCanvasProps {
   components: ComponentDefinition[];
+  workAreaLayout?: WorkAreaLayout;
 }
 
+// Semantic element of a section
+const SECTION_ELEMENTS: Partial<Record<LayoutSection['type'], React.ElementType>> = {
+  header: 'header',
+  footer: 'footer',
+  sidebar: 'aside',
+  aside: 'aside',
+};
+
 // Component wrapper that adds tooltip support
 const ComponentWithTooltip: React.FC<{ component: ComponentDefinition }> = ({ component }) => {
   const { formMode } = useFormBuilderStore();
@@ -23,7 +36,12 @@ const ComponentWithTooltip: React.FC<{ component: ComponentDefinition }> = ({ co
     formMode: true,
   });
 
-  const rendered = <FormComponentRenderer component={component} />;
+  // data-component-id lets the viewer find and focus the first invalid field on submit
+  const rendered = (
+    <Box data-component-id={component.id} sx={{ display: 'contents' }}>
+      <FormComponentRenderer component={component} />
+    </Box>
+  );
 
   if (tooltipTitle && formMode) {
     return (
@@ -41,20 +59,64 @@ const ComponentWithTooltip: React.FC<{ component: ComponentDefinition }> = ({ co
   return <>{rendered}</>;
 };
 
-const FormViewerCanvas: React.FC<FormViewerCanvasProps> = ({ components }) => {
+const ComponentList: React.FC<{ components: ComponentDefinition[] }> = ({ components }) => (
+  <Box
+    sx={{
+      display: 'flex',
+      flexDirection: 'column',
+      gap: 1.5,
+      flexWrap: 'wrap',
+      alignItems: 'flex-start',
+    }}
+  >
+    {components.map((component) => (
+      <ComponentWithTooltip key={component.id} component={component} />
+    ))}
+  </Box>
+);
+
+const FormViewerCanvas: React.FC<FormViewerCanvasProps> = ({ components, workAreaLayout }) => {
+  if (!workAreaLayout) {
+    return <ComponentList components={components} />;
+  }
+
+  const sectionComponents = new Map<string, ComponentDefinition>();
+  components.forEach((component) => {
+    if (component.props?.isLayoutSection && component.props.sectionId) {
+      sectionComponents.set(component.props.sectionId, component);
+    }
+  });
+  // Top-level components outside any section are rendered below the layout
+  const unassigned = components.filter((component) => !component.props?.isLayoutSection);
+
+  const renderSection = (section: LayoutSection) => {
+    const container = sectionComponents.get(section.id);
+    return (
+      <Box
+        key={section.id}
+        component={SECTION_ELEMENTS[section.type] || 'div'}
+        data-section-id={section.id}
+        sx={{ flex: section.flex || 1, minWidth: 0 }}
+      >
+        {container && <ComponentWithTooltip component={container} />}
+      </Box>
+    );
+  };
+
+  const headers = workAreaLayout.sections.filter((section) => section.type === 'header');
+  const footers = workAreaLayout.sections.filter((section) => section.type === 'footer');
+  const middle = workAreaLayout.sections.filter((section) => section.type !== 'header' && section.type !== 'footer');
+
   return (
-    <Box
-      sx={{
-        display: 'flex',
-        flexDirection: 'column',
-        gap: 1.5,
-        flexWrap: 'wrap',
-        alignItems: 'flex-start',
-      }}
-    >
-      {components.map((component) => (
-        <ComponentWithTooltip key={component.id} component={component} />
-      ))}
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+      {headers.map(renderSection)}
+      {middle.length > 0 && (
+        <Box sx={{ display: 'flex', flexDirection: { xs: 'column', md: workAreaLayout.direction || 'row' }, gap: 2 }}>
+          {middle.map(renderSection)}
+        </Box>
+      )}
+      {footers.map(renderSection)}
+      {unassigned.length > 0 && <ComponentList components={unassigned} />}
     </Box>
   );
 };
@@ -6,3 +6,8 @@
 export { default as FormViewer } from './FormViewer';
 export type { FormViewerProps } from './FormViewer';
 
+export { default as FormStoreProvider } from './FormStoreProvider';
+export type { FormStoreProviderProps } from './FormStoreProvider';
+
+export { default as FormErrorSummary } from './FormErrorSummary';
+export type { FormErrorSummaryProps } from './FormErrorSummary';
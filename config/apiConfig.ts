@@ -6,8 +6,12 @@
  * Supports two API sources:
  * 1. Gaia API (https://gaia.oxana.io/api/) - Production/Legacy
  * 2. Local/Cloudflare Worker API - Development/Testing
+ *
+ * Also selects the form storage adapter FormService uses (rest, gaia, indexeddb, memory or a custom one)
  */
 
+import type { FormStorageAdapter, FormStorageFactory } from '../api/services/storage/formStorage';
+
 export interface APIConfig {
   baseUrl: string;
   endpoints: {
@@ -17,6 +21,8 @@ export interface APIConfig {
   };
   headers?: Record<string, string>;
   timeout?: number;
+  // Form storage adapter name (default: gaia when Gaia is enabled, otherwise rest)
+  formStorage?: string;
 }
 
 export interface GaiaAPIConfig {
@@ -33,6 +39,8 @@ export interface GaiaAPIConfig {
 export class APIConfigManager {
   private config: APIConfig;
   private gaiaConfig: GaiaAPIConfig;
+  private formStorageFactories = new Map<string, FormStorageFactory>();
+  private formStorageAdapters = new Map<string, FormStorageAdapter>();
 
   constructor(config?: Partial<APIConfig>) {
     // Local/Development API Configuration
@@ -48,6 +56,7 @@ export class APIConfigManager {
         'Content-Type': 'application/json',
       },
       timeout: Number(import.meta.env.VITE_API_TIMEOUT) || 30000,
+      formStorage: import.meta.env.VITE_FORM_STORAGE || undefined,
       ...config,
     };
 
@@ -278,6 +287,56 @@ export class APIConfigManager {
     }
     return this.getFullUrl('forms');
   }
+
+  // ============================================
+  // Form Storage
+  // ============================================
+
+  /**
+   * Register a form storage adapter (replaces one with the same name)
+   */
+  registerFormStorage(name: string, factory: FormStorageFactory): void {
+    this.formStorageFactories.set(name, factory);
+    this.formStorageAdapters.delete(name);
+  }
+
+  /**
+   * Select the form storage adapter by name
+   */
+  setFormStorage(name: string): void {
+    this.config.formStorage = name;
+  }
+
+  /**
+   * Name of the selected form storage adapter
+   */
+  getFormStorageName(): string {
+    return this.config.formStorage || (this.gaiaConfig.enabled ? 'gaia' : 'rest');
+  }
+
+  /**
+   * Names of the registered form storage adapters
+   */
+  getFormStorageNames(): string[] {
+    return Array.from(this.formStorageFactories.keys());
+  }
+
+  /**
+   * Selected form storage adapter (created once per name)
+   */
+  getFormStorage(): FormStorageAdapter {
+    const name = this.getFormStorageName();
+    let adapter = this.formStorageAdapters.get(name);
+    if (!adapter) {
+      const factory = this.formStorageFactories.get(name);
+      if (!factory) {
+        throw new Error(`Form storage adapter not registered: ${name}`);
+      }
+      adapter = factory();
+      this.formStorageAdapters.set(name, adapter);
+    }
+    return adapter;
+  }
 }
 
 // Global instance
@@ -8,12 +8,17 @@
  * - Computed label, placeholder, value
  * - Cascading dropdown filtering
  * - Auto-reset on dependent field changes
+ * - Conditional validation (enabledWhen)
  */
 
 import { useMemo, useEffect, useRef, useCallback } from 'react';
-import { useFormDataStore } from '../stores/formDataStore';
+import { useFormDataStore, useFormDataStoreApi } from '../stores/formDataStore';
+import { useRepeaterRow } from '../stores/repeaterRowContext';
 import { DependencyEvaluator } from '../utils/dependencies/dependencyEvaluator';
+import { useTrackedData, toTrackedPaths } from './useTrackedData';
 import type { ComponentDependencies } from '../stores/types';
+import type { ValidationRule } from '../stores/types/formEngine';
+import { getPath } from '../utils/data/dataPath';
 
 interface UseDependenciesOptions {
   // Component's dependencies configuration
@@ -22,6 +27,9 @@ interface UseDependenciesOptions {
   // Component's dataKey for data binding
   dataKey?: string;
   
+  // Row data when rendered inside a Repeater
+  parentData?: Record<string, any>;
+  
   // Whether we're in form mode (not builder mode)
   formMode?: boolean;
   
@@ -47,6 +55,10 @@ interface UseDependenciesReturn {
   // Filter params for cascading dropdowns
   filterParams: Record<string, any>;
   
+  // Conditional validation: whether the field validates, and the extra rules that apply
+  validationEnabled: boolean;
+  validationRules: ValidationRule[];
+  
   // List of fields this component depends on
   dependentFields: string[];
   
@@ -57,15 +69,16 @@ interface UseDependenciesReturn {
 export function useDependencies({
   dependencies,
   dataKey,
+  parentData,
   formMode = false,
   defaultDisabled = false,
   defaultRequired = false,
   defaultLabel,
   defaultPlaceholder,
 }: UseDependenciesOptions): UseDependenciesReturn {
-  // Subscribe to form data for reactive updates
-  const data = useFormDataStore((state) => state.data);
-  const { setData, getData } = useFormDataStore();
+  const { setData, getData } = useFormDataStoreApi().getState();
+  const strictExpressions = useFormDataStore((state) => state.strictExpressions);
+  const row = useRepeaterRow();
   
   // Track previous values for resetOn logic
   const prevDataRef = useRef<Record<string, any>>({});
@@ -80,13 +93,21 @@ export function useDependencies({
     return DependencyEvaluator.extractDependentFields(dependencies);
   }, [dependencies]);
   
+  // Subscribe only to the fields the dependencies read, so other fields' changes don't re-evaluate them
+  const trackedPaths = useMemo(() => {
+    if (!formMode || !hasDependencies) return [];
+    return toTrackedPaths(DependencyEvaluator.extractDependencies(dependencies), row);
+  }, [formMode, hasDependencies, dependencies, row]);
+  const data = useTrackedData(trackedPaths);
+  
   // Create dependency context
   const context = useMemo(() => ({
     data,
-    parentData: undefined, // TODO: Add support for repeater parent data
+    parentData,
     rootData: data,
     currentDataKey: dataKey,
-  }), [data, dataKey]);
+    strict: strictExpressions,
+  }), [data, parentData, dataKey, strictExpressions]);
   
   // Evaluate all dependencies when form data changes
   const evaluatedDeps = useMemo(() => {
@@ -138,6 +159,12 @@ export function useDependencies({
     return evaluatedDeps.filterParams || {};
   }, [evaluatedDeps.filterParams]);
   
+  // Same rules keep their identity, so validation only re-runs when they change
+  const validationKey = JSON.stringify(evaluatedDeps.validation || null);
+  const validation = useMemo(() => {
+    return evaluatedDeps.validation || { enabled: true, rules: [] as ValidationRule[] };
+  }, [validationKey]);
+  
   // Handle resetOn - reset field value when dependent fields change
   useEffect(() => {
     if (!formMode || !dependencies?.resetOn || !dataKey) {
@@ -150,7 +177,7 @@ export function useDependencies({
     // Check if any of the resetOn fields have changed
     const changedFields: string[] = [];
     for (const field of resetOn) {
-      if (prevData[field] !== data[field]) {
+      if (getPath(prevData, field) !== getPath(data, field)) {
         changedFields.push(field);
       }
     }
@@ -190,6 +217,8 @@ export function useDependencies({
     computedValue,
     computedOptions,
     filterParams,
+    validationEnabled: validation.enabled,
+    validationRules: validation.rules,
     dependentFields,
     hasDependencies,
   };
@@ -208,7 +237,7 @@ export function useFieldChanges(fields: string[]): string[] {
     const prevData = prevDataRef.current;
     
     for (const field of fields) {
-      if (prevData[field] !== data[field]) {
+      if (getPath(prevData, field) !== getPath(data, field)) {
         changed.push(field);
       }
     }
@@ -0,0 +1,51 @@
+/**
+ * useFieldValidator Hook
+ * Registers the rules of a validator component (RequiredFieldValidator, RangeValidator,
+ * RegExValidator) with the field it targets, so they run in that field's validation
+ */
+
+import { useEffect, useMemo } from 'react';
+import { useFormDataStoreApi, type ValidatorDisplay } from '../stores/formDataStore';
+import { useFormComponent } from './useFormComponent';
+import type { ComponentDefinition } from '../stores/types';
+import type { ValidationRule } from '../stores/types/formEngine';
+
+interface UseFieldValidatorOptions {
+  component: ComponentDefinition;
+  formMode: boolean;
+  rules: ValidationRule[];
+}
+
+interface UseFieldValidatorReturn {
+  // Target component name or dataKey
+  targetField?: string;
+  display: ValidatorDisplay;
+  shouldRender: boolean;
+}
+
+export function useFieldValidator({ component, formMode, rules }: UseFieldValidatorOptions): UseFieldValidatorReturn {
+  const dataStoreApi = useFormDataStoreApi();
+  // Validators honour renderWhen / visibility like any other component
+  const { shouldRender } = useFormComponent({ component, formMode });
+
+  const targetField = (component.props?.targetField || component.props?.controlToValidate) as string | undefined;
+  const display = (component.props?.display || 'both') as ValidatorDisplay;
+
+  // Rules are rebuilt on every render by the caller, compare by content
+  const rulesKey = JSON.stringify(rules);
+  const stableRules = useMemo(() => rules, [rulesKey]);
+
+  useEffect(() => {
+    if (!formMode || !shouldRender || !targetField || stableRules.length === 0) {
+      return;
+    }
+    return dataStoreApi.getState().registerValidator({
+      validatorId: component.id,
+      target: targetField,
+      rules: stableRules,
+      display,
+    });
+  }, [formMode, shouldRender, targetField, display, stableRules, component.id, dataStoreApi]);
+
+  return { targetField, display, shouldRender };
+}
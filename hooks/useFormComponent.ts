@@ -3,21 +3,27 @@
  * Integrates validation, events, data binding, computed properties, responsive styles, and conditional rendering
  */
 
-import { useState, useEffect, useMemo, useCallback } from 'react';
-import { useFormDataStore } from '../stores/formDataStore';
+import { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { useFormDataStore, useFormDataStoreApi, filterMessagesForDisplay } from '../stores/formDataStore';
 import { useFormBuilderStore } from '../stores/formBuilderStore';
+import { useRepeaterRow, resolveDataKey, getInstanceId } from '../stores/repeaterRowContext';
+import { getPath } from '../utils/data/dataPath';
 import { ZodValidationBuilder } from '../utils/validation/zodValidation';
+import { AsyncValidationRunner, AsyncValidationCancelledError } from '../utils/validation/asyncValidation';
 import { ActionHandler } from '../utils/actions/actionSystem';
 import { ComputedPropertyEvaluator } from '../utils/properties/computedProperties';
+import { ExpressionEngine, type ExpressionDependencies } from '../utils/expressions/expressionEngine';
 import { ConditionalRenderer } from '../utils/rendering/conditionalRendering';
 import { ResponsiveStyleResolver } from '../utils/styles/responsiveStyles';
 import { useDependencies } from './useDependencies';
+import { useTrackedData, toTrackedPaths } from './useTrackedData';
 import type { ComponentDefinition } from '../stores/types';
-import type { ComponentProperty, ActionData, ValidationSchema, ActionEventArgs, ComponentStore } from '../stores/types/formEngine';
+import type { ComponentProperty, ActionData, ValidationSchema, ActionEventArgs, ActionRowContext, ComponentStore } from '../stores/types/formEngine';
 
 interface UseFormComponentOptions {
   component: ComponentDefinition;
   formMode?: boolean; // Whether we're in form mode (not builder mode)
+  registerField?: boolean; // Register in the form's submit validation (FormComponentRenderer only, once per component)
 }
 
 interface UseFormComponentReturn {
@@ -30,6 +36,8 @@ interface UseFormComponentReturn {
   // Validation
   validationError: string | null;
   isValid: boolean;
+  // An async rule (unique, remote) is being checked
+  validationPending: boolean;
   
   // Data binding
   boundValue: any;
@@ -65,20 +73,64 @@ interface UseFormComponentReturn {
   tooltipArrow?: boolean;
 }
 
-export function useFormComponent({ component, formMode = false }: UseFormComponentOptions): UseFormComponentReturn {
+export function useFormComponent({ component, formMode = false, registerField = false }: UseFormComponentOptions): UseFormComponentReturn {
   const { findComponent, components } = useFormBuilderStore();
-  // Subscribe to data changes for reactive updates
-  const data = useFormDataStore((state) => state.data);
-  const { setData, getData, evaluateProperty } = useFormDataStore();
+  const dataStoreApi = useFormDataStoreApi();
+  const { setData, evaluateProperty, setFieldErrors } = dataStoreApi.getState();
+  const strictExpressions = useFormDataStore((state) => state.strictExpressions);
+  // Row scope when rendered inside a Repeater (template components repeat once per row)
+  const row = useRepeaterRow();
+  const instanceId = getInstanceId(component.id, row);
+  // Errors from the last submit/validate run for this component
+  const submitErrors = useFormDataStore((state) => state.errors[instanceId]);
   
   // Get latest component - subscribe to components array for real-time updates
   const latestComponent = useMemo(() => {
     return findComponent(component.id) || component;
   }, [component.id, components, findComponent]);
   
-  // Data binding
-  const dataKey = latestComponent.props?.dataKey as string | undefined;
+  // Data binding - dataKey is resolved to an absolute path (relative to the row inside a Repeater)
+  const rawDataKey = latestComponent.props?.dataKey as string | undefined;
+  const dataKey = rawDataKey ? resolveDataKey(rawDataKey, row) : undefined;
+  // Row object keeps its identity until a field in the row changes
+  const parentData = useFormDataStore((state) => (row ? getPath(state.data, row.rowPath) : undefined));
+  // Row context passed to actions (row actions default to this row)
+  const rowContext = useMemo<ActionRowContext | undefined>(() => {
+    return row ? { arrayPath: row.arrayPath, index: row.index, data: parentData || {} } : undefined;
+  }, [row, parentData]);
   const disableDataBinding = latestComponent.props?.disableDataBinding || false;
+  // Cross-field errors attached to this dataKey by the form validator
+  const validatorErrors = useFormDataStore((state) => (dataKey ? state.formErrors[dataKey] : undefined));
+  
+  // Rules contributed by validator components targeting this field (by name or dataKey)
+  const registeredValidators = useFormDataStore((state) => state.validators);
+  const fieldValidators = useMemo(() => {
+    return Object.values(registeredValidators).filter(
+      (validator) =>
+        validator.target === latestComponent.name ||
+        (!!dataKey && (validator.target === dataKey || validator.target === rawDataKey))
+    );
+  }, [registeredValidators, latestComponent.name, dataKey, rawDataKey]);
+  
+  // Subscribe only to the data paths this component's computed properties read
+  const props = latestComponent.props;
+  const trackedPaths = useMemo(() => {
+    if (!formMode) return [];
+    const properties = [
+      props?.label,
+      props?.value,
+      props?.helperText || props?.helpText,
+      props?.placeholder,
+      props?.renderWhen,
+      ...Object.values((props?.tooltipProps as Record<string, any>) || {}),
+      ...((props?.htmlAttributes as Array<{ key: string; value: any }>) || []).map((attr) => attr?.value),
+    ];
+    const dependencies: ExpressionDependencies[] = properties
+      .filter((property) => typeof property === 'object' && property !== null)
+      .map((property) => ComputedPropertyEvaluator.getDependencies(property as ComponentProperty));
+    return toTrackedPaths(ExpressionEngine.mergeDependencies(...dependencies), row);
+  }, [formMode, props, row]);
+  const data = useTrackedData(trackedPaths);
   
   // Get dependencies configuration
   const dependencies = latestComponent.props?.dependencies as any;
@@ -92,9 +144,12 @@ export function useFormComponent({ component, formMode = false }: UseFormCompone
     computedPlaceholder: depPlaceholder,
     computedValue: depValue,
     filterParams,
+    validationEnabled,
+    validationRules,
   } = useDependencies({
     dependencies,
     dataKey,
+    parentData,
     formMode,
     defaultDisabled: latestComponent.props?.disabled || false,
     defaultRequired: latestComponent.props?.required || false,
@@ -103,12 +158,13 @@ export function useFormComponent({ component, formMode = false }: UseFormCompone
   });
   
   // Get bound value from store if data binding is enabled
+  const storedValue = useFormDataStore((state) => (dataKey ? getPath(state.data, dataKey) : undefined));
   const boundValue = useMemo(() => {
     if (!formMode || disableDataBinding || !dataKey) {
       return latestComponent.props?.value || latestComponent.props?.defaultValue;
     }
-    return getData(dataKey) ?? latestComponent.props?.value ?? latestComponent.props?.defaultValue;
-  }, [formMode, disableDataBinding, dataKey, getData, latestComponent.props]);
+    return storedValue ?? latestComponent.props?.value ?? latestComponent.props?.defaultValue;
+  }, [formMode, disableDataBinding, dataKey, storedValue, latestComponent.props]);
   
   // Set bound value
   const setBoundValue = useCallback((value: any) => {
@@ -128,10 +184,10 @@ export function useFormComponent({ component, formMode = false }: UseFormCompone
     // Otherwise, use existing computed property logic
     const labelProp = latestComponent.props?.label;
     if (typeof labelProp === 'object' && labelProp !== null) {
-      return evaluateProperty(labelProp as ComponentProperty);
+      return evaluateProperty(labelProp as ComponentProperty, parentData);
     }
     return labelProp as string | undefined;
-  }, [depLabel, latestComponent.props?.label, data, evaluateProperty]);
+  }, [depLabel, latestComponent.props?.label, data, parentData, evaluateProperty]);
 
   const computedValue = useMemo(() => {
     // If dependency provides a computed value, use it
@@ -142,18 +198,18 @@ export function useFormComponent({ component, formMode = false }: UseFormCompone
     // Otherwise, use existing logic
     const valueProp = latestComponent.props?.value;
     if (typeof valueProp === 'object' && valueProp !== null) {
-      return evaluateProperty(valueProp as ComponentProperty);
+      return evaluateProperty(valueProp as ComponentProperty, parentData);
     }
     return boundValue;
-  }, [depValue, latestComponent.props?.value, boundValue, data, evaluateProperty]);
+  }, [depValue, latestComponent.props?.value, boundValue, data, parentData, evaluateProperty]);
 
   const computedHelperText = useMemo(() => {
     const helperTextProp = latestComponent.props?.helperText || latestComponent.props?.helpText;
     if (typeof helperTextProp === 'object' && helperTextProp !== null) {
-      return evaluateProperty(helperTextProp as ComponentProperty);
+      return evaluateProperty(helperTextProp as ComponentProperty, parentData);
     }
     return helperTextProp as string | undefined;
-  }, [latestComponent.props?.helperText, latestComponent.props?.helpText, data, evaluateProperty]);
+  }, [latestComponent.props?.helperText, latestComponent.props?.helpText, data, parentData, evaluateProperty]);
 
   const computedPlaceholder = useMemo(() => {
     // If dependency provides a placeholder, use it
@@ -164,43 +220,124 @@ export function useFormComponent({ component, formMode = false }: UseFormCompone
     // Otherwise, use existing logic
     const placeholderProp = latestComponent.props?.placeholder;
     if (typeof placeholderProp === 'object' && placeholderProp !== null) {
-      return evaluateProperty(placeholderProp as ComponentProperty);
+      return evaluateProperty(placeholderProp as ComponentProperty, parentData);
     }
     return placeholderProp as string | undefined;
-  }, [depPlaceholder, latestComponent.props?.placeholder, data, evaluateProperty]);
+  }, [depPlaceholder, latestComponent.props?.placeholder, data, parentData, evaluateProperty]);
   
   // Validation
   const [validationError, setValidationError] = useState<string | null>(null);
   const [isValid, setIsValid] = useState(true);
+  const [validationPending, setValidationPending] = useState(false);
+  // Async check in progress or waiting for its debounce - a newer value cancels it
+  const asyncCheckRef = useRef<{ timer?: ReturnType<typeof setTimeout>; controller?: AbortController }>({});
+  // Incremented per validateValue call - overlapping calls drop out after the synchronous rules
+  const validationSeqRef = useRef(0);
+  
+  const cancelAsyncCheck = useCallback(() => {
+    const { timer, controller } = asyncCheckRef.current;
+    if (timer) clearTimeout(timer);
+    controller?.abort();
+    asyncCheckRef.current = {};
+    setValidationPending(false);
+    dataStoreApi.getState().setValidating(instanceId, false);
+  }, [dataStoreApi, instanceId]);
+  
+  const applyMessages = useCallback((messages: string[]) => {
+    // Messages of summary-only validators are not shown at the field
+    setValidationError(filterMessagesForDisplay(messages, fieldValidators, 'inline')[0] || null);
+    setIsValid(messages.length === 0);
+    
+    // Keep submit errors in sync once the field has been through a submit run
+    if (dataStoreApi.getState().errors[instanceId]) {
+      setFieldErrors(instanceId, messages);
+    }
+  }, [fieldValidators, instanceId, dataStoreApi, setFieldErrors]);
   
-  const validateValue = useCallback(async (value: any) => {
+  // immediate skips the debounce of async rules (blur, submit)
+  const validateValue = useCallback(async (value: any, immediate = false): Promise<string[]> => {
     const schema = latestComponent.props?.schema as ValidationSchema | undefined;
-    if (!schema || !schema.validations || schema.validations.length === 0) {
-      setValidationError(null);
-      setIsValid(true);
-      return true;
+    const allRules = [
+      ...(schema?.validations || []),
+      ...validationRules,
+      ...fieldValidators.flatMap((validator) => validator.rules),
+    ];
+    const rules = allRules.filter((rule) => !AsyncValidationRunner.isAsyncRule(rule));
+    const asyncRules = allRules.filter((rule) => AsyncValidationRunner.isAsyncRule(rule));
+    const seq = ++validationSeqRef.current;
+    cancelAsyncCheck();
+    
+    let messages: string[];
+    // dependencies.validation.enabledWhen turns the field's validation off
+    if (!validationEnabled || (allRules.length === 0 && !depRequired)) {
+      messages = [];
+    } else {
+      const dataType = ZodValidationBuilder.getFieldDataType(latestComponent.type);
+      try {
+        messages = await ZodValidationBuilder.validateField(value, rules, dataType, {
+          required: depRequired,
+          formData: dataStoreApi.getState().data,
+          strict: strictExpressions,
+        });
+      } catch (error: any) {
+        messages = [error?.message || 'Validation failed'];
+      }
     }
     
-    // Determine data type
-    const dataType = 
-      latestComponent.type === 'Amount' ? 'number' :
-      latestComponent.type === 'CheckBox' || latestComponent.type === 'Toggle' ? 'boolean' :
-      latestComponent.type === 'DateTime' || latestComponent.type === 'DateTimeCb' ? 'date' :
-      'string';
+    // A newer call started while the synchronous rules ran - it owns the result
+    if (seq !== validationSeqRef.current) {
+      return immediate && messages.length === 0 && asyncRules.length > 0 ? ['The value is still being checked'] : messages;
+    }
     
-    try {
-      const zodSchema = ZodValidationBuilder.buildSchema(schema.validations, dataType);
-      await zodSchema.parseAsync(value);
-      setValidationError(null);
-      setIsValid(true);
-      return true;
-    } catch (error: any) {
-      const errorMessage = error.errors?.[0]?.message || 'Validation failed';
-      setValidationError(errorMessage);
-      setIsValid(false);
-      return false;
+    // Async rules run once the synchronous ones pass
+    applyMessages(messages);
+    if (!validationEnabled || messages.length > 0 || asyncRules.length === 0 || AsyncValidationRunner.isEmpty(value)) {
+      return messages;
+    }
+    
+    cancelAsyncCheck();
+    const controller = new AbortController();
+    const check = async (): Promise<string[]> => {
+      try {
+        const asyncMessages = await AsyncValidationRunner.validate(value, asyncRules, {
+          formData: dataStoreApi.getState().data,
+          signal: controller.signal,
+          strict: strictExpressions,
+        });
+        applyMessages(asyncMessages);
+        return asyncMessages;
+      } catch (error: any) {
+        if (error instanceof AsyncValidationCancelledError) throw error;
+        // e.g. a validateWhen refused in strict mode - shown on the field like a failed rule
+        const failed = [error?.message || 'Validation failed'];
+        applyMessages(failed);
+        return failed;
+      } finally {
+        if (asyncCheckRef.current.controller === controller) {
+          asyncCheckRef.current = {};
+          setValidationPending(false);
+          dataStoreApi.getState().setValidating(instanceId, false);
+        }
+      }
+    };
+    
+    asyncCheckRef.current = { controller };
+    setValidationPending(true);
+    dataStoreApi.getState().setValidating(instanceId, true);
+    if (immediate) {
+      // Replaced by a newer check while submitting - the value is not verified yet
+      return check().catch(() => ['The value is still being checked']);
     }
-  }, [latestComponent.props?.schema, latestComponent.type]);
+    
+    asyncCheckRef.current.timer = setTimeout(() => {
+      // Only cancellations reject - the newer check owns the result
+      check().catch(() => undefined);
+    }, AsyncValidationRunner.getDebounce(asyncRules));
+    return messages;
+  }, [latestComponent.props?.schema, latestComponent.type, instanceId, fieldValidators, validationEnabled, validationRules, depRequired, strictExpressions, dataStoreApi, cancelAsyncCheck, applyMessages]);
+  
+  // Stale checks are dropped on unmount
+  useEffect(() => cancelAsyncCheck, [cancelAsyncCheck]);
   
   // Validate on value change
   useEffect(() => {
@@ -253,35 +390,66 @@ export function useFormComponent({ component, formMode = false }: UseFormCompone
     // Then check renderWhen prop
     const renderWhen = latestComponent.props?.renderWhen as ComponentProperty<boolean> | undefined;
     if (!renderWhen) return true;
-    return ConditionalRenderer.shouldRender(renderWhen, data);
-  }, [formMode, depVisible, latestComponent.props?.renderWhen, data]);
+    return ConditionalRenderer.shouldRender(renderWhen, data, parentData, data, { strict: strictExpressions });
+  }, [formMode, depVisible, latestComponent.props?.renderWhen, data, parentData, strictExpressions]);
+  
+  // Submit validation registration - one entry per component (see registerField option)
+  const isFieldActive = shouldRender && !depDisabled;
+  const fieldRef = useRef({ label: computedLabel, active: isFieldActive, value: computedValue, validate: validateValue });
+  fieldRef.current = { label: computedLabel, active: isFieldActive, value: computedValue, validate: validateValue };
+  
+  useEffect(() => {
+    if (!registerField || !formMode || !dataKey || disableDataBinding) {
+      return;
+    }
+    const { registerField: register } = dataStoreApi.getState();
+    const unregister = register({
+      componentId: instanceId,
+      name: latestComponent.name,
+      dataKey,
+      getLabel: () => fieldRef.current.label,
+      isActive: () => fieldRef.current.active,
+      validate: () => fieldRef.current.validate(fieldRef.current.value, true),
+    });
+    return () => {
+      unregister();
+      dataStoreApi.getState().setFieldErrors(instanceId, []);
+    };
+  }, [registerField, formMode, dataKey, disableDataBinding, instanceId, latestComponent.name, dataStoreApi]);
+  
+  // Hidden or disabled fields don't keep submit errors
+  useEffect(() => {
+    if (registerField && !isFieldActive && submitErrors) {
+      setFieldErrors(instanceId, []);
+    }
+  }, [registerField, isFieldActive, submitErrors, instanceId, setFieldErrors]);
   
   // Tooltip properties - reactive to data changes
   const tooltipTitle = useMemo(() => {
     const tooltipProps = latestComponent.props?.tooltipProps as Record<string, ComponentProperty> | undefined;
     if (!tooltipProps || !tooltipProps.title) return undefined;
-    return evaluateProperty(tooltipProps.title);
-  }, [latestComponent.props?.tooltipProps, data, evaluateProperty]);
+    return evaluateProperty(tooltipProps.title, parentData);
+  }, [latestComponent.props?.tooltipProps, data, parentData, evaluateProperty]);
 
   const tooltipPlacement = useMemo(() => {
     const tooltipProps = latestComponent.props?.tooltipProps as Record<string, ComponentProperty> | undefined;
     if (!tooltipProps || !tooltipProps.placement) return 'top';
     const placement = tooltipProps.placement;
     if (typeof placement === 'object' && placement !== null) {
-      return evaluateProperty(placement);
+      return evaluateProperty(placement, parentData);
     }
     return placement as string;
-  }, [latestComponent.props?.tooltipProps, data, evaluateProperty]);
+  }, [latestComponent.props?.tooltipProps, data, parentData, evaluateProperty]);
 
   const tooltipArrow = useMemo(() => {
     const tooltipProps = latestComponent.props?.tooltipProps as Record<string, ComponentProperty> | undefined;
     if (!tooltipProps || tooltipProps.arrow === undefined) return true;
     const arrow = tooltipProps.arrow;
     if (typeof arrow === 'object' && arrow !== null) {
-      return evaluateProperty(arrow);
+      return evaluateProperty(arrow, parentData);
     }
     return arrow as boolean;
-  }, [latestComponent.props?.tooltipProps, data, evaluateProperty]);
+  }, [latestComponent.props?.tooltipProps, data, parentData, evaluateProperty]);
 
   // HTML attributes
   const htmlAttributes = useMemo(() => {
@@ -293,20 +461,21 @@ export function useFormComponent({ component, formMode = false }: UseFormCompone
       if (attr.key && attr.value !== undefined) {
         // Evaluate if value is a computed property
         if (typeof attr.value === 'object' && attr.value !== null) {
-          result[attr.key] = evaluateProperty(attr.value as ComponentProperty);
+          result[attr.key] = evaluateProperty(attr.value as ComponentProperty, parentData);
         } else {
           result[attr.key] = attr.value;
         }
       }
     }
     return result;
-  }, [latestComponent.props?.htmlAttributes, data, evaluateProperty]); // Add data dependency for reactive updates
+  }, [latestComponent.props?.htmlAttributes, data, parentData, evaluateProperty]); // Add data dependency for reactive updates
   
   // Helper function to convert ComponentDefinition to ComponentStore for ActionEventArgs
   const componentToStore = useCallback((component: ComponentDefinition): ComponentStore => {
     return {
       key: component.id,
-      dataKey: component.props?.dataKey as string | undefined,
+      // Resolved path, so actions like clear/reset address the right row
+      dataKey: component.props?.dataKey ? resolveDataKey(component.props.dataKey as string, row) : undefined,
       type: component.type,
       props: (component.props || {}) as Record<string, ComponentProperty>,
       events: component.props?.events as Record<string, ActionData[]> | undefined,
@@ -323,7 +492,7 @@ export function useFormComponent({ component, formMode = false }: UseFormCompone
       renderWhen: component.props?.renderWhen as ComponentProperty<boolean> | undefined,
       disableDataBinding: component.props?.disableDataBinding as ComponentProperty<boolean> | undefined,
     };
-  }, []);
+  }, [row]);
   
   // Event handlers
   const handleChange = useCallback(async (value: any) => {
@@ -338,20 +507,24 @@ export function useFormComponent({ component, formMode = false }: UseFormCompone
       const onChangeActions = events?.onChange;
       if (onChangeActions && onChangeActions.length > 0) {
         const sender = componentToStore(latestComponent);
+        // Read data at event time (the component only re-renders for the fields it tracks)
+        const { data } = dataStoreApi.getState();
         const eventArgs: ActionEventArgs = {
           type: 'onChange',
           sender,
-          store: useFormDataStore.getState(),
+          store: dataStoreApi.getState(),
           args: [value],
           renderedProps: latestComponent.props || {},
           value,
           data,
+          parentData,
           rootData: data,
+          row: rowContext,
         };
         await ActionHandler.executeActions(onChangeActions, eventArgs);
       }
     }
-  }, [formMode, setBoundValue, validateValue, latestComponent, data, componentToStore]);
+  }, [formMode, setBoundValue, validateValue, latestComponent, parentData, rowContext, componentToStore, dataStoreApi]);
   
   const handleClick = useCallback(async (event: React.MouseEvent) => {
     if (formMode) {
@@ -359,20 +532,23 @@ export function useFormComponent({ component, formMode = false }: UseFormCompone
       const onClickActions = events?.onClick;
       if (onClickActions && onClickActions.length > 0) {
         const sender = componentToStore(latestComponent);
+        const { data } = dataStoreApi.getState();
         const eventArgs: ActionEventArgs = {
           type: 'onClick',
           sender,
-          store: useFormDataStore.getState(),
+          store: dataStoreApi.getState(),
           args: [event],
           renderedProps: latestComponent.props || {},
           event,
           data,
+          parentData,
           rootData: data,
+          row: rowContext,
         };
         await ActionHandler.executeActions(onClickActions, eventArgs);
       }
     }
-  }, [formMode, latestComponent, data, componentToStore]);
+  }, [formMode, latestComponent, parentData, rowContext, componentToStore, dataStoreApi]);
   
   const handleFocus = useCallback(async (event: React.FocusEvent) => {
     if (formMode) {
@@ -380,52 +556,63 @@ export function useFormComponent({ component, formMode = false }: UseFormCompone
       const onFocusActions = events?.onFocus;
       if (onFocusActions && onFocusActions.length > 0) {
         const sender = componentToStore(latestComponent);
+        const { data } = dataStoreApi.getState();
         const eventArgs: ActionEventArgs = {
           type: 'onFocus',
           sender,
-          store: useFormDataStore.getState(),
+          store: dataStoreApi.getState(),
           args: [event],
           renderedProps: latestComponent.props || {},
           event,
           data,
+          parentData,
           rootData: data,
+          row: rowContext,
         };
         await ActionHandler.executeActions(onFocusActions, eventArgs);
       }
     }
-  }, [formMode, latestComponent, data, componentToStore]);
+  }, [formMode, latestComponent, parentData, rowContext, componentToStore, dataStoreApi]);
   
   const handleBlur = useCallback(async (event: React.FocusEvent) => {
     if (formMode) {
-      // Validate on blur
-      await validateValue(computedValue);
+      // Validate on blur (async rules without waiting for the debounce)
+      await validateValue(computedValue, true);
       
       const events = latestComponent.props?.events as Record<string, ActionData[]> | undefined;
       const onBlurActions = events?.onBlur;
       if (onBlurActions && onBlurActions.length > 0) {
         const sender = componentToStore(latestComponent);
+        const { data } = dataStoreApi.getState();
         const eventArgs: ActionEventArgs = {
           type: 'onBlur',
           sender,
-          store: useFormDataStore.getState(),
+          store: dataStoreApi.getState(),
           args: [event],
           renderedProps: latestComponent.props || {},
           event,
           data,
+          parentData,
           rootData: data,
+          row: rowContext,
         };
         await ActionHandler.executeActions(onBlurActions, eventArgs);
       }
     }
-  }, [formMode, computedValue, validateValue, latestComponent, data, componentToStore]);
+  }, [formMode, computedValue, validateValue, latestComponent, parentData, rowContext, componentToStore, dataStoreApi]);
   
   return {
     computedLabel,
     computedValue,
     computedHelperText,
     computedPlaceholder,
-    validationError,
-    isValid,
+    validationError:
+      validationError ??
+      (submitErrors ? filterMessagesForDisplay(submitErrors, fieldValidators, 'inline')[0] : undefined) ??
+      validatorErrors?.[0] ??
+      null,
+    isValid: isValid && !submitErrors && !validatorErrors,
+    validationPending,
     boundValue,
     setBoundValue,
     responsiveSx,
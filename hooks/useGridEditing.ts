@@ -0,0 +1,243 @@
+/**
+ * useGridEditing Hook
+ * Inline editing of a DataGrid bound to an array dataKey: cell updates, row add/delete,
+ * per-cell validation (also run on submit) and dirty-row tracking against the initial rows
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useFormDataStore, useFormDataStoreApi } from '../stores/formDataStore';
+import { useRepeaterRow, resolveDataKey, getInstanceId } from '../stores/repeaterRowContext';
+import { getPath } from '../utils/data/dataPath';
+import { GridEditing, type GridCellErrors } from '../utils/data/gridEditing';
+import { getDataviewManager } from '../utils/dataviews/dataviewManager';
+import type { DataGridColumn } from '../stores/types';
+
+interface UseGridEditingOptions {
+  componentId: string;
+  componentName?: string;
+  label?: string;
+  // Editing is on (form mode, editable grid with a dataKey)
+  enabled: boolean;
+  dataKey?: string;
+  columns: DataGridColumn[];
+  // Rows written to the dataKey when it holds no array yet (e.g. a static data source)
+  seedRows: any[];
+  // Whether the grid takes part in submit validation (rendered)
+  active: boolean;
+}
+
+interface UseGridEditingReturn {
+  rows: any[];
+  // Resolved path of the bound array
+  arrayPath?: string;
+  dirtyRows: boolean[];
+  cellErrors: GridCellErrors;
+  updateCell: (rowIndex: number, field: string, value: any) => void;
+  addRow: () => void;
+  removeRow: (rowIndex: number) => void;
+}
+
+const EMPTY_ROWS: any[] = [];
+
+const identity = (length: number): (number | null)[] => Array.from({ length }, (_, i) => i);
+
+export function useGridEditing({
+  componentId,
+  componentName,
+  label,
+  enabled,
+  dataKey,
+  columns,
+  seedRows,
+  active,
+}: UseGridEditingOptions): UseGridEditingReturn {
+  const dataStoreApi = useFormDataStoreApi();
+  const row = useRepeaterRow();
+  const arrayPath = enabled && dataKey ? resolveDataKey(dataKey, row) : undefined;
+  const instanceId = getInstanceId(componentId, row);
+
+  const storedRows = useFormDataStore((state) => (arrayPath ? getPath(state.data, arrayPath) : undefined));
+  const rows = Array.isArray(storedRows) ? storedRows : EMPTY_ROWS;
+
+  // Seed the bound array from the data source
+  const seedRef = useRef(seedRows);
+  seedRef.current = seedRows;
+  useEffect(() => {
+    if (!arrayPath) return;
+    const { getData, setData } = dataStoreApi.getState();
+    if (getData(arrayPath) === undefined && seedRef.current.length > 0) {
+      setData(arrayPath, seedRef.current);
+    }
+  }, [arrayPath, dataStoreApi]);
+
+  // Rows as loaded (initial form data when it has them), compared against for dirty tracking
+  const baselineRef = useRef<{ path?: string; rows: any[] } | null>(null);
+  if (arrayPath && baselineRef.current?.path !== arrayPath && Array.isArray(storedRows)) {
+    const initial = getPath(dataStoreApi.getState().initialData, arrayPath);
+    baselineRef.current = { path: arrayPath, rows: Array.isArray(initial) ? initial : storedRows };
+  }
+  const baseline = baselineRef.current?.rows || EMPTY_ROWS;
+
+  // Baseline row each row started from - kept in step by addRow/removeRow
+  const [origins, setOrigins] = useState<(number | null)[]>([]);
+  const rowOrigins = origins.length === rows.length ? origins : identity(rows.length);
+  useEffect(() => {
+    // Rows replaced from outside the grid (reset, setData action): match by position
+    if (origins.length !== rows.length) setOrigins(identity(rows.length));
+  }, [origins.length, rows.length]);
+
+  const dirtyRows = useMemo(
+    () => GridEditing.getDirtyRows(rows, baseline, rowOrigins),
+    [rows, baseline, rowOrigins]
+  );
+
+  const [cellErrors, setCellErrors] = useState<GridCellErrors>({});
+  // Edit count per cell - a validation result is dropped when the cell was edited again since
+  const cellEditsRef = useRef<Record<string, number>>({});
+
+  const updateCell = useCallback((rowIndex: number, field: string, value: any) => {
+    if (!arrayPath) return;
+    const { getData, setData } = dataStoreApi.getState();
+    const current = getData(arrayPath);
+    if (!Array.isArray(current) || rowIndex >= current.length) return;
+
+    const column = columns.find((col) => col.field === field);
+    const coerced = GridEditing.coerce(value, column?.editor);
+    setData(`${arrayPath}[${rowIndex}]`, { ...current[rowIndex], [field]: coerced });
+
+    if (column) {
+      const key = GridEditing.cellKey(rowIndex, field);
+      const edit = (cellEditsRef.current[key] || 0) + 1;
+      cellEditsRef.current[key] = edit;
+      // Form data after the update, so rules see the edited row
+      const { data, strictExpressions } = dataStoreApi.getState();
+      GridEditing.validateCell(coerced, column, data, { strict: strictExpressions }).then((messages) => {
+        if (cellEditsRef.current[key] !== edit) return;
+        setCellErrors((errors) => {
+          if (messages.length === 0) {
+            if (!errors[key]) return errors;
+            const { [key]: removed, ...rest } = errors;
+            return rest;
+          }
+          return { ...errors, [key]: messages[0] };
+        });
+      });
+    }
+  }, [arrayPath, columns, dataStoreApi]);
+
+  const addRow = useCallback(() => {
+    if (!arrayPath) return;
+    const { getData, setData, addRow: addArrayRow } = dataStoreApi.getState();
+    // addRow needs an array at the path
+    if (!Array.isArray(getData(arrayPath))) setData(arrayPath, []);
+    if (addArrayRow(arrayPath, GridEditing.createRow(columns))) {
+      setOrigins([...rowOrigins, null]);
+    }
+  }, [arrayPath, columns, dataStoreApi, rowOrigins]);
+
+  const removeRow = useCallback((rowIndex: number) => {
+    if (!arrayPath) return;
+    if (dataStoreApi.getState().removeRow(arrayPath, rowIndex)) {
+      setOrigins(rowOrigins.filter((_, i) => i !== rowIndex));
+      // Rows moved up - pending cell validations no longer match their cells
+      Object.keys(cellEditsRef.current).forEach((key) => {
+        cellEditsRef.current[key] += 1;
+      });
+      setCellErrors((errors) => GridEditing.removeRowErrors(errors, rowIndex));
+    }
+  }, [arrayPath, dataStoreApi, rowOrigins]);
+
+  // Submit validation of every editable cell
+  const validateRef = useRef({ label, active, columns });
+  validateRef.current = { label, active, columns };
+
+  useEffect(() => {
+    if (!arrayPath || !columns.some((col) => col.editor)) return;
+    const state = dataStoreApi.getState();
+    const fieldId = `${instanceId}:cells`;
+    const unregister = state.registerField({
+      componentId: fieldId,
+      name: componentName,
+      dataKey: arrayPath,
+      getLabel: () => validateRef.current.label,
+      isActive: () => validateRef.current.active,
+      validate: async () => {
+        const { data, strictExpressions } = dataStoreApi.getState();
+        const current = getPath(data, arrayPath);
+        const errors = await GridEditing.validateRows(Array.isArray(current) ? current : [], validateRef.current.columns, data, {
+          strict: strictExpressions,
+        });
+        setCellErrors(errors);
+        return GridEditing.toMessages(errors, validateRef.current.columns);
+      },
+    });
+    return () => {
+      unregister();
+      dataStoreApi.getState().setFieldErrors(fieldId, []);
+    };
+  }, [arrayPath, columns, instanceId, componentName, dataStoreApi]);
+
+  return {
+    rows,
+    arrayPath,
+    dirtyRows,
+    cellErrors,
+    updateCell,
+    addRow,
+    removeRow,
+  };
+}
+
+/**
+ * Options of the select columns, loaded from each column's dataview (static options otherwise)
+ */
+export function useGridColumnOptions(
+  columns: DataGridColumn[],
+  enabled: boolean
+): Record<string, Array<{ value: any; label: string }>> {
+  const [loaded, setLoaded] = useState<Record<string, Array<{ value: any; label: string }>>>({});
+
+  const dataviewColumns = useMemo(
+    () => columns.filter((col) => col.editor === 'select' && col.dataview),
+    [columns]
+  );
+
+  useEffect(() => {
+    if (!enabled || dataviewColumns.length === 0) return;
+    let cancelled = false;
+    const manager = getDataviewManager();
+
+    Promise.all(
+      dataviewColumns.map(async (col) => {
+        try {
+          // The dataviews list may not be loaded yet
+          await manager.findDataview(col.dataview!);
+          const records = await manager.loadDataview(col.dataview!);
+          const valueField = col.valueField || 'id';
+          const labelField = col.labelField || 'name';
+          return [col.field, records.map((record: any) => ({
+            value: record?.[valueField],
+            label: String(record?.[labelField] ?? record?.[valueField] ?? ''),
+          }))] as const;
+        } catch (error) {
+          console.error(`DataGrid: Failed to load options for column ${col.field}:`, error);
+          return [col.field, []] as const;
+        }
+      })
+    ).then((entries) => {
+      if (!cancelled) setLoaded(Object.fromEntries(entries));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, dataviewColumns]);
+
+  return useMemo(() => {
+    const options: Record<string, Array<{ value: any; label: string }>> = {};
+    columns.forEach((col) => {
+      if (col.editor === 'select') options[col.field] = loaded[col.field] || col.options || [];
+    });
+    return options;
+  }, [columns, loaded]);
+}
@@ -0,0 +1,256 @@
+/**
+ * useGridQuery Hook
+ * Sort, column filters, search and paging for DataGrid/DataBrowse
+ *
+ * Dataview and endpoint sources are loaded page by page through a RemoteArray, with the
+ * query sent to the server. Other sources are queried client-side.
+ * In infinite mode (virtualized views) remote pages accumulate as the view scrolls instead.
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { RemoteArray } from '../utils/data/RemoteArray';
+import { GridQuery, type GridFilterData, type GridSort } from '../utils/data/gridQuery';
+import { getRemoteDataSource, type RemoteDataSource } from '../utils/data/dataSourceResolver';
+import { getDataviewManager } from '../utils/dataviews/dataviewManager';
+
+interface UseGridQueryOptions {
+  // Unresolved data source prop
+  source: any;
+  // Rows of a local source
+  rows: any[];
+  // Load dataview/endpoint sources from the server (form mode)
+  remote: boolean;
+  // OpenAPI operation of a dataview source
+  operationId?: string;
+  pageSize: number;
+  // false shows all rows of a local source (remote sources are always paged)
+  paginated?: boolean;
+  // Rows of every loaded remote page, the next page loaded through loadMoreAt (scrolling)
+  infinite?: boolean;
+  // Records from the end of the loaded rows at which the next page is loaded
+  threshold?: number;
+}
+
+interface UseGridQueryReturn {
+  // Rows of the current page (every loaded row in infinite mode)
+  rows: any[];
+  totalRecords: number;
+  pageIndex: number;
+  pageSize: number;
+  isRemote: boolean;
+  loading: boolean;
+  error: string | null;
+  filterData: GridFilterData;
+  sortData: GridSort[];
+  goToPage: (index: number) => void;
+  setPageSize: (size: number) => void;
+  setFilters: (filterData: GridFilterData) => void;
+  setSort: (sortData: GridSort[]) => void;
+  reload: () => void;
+  // Load the next remote page when the last visible row is near the end (infinite mode)
+  loadMoreAt: (lastVisibleIndex: number) => void;
+  // Underlying array of a remote source
+  remoteArray: RemoteArray | null;
+}
+
+interface RemoteState {
+  rows: any[];
+  totalRecords: number;
+  loading: boolean;
+  error: string | null;
+}
+
+const EMPTY_FILTER: GridFilterData = { conditions: [] };
+
+/**
+ * Remote source of a data source prop
+ * Plain strings are dataview ids when the dataview exists and no local rows were found for them
+ */
+function useRemoteSource(source: any, enabled: boolean, hasLocalRows: boolean): RemoteDataSource | null {
+  const explicit = useMemo(() => getRemoteDataSource(source), [source]);
+  const [plain, setPlain] = useState<RemoteDataSource | null>(null);
+
+  const candidate = enabled && !explicit && !hasLocalRows && typeof source === 'string' && source && source !== '__DATAVIEW_PENDING__'
+    ? source
+    : null;
+
+  useEffect(() => {
+    setPlain(null);
+    if (!candidate) return;
+
+    let cancelled = false;
+    getDataviewManager()
+      .findDataview(candidate)
+      .then((dataview) => {
+        if (!cancelled && dataview) setPlain({ type: 'dataview', dataviewId: candidate });
+      })
+      .catch(() => {
+        // Not a dataview - stays a dataKey
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [candidate]);
+
+  if (!enabled) return null;
+  return explicit || plain;
+}
+
+export function useGridQuery({
+  source,
+  rows,
+  remote,
+  operationId,
+  pageSize: initialPageSize,
+  paginated = true,
+  infinite = false,
+  threshold,
+}: UseGridQueryOptions): UseGridQueryReturn {
+  const remoteSource = useRemoteSource(source, remote, rows.length > 0);
+
+  const [pageIndex, setPageIndex] = useState(0);
+  const [pageSize, setPageSizeState] = useState(initialPageSize);
+  const [filterData, setFilterData] = useState<GridFilterData>(EMPTY_FILTER);
+  const [sortData, setSortData] = useState<GridSort[]>([]);
+  const [remoteState, setRemoteState] = useState<RemoteState>({ rows: [], totalRecords: 0, loading: false, error: null });
+
+  useEffect(() => {
+    setPageSizeState(initialPageSize);
+    setPageIndex(0);
+  }, [initialPageSize]);
+
+  // Current query for arrays created later (e.g. after a page size change)
+  const queryRef = useRef({ filterData, sortData });
+  queryRef.current = { filterData, sortData };
+
+  const infiniteRef = useRef(infinite);
+  infiniteRef.current = infinite;
+
+  const remoteArray = useMemo(() => {
+    if (!remoteSource) return null;
+    const manager = getDataviewManager();
+    return new RemoteArray({
+      recordsPerPage: pageSize,
+      threshold,
+      fetchPromise: (params) =>
+        remoteSource.type === 'dataview'
+          ? manager.fetchDataviewPage(remoteSource.dataviewId, params, operationId)
+          : manager.fetchEndpointPage(remoteSource.url, params),
+      filterData: queryRef.current.filterData,
+      sortData: queryRef.current.sortData,
+    });
+    // Recreated on a mode switch so infinite views start from the first page
+  }, [remoteSource, operationId, pageSize, threshold, infinite]);
+
+  const arrayRef = useRef(remoteArray);
+  arrayRef.current = remoteArray;
+  // Requests in flight per array - state is taken from the array once the last one settles
+  const pendingRef = useRef(new WeakMap<RemoteArray, number>());
+
+  const errorRef = useRef(remoteState.error);
+  errorRef.current = remoteState.error;
+
+  const run = useCallback((array: RemoteArray, action: () => Promise<void>) => {
+    const pending = pendingRef.current;
+    pending.set(array, (pending.get(array) || 0) + 1);
+    setRemoteState((state) => ({ ...state, loading: true, error: null }));
+
+    action()
+      .then(
+        () => null,
+        (error) => (error instanceof Error ? error.message : String(error))
+      )
+      .then((error) => {
+        const remaining = (pending.get(array) || 1) - 1;
+        pending.set(array, remaining);
+        if (arrayRef.current !== array) return;
+
+        if (error) {
+          setRemoteState((state) => ({ ...state, loading: remaining > 0, error }));
+        } else if (remaining === 0) {
+          setPageIndex(array.currentPageIndex);
+          const rows = infiniteRef.current ? array.getAllLoadedData() : array.currentPage;
+          setRemoteState({ rows, totalRecords: array.totalRecords, loading: false, error: null });
+        }
+      });
+  }, []);
+
+  useEffect(() => {
+    if (!remoteArray) return;
+    setPageIndex(0);
+    run(remoteArray, () => remoteArray.init());
+  }, [remoteArray, run]);
+
+  const goToPage = useCallback((index: number) => {
+    setPageIndex(index);
+    const array = arrayRef.current;
+    if (array) run(array, () => array.goToPage(index));
+  }, [run]);
+
+  const setPageSize = useCallback((size: number) => {
+    // A remote array is recreated for the new size
+    setPageSizeState(size);
+    setPageIndex(0);
+  }, []);
+
+  const setFilters = useCallback((next: GridFilterData) => {
+    setFilterData(next);
+    setPageIndex(0);
+    const array = arrayRef.current;
+    if (array) run(array, () => array.filter(next));
+  }, [run]);
+
+  const setSort = useCallback((next: GridSort[]) => {
+    setSortData(next);
+    setPageIndex(0);
+    const array = arrayRef.current;
+    if (array) run(array, () => array.sort(next));
+  }, [run]);
+
+  const reload = useCallback(() => {
+    const array = arrayRef.current;
+    if (array) run(array, () => array.init());
+  }, [run]);
+
+  const loadMoreAt = useCallback((lastVisibleIndex: number) => {
+    const array = arrayRef.current;
+    // One page at a time; after an error scrolling waits for a reload
+    if (!array || !infiniteRef.current || errorRef.current || (pendingRef.current.get(array) || 0) > 0) return;
+    if (array.shouldLoadMore(lastVisibleIndex)) run(array, () => array.loadMore());
+  }, [run]);
+
+  // Local sources
+  const local = useMemo(() => {
+    if (remoteSource) return null;
+    const result = GridQuery.apply(rows, filterData, sortData);
+    if (!paginated || infinite) return { rows: result, totalRecords: result.length, pageIndex: 0 };
+
+    // Stay in range when rows are removed
+    const lastPage = Math.max(0, Math.ceil(result.length / pageSize) - 1);
+    const page = Math.min(pageIndex, lastPage);
+    return {
+      rows: result.slice(page * pageSize, (page + 1) * pageSize),
+      totalRecords: result.length,
+      pageIndex: page,
+    };
+  }, [remoteSource, rows, filterData, sortData, paginated, infinite, pageIndex, pageSize]);
+
+  return {
+    rows: local ? local.rows : remoteState.rows,
+    totalRecords: local ? local.totalRecords : remoteState.totalRecords,
+    pageIndex: local ? local.pageIndex : pageIndex,
+    pageSize,
+    isRemote: Boolean(remoteSource),
+    loading: !local && remoteState.loading,
+    error: local ? null : remoteState.error,
+    filterData,
+    sortData,
+    goToPage,
+    setPageSize,
+    setFilters,
+    setSort,
+    reload,
+    loadMoreAt,
+    remoteArray,
+  };
+}
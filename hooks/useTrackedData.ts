@@ -0,0 +1,58 @@
+/**
+ * useTrackedData Hook
+ * Subscribes to form data, re-rendering only when one of the tracked paths changes
+ *
+ * Components read a handful of fields through their expressions; subscribing to the
+ * whole data object would re-render every component on every keystroke.
+ */
+
+import { useCallback, useRef } from 'react';
+import { useFormDataStore, type FormDataStoreState } from '../stores/formDataStore';
+import type { RepeaterRowScope } from '../stores/repeaterRowContext';
+import type { ExpressionDependencies } from '../utils/expressions/expressionEngine';
+import { getPath } from '../utils/data/dataPath';
+
+/**
+ * Absolute data paths to track for a set of expression dependencies
+ * Returns null when everything has to be tracked
+ */
+export function toTrackedPaths(
+  dependencies: ExpressionDependencies,
+  row: RepeaterRowScope | null,
+  extraPaths: (string | undefined)[] = []
+): string[] | null {
+  if (dependencies.all) return null;
+  const paths = new Set<string>(dependencies.data);
+  if (row) {
+    // parentData paths are relative to the row
+    dependencies.parentData.forEach((path) => paths.add(path ? `${row.rowPath}.${path}` : row.rowPath));
+  }
+  extraPaths.forEach((path) => path && paths.add(path));
+  return Array.from(paths);
+}
+
+/**
+ * Form data that keeps its identity until a tracked path changes
+ * (paths === null tracks everything, [] never updates)
+ */
+export function useTrackedData(paths: string[] | null): Record<string, any> {
+  const snapshotRef = useRef<{ paths: string[] | null; values: any[]; data: Record<string, any> } | null>(null);
+
+  const selector = useCallback((state: FormDataStoreState) => {
+    if (paths === null) return state.data;
+
+    const values = paths.map((path) => getPath(state.data, path));
+    const snapshot = snapshotRef.current;
+    if (
+      snapshot &&
+      snapshot.paths === paths &&
+      values.every((value, i) => Object.is(value, snapshot.values[i]))
+    ) {
+      return snapshot.data;
+    }
+    snapshotRef.current = { paths, values, data: state.data };
+    return state.data;
+  }, [paths]);
+
+  return useFormDataStore(selector);
+}
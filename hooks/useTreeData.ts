@@ -0,0 +1,174 @@
+/**
+ * useTreeData Hook
+ * Rows of a Tree loaded from a dataview: all at once, or lazily - the roots first, then the
+ * children of a node when it is expanded (loadDataview filtered by the parent field)
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { getRemoteDataSource } from '../utils/data/dataSourceResolver';
+import { getDataviewManager } from '../utils/dataviews/dataviewManager';
+import { TreeData, type TreeKeyFields, type TreeNode } from '../utils/data/treeData';
+
+interface UseTreeDataOptions {
+  // Unresolved data source prop
+  source: any;
+  // Rows of a local source (builder preview, static data, dataKey)
+  localRows: any[];
+  // Load dataview sources (form mode)
+  remote: boolean;
+  keys: TreeKeyFields;
+  // Load children on expand
+  lazy: boolean;
+  // Parent field value of the root rows (lazy trees)
+  rootParentValue?: any;
+  // OpenAPI operation of the dataview
+  operationId?: string;
+}
+
+interface UseTreeDataReturn {
+  nodes: TreeNode[];
+  loading: boolean;
+  // Nodes whose children are loading
+  loadingNodes: Set<string>;
+  error: string | null;
+  // Load the children of a lazy node (no-op when loaded)
+  loadChildren: (node: TreeNode) => void;
+  reload: () => void;
+}
+
+const toMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+export function useTreeData({
+  source,
+  localRows,
+  remote,
+  keys,
+  lazy,
+  rootParentValue,
+  operationId,
+}: UseTreeDataOptions): UseTreeDataReturn {
+  const [dataviewId, setDataviewId] = useState<string | null>(null);
+  const [rows, setRows] = useState<any[]>([]);
+  const [loadedParents, setLoadedParents] = useState<Set<string>>(new Set());
+  const [loadingNodes, setLoadingNodes] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  // "dataview:<id>" sources, or plain strings naming a dataview when there are no local rows
+  const explicitId = useMemo(() => {
+    const remoteSource = getRemoteDataSource(source);
+    return remoteSource?.type === 'dataview' ? remoteSource.dataviewId : null;
+  }, [source]);
+  const candidate = remote && !explicitId && localRows.length === 0 && typeof source === 'string' && source && source !== '__DATAVIEW_PENDING__'
+    ? source
+    : null;
+
+  useEffect(() => {
+    setDataviewId(remote ? explicitId : null);
+    if (!candidate) return;
+
+    let cancelled = false;
+    getDataviewManager()
+      .findDataview(candidate)
+      .then((dataview) => {
+        if (!cancelled && dataview) setDataviewId(candidate);
+      })
+      .catch(() => {
+        // Not a dataview - stays a dataKey
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [remote, explicitId, candidate]);
+
+  const parentField = keys.parentField;
+  // Bumped when the tree is reloaded; older responses are dropped
+  const generationRef = useRef(0);
+
+  useEffect(() => {
+    const generation = ++generationRef.current;
+    setRows([]);
+    setLoadedParents(new Set());
+    setLoadingNodes(new Set());
+    setError(null);
+    if (!dataviewId) return;
+
+    setLoading(true);
+    const filter = lazy ? { [parentField]: rootParentValue ?? null } : undefined;
+    getDataviewManager()
+      .loadDataview(dataviewId, filter, operationId)
+      .then(
+        (data) => {
+          if (generation === generationRef.current) setRows(Array.isArray(data) ? data : []);
+        },
+        (loadError) => {
+          if (generation === generationRef.current) setError(toMessage(loadError));
+        }
+      )
+      .finally(() => {
+        if (generation === generationRef.current) setLoading(false);
+      });
+  }, [dataviewId, lazy, parentField, rootParentValue, operationId, reloadCount]);
+
+  const loadChildren = useCallback((node: TreeNode) => {
+    if (!dataviewId || !lazy || !node.lazy || loadingNodes.has(node.id)) return;
+    const generation = generationRef.current;
+    setLoadingNodes((current) => new Set(current).add(node.id));
+
+    getDataviewManager()
+      .loadDataview(dataviewId, { [parentField]: node.value }, operationId)
+      .then(
+        (data) => {
+          if (generation !== generationRef.current) return;
+          // Client-side filtering is loose - keep the actual children only
+          const children = (Array.isArray(data) ? data : []).filter(
+            (row) => row && String(row[parentField]) === node.id
+          );
+          setRows((current) => {
+            const known = new Set(current.map((row) => String(row?.[keys.idField])));
+            return [...current, ...children.filter((row) => !known.has(String(row[keys.idField])))];
+          });
+          setLoadedParents((current) => new Set(current).add(node.id));
+        },
+        (loadError) => {
+          if (generation === generationRef.current) setError(toMessage(loadError));
+        }
+      )
+      .finally(() => {
+        if (generation !== generationRef.current) return;
+        setLoadingNodes((current) => {
+          const next = new Set(current);
+          next.delete(node.id);
+          return next;
+        });
+      });
+  }, [dataviewId, lazy, loadingNodes, parentField, keys.idField, operationId]);
+
+  const reload = useCallback(() => setReloadCount((count) => count + 1), []);
+
+  const nodes = useMemo(() => {
+    if (!dataviewId) return TreeData.fromRows(localRows, keys);
+    return TreeData.fromRows(rows, keys, lazy ? loadedParents : undefined);
+  }, [dataviewId, localRows, rows, keys, lazy, loadedParents]);
+
+  // Rows of a parent cycle are shown as roots - reported once per row
+  const reportedCyclesRef = useRef(new Set<string>());
+  useEffect(() => {
+    nodes
+      .filter((node) => node.cycle && !reportedCyclesRef.current.has(node.id))
+      .forEach((node) => {
+        reportedCyclesRef.current.add(node.id);
+        console.warn(`Tree row ${node.id} is part of a parent cycle and is shown as a root`);
+      });
+  }, [nodes]);
+
+  return {
+    nodes,
+    loading,
+    loadingNodes,
+    error,
+    loadChildren,
+    reload,
+  };
+}
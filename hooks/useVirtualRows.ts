@@ -0,0 +1,133 @@
+/**
+ * useVirtualRows Hook
+ * Windowed rendering of long row lists (DataGrid, DataBrowse, List, Tree)
+ *
+ * Only the rows in or near the viewport of a scroll container are rendered; the rest is
+ * replaced by top/bottom padding. Rows take rowHeight until they are rendered and measured,
+ * unless the heights are fixed.
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState, type UIEvent } from 'react';
+
+interface UseVirtualRowsOptions {
+  count: number;
+  // Row height in px - an estimate for measured rows
+  rowHeight: number;
+  // Viewport height in px until the container is measured
+  height: number;
+  // Rows rendered above and below the viewport
+  overscan?: number;
+  // Every row has rowHeight (rows are not measured)
+  fixedHeight?: boolean;
+  // false renders every row
+  enabled?: boolean;
+}
+
+interface UseVirtualRowsReturn {
+  // First rendered row
+  start: number;
+  // One past the last rendered row
+  end: number;
+  paddingTop: number;
+  paddingBottom: number;
+  // Attach to the scroll container
+  containerRef: (element: HTMLElement | null) => void;
+  onScroll: (event: UIEvent<HTMLElement>) => void;
+  // Ref of a rendered row, measuring its height
+  measureRow: (index: number) => ((element: HTMLElement | null) => void) | undefined;
+}
+
+// Last index whose offset is <= position
+const findIndex = (offsets: Float64Array, position: number): number => {
+  let low = 0;
+  let high = offsets.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (offsets[mid] <= position) low = mid;
+    else high = mid - 1;
+  }
+  return low;
+};
+
+export function useVirtualRows({
+  count,
+  rowHeight,
+  height,
+  overscan = 5,
+  fixedHeight = false,
+  enabled = true,
+}: UseVirtualRowsOptions): UseVirtualRowsReturn {
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(height);
+  // Measured heights by row index; the version re-computes the offsets
+  const heightsRef = useRef(new Map<number, number>());
+  const [measureVersion, setMeasureVersion] = useState(0);
+
+  useEffect(() => {
+    heightsRef.current.clear();
+    setMeasureVersion((version) => version + 1);
+  }, [rowHeight, fixedHeight]);
+
+  // Top of each row, offsets[count] being the total height
+  const offsets = useMemo(() => {
+    const result = new Float64Array(count + 1);
+    const heights = heightsRef.current;
+    for (let i = 0; i < count; i++) {
+      result[i + 1] = result[i] + (fixedHeight ? rowHeight : heights.get(i) ?? rowHeight);
+    }
+    return result;
+    // measureVersion: heightsRef changed
+  }, [count, rowHeight, fixedHeight, measureVersion]);
+
+  // Viewport size follows the container
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const containerRef = useCallback((element: HTMLElement | null) => {
+    observerRef.current?.disconnect();
+    observerRef.current = null;
+    if (!element) return;
+
+    if (element.clientHeight > 0) setViewportHeight(element.clientHeight);
+    setScrollTop(element.scrollTop);
+    if (typeof ResizeObserver !== 'undefined') {
+      observerRef.current = new ResizeObserver(() => {
+        if (element.clientHeight > 0) setViewportHeight(element.clientHeight);
+      });
+      observerRef.current.observe(element);
+    }
+  }, []);
+
+  useEffect(() => () => observerRef.current?.disconnect(), []);
+
+  const onScroll = useCallback((event: UIEvent<HTMLElement>) => {
+    setScrollTop(event.currentTarget.scrollTop);
+  }, []);
+
+  const measureRow = useCallback((index: number) => {
+    if (!enabled || fixedHeight) return undefined;
+    return (element: HTMLElement | null) => {
+      if (!element) return;
+      const measured = element.getBoundingClientRect().height;
+      if (measured > 0 && Math.abs((heightsRef.current.get(index) ?? -1) - measured) > 0.5) {
+        heightsRef.current.set(index, measured);
+        setMeasureVersion((version) => version + 1);
+      }
+    };
+  }, [enabled, fixedHeight]);
+
+  if (!enabled || count === 0) {
+    return { start: 0, end: count, paddingTop: 0, paddingBottom: 0, containerRef, onScroll, measureRow };
+  }
+
+  const start = Math.max(0, Math.min(findIndex(offsets, scrollTop), count - 1) - overscan);
+  const end = Math.min(count, findIndex(offsets, scrollTop + viewportHeight) + 1 + overscan);
+
+  return {
+    start,
+    end,
+    paddingTop: offsets[start],
+    paddingBottom: offsets[count] - offsets[end],
+    containerRef,
+    onScroll,
+    measureRow,
+  };
+}
@@ -1,26 +1,30 @@
-import { create } from 'zustand';
+import { createContext, useContext } from 'react';
+import { createStore, useStore } from 'zustand';
 import { type ComponentDefinition, type FormBuilderState } from './types';
 import { generateComponentId, generateGuid, generateComponentName } from '../utils/idGenerator';
+import type { LintRuleId, LintSeverity } from '../utils/formLint';
+import type { WorkAreaLayout } from './types/formEngine';
 
-// Work Area Layout types
-export interface LayoutSection {
-  id: string;
-  name: string;
-  type: 'header' | 'body' | 'footer' | 'sidebar' | 'main' | 'aside' | 'column';
-  flex?: number;
-  minHeight?: string;
-  position?: 'top' | 'bottom' | 'left' | 'right' | 'center';
+// Work Area Layout types (saved with the form)
+export type { LayoutSection, WorkAreaLayout } from './types/formEngine';
+
+// Form-level settings saved alongside the component tree
+export interface FormSettings {
+  formValidator?: string; // Cross-field validator source (PersistedForm.formValidator)
+  validateOnChange?: boolean; // Run formValidator on every change, not only on submit
+  lintSeverity?: Partial<Record<LintRuleId, LintSeverity>>; // Lint rule severities used before saving (builder only)
 }
 
-export interface WorkAreaLayout {
+// Form in the configured storage the canvas was loaded from / last saved to
+export interface StoredFormRef {
   id: string;
-  name: string;
-  description: string;
-  sections: LayoutSection[];
-  direction: 'row' | 'column';
+  formName: string;
+  description?: string;
+  revision?: number;
+  updatedAt?: string;
 }
 
-interface FormBuilderStore extends FormBuilderState {
+export interface FormBuilderStore extends FormBuilderState {
   // Actions
   setComponents: (components: ComponentDefinition[]) => void;
   addComponent: (component: ComponentDefinition, parentId?: string, index?: number) => void;
@@ -40,7 +44,14 @@ interface FormBuilderStore extends FormBuilderState {
   setCanvasMode: (mode: 'layout' | 'free') => void;
   // Work Area Layout
   workAreaLayout: WorkAreaLayout | null;
-  setWorkAreaLayout: (layout: WorkAreaLayout | null) => void;
+  // components: a loaded form whose section containers are already in place
+  setWorkAreaLayout: (layout: WorkAreaLayout | null, components?: ComponentDefinition[]) => void;
+  // Form-level settings
+  formSettings: FormSettings;
+  setFormSettings: (settings: Partial<FormSettings>) => void;
+  // Stored form being edited (null for unsaved or file-based forms)
+  storedForm: StoredFormRef | null;
+  setStoredForm: (storedForm: StoredFormRef | null) => void;
 }
 
 // Helper function to recursively find a component
@@ -186,7 +197,11 @@ const duplicateComponentRecursive = (
   };
 };
 
-export const useFormBuilderStore = create<FormBuilderStore>((set, get) => ({
+/**
+ * Create an isolated form builder store instance.
+ * Every FormViewer owns one; the builder uses the default instance below.
+ */
+export const createFormBuilderStore = () => createStore<FormBuilderStore>((set, get) => ({
   // Initial state
   components: [],
   selectedComponentId: null,
@@ -195,6 +210,8 @@ export const useFormBuilderStore = create<FormBuilderStore>((set, get) => ({
   previewMode: null,
   canvasMode: 'layout', // Default to layout mode (stacked components)
   workAreaLayout: null, // No predefined layout by default
+  formSettings: {},
+  storedForm: null,
 
   // Actions
   setComponents: (components) => set({ components }),
@@ -320,8 +337,15 @@ export const useFormBuilderStore = create<FormBuilderStore>((set, get) => ({
 
   setCanvasMode: (mode) => set({ canvasMode: mode }),
 
-  setWorkAreaLayout: (layout) => {
-    if (layout) {
+  setFormSettings: (settings) =>
+    set((state) => ({ formSettings: { ...state.formSettings, ...settings } })),
+
+  setStoredForm: (storedForm) => set({ storedForm }),
+
+  setWorkAreaLayout: (layout, components) => {
+    if (components) {
+      set({ workAreaLayout: layout, components });
+    } else if (layout) {
       // When setting a new layout, create container components for each section
       const sectionComponents: ComponentDefinition[] = layout.sections.map((section) => ({
         id: generateComponentId('Container'),
@@ -349,3 +373,30 @@ export const useFormBuilderStore = create<FormBuilderStore>((set, get) => ({
   },
 }));
 
+export type FormBuilderStoreApi = ReturnType<typeof createFormBuilderStore>;
+
+// Default instance - used by the builder and anything rendered outside a FormStoreProvider
+export const formBuilderStore = createFormBuilderStore();
+
+export const FormBuilderStoreContext = createContext<FormBuilderStoreApi | null>(null);
+
+/**
+ * Get the nearest form builder store instance (falls back to the builder instance)
+ */
+export function useFormBuilderStoreApi(): FormBuilderStoreApi {
+  return useContext(FormBuilderStoreContext) ?? formBuilderStore;
+}
+
+/**
+ * Subscribe to the nearest form builder store instance
+ */
+export function useFormBuilderStore(): FormBuilderStore;
+export function useFormBuilderStore<T>(selector: (state: FormBuilderStore) => T): T;
+export function useFormBuilderStore<T>(selector?: (state: FormBuilderStore) => T) {
+  return useStore(useFormBuilderStoreApi(), selector as (state: FormBuilderStore) => T);
+}
+
+// Static access to the builder instance (same shape as a zustand hook)
+useFormBuilderStore.getState = formBuilderStore.getState;
+useFormBuilderStore.setState = formBuilderStore.setState;
+useFormBuilderStore.subscribe = formBuilderStore.subscribe;
@@ -3,13 +3,91 @@
  * Manages form data state and data binding
  */
 
-import { create } from 'zustand';
-import type { ComponentStore, ComponentProperty } from './types/formEngine';
+import { createContext, useContext } from 'react';
+import { createStore, useStore } from 'zustand';
+import type { ComponentStore, ComponentProperty, FieldValidationError, ValidationRule } from './types/formEngine';
 import { ComputedPropertyEvaluator } from '../utils/properties/computedProperties';
+import { generateShortId } from '../utils/idGenerator';
+import { getPath, setPath, expandPaths } from '../utils/data/dataPath';
+import { FormValidatorRunner, FORM_ERROR_KEY } from '../utils/validation/formValidator';
 
-interface FormDataStoreState {
+/**
+ * Field registered for submit validation
+ * Registered by FormComponentRenderer for every rendered component with a dataKey
+ */
+export interface RegisteredField {
+  componentId: string;
+  name?: string;
+  dataKey?: string;
+  getLabel: () => string | undefined;
+  // Whether the field currently takes part in validation (rendered, visible, enabled)
+  isActive: () => boolean;
+  // Run the field's validation rules (async checks included, without debounce) and return its error messages
+  validate: () => Promise<string[]>;
+}
+
+// Where a validator component's message is shown
+export type ValidatorDisplay = 'inline' | 'summary' | 'both';
+
+/**
+ * Rules contributed to another field by a validator component
+ * (RequiredFieldValidator, RangeValidator, RegExValidator)
+ */
+export interface RegisteredValidator {
+  validatorId: string;
+  // Target component name or dataKey
+  target: string;
+  rules: ValidationRule[];
+  display: ValidatorDisplay;
+}
+
+/**
+ * Remove messages that belong only to validators not shown in the given place
+ */
+export function filterMessagesForDisplay(
+  messages: string[],
+  validators: RegisteredValidator[],
+  place: 'inline' | 'summary'
+): string[] {
+  const hidden = new Set<string>();
+  const shown = new Set<string>();
+  for (const validator of validators) {
+    const isShown = validator.display === 'both' || validator.display === place;
+    for (const rule of validator.rules) {
+      if (rule.message) (isShown ? shown : hidden).add(rule.message);
+    }
+  }
+  return messages.filter((message) => !hidden.has(message) || shown.has(message));
+}
+
+/**
+ * Row limits of an array bound to a Repeater (registered by the Repeater)
+ */
+export interface ArrayLimits {
+  minItems?: number;
+  maxItems?: number;
+}
+
+// Rows of the array at path (empty when missing)
+const getRows = (data: Record<string, any>, path: string): any[] => {
+  const rows = getPath(data, path);
+  return Array.isArray(rows) ? rows : [];
+};
+
+// Drop errors of row instances under path - their row indices no longer match after a row operation
+const withoutRowErrors = (errors: Record<string, string[]>, path: string): Record<string, string[]> => {
+  const rowPrefix = `@${path}[`;
+  return Object.fromEntries(
+    Object.entries(errors).filter(([instanceId]) => !instanceId.includes(rowPrefix))
+  );
+};
+
+export interface FormDataStoreState {
+  // Identifies this store instance (used to scope window events like openModal)
+  scopeId: string;
   data: Record<string, any>;
   initialData: Record<string, any>;
+  // Keys are data paths: "name", "customer.address.city", "items[2].price"
   setData: (key: string, value: any) => void;
   getData: (key: string) => any;
   setInitialData: (data: Record<string, any>) => void;
@@ -20,52 +98,341 @@ interface FormDataStoreState {
     property: ComponentProperty | undefined,
     parentData?: Record<string, any>
   ) => any;
+  
+  // Validation errors by component id (set by validateForm and field validation)
+  errors: Record<string, string[]>;
+  // Errors from the form-level validator by dataKey (FORM_ERROR_KEY for form-level errors)
+  formErrors: Record<string, string[]>;
+  formValidator?: string;
+  // Refuse expressions outside the sandboxed grammar (undefined = ExpressionEngine default)
+  strictExpressions?: boolean;
+  setStrictExpressions: (strict?: boolean) => void;
+  isSubmitting: boolean;
+  // Components with an async validation check in progress (by component id)
+  validating: Record<string, true>;
+  setValidating: (componentId: string, pending: boolean) => void;
+  registerField: (field: RegisteredField) => () => void;
+  getRegisteredFields: () => RegisteredField[];
+  setFieldErrors: (componentId: string, messages: string[]) => void;
+  clearErrors: () => void;
+  setSubmitting: (submitting: boolean) => void;
+  validateForm: (dataKeys?: string[]) => Promise<FieldValidationError[]>;
+  // Validator components by id (reactive, so target fields pick up new rules)
+  validators: Record<string, RegisteredValidator>;
+  registerValidator: (validator: RegisteredValidator) => () => void;
+  getFieldValidators: (componentId: string) => RegisteredValidator[];
+  setFormValidator: (source?: string) => void;
+  runFormValidator: (dataKeys?: string[]) => Promise<Record<string, string[]>>;
+
+  // Row operations on arrays (path is an absolute data path, e.g. "orders[1].lines")
+  // Each returns false when blocked by the array's min/max limits or an invalid index
+  registerArray: (path: string, limits: ArrayLimits) => () => void;
+  getArrayLimits: (path: string) => ArrayLimits;
+  addRow: (path: string, item?: any, index?: number) => boolean;
+  removeRow: (path: string, index: number) => boolean;
+  moveRow: (path: string, from: number, to: number) => boolean;
+  duplicateRow: (path: string, index: number) => boolean;
 }
 
-export const useFormDataStore = create<FormDataStoreState>((set, get) => ({
-  data: {},
-  initialData: {},
+/**
+ * Create an isolated form data store instance.
+ * Every FormViewer owns one; the builder uses the default instance below.
+ */
+export const createFormDataStore = () => {
+  // Field registry is kept outside reactive state so (un)registering doesn't re-render the form
+  const fields = new Map<string, RegisteredField>();
+  const arrayLimits = new Map<string, ArrayLimits>();
 
-  setData: (key: string, value: any) =>
-    set((state) => ({
-      data: { ...state.data, [key]: value },
-    })),
+  return createStore<FormDataStoreState>((set, get) => ({
+    scopeId: generateShortId(8),
+    data: {},
+    initialData: {},
+    errors: {},
+    formErrors: {},
+    formValidator: undefined,
+    strictExpressions: undefined,
+    validators: {},
+    isSubmitting: false,
+    validating: {},
 
-  getData: (key: string) => {
-    const state = get();
-    return state.data[key];
-  },
+    setData: (key: string, value: any) =>
+      set((state) => ({
+        data: setPath(state.data, key, value),
+      })),
 
-  setInitialData: (data: Record<string, any>) =>
-    set({ initialData: data, data: { ...data } }),
+    getData: (key: string) => {
+      const state = get();
+      return getPath(state.data, key);
+    },
 
-  reset: () =>
-    set((state) => ({
-      data: { ...state.initialData },
-    })),
+    setInitialData: (data: Record<string, any>) => {
+      // Flat "a.b" keys are accepted and stored nested
+      const initialData = expandPaths(data);
+      set({ initialData, data: { ...initialData } });
+    },
 
-  clear: () =>
-    set({
-      data: {},
-      initialData: {},
-    }),
+    reset: () =>
+      set((state) => ({
+        data: { ...state.initialData },
+        errors: {},
+        formErrors: {},
+      })),
 
-  getAllData: () => {
-    const state = get();
-    return state.data;
-  },
+    clear: () =>
+      set({
+        data: {},
+        initialData: {},
+        errors: {},
+        formErrors: {},
+      }),
 
-  evaluateProperty: (
-    property: ComponentProperty | undefined,
-    parentData?: Record<string, any>
-  ) => {
-    const state = get();
-    return ComputedPropertyEvaluator.evaluate(
-      property,
-      state.data,
-      parentData,
-      state.data
-    );
-  },
-}));
+    getAllData: () => {
+      const state = get();
+      return state.data;
+    },
+
+    evaluateProperty: (
+      property: ComponentProperty | undefined,
+      parentData?: Record<string, any>
+    ) => {
+      const state = get();
+      return ComputedPropertyEvaluator.evaluate(
+        property,
+        state.data,
+        parentData,
+        state.data,
+        { strict: state.strictExpressions }
+      );
+    },
+
+    setStrictExpressions: (strict?: boolean) => set({ strictExpressions: strict }),
+
+    registerField: (field: RegisteredField) => {
+      fields.set(field.componentId, field);
+      return () => {
+        if (fields.get(field.componentId) === field) {
+          fields.delete(field.componentId);
+        }
+      };
+    },
+
+    getRegisteredFields: () => Array.from(fields.values()),
+
+    setFieldErrors: (componentId: string, messages: string[]) =>
+      set((state) => {
+        const current = state.errors[componentId];
+        if (messages.length === 0) {
+          if (!current) return state;
+          const { [componentId]: removed, ...rest } = state.errors;
+          return { errors: rest };
+        }
+        return { errors: { ...state.errors, [componentId]: messages } };
+      }),
+
+    clearErrors: () => set({ errors: {}, formErrors: {} }),
+
+    setSubmitting: (submitting: boolean) => set({ isSubmitting: submitting }),
+
+    setValidating: (componentId: string, pending: boolean) =>
+      set((state) => {
+        if (pending === Boolean(state.validating[componentId])) return state;
+        if (pending) return { validating: { ...state.validating, [componentId]: true } };
+        const { [componentId]: removed, ...rest } = state.validating;
+        return { validating: rest };
+      }),
+
+    validateForm: async (dataKeys?: string[]) => {
+      const activeFields = Array.from(fields.values()).filter((field) => {
+        if (dataKeys && (!field.dataKey || !dataKeys.includes(field.dataKey))) return false;
+        return field.isActive();
+      });
+
+      const results: FieldValidationError[] = [];
+      for (const field of activeFields) {
+        const messages = await field.validate();
+        if (messages.length > 0) {
+          results.push({
+            componentId: field.componentId,
+            dataKey: field.dataKey,
+            label: field.getLabel(),
+            messages,
+          });
+        }
+      }
+
+      // Cross-field rules from the form validator, merged into the matching field's entry
+      const validatorErrors = await get().runFormValidator(dataKeys);
+      for (const [dataKey, messages] of Object.entries(validatorErrors)) {
+        const field = dataKey !== FORM_ERROR_KEY
+          ? activeFields.find((f) => f.dataKey === dataKey)
+          : undefined;
+        const existing = field && results.find((r) => r.componentId === field.componentId);
+        if (existing) {
+          existing.messages = [...existing.messages, ...messages.filter((m) => !existing.messages.includes(m))];
+        } else if (field) {
+          results.push({ componentId: field.componentId, dataKey, label: field.getLabel(), messages });
+        } else {
+          // No rendered field for this key - reported at form level
+          results.push({ componentId: FORM_ERROR_KEY, dataKey: dataKey || undefined, label: dataKey || undefined, messages });
+        }
+      }
+
+      // Replace errors of validated fields, keep errors of fields outside a partial validation
+      const validatedIds = new Set(activeFields.map((field) => field.componentId));
+      const errors: Record<string, string[]> = {};
+      for (const [componentId, messages] of Object.entries(get().errors)) {
+        if (dataKeys && !validatedIds.has(componentId) && fields.has(componentId)) {
+          errors[componentId] = messages;
+        }
+      }
+      for (const result of results) {
+        // Validator messages live in formErrors, only field rule messages are kept here
+        if (result.componentId === FORM_ERROR_KEY) continue;
+        const ruleMessages = result.messages.filter(
+          (m) => !(result.dataKey && validatorErrors[result.dataKey]?.includes(m))
+        );
+        if (ruleMessages.length > 0) {
+          errors[result.componentId] = ruleMessages;
+        }
+      }
+      set({ errors });
+
+      return results;
+    },
+
+    registerValidator: (validator: RegisteredValidator) => {
+      set((state) => ({ validators: { ...state.validators, [validator.validatorId]: validator } }));
+      return () =>
+        set((state) => {
+          if (state.validators[validator.validatorId] !== validator) return state;
+          const { [validator.validatorId]: removed, ...rest } = state.validators;
+          return { validators: rest };
+        });
+    },
+
+    getFieldValidators: (componentId: string) => {
+      const field = fields.get(componentId);
+      if (!field) return [];
+      return Object.values(get().validators).filter(
+        (validator) => validator.target === field.name || validator.target === field.dataKey
+      );
+    },
+
+    setFormValidator: (source?: string) =>
+      set({ formValidator: source && source.trim() ? source : undefined, formErrors: {} }),
+
+    runFormValidator: async (dataKeys?: string[]) => {
+      const { formValidator, data, strictExpressions } = get();
+      if (!formValidator) {
+        if (Object.keys(get().formErrors).length > 0) set({ formErrors: {} });
+        return {};
+      }
+      const result = await FormValidatorRunner.run(formValidator, data, data, { strict: strictExpressions });
+      if (result.exception) {
+        const formLevel = result.errors[FORM_ERROR_KEY] || [];
+        result.errors[FORM_ERROR_KEY] = [...formLevel, `Form validator failed: ${result.exception}`];
+      }
+
+      // A partial run only replaces the errors of the requested dataKeys
+      let validatorErrors = result.errors;
+      let formErrors = result.errors;
+      if (dataKeys) {
+        validatorErrors = {};
+        formErrors = { ...get().formErrors };
+        for (const dataKey of dataKeys) {
+          delete formErrors[dataKey];
+          if (result.errors[dataKey]) {
+            validatorErrors[dataKey] = result.errors[dataKey];
+            formErrors[dataKey] = result.errors[dataKey];
+          }
+        }
+      }
+      set({ formErrors });
+      return validatorErrors;
+    },
+
+    registerArray: (path: string, limits: ArrayLimits) => {
+      arrayLimits.set(path, limits);
+      return () => {
+        if (arrayLimits.get(path) === limits) {
+          arrayLimits.delete(path);
+        }
+      };
+    },
+
+    getArrayLimits: (path: string) => arrayLimits.get(path) || {},
+
+    addRow: (path: string, item: any = {}, index?: number) => {
+      const rows = getRows(get().data, path);
+      const { maxItems } = get().getArrayLimits(path);
+      if (maxItems !== undefined && rows.length >= maxItems) return false;
+      const at = index === undefined ? rows.length : Math.max(0, Math.min(index, rows.length));
+      const next = [...rows.slice(0, at), item, ...rows.slice(at)];
+      set((state) => ({
+        data: setPath(state.data, path, next),
+        errors: withoutRowErrors(state.errors, path),
+      }));
+      return true;
+    },
+
+    removeRow: (path: string, index: number) => {
+      const rows = getRows(get().data, path);
+      const { minItems = 0 } = get().getArrayLimits(path);
+      if (index < 0 || index >= rows.length || rows.length <= minItems) return false;
+      set((state) => ({
+        data: setPath(state.data, path, rows.filter((_, i) => i !== index)),
+        errors: withoutRowErrors(state.errors, path),
+      }));
+      return true;
+    },
+
+    moveRow: (path: string, from: number, to: number) => {
+      const rows = getRows(get().data, path);
+      if (from < 0 || from >= rows.length || to < 0 || to >= rows.length || from === to) return false;
+      const next = [...rows];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      set((state) => ({
+        data: setPath(state.data, path, next),
+        errors: withoutRowErrors(state.errors, path),
+      }));
+      return true;
+    },
+
+    duplicateRow: (path: string, index: number) => {
+      const rows = getRows(get().data, path);
+      if (index < 0 || index >= rows.length) return false;
+      // Deep copy so the rows don't share nested objects
+      const copy = rows[index] === undefined ? {} : JSON.parse(JSON.stringify(rows[index]));
+      return get().addRow(path, copy, index + 1);
+    },
+  }));
+};
+
+export type FormDataStoreApi = ReturnType<typeof createFormDataStore>;
+
+// Default instance - used by the builder and anything rendered outside a FormStoreProvider
+export const formDataStore = createFormDataStore();
+
+export const FormDataStoreContext = createContext<FormDataStoreApi | null>(null);
+
+/**
+ * Get the nearest form data store instance (falls back to the builder instance)
+ */
+export function useFormDataStoreApi(): FormDataStoreApi {
+  return useContext(FormDataStoreContext) ?? formDataStore;
+}
+
+/**
+ * Subscribe to the nearest form data store instance
+ */
+export function useFormDataStore(): FormDataStoreState;
+export function useFormDataStore<T>(selector: (state: FormDataStoreState) => T): T;
+export function useFormDataStore<T>(selector?: (state: FormDataStoreState) => T) {
+  return useStore(useFormDataStoreApi(), selector as (state: FormDataStoreState) => T);
+}
 
+// Static access to the builder instance (same shape as a zustand hook)
+useFormDataStore.getState = formDataStore.getState;
+useFormDataStore.setState = formDataStore.setState;
+useFormDataStore.subscribe = formDataStore.subscribe;
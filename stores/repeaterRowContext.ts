@@ -0,0 +1,67 @@
+/**
+ * Repeater Row Context
+ * Scopes data binding of components rendered inside a Repeater row
+ *
+ * Inside a row, a component's dataKey is relative to the row object
+ * (e.g. "price" in row 2 of "items" binds to "items[2].price").
+ * Keys containing "[]" are absolute, with "[]" replaced by the enclosing row indices
+ * (e.g. "orders[].lines[].qty").
+ */
+
+import { createContext, useContext } from 'react';
+import { resolveRowWildcards, ROW_WILDCARD } from '../utils/data/dataPath';
+
+export interface RepeaterRowScope {
+  // Resolved path of the bound array (e.g. "orders[1].lines")
+  arrayPath: string;
+  // Index of this row in the array
+  index: number;
+  // Resolved path of this row (e.g. "orders[1].lines[0]")
+  rowPath: string;
+  // Row indices of all enclosing Repeaters, outermost first
+  rowIndices: number[];
+}
+
+export const RepeaterRowContext = createContext<RepeaterRowScope | null>(null);
+
+/**
+ * Get the nearest Repeater row (null outside a Repeater)
+ */
+export function useRepeaterRow(): RepeaterRowScope | null {
+  return useContext(RepeaterRowContext);
+}
+
+/**
+ * Create the scope for a row of a Repeater bound to arrayKey
+ * (arrayKey is resolved against the parent row like any other dataKey)
+ */
+export function createRowScope(
+  arrayKey: string,
+  index: number,
+  parent: RepeaterRowScope | null
+): RepeaterRowScope {
+  const arrayPath = resolveDataKey(arrayKey, parent);
+  return {
+    arrayPath,
+    index,
+    rowPath: `${arrayPath}[${index}]`,
+    rowIndices: [...(parent?.rowIndices || []), index],
+  };
+}
+
+/**
+ * Resolve a component dataKey to an absolute data path
+ */
+export function resolveDataKey(dataKey: string, row: RepeaterRowScope | null): string {
+  if (dataKey.includes(ROW_WILDCARD)) {
+    return resolveRowWildcards(dataKey, row?.rowIndices || []);
+  }
+  return row ? `${row.rowPath}.${dataKey}` : dataKey;
+}
+
+/**
+ * Id of a component instance (template components repeat once per row)
+ */
+export function getInstanceId(componentId: string, row: RepeaterRowScope | null): string {
+  return row ? `${componentId}@${row.rowPath}` : componentId;
+}
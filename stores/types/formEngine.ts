@@ -3,6 +3,8 @@
  * Matches FormEngine's PersistedForm format
  */
 
+import type { DependencyCondition } from './index';
+
 // Language definition
 export interface Language {
   code: string; // e.g., "en-US"
@@ -28,7 +30,8 @@ export interface ResponsiveStyle {
 export interface ComponentProperty<T = any> {
   value?: T; // Static value
   fnSource?: string; // Function source code (for computed)
-  computeType?: 'function' | 'localization'; // Property computation type
+  condition?: DependencyCondition; // Rule (computeType 'condition'), e.g. from the rule builder
+  computeType?: 'function' | 'localization' | 'condition'; // Property computation type
   editorType?: string; // Property editor type (for builder)
 }
 
@@ -44,6 +47,14 @@ export interface ValidationSchema {
   validations: ValidationRule[];
 }
 
+// Field-level validation result (collected on submit)
+export interface FieldValidationError {
+  componentId: string; // Component that owns the field ('' for form-level errors)
+  dataKey?: string; // Data binding key of the field
+  label?: string; // Rendered field label (for error summaries)
+  messages: string[]; // Error messages
+}
+
 // Action Definition
 export interface ActionDefinition {
   name: string; // Action name
@@ -72,6 +83,14 @@ export interface ActionEventArgs {
   data: Record<string, unknown>; // Form data access
   parentData?: Record<string, unknown>; // Parent data (for array items)
   rootData: Record<string, unknown>; // Root form data
+  row?: ActionRowContext; // Repeater row the event was raised in
+}
+
+// Repeater row of an action event
+export interface ActionRowContext {
+  arrayPath: string; // Resolved path of the bound array (e.g. "orders[1].lines")
+  index: number; // Row index in the array
+  data: Record<string, unknown>; // Row data
 }
 
 // Modal Component Store
@@ -101,6 +120,7 @@ export interface ComponentStore {
   slotCondition?: string; // Slot binding condition
   renderWhen?: ComponentProperty<boolean>; // Conditional rendering expression
   disableDataBinding?: ComponentProperty<boolean>; // Disable data binding flag
+  section?: string; // Work area layout section this container holds (LayoutSection.id)
 }
 
 // Form Metadata
@@ -116,6 +136,25 @@ export interface FormMetadata {
   category?: string; // Form category
 }
 
+// Work Area Layout section (header, body, sidebar, ...)
+export interface LayoutSection {
+  id: string;
+  name: string;
+  type: 'header' | 'body' | 'footer' | 'sidebar' | 'main' | 'aside' | 'column';
+  flex?: number;
+  minHeight?: string;
+  position?: 'top' | 'bottom' | 'left' | 'right' | 'center';
+}
+
+// Work Area Layout - arrangement of the form's top-level sections
+export interface WorkAreaLayout {
+  id: string;
+  name: string;
+  description: string;
+  sections: LayoutSection[];
+  direction: 'row' | 'column';
+}
+
 // Persisted Form (matches FormEngine's PersistedForm)
 export interface PersistedForm {
   // Schema version (format version, e.g., "1", "2")
@@ -131,10 +170,12 @@ export interface PersistedForm {
   // Form configuration
   actions?: Record<string, ActionDefinition>; // Custom action definitions
   formValidator?: string; // Form-level validation code
+  validateOnChange?: boolean; // Also run formValidator whenever form data changes (default: submit only)
   errorProps?: Record<string, any>; // Error display component props
   modalType?: string; // Modal component type name
   tooltipType?: string; // Tooltip component type name
   errorType?: string; // Error component type name
+  workAreaLayout?: WorkAreaLayout; // Chosen work area layout (components in its sections carry `section`)
   
   // Localization
   localization: Record<string, Record<string, Record<string, string>>>; // Localization strings
@@ -1,5 +1,7 @@
 // Core types for the Form Builder
 
+import type { ValidationRule } from './formEngine';
+
 /**
  * Component Definition
  * Represents a component in the form builder
@@ -41,10 +43,11 @@ export interface ComponentDefinition {
 /**
  * Dependency condition for computed properties
  * Used for: disabled, enabled, visible, required states
+ * Groups combine nested conditions: all (and), any (or), not (negates its first condition)
  */
 export interface DependencyCondition {
   // Condition type
-  type: 'expression' | 'fieldValue' | 'function';
+  type: 'expression' | 'fieldValue' | 'function' | 'all' | 'any' | 'not';
   
   // JavaScript expression (e.g., "!data.state || data.state === ''")
   expression?: string;
@@ -63,6 +66,9 @@ export interface DependencyCondition {
   // Function source code for complex logic
   fnSource?: string;
   
+  // Nested conditions of a group (all/any/not)
+  conditions?: DependencyCondition[];
+  
   // Default value when condition can't be evaluated
   default?: any;
 }
@@ -108,13 +114,18 @@ export interface ComputedProperty {
  * Conditional validation based on other fields
  */
 export interface ValidationDependency {
-  // When validation should be enabled
+  // When validation should be enabled (false skips all of the field's rules, required included)
   enabledWhen?: DependencyCondition;
   
-  // Conditional validation rules
+  // Conditional validation rules, added to the field's schema rules
   rules?: Array<{
+    // Rule key, as in ValidationRule.key (e.g., "required", "min", "regex")
     type: string;
+    // Rule arguments, as in ValidationRule.args (e.g., { limit: 10 })
     params?: any;
+    // Custom error message
+    message?: string;
+    // When the rule applies (always when omitted)
     enabledWhen?: DependencyCondition;
   }>;
 }
@@ -257,6 +268,52 @@ export interface Dataview {
   description: string;
   url: string; // OpenAPI YAML URL
   fields?: string[]; // Cached field names
+  fieldMetadata?: DataviewField[]; // Cached typed fields
+}
+
+export type DataviewFieldType = 'string' | 'number' | 'integer' | 'boolean' | 'date' | 'datetime' | 'object' | 'array';
+
+/**
+ * Field of a dataview record, from the OpenAPI response schema or inferred from records
+ */
+export interface DataviewField {
+  name: string;
+  type: DataviewFieldType;
+  // Schema format (e.g. "int64", "email", "uuid")
+  format?: string;
+  nullable: boolean;
+  enum?: any[];
+  description?: string;
+  // 'schema' = OpenAPI response schema, 'records' = inferred from loaded data
+  source: 'schema' | 'records';
+}
+
+// DataGrid column types
+export type DataGridEditorType = 'text' | 'number' | 'select' | 'date' | 'checkbox';
+
+/**
+ * DataGrid column definition (entries of the columns prop may also be plain field names)
+ */
+export interface DataGridColumn {
+  field: string;
+  headerName?: string;
+  visible?: boolean;
+  // Value type (sets the renderer and filter operators; inferred from the rows when omitted)
+  type?: DataviewFieldType;
+  sortable?: boolean;
+  filterable?: boolean;
+  // Cell editor of an editable grid (no editor = read-only column)
+  editor?: DataGridEditorType;
+  required?: boolean;
+  // Cell rules, same format as field validations
+  validations?: ValidationRule[];
+  // Select editor options: static, or loaded from a dataview
+  options?: Array<{ value: any; label: string }>;
+  dataview?: string;
+  valueField?: string;
+  labelField?: string;
+  // Value of the column in added rows
+  defaultValue?: any;
 }
 
 // API Config types
@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ActionHandler } from '../utils/actions/actionSystem';
+import type { ActionEventArgs } from '../stores/types/formEngine';
+
+const createStore = () => {
+  const values: Record<string, any> = { name: 'Ada' };
+  return {
+    scopeId: 'form-1',
+    data: values,
+    strictExpressions: true,
+    getData: (key: string) => values[key],
+    setData: vi.fn((key: string, value: any) => {
+      values[key] = value;
+    }),
+    setStrictExpressions: vi.fn(),
+    validateForm: vi.fn(async () => []),
+  };
+};
+
+const run = (body: string, store = createStore(), event?: any) => {
+  const eventArgs: ActionEventArgs = {
+    type: 'onClick',
+    sender: { key: 'button1', type: 'Button', props: {} },
+    store,
+    args: [event],
+    renderedProps: {},
+    event,
+    data: store.data,
+    rootData: store.data,
+  };
+  return ActionHandler.execute({ name: 'custom', type: 'custom' }, eventArgs, { custom: { name: 'custom', type: 'custom', body } });
+};
+
+describe('ActionHandler custom actions in strict mode', () => {
+  // Failing actions are logged before they are rethrown
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+  afterEach(() => vi.restoreAllMocks());
+
+  it('reads and writes form data through the store', async () => {
+    const store = createStore();
+    await expect(run("store.setData('name', upper(store.getData('name'))); return store.scopeId;", store)).resolves.toBe('form-1');
+    expect(store.setData).toHaveBeenCalledWith('name', 'ADA');
+  });
+
+  it('cannot switch strict mode off through the store', async () => {
+    const store = createStore();
+    await expect(run('return store.setStrictExpressions;', store)).resolves.toBeUndefined();
+    await expect(run('store.setStrictExpressions(false); return 1;', store)).rejects.toThrow();
+    expect(store.setStrictExpressions).not.toHaveBeenCalled();
+  });
+
+  it('cannot reach window through the event', async () => {
+    const fetch = vi.fn();
+    const event = { type: 'click', target: { value: 'typed' }, view: { fetch } };
+
+    await expect(run('return event;', createStore(), event)).resolves.toEqual({ type: 'click', value: 'typed' });
+    await expect(run('return event.view;', createStore(), event)).resolves.toBeUndefined();
+    await expect(run("event.view.fetch('https://example.com'); return 1;", createStore(), event)).rejects.toThrow();
+    await expect(run("context.event.view.fetch('https://example.com'); return 1;", createStore(), event)).rejects.toThrow();
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,96 @@
+// @vitest-environment happy-dom
+// DataCache reads and writes localStorage
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ValidationRule } from '../stores/types/formEngine';
+import { dataCache } from '../utils/cache/dataCache';
+import { ASYNC_VALIDATION_TAG, AsyncValidationCancelledError, AsyncValidationRunner } from '../utils/validation/asyncValidation';
+
+const remoteRule = (args: Record<string, any> = {}, extra: Partial<ValidationRule> = {}): ValidationRule => ({
+  key: 'remote',
+  args: { endpoint: 'https://api.example.com/check', ...args },
+  ...extra,
+});
+
+const respond = (body: any) => ({ ok: true, status: 200, statusText: 'OK', json: async () => body });
+
+describe('AsyncValidationRunner', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    dataCache.invalidateTag(ASYNC_VALIDATION_TAG);
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('uses the longest debounce of the rules', () => {
+    expect(AsyncValidationRunner.getDebounce([remoteRule()])).toBe(400);
+    expect(AsyncValidationRunner.getDebounce([remoteRule({ debounce: 100 }), remoteRule({ debounce: 900 })])).toBe(900);
+  });
+
+  it('skips empty values and rules that are not async', async () => {
+    await expect(AsyncValidationRunner.validate('  ', [remoteRule()])).resolves.toEqual([]);
+    await expect(AsyncValidationRunner.validate('x', [{ key: 'required' }])).resolves.toEqual([]);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('posts the value to a remote endpoint and reads its answer', async () => {
+    fetchMock.mockResolvedValueOnce(respond({ valid: false, message: 'Taken' }));
+    await expect(AsyncValidationRunner.validate('ada', [remoteRule({ params: { kind: 'user' } })])).resolves.toEqual(['Taken']);
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({ value: 'ada', kind: 'user' });
+
+    fetchMock.mockResolvedValueOnce(respond(false));
+    await expect(AsyncValidationRunner.validate('bob', [remoteRule({}, { message: 'Pick another' })])).resolves.toEqual([
+      'Pick another',
+    ]);
+
+    fetchMock.mockResolvedValueOnce(respond(true));
+    await expect(AsyncValidationRunner.validate('cy', [remoteRule()])).resolves.toEqual([]);
+  });
+
+  it('caches results per rule and value', async () => {
+    fetchMock.mockResolvedValue(respond(true));
+    await AsyncValidationRunner.validate('ada', [remoteRule()]);
+    await AsyncValidationRunner.validate('ada', [remoteRule()]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    await AsyncValidationRunner.validate('bob', [remoteRule()]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports failed checks without caching them', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    fetchMock.mockResolvedValueOnce({ ok: false, status: 500, statusText: 'Server Error' });
+    await expect(AsyncValidationRunner.validate('ada', [remoteRule()])).resolves.toEqual([
+      'The value could not be verified, please try again',
+    ]);
+
+    fetchMock.mockResolvedValueOnce(respond(true));
+    await expect(AsyncValidationRunner.validate('ada', [remoteRule()])).resolves.toEqual([]);
+  });
+
+  it('skips rules whose validateWhen is false', async () => {
+    const rule = remoteRule({}, { validateWhen: 'data.checkRemote === true' });
+    await expect(AsyncValidationRunner.validate('ada', [rule], { formData: { checkRemote: false } })).resolves.toEqual([]);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('aborts the request of a cancelled check', async () => {
+    fetchMock.mockImplementation(
+      (_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+        })
+    );
+    const controller = new AbortController();
+    const result = AsyncValidationRunner.validate('ada', [remoteRule()], { signal: controller.signal });
+    controller.abort();
+
+    await expect(result).rejects.toBeInstanceOf(AsyncValidationCancelledError);
+    expect(fetchMock.mock.calls[0][1].signal.aborted).toBe(true);
+  });
+});
@@ -0,0 +1,113 @@
+// @vitest-environment happy-dom
+// The cache persists to localStorage
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DataCache } from '../utils/cache/dataCache';
+
+const persistedKeys = () => Object.keys(localStorage).filter((key) => key.startsWith('test-')).sort();
+
+// Promise resolved from outside, to keep a fetch in flight
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((done) => {
+    resolve = done;
+  });
+  return { promise, resolve };
+};
+
+describe('DataCache', () => {
+  let cache: DataCache;
+
+  beforeEach(() => {
+    localStorage.clear();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+    cache = new DataCache({ prefix: 'test-' });
+  });
+  afterEach(() => vi.useRealTimers());
+
+  it('shares one request between concurrent fetches of a key', async () => {
+    const request = deferred<string>();
+    const fetcher = vi.fn(() => request.promise);
+
+    const first = cache.fetch('rows', fetcher);
+    const second = cache.fetch('rows', fetcher);
+    expect(cache.getStats().inflight).toEqual(['rows']);
+    request.resolve('data');
+
+    await expect(Promise.all([first, second])).resolves.toEqual(['data', 'data']);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(cache.getStats().inflight).toEqual([]);
+    await expect(cache.fetch('rows', fetcher)).resolves.toBe('data');
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not cache failed requests', async () => {
+    await expect(cache.fetch('rows', () => Promise.reject(new Error('offline')))).rejects.toThrow('offline');
+    expect(cache.has('rows')).toBe(false);
+    await expect(cache.fetch('rows', async () => 'data')).resolves.toBe('data');
+  });
+
+  it('serves stale entries while revalidating them', async () => {
+    await cache.fetch('rows', async () => 'old', { ttl: 1000, staleTime: 5000 });
+    vi.advanceTimersByTime(2000);
+    expect(cache.get('rows')).toBeNull();
+
+    const fetcher = vi.fn(async () => 'new');
+    await expect(cache.fetch('rows', fetcher, { ttl: 1000, staleTime: 5000 })).resolves.toBe('old');
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    await vi.waitFor(() => expect(cache.get('rows')).toBe('new'));
+  });
+
+  it('refetches entries past their stale time', async () => {
+    await cache.fetch('rows', async () => 'old', { ttl: 1000, staleTime: 5000 });
+    vi.advanceTimersByTime(7000);
+    await expect(cache.fetch('rows', async () => 'new')).resolves.toBe('new');
+  });
+
+  it('clears only entries past their stale time', () => {
+    cache.set('stale', 1, { ttl: 1000, staleTime: 5000 });
+    cache.set('dead', 2, { ttl: 1000 });
+    vi.advanceTimersByTime(2000);
+    cache.clearExpired();
+    expect(cache.getStats().keys).toEqual(['stale']);
+  });
+
+  it('invalidates entries and in-flight requests by tag', async () => {
+    cache.set('a', 1, { tags: ['dataview:customers'] });
+    cache.set('b', 2, { tags: ['dataview:orders'] });
+    const request = deferred<number>();
+    const pending = cache.fetch('c', () => request.promise, { tags: ['dataview:customers'] });
+
+    expect(cache.invalidateTag('dataview:customers')).toBe(1);
+    request.resolve(3);
+    await expect(pending).resolves.toBe(3);
+
+    expect(cache.get('a')).toBeNull();
+    expect(cache.get('b')).toBe(2);
+    // Loaded before the invalidation - not cached
+    expect(cache.has('c')).toBe(false);
+  });
+
+  it('keeps memory-only entries out of localStorage', () => {
+    cache.set('typed', 'secret', { memoryOnly: true });
+    cache.set('rows', [1]);
+    expect(persistedKeys()).toEqual(['test-rows']);
+    expect(new DataCache({ prefix: 'test-' }).get('rows')).toEqual([1]);
+  });
+
+  it('drops the least recently used persisted entries over the cap', () => {
+    const capped = new DataCache({ prefix: 'test-', maxPersistedEntries: 2 });
+    capped.set('a', 1);
+    vi.advanceTimersByTime(10);
+    capped.set('b', 2);
+    vi.advanceTimersByTime(10);
+    capped.get('a');
+    vi.advanceTimersByTime(10);
+    capped.set('c', 3);
+
+    expect(persistedKeys()).toEqual(['test-a', 'test-c']);
+    // Evicted entries stay in memory
+    expect(capped.get('b')).toBe(2);
+  });
+});
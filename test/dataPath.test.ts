@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { formatPath, getPath, parsePath, resolveRowWildcards, ROW_WILDCARD, setPath } from '../utils/data/dataPath';
+
+describe('dataPath row wildcards', () => {
+  it('parses "[]" as the row wildcard segment', () => {
+    expect(parsePath('lines[].qty')).toEqual(['lines', ROW_WILDCARD, 'qty']);
+    expect(formatPath(['lines', ROW_WILDCARD, 'qty'])).toBe('lines[].qty');
+  });
+
+  it('replaces wildcards with the row indices, outermost first', () => {
+    expect(resolveRowWildcards('lines[].qty', [2])).toBe('lines[2].qty');
+    expect(resolveRowWildcards('orders[].lines[].qty', [1, 3])).toBe('orders[1].lines[3].qty');
+  });
+
+  it('keeps wildcards without a row index and paths without wildcards', () => {
+    expect(resolveRowWildcards('orders[].lines[].qty', [1])).toBe('orders[1].lines[].qty');
+    expect(resolveRowWildcards('customer.name', [4])).toBe('customer.name');
+    expect(resolveRowWildcards('lines[0].qty', [4])).toBe('lines[0].qty');
+  });
+
+  it('reads and writes through resolved paths', () => {
+    const data = { orders: [{ lines: [{ qty: 1 }] }, { lines: [{ qty: 2 }, { qty: 5 }] }] };
+    const path = resolveRowWildcards('orders[].lines[].qty', [1, 1]);
+    expect(getPath(data, path)).toBe(5);
+
+    const updated = setPath(data, path, 7);
+    expect(getPath(updated, path)).toBe(7);
+    expect(getPath(data, path)).toBe(5);
+  });
+});
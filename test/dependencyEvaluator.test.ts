@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import type { DependencyCondition, ValidationDependency } from '../stores/types';
+import { DependencyEvaluator } from '../utils/dependencies/dependencyEvaluator';
+import { ComputedPropertyEvaluator } from '../utils/properties/computedProperties';
+import { ZodValidationBuilder } from '../utils/validation/zodValidation';
+
+const field = (name: string, operator: DependencyCondition['operator'], value?: any): DependencyCondition => ({
+  type: 'fieldValue',
+  field: name,
+  operator,
+  value,
+});
+
+const group = (type: 'all' | 'any' | 'not', conditions: DependencyCondition[]): DependencyCondition => ({
+  type,
+  conditions,
+});
+
+const data = { country: 'NL', age: 17, tags: ['vip'] };
+const evaluate = (condition: DependencyCondition) => DependencyEvaluator.evaluateCondition(condition, { data });
+
+describe('DependencyEvaluator condition groups', () => {
+  it('requires every condition of an all group', () => {
+    expect(evaluate(group('all', [field('country', 'equals', 'NL'), field('tags', 'contains', 'vip')]))).toBe(true);
+    expect(evaluate(group('all', [field('country', 'equals', 'NL'), field('age', 'gte', 18)]))).toBe(false);
+  });
+
+  it('requires one condition of an any group', () => {
+    expect(evaluate(group('any', [field('country', 'equals', 'BE'), field('age', 'lt', 18)]))).toBe(true);
+    expect(evaluate(group('any', [field('country', 'equals', 'BE'), field('age', 'gte', 18)]))).toBe(false);
+  });
+
+  it('negates all of the conditions of a not group', () => {
+    expect(evaluate(group('not', [field('country', 'equals', 'BE')]))).toBe(true);
+    // NOT(NL and adult): one false condition is enough
+    expect(evaluate(group('not', [field('country', 'equals', 'NL'), field('age', 'gte', 18)]))).toBe(true);
+    expect(evaluate(group('not', [field('country', 'equals', 'NL'), field('age', 'lt', 18)]))).toBe(false);
+  });
+
+  it('treats empty all and not groups as true and an empty any group as false', () => {
+    expect(evaluate(group('all', []))).toBe(true);
+    expect(evaluate(group('not', []))).toBe(true);
+    expect(evaluate(group('any', []))).toBe(false);
+  });
+
+  it('evaluates nested groups and expressions', () => {
+    const condition = group('all', [
+      group('any', [field('country', 'in', ['NL', 'BE']), { type: 'expression', expression: 'data.age > 65' }]),
+      group('not', [field('tags', 'empty')]),
+    ]);
+    expect(evaluate(condition)).toBe(true);
+    expect(DependencyEvaluator.evaluateCondition(condition, { data: { ...data, tags: [] } })).toBe(false);
+  });
+
+  it('collects the fields read by nested conditions', () => {
+    const condition = group('any', [field('country', 'equals', 'NL'), group('not', [{ type: 'expression', expression: 'data.age > 18' }])]);
+    expect(DependencyEvaluator.getConditionDependencies(condition).data.sort()).toEqual(['age', 'country']);
+  });
+
+  it('evaluates rule properties of the rule builder (computeType condition)', () => {
+    const property = { computeType: 'condition' as const, condition: group('any', [field('age', 'gte', 18)]) };
+    expect(ComputedPropertyEvaluator.evaluate(property, data)).toBe(false);
+    expect(ComputedPropertyEvaluator.evaluate(property, { age: 30 })).toBe(true);
+    expect(ComputedPropertyEvaluator.getDependencies(property).data).toEqual(['age']);
+  });
+});
+
+describe('DependencyEvaluator conditional validation', () => {
+  const validation: ValidationDependency = {
+    enabledWhen: field('country', 'notEquals', 'BE'),
+    rules: [
+      { type: 'min', params: { limit: 3 }, message: 'Too short' },
+      { type: 'regex', params: { pattern: '^[0-9]+$' }, enabledWhen: field('country', 'equals', 'NL') },
+      { type: '' },
+    ],
+  };
+
+  it('turns the field validation off when enabledWhen fails', () => {
+    expect(DependencyEvaluator.evaluateValidation(validation, { data: { country: 'BE' } })).toEqual({ enabled: false, rules: [] });
+  });
+
+  it('keeps the rules whose own enabledWhen passes, as validation rules', () => {
+    expect(DependencyEvaluator.evaluateValidation(validation, { data: { country: 'NL' } })).toEqual({
+      enabled: true,
+      rules: [
+        { key: 'min', args: { limit: 3 }, message: 'Too short' },
+        { key: 'regex', args: { pattern: '^[0-9]+$' } },
+      ],
+    });
+    expect(DependencyEvaluator.evaluateValidation(validation, { data: { country: 'DE' } }).rules.map((rule) => rule.key)).toEqual(['min']);
+  });
+
+  it('validates with the rules that apply', async () => {
+    const messages = async (value: string, country: string) =>
+      ZodValidationBuilder.validateField(value, DependencyEvaluator.evaluateValidation(validation, { data: { country } }).rules);
+
+    await expect(messages('ab', 'DE')).resolves.toEqual(['Too short']);
+    await expect(messages('abc', 'DE')).resolves.toEqual([]);
+    await expect(messages('abc', 'NL')).resolves.toHaveLength(1);
+  });
+
+  it('is part of evaluateAllDependencies', () => {
+    const result = DependencyEvaluator.evaluateAllDependencies({ validation }, { data: { country: 'BE' } });
+    expect(result.validation).toEqual({ enabled: false, rules: [] });
+  });
+
+  it('collects the fields read by enabledWhen conditions', () => {
+    const dependencies = DependencyEvaluator.extractDependenciesByKind({
+      validation: { ...validation, rules: [{ type: 'required', enabledWhen: { type: 'expression', expression: 'data.hasPhone' } }] },
+    });
+    expect(dependencies.validation?.data.sort()).toEqual(['country', 'hasPhone']);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import type { ComponentDefinition } from '../stores/types';
+import { DependencyGraphAnalyzer, pathsOverlap } from '../utils/dependencies/dependencyGraph';
+
+const field = (id: string, props: Record<string, any> = {}, children?: ComponentDefinition[]): ComponentDefinition => ({
+  id,
+  type: 'TextInput',
+  name: id,
+  props: { dataKey: id, ...props },
+  children,
+});
+
+const computed = (fnSource: string) => ({ computeType: 'function', fnSource });
+
+describe('DependencyGraphAnalyzer', () => {
+  it('matches paths that are equal, parents or children, in any row', () => {
+    expect(pathsOverlap('customer', 'customer.name')).toBe(true);
+    expect(pathsOverlap('lines[2].qty', 'lines[].qty')).toBe(true);
+    expect(pathsOverlap('customer', 'customerName')).toBe(false);
+  });
+
+  it('detects two computed value properties feeding each other', () => {
+    const graph = DependencyGraphAnalyzer.build([
+      field('net', { value: computed('return data.gross / 1.2;') }),
+      field('gross', { value: computed('return data.net * 1.2;') }),
+    ]);
+
+    expect(graph.cycles).toHaveLength(1);
+    expect([...graph.cycles[0]].sort()).toEqual(['gross', 'net']);
+    expect(DependencyGraphAnalyzer.getCycles(graph, 'net')).toHaveLength(1);
+  });
+
+  it('detects cycles through dependencies.value', () => {
+    const graph = DependencyGraphAnalyzer.build([
+      field('a', { dependencies: { value: { type: 'expression', expression: 'data.b + 1' } } }),
+      field('b', { value: computed('return data.a;') }),
+    ]);
+    expect(graph.cycles).toHaveLength(1);
+  });
+
+  it('does not report cycles through reads that write nothing', () => {
+    const graph = DependencyGraphAnalyzer.build([
+      field('a', { renderWhen: computed('return data.b !== "";') }),
+      field('b', { label: computed('return data.a ? "B" : "Other";') }),
+    ]);
+    expect(graph.cycles).toEqual([]);
+    expect(graph.edges).toEqual(
+      expect.arrayContaining([
+        { from: 'b', to: 'a', kind: 'renderWhen', path: 'b' },
+        { from: 'a', to: 'b', kind: 'label', path: 'a' },
+      ])
+    );
+  });
+
+  it('lists computed value and label reads upstream and downstream', () => {
+    const graph = DependencyGraphAnalyzer.build([
+      field('qty'),
+      field('price'),
+      field('total', {
+        value: computed('return data.qty * data.price;'),
+        label: { computeType: 'condition', condition: { type: 'fieldValue', field: 'qty', operator: 'gt', value: 10 } },
+      }),
+    ]);
+
+    const upstream = DependencyGraphAnalyzer.getUpstream(graph, 'total').map((edge) => `${edge.from}:${edge.kind}`);
+    expect(upstream.sort()).toEqual(['price:value', 'qty:label', 'qty:value']);
+    expect(DependencyGraphAnalyzer.getDownstream(graph, 'qty').map((edge) => edge.to)).toEqual(['total', 'total']);
+  });
+
+  it('resolves row-relative reads inside a Repeater and reports unbound paths', () => {
+    const repeater: ComponentDefinition = {
+      id: 'lines',
+      type: 'Repeater',
+      name: 'lines',
+      props: { dataKey: 'lines' },
+      children: [field('qty'), field('amount', { value: computed('return parentData.qty * data.rate;') })],
+    };
+    const graph = DependencyGraphAnalyzer.build([repeater]);
+
+    expect(graph.nodes.amount.dataKey).toBe('lines[].amount');
+    expect(DependencyGraphAnalyzer.getUpstream(graph, 'amount')).toEqual([
+      { from: 'qty', to: 'amount', kind: 'value', path: 'qty' },
+    ]);
+    expect(graph.missing).toEqual([{ componentId: 'amount', kind: 'value', path: 'rate' }]);
+  });
+});
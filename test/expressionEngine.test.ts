@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { ExpressionEngine, ExpressionError } from '../utils/expressions/expressionEngine';
+
+describe('ExpressionEngine strict mode', () => {
+  afterEach(() => ExpressionEngine.setStrictMode(false));
+
+  it('runs sources outside the grammar as JavaScript when not strict', () => {
+    expect(ExpressionEngine.evaluate('new Date(0).getTime()', {})).toBe(0);
+    expect(ExpressionEngine.run('function twice(n) { return n * 2; } return twice(data.qty);', { data: { qty: 3 } })).toBe(6);
+  });
+
+  it('refuses sources outside the grammar in strict mode', () => {
+    expect(() => ExpressionEngine.evaluate('new Date(0).getTime()', {}, { strict: true })).toThrow(ExpressionError);
+    expect(() => ExpressionEngine.run('function twice(n) { return n * 2; } return twice(1);', {}, { strict: true })).toThrow(
+      /refused in strict mode/
+    );
+  });
+
+  it('follows the default strict mode unless the call overrides it', () => {
+    ExpressionEngine.setStrictMode(true);
+    expect(() => ExpressionEngine.evaluate('new Date(0).getTime()', {})).toThrow(ExpressionError);
+    expect(ExpressionEngine.evaluate('new Date(0).getTime()', {}, { strict: false })).toBe(0);
+  });
+
+  it('still evaluates sources inside the grammar in strict mode', () => {
+    const scope = { data: { qty: 2, price: 4.5, items: [1, 2, 3] } };
+    expect(ExpressionEngine.evaluate('data.qty * data.price', scope, { strict: true })).toBe(9);
+    expect(ExpressionEngine.evaluate('data.items.filter((item) => item > 1).length', scope, { strict: true })).toBe(2);
+  });
+
+  it('rejects sandbox escapes in either mode', () => {
+    const scope = { data: { name: 'x' } };
+    for (const strict of [false, true]) {
+      expect(() => ExpressionEngine.evaluate('data.constructor', scope, { strict })).toThrow(ExpressionError);
+      expect(() => ExpressionEngine.evaluate("data['__proto__']", scope, { strict })).toThrow(ExpressionError);
+      expect(() => ExpressionEngine.evaluate('window.location', scope, { strict })).toThrow(ExpressionError);
+    }
+  });
+
+  it('refuses reassigning const bindings', () => {
+    for (const strict of [false, true]) {
+      expect(() => ExpressionEngine.run('const a = 1; a = 2; return a;', {}, { strict })).toThrow(ExpressionError);
+      expect(() => ExpressionEngine.run('const total = 0; total += 1; return total;', {}, { strict })).toThrow(
+        /constant "total"/
+      );
+      expect(() => ExpressionEngine.run('for (const item of [1, 2]) { item = 3; } return 0;', {}, { strict })).toThrow(
+        ExpressionError
+      );
+    }
+  });
+
+  it('allows reassigning let bindings', () => {
+    expect(ExpressionEngine.run('let total = 0; for (const item of data.items) { total += item; } return total;', {
+      data: { items: [1, 2, 3] },
+    }, { strict: true })).toBe(6);
+    expect(ExpressionEngine.run('const a = 1; if (true) { let a = 2; a = 3; } return a;', {}, { strict: true })).toBe(1);
+  });
+});
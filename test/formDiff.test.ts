@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import type { ComponentDefinition } from '../stores/types';
+import { FormDiff } from '../utils/formDiff';
+
+const input = (id: string, props: Record<string, any> = {}): ComponentDefinition => ({
+  id,
+  type: 'TextInput',
+  name: id,
+  props: { label: id, ...props },
+});
+
+const container = (id: string, children: ComponentDefinition[]): ComponentDefinition => ({
+  id,
+  type: 'Container',
+  name: id,
+  props: {},
+  children,
+});
+
+const kinds = (before: ComponentDefinition[], after: ComponentDefinition[]) =>
+  FormDiff.diff(before, after).map((change) => `${change.kind}:${change.componentId}`);
+
+describe('FormDiff', () => {
+  it('finds no changes between equal trees, whatever the key order', () => {
+    const before = [input('a', { required: true, dataKey: 'a' })];
+    const after = [{ ...input('a'), props: { dataKey: 'a', required: true, label: 'a' } }];
+    expect(FormDiff.diff(before, after)).toEqual([]);
+  });
+
+  it('lists added and removed containers once, with their descendants counted', () => {
+    const before = [input('a'), container('old', [input('b'), input('c')])];
+    const after = [input('a'), container('new', [container('inner', [input('d')])])];
+
+    const changes = FormDiff.diff(before, after);
+    expect(changes.map((change) => `${change.kind}:${change.componentId}`)).toEqual(['added:new', 'removed:old']);
+    expect(changes[0]).toMatchObject({ to: { parentId: null, index: 1 }, descendants: 2 });
+    expect(changes[1]).toMatchObject({ from: { parentId: null, index: 1 }, descendants: 2 });
+  });
+
+  it('reports components moved to another container', () => {
+    const before = [container('x', [input('a')]), container('y', [])];
+    const after = [container('x', []), container('y', [input('a')])];
+
+    const [change] = FormDiff.diff(before, after);
+    expect(change).toMatchObject({ kind: 'moved', componentId: 'a', from: { parentId: 'x' }, to: { parentId: 'y' } });
+  });
+
+  it('reports only the reordered sibling, not the ones that shifted', () => {
+    const before = [input('a'), input('b'), input('c'), input('d')];
+    expect(kinds(before, [input('b'), input('c'), input('d'), input('a')])).toEqual(['moved:a']);
+    // Removing a sibling shifts the indexes of the rest without moving them
+    expect(kinds(before, [input('b'), input('c'), input('d')])).toEqual(['removed:a']);
+  });
+
+  it('lists changed props, type and name', () => {
+    const before = [input('a', { required: false })];
+    const after: ComponentDefinition[] = [{ ...input('a', { label: 'Name', required: true }), type: 'TextArea', name: 'fullName' }];
+
+    const [change] = FormDiff.diff(before, after);
+    expect(change).toMatchObject({ kind: 'propsChanged', label: 'Name' });
+    expect(change.props).toEqual([
+      { key: 'type', before: 'TextInput', after: 'TextArea' },
+      { key: 'name', before: 'a', after: 'fullName' },
+      { key: 'label', before: 'a', after: 'Name' },
+      { key: 'required', before: false, after: true },
+    ]);
+  });
+
+  it('reports dependency changes per entry, apart from props', () => {
+    const before = [input('a', { dependencies: { renderWhen: 'x > 1', value: '1' } })];
+    const after = [input('a', { dependencies: { renderWhen: 'x > 2', value: '1', enabledWhen: 'y' } })];
+
+    const changes = FormDiff.diff(before, after);
+    expect(changes).toHaveLength(1);
+    expect(changes[0].kind).toBe('dependenciesChanged');
+    expect(changes[0].props).toEqual([
+      { key: 'enabledWhen', before: undefined, after: 'y' },
+      { key: 'renderWhen', before: 'x > 1', after: 'x > 2' },
+    ]);
+  });
+
+  it('counts changes by kind', () => {
+    const changes = FormDiff.diff([input('a'), input('b')], [input('b', { required: true }), input('c')]);
+    expect(FormDiff.summarize(changes)).toEqual({
+      added: 1,
+      removed: 1,
+      moved: 0,
+      propsChanged: 1,
+      dependenciesChanged: 0,
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import type { ComponentDefinition } from '../stores/types';
+import { FormLinter } from '../utils/formLint';
+
+const component = (
+  id: string,
+  type: string,
+  props: Record<string, any> = {},
+  children?: ComponentDefinition[]
+): ComponentDefinition => ({ id, type: type as ComponentDefinition['type'], name: id, props, children });
+
+const rulesOf = (components: ComponentDefinition[], options = {}) =>
+  FormLinter.lint(components, options).map((issue) => `${issue.rule}:${issue.componentId}`);
+
+describe('FormLinter', () => {
+  it('passes a clean form', () => {
+    const issues = FormLinter.lint([
+      component('name', 'TextInput', { dataKey: 'name' }),
+      component('country', 'Select', { dataKey: 'country', options: [{ value: 'fr', label: 'France' }] }),
+    ]);
+    expect(issues).toEqual([]);
+    expect(FormLinter.canSave(issues)).toBe(true);
+  });
+
+  it('reports duplicate dataKeys as errors and duplicate names as warnings', () => {
+    const issues = FormLinter.lint([
+      component('a', 'TextInput', { dataKey: 'email' }),
+      { ...component('b', 'TextInput', { dataKey: 'email' }), name: 'a' },
+    ]);
+    expect(issues.map((issue) => `${issue.severity}:${issue.rule}:${issue.componentId}`)).toEqual([
+      'error:duplicateDataKey:a',
+      'error:duplicateDataKey:b',
+      'warning:duplicateName:a',
+      'warning:duplicateName:b',
+    ]);
+    expect(FormLinter.canSave(issues)).toBe(false);
+  });
+
+  it('does not treat the same key in a Repeater row and outside it as a duplicate', () => {
+    const repeater = component('lines', 'Repeater', { dataKey: 'lines' }, [component('rowQty', 'TextInput', { dataKey: 'qty' })]);
+    expect(rulesOf([component('qty', 'TextInput', { dataKey: 'qty' }), repeater])).toEqual([]);
+  });
+
+  it('reports inputs without a dataKey and selects without options', () => {
+    expect(rulesOf([component('free', 'TextInput'), component('pick', 'Select', { dataKey: 'pick', options: [] })])).toEqual([
+      'missingDataKey:free',
+      'emptyOptions:pick',
+    ]);
+  });
+
+  it('reports broken filterBy sources and dependency cycles', () => {
+    const issues = rulesOf([
+      component('city', 'Select', {
+        dataKey: 'city',
+        options: [{ value: 'paris', label: 'Paris' }],
+        dependencies: { filterBy: { sourceField: 'country', targetParam: 'countryId' } },
+      }),
+      component('net', 'Amount', { dataKey: 'net', value: { computeType: 'function', fnSource: 'return data.gross / 1.2;' } }),
+      component('gross', 'Amount', { dataKey: 'gross', value: { computeType: 'function', fnSource: 'return data.net * 1.2;' } }),
+    ]);
+    expect(issues).toContain('brokenFilterSource:city');
+    expect(issues.filter((issue) => issue.startsWith('dependencyCycle'))).toHaveLength(1);
+  });
+
+  it('reports openModal actions whose modal does not exist', () => {
+    const button = component('open', 'Button', {
+      events: { onClick: [{ name: 'openModal', type: 'common', args: { modalId: 'missing' } }] },
+    });
+    expect(rulesOf([button])).toEqual(['missingModal:open']);
+  });
+
+  it('reports unknown dataviews only when the dataview list knows', () => {
+    const select = component('pick', 'Select', { dataKey: 'pick', optionsSource: { dataview_id: 'countries' } });
+    expect(rulesOf([select], { hasDataview: () => false })).toEqual(['unknownDataview:pick']);
+    expect(rulesOf([select], { hasDataview: () => undefined })).toEqual([]);
+  });
+
+  it('reports empty wizards and steps that never render', () => {
+    const wizard = component('wizard', 'Wizard', {}, [
+      component('hidden', 'Container', { renderWhen: { value: false } }, [component('x', 'TextInput', { dataKey: 'x' })]),
+      component('empty', 'Container', {}, []),
+    ]);
+    expect(rulesOf([wizard, component('bare', 'Wizard', {}, [])])).toEqual([
+      'unreachableWizardStep:hidden',
+      'unreachableWizardStep:empty',
+      'unreachableWizardStep:bare',
+    ]);
+  });
+
+  it('applies severity overrides', () => {
+    const issues = FormLinter.lint([component('free', 'TextInput')], { severity: { missingDataKey: 'off' } });
+    expect(issues).toEqual([]);
+  });
+});
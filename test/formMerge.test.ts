@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import type { ComponentDefinition } from '../stores/types';
+import { FormMerge } from '../utils/formMerge';
+
+const input = (id: string, props: Record<string, any> = {}): ComponentDefinition => ({
+  id,
+  type: 'TextInput',
+  name: id,
+  props: { label: id, ...props },
+});
+
+const container = (id: string, children: ComponentDefinition[]): ComponentDefinition => ({
+  id,
+  type: 'Container',
+  name: id,
+  props: {},
+  children,
+});
+
+const ids = (components: ComponentDefinition[]): string[] => components.map((component) => component.id);
+
+describe('FormMerge three-way merge', () => {
+  const base = [input('a'), input('b')];
+
+  it('takes over changes made on one side only', () => {
+    const mine = [input('a', { label: 'First' }), input('b')];
+    const theirs = [input('a'), input('b', { required: true }), input('c')];
+    const { components, conflicts } = FormMerge.merge(base, mine, theirs);
+
+    expect(conflicts).toEqual([]);
+    expect(ids(components)).toEqual(['a', 'b', 'c']);
+    expect(components[0].props.label).toBe('First');
+    expect(components[1].props.required).toBe(true);
+  });
+
+  it('merges different props of one component changed on both sides', () => {
+    const mine = [input('a', { label: 'First' }), input('b')];
+    const theirs = [input('a', { placeholder: 'Type here' }), input('b')];
+    const { components, conflicts } = FormMerge.merge(base, mine, theirs);
+
+    expect(conflicts).toEqual([]);
+    expect(components[0].props).toMatchObject({ label: 'First', placeholder: 'Type here' });
+  });
+
+  it('reports a props conflict and takes the chosen side (mine by default)', () => {
+    const mine = [input('a', { label: 'Mine' }), input('b')];
+    const theirs = [input('a', { label: 'Theirs' }), input('b')];
+
+    const merged = FormMerge.merge(base, mine, theirs);
+    expect(merged.conflicts).toHaveLength(1);
+    expect(merged.conflicts[0]).toMatchObject({ componentId: 'a', kinds: ['props'], keys: ['label'] });
+    expect(merged.components[0].props.label).toBe('Mine');
+
+    const chosen = FormMerge.merge(base, mine, theirs, { a: 'theirs' });
+    expect(chosen.components[0].props.label).toBe('Theirs');
+  });
+
+  it('drops a component deleted on one side and untouched on the other', () => {
+    const mine = [input('a')];
+    const { components, conflicts } = FormMerge.merge(base, mine, base);
+
+    expect(conflicts).toEqual([]);
+    expect(ids(components)).toEqual(['a']);
+  });
+
+  it('reports a delete conflict when the other side changed the component', () => {
+    const mine = [input('a')];
+    const theirs = [input('a'), input('b', { label: 'Changed' })];
+
+    const merged = FormMerge.merge(base, mine, theirs);
+    expect(merged.conflicts).toHaveLength(1);
+    expect(merged.conflicts[0]).toMatchObject({ componentId: 'b', kinds: ['deleted'] });
+    expect(merged.conflicts[0].mine).toBeUndefined();
+    expect(ids(merged.components)).toEqual(['a']);
+
+    const kept = FormMerge.merge(base, mine, theirs, { b: 'theirs' });
+    expect(ids(kept.components)).toEqual(['a', 'b']);
+    expect(kept.components[1].props.label).toBe('Changed');
+  });
+
+  it('reports a move conflict when both sides moved a component to different containers', () => {
+    const nestedBase = [container('left', []), container('right', []), input('a')];
+    const mine = [container('left', [input('a')]), container('right', [])];
+    const theirs = [container('left', []), container('right', [input('a')])];
+
+    const merged = FormMerge.merge(nestedBase, mine, theirs);
+    expect(merged.conflicts).toHaveLength(1);
+    expect(merged.conflicts[0]).toMatchObject({ componentId: 'a', kinds: ['moved'] });
+    expect(ids(merged.components[0].children!)).toEqual(['a']);
+    expect(ids(merged.components[1].children!)).toEqual([]);
+
+    const chosen = FormMerge.merge(nestedBase, mine, theirs, { a: 'theirs' });
+    expect(ids(chosen.components[0].children!)).toEqual([]);
+    expect(ids(chosen.components[1].children!)).toEqual(['a']);
+  });
+
+  it('drops components whose container was deleted', () => {
+    const nestedBase = [container('box', [input('a')])];
+    const mine: ComponentDefinition[] = [];
+    const { components, conflicts } = FormMerge.merge(nestedBase, mine, nestedBase);
+
+    expect(conflicts).toEqual([]);
+    expect(components).toEqual([]);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import type { DataGridColumn } from '../stores/types';
+import { GridEditing } from '../utils/data/gridEditing';
+
+const columns: DataGridColumn[] = [
+  { field: 'product', headerName: 'Product', editor: 'text', required: true },
+  {
+    field: 'qty',
+    headerName: 'Qty',
+    editor: 'number',
+    defaultValue: 1,
+    validations: [{ key: 'min', args: { limit: 1 }, message: 'At least one' }],
+  },
+  { field: 'gift', editor: 'checkbox' },
+  { field: 'sku' },
+];
+
+describe('GridEditing', () => {
+  it('coerces editor input to stored values', () => {
+    expect(GridEditing.coerce('12', 'number')).toBe(12);
+    expect(GridEditing.coerce('12x', 'number')).toBe('12x');
+    expect(GridEditing.coerce('', 'text')).toBeNull();
+    expect(GridEditing.coerce(undefined, 'date')).toBeNull();
+    expect(GridEditing.coerce(1, 'checkbox')).toBe(true);
+  });
+
+  it('creates rows with column defaults', () => {
+    expect(GridEditing.createRow(columns)).toEqual({ qty: 1, gift: false });
+    expect(GridEditing.toColumns(['sku', { field: 'qty', editor: 'number' }])).toEqual([
+      { field: 'sku' },
+      { field: 'qty', editor: 'number' },
+    ]);
+  });
+
+  it('validates cells with the required flag and the column rules', async () => {
+    await expect(GridEditing.validateCell(null, columns[0])).resolves.toEqual(['This field is required']);
+    await expect(GridEditing.validateCell('Tea', columns[0])).resolves.toEqual([]);
+    await expect(GridEditing.validateCell(0, columns[1])).resolves.toEqual(['At least one']);
+    await expect(GridEditing.validateCell('anything', columns[3])).resolves.toEqual([]);
+  });
+
+  it('skips rules whose validateWhen is false for the form data', async () => {
+    const column: DataGridColumn = {
+      field: 'qty',
+      editor: 'number',
+      validations: [{ key: 'min', args: { limit: 5 }, message: 'Bulk orders need 5', validateWhen: 'data.bulk' }],
+    };
+    await expect(GridEditing.validateCell(2, column, { bulk: false })).resolves.toEqual([]);
+    await expect(GridEditing.validateCell(2, column, { bulk: true })).resolves.toEqual(['Bulk orders need 5']);
+  });
+
+  it('validates every editable cell and lists the errors by row', async () => {
+    const rows = [
+      { product: 'Tea', qty: 2 },
+      { product: '', qty: 0, sku: '' },
+    ];
+    const errors = await GridEditing.validateRows(rows, columns);
+    expect(errors).toEqual({ '1:product': 'This field is required', '1:qty': 'At least one' });
+    expect(GridEditing.toMessages(errors, columns)).toEqual([
+      'Row 2, Product: This field is required',
+      'Row 2, Qty: At least one',
+    ]);
+  });
+
+  it('moves cell errors up when a row is removed', () => {
+    const errors = { '0:qty': 'a', '1:qty': 'b', '2:product': 'c' };
+    expect(GridEditing.removeRowErrors(errors, 1)).toEqual({ '0:qty': 'a', '1:product': 'c' });
+  });
+
+  it('marks rows that differ from the row they started from', () => {
+    const baseline = [{ qty: 1 }, { qty: 2 }];
+    const rows = [{ qty: 2 }, { qty: 5 }, { qty: 1 }];
+    // Row 0 is baseline row 1 (moved up), row 1 was edited, row 2 was added
+    expect(GridEditing.getDirtyRows(rows, baseline, [1, 0, null])).toEqual([false, true, true]);
+  });
+});
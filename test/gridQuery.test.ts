@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { GridQuery } from '../utils/data/gridQuery';
+
+const rows = [
+  { id: 1, name: 'banana', qty: 10, added: '2024-03-01' },
+  { id: 2, name: 'Apple', qty: 2, added: '2024-01-15' },
+  { id: 3, name: 'cherry', qty: null, added: '2024-02-10' },
+  { id: 4, name: 'apricot', qty: 25, added: '' },
+];
+
+const ids = (result: any[]) => result.map((row) => row.id);
+
+describe('GridQuery', () => {
+  it('filters with typed comparisons', () => {
+    expect(ids(GridQuery.apply(rows, { conditions: [{ field: 'qty', operator: 'gt', value: '5', type: 'number' }] }))).toEqual([1, 4]);
+    expect(ids(GridQuery.apply(rows, { conditions: [{ field: 'added', operator: 'lt', value: '2024-02-20', type: 'date' }] }))).toEqual([2, 3]);
+    expect(ids(GridQuery.apply(rows, { conditions: [{ field: 'name', operator: 'equals', value: 'apple' }] }))).toEqual([2]);
+    expect(ids(GridQuery.apply(rows, { conditions: [{ field: 'name', operator: 'contains', value: 'AP' }] }))).toEqual([2, 4]);
+    expect(ids(GridQuery.apply(rows, { conditions: [{ field: 'id', operator: 'in', value: '1, 3', type: 'integer' }] }))).toEqual([1, 3]);
+    expect(ids(GridQuery.apply(rows, { conditions: [{ field: 'qty', operator: 'empty' }] }))).toEqual([3]);
+  });
+
+  it('ignores filters without a value', () => {
+    const filter = { field: 'name', operator: 'contains' as const, value: '' };
+    expect(GridQuery.isActive(filter)).toBe(false);
+    expect(GridQuery.apply(rows, { conditions: [filter] })).toBe(rows);
+  });
+
+  it('searches all columns', () => {
+    expect(ids(GridQuery.apply(rows, { conditions: [], search: ' CHER ' }))).toEqual([3]);
+  });
+
+  it('sorts by several fields with empty values last', () => {
+    expect(ids(GridQuery.apply(rows, undefined, [{ field: 'qty', direction: 'asc' }]))).toEqual([2, 1, 4, 3]);
+    expect(ids(GridQuery.apply(rows, undefined, [{ field: 'qty', direction: 'desc' }]))).toEqual([4, 1, 2, 3]);
+    expect(ids(GridQuery.apply(rows, undefined, [{ field: 'name', direction: 'asc' }]))).toEqual([2, 4, 1, 3]);
+  });
+
+  it('pages query results', () => {
+    const page = GridQuery.page(rows, {
+      startPage: 1,
+      recordsPerPage: 2,
+      sortData: [{ field: 'id', direction: 'desc' }],
+    });
+    expect(page).toEqual({ data: [rows[1], rows[0]], totalRecords: 4, totalPages: 2 });
+  });
+
+  it('builds request bodies with equality filters and the full condition list', () => {
+    const request = GridQuery.toRequest(
+      {
+        conditions: [
+          { field: 'name', operator: 'equals', value: 'Apple' },
+          { field: 'qty', operator: 'gte', value: 2 },
+          { field: 'added', operator: 'equals', value: '' },
+        ],
+        search: 'ap',
+      },
+      [{ field: 'qty', direction: 'asc' }]
+    );
+    expect(request).toEqual({
+      filters: { name: 'Apple' },
+      conditions: [
+        { field: 'name', operator: 'equals', value: 'Apple' },
+        { field: 'qty', operator: 'gte', value: 2 },
+      ],
+      search: 'ap',
+      sort: [{ field: 'qty', direction: 'asc' }],
+    });
+  });
+
+  it('reads server pages and pages unpaged responses client-side', () => {
+    const params = { startPage: 0, recordsPerPage: 2 };
+    expect(GridQuery.fromResponse({ items: rows.slice(0, 2), total: 40 }, params)).toEqual({
+      data: rows.slice(0, 2),
+      totalRecords: 40,
+      totalPages: 20,
+    });
+    expect(GridQuery.fromResponse(rows, params)).toEqual({ data: rows.slice(0, 2), totalRecords: 4, totalPages: 2 });
+  });
+});
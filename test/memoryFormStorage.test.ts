@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { assertBaseVersion, FormConflictError, type FormResponse } from '../api/services/storage/formStorage';
+import { MemoryFormStorage } from '../api/services/storage/memoryFormStorage';
+
+const stored = (overrides: Partial<FormResponse> = {}): FormResponse => ({
+  id: 'form-1',
+  formName: 'Customer',
+  formData: [],
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-02T00:00:00.000Z',
+  revision: 3,
+  ...overrides,
+});
+
+describe('assertBaseVersion', () => {
+  it('accepts updates based on the stored revision', () => {
+    expect(() => assertBaseVersion(stored(), { formName: 'Customer', formData: [], baseRevision: 3 })).not.toThrow();
+  });
+
+  it('rejects updates based on an older revision', () => {
+    const existing = stored();
+    try {
+      assertBaseVersion(existing, { formName: 'Customer', formData: [], baseRevision: 2 });
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(FormConflictError);
+      expect((error as FormConflictError).current).toBe(existing);
+      expect((error as Error).message).toContain('now at revision 3');
+    }
+  });
+
+  it('compares updatedAt when the stored form has no revision', () => {
+    const existing = stored({ revision: undefined });
+    expect(() =>
+      assertBaseVersion(existing, { formName: 'Customer', formData: [], baseRevision: 1, baseUpdatedAt: existing.updatedAt })
+    ).not.toThrow();
+    expect(() =>
+      assertBaseVersion(existing, { formName: 'Customer', formData: [], baseUpdatedAt: '2024-01-01T00:00:00.000Z' })
+    ).toThrow(FormConflictError);
+  });
+
+  it('skips the check for updates without a base version', () => {
+    expect(() => assertBaseVersion(stored(), { formName: 'Customer', formData: [] })).not.toThrow();
+  });
+});
+
+describe('MemoryFormStorage', () => {
+  let storage: MemoryFormStorage;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+    storage = new MemoryFormStorage();
+  });
+  afterEach(() => vi.useRealTimers());
+
+  it('saves forms as copies of the request', async () => {
+    const formData = [{ id: 'name', type: 'TextInput' }];
+    const saved = await storage.save({ formName: 'Customer', formData });
+    formData[0].type = 'Changed';
+    saved.formName = 'Changed';
+
+    const loaded = await storage.load(saved.id);
+    expect(loaded).toMatchObject({ formName: 'Customer', revision: 1, formData: [{ type: 'TextInput' }] });
+  });
+
+  it('numbers the revisions of every update', async () => {
+    const saved = await storage.save({ formName: 'Customer', formData: [], message: 'first' });
+    vi.advanceTimersByTime(1000);
+    const updated = await storage.update(saved.id, { formName: 'Customers', formData: [], baseRevision: 1, message: 'rename' });
+
+    expect(updated).toMatchObject({ revision: 2, createdAt: saved.createdAt });
+    expect(updated.updatedAt).not.toBe(saved.updatedAt);
+    const revisions = await storage.listRevisions(saved.id);
+    expect(revisions.map((revision) => [revision.revision, revision.message])).toEqual([[2, 'rename'], [1, 'first']]);
+    await expect(storage.loadRevision(saved.id, `${saved.id}@1`)).resolves.toMatchObject({ formName: 'Customer' });
+  });
+
+  it('rejects updates of a form saved since their base revision', async () => {
+    const saved = await storage.save({ formName: 'Customer', formData: [] });
+    await storage.update(saved.id, { formName: 'Mine', formData: [], baseRevision: 1 });
+
+    await expect(storage.update(saved.id, { formName: 'Theirs', formData: [], baseRevision: 1 })).rejects.toBeInstanceOf(
+      FormConflictError
+    );
+    await expect(storage.load(saved.id)).resolves.toMatchObject({ formName: 'Mine', revision: 2 });
+  });
+
+  it('rejects unknown forms and revisions', async () => {
+    await expect(storage.load('missing')).rejects.toThrow('Form not found: missing');
+    await expect(storage.update('missing', { formName: 'x', formData: [] })).rejects.toThrow('Form not found');
+    await expect(storage.loadRevision('missing', 'missing@1')).rejects.toThrow('Revision not found');
+  });
+
+  it('lists forms most recently updated first, paged', async () => {
+    for (const formName of ['A', 'B', 'C']) {
+      await storage.save({ formName, formData: [] });
+      vi.advanceTimersByTime(1000);
+    }
+
+    const all = await storage.list();
+    expect(all.data.map((form) => form.formName)).toEqual(['C', 'B', 'A']);
+    const page = await storage.list({ page: 1, pageSize: 2 });
+    expect(page).toMatchObject({ totalRecords: 3, totalPages: 2 });
+    expect(page.data.map((form) => form.formName)).toEqual(['A']);
+  });
+
+  it('starts from initial forms at revision 1 and deletes them with their history', async () => {
+    storage = new MemoryFormStorage([stored({ revision: undefined })]);
+    await expect(storage.listRevisions('form-1')).resolves.toHaveLength(1);
+
+    await storage.delete('form-1');
+    await expect(storage.load('form-1')).rejects.toThrow();
+    await expect(storage.listRevisions('form-1')).rejects.toThrow();
+  });
+});
@@ -0,0 +1,162 @@
+// @vitest-environment happy-dom
+// DataCache reads and writes localStorage
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { openAPIUtils } from '../utils/api/openApiUtils';
+
+const petstore = `
+openapi: 3.0.3
+info:
+  title: Petstore
+  description: >
+    Folded
+    description
+servers:
+  - url: https://api.example.com/v1
+x-defaults: &paging
+  name: pageSize
+  in: query
+  schema: { type: integer }
+paths:
+  /pets:
+    get:
+      operationId: listPets
+      tags: [pets]
+      parameters:
+        - <<: *paging
+          description: Page size
+        - name: status
+          in: query
+          schema:
+            type: string
+            enum: [available, sold]
+      responses:
+        '200':
+          description: Pets
+          content:
+            application/json:
+              schema:
+                type: object
+                properties:
+                  data:
+                    type: array
+                    items:
+                      $ref: '#/components/schemas/Pet'
+    post:
+      operationId: searchPets
+      requestBody:
+        content:
+          application/json:
+            schema:
+              type: object
+      responses:
+        '200':
+          description: Found
+  /pets/{petId}:
+    parameters:
+      - name: petId
+        in: path
+        schema: { type: string }
+    delete:
+      operationId: deletePet
+      responses:
+        '204':
+          description: Deleted
+    put:
+      operationId: touchPet
+      responses:
+        '200':
+          description: Touched
+components:
+  schemas:
+    Pet:
+      type: object
+      properties:
+        id: { type: integer }
+        name: { type: string }
+        parent:
+          $ref: '#/components/schemas/Pet'
+`;
+
+describe('OpenAPIUtils', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('parses YAML specs with anchors, merge keys and block scalars', () => {
+    const spec = openAPIUtils.parseSpec(petstore);
+    expect(spec.openapi).toBe('3.0.3');
+    expect(spec.info.description).toBe('Folded description\n');
+    expect(spec.paths['/pets'].get.parameters[0]).toEqual({
+      name: 'pageSize',
+      in: 'query',
+      schema: { type: 'integer' },
+      description: 'Page size',
+    });
+  });
+
+  it('parses JSON specs and reads Swagger versions as strings', () => {
+    expect(openAPIUtils.parseSpec('{"swagger": "2.0", "paths": {}}').swagger).toBe('2.0');
+    expect(openAPIUtils.parseSpec('swagger: 2.0\npaths: {}').swagger).toBe('2');
+  });
+
+  it('rejects invalid YAML and documents that are not specs', () => {
+    expect(() => openAPIUtils.parseSpec('openapi: 3.0.0\ninfo: value\n  bad: indent\n')).toThrow();
+    expect(() => openAPIUtils.parseSpec('name: not a spec')).toThrow(/Not an OpenAPI or Swagger document/);
+  });
+
+  it('resolves local refs, keeping circular ones as refs', () => {
+    const resolved = openAPIUtils.resolveRefs({
+      components: { schemas: { Pet: { type: 'object', properties: { parent: { $ref: '#/components/schemas/Pet' } } } } },
+      schema: { $ref: '#/components/schemas/Pet', description: 'A pet' },
+      missing: { $ref: '#/components/schemas/Missing' },
+    });
+
+    expect(resolved.schema).toEqual({
+      type: 'object',
+      description: 'A pet',
+      properties: { parent: { $ref: '#/components/schemas/Pet' } },
+    });
+    expect(resolved.missing).toEqual({ $ref: '#/components/schemas/Missing' });
+    expect(() => JSON.stringify(resolved)).not.toThrow();
+  });
+
+  it('lists operations with parameters, request bodies and record paths', () => {
+    const operations = openAPIUtils.listOperations(openAPIUtils.parseSpec(petstore));
+    const byId = Object.fromEntries(operations.map((operation) => [operation.id, operation]));
+
+    expect(Object.keys(byId).sort()).toEqual(['deletePet', 'listPets', 'searchPets', 'touchPet']);
+    expect(byId.listPets).toMatchObject({ method: 'GET', path: '/pets', tags: ['pets'], itemsPath: 'data' });
+    expect(byId.listPets.parameters.map((parameter) => parameter.name)).toEqual(['pageSize', 'status']);
+    expect(byId.listPets.itemSchema.properties.name).toEqual({ type: 'string' });
+    expect(byId.searchPets.requestBodySchema).toEqual({ type: 'object' });
+    expect(byId.deletePet.parameters).toEqual([
+      { name: 'petId', in: 'path', required: true, description: undefined, schema: { type: 'string' } },
+    ]);
+  });
+
+  it('sends the paging body only to operations that declare a request body', async () => {
+    const specUrl = 'https://api.example.com/openapi.yaml';
+    const fetchMock = vi.fn(async (url: string) => ({
+      ok: true,
+      statusText: 'OK',
+      text: async () => petstore,
+      json: async () => ({ url }),
+    }));
+    vi.stubGlobal('fetch', fetchMock);
+    const operations = openAPIUtils.listOperations(openAPIUtils.parseSpec(petstore));
+    const find = (id: string) => operations.find((operation) => operation.id === id)!;
+
+    await openAPIUtils.callOperation(specUrl, find('searchPets'), {}, 20);
+    await openAPIUtils.callOperation(specUrl, find('touchPet'), { petId: 7 });
+    await openAPIUtils.callOperation(specUrl, find('listPets'), { status: 'sold' }, 20);
+
+    const calls = fetchMock.mock.calls.filter(([url]) => url !== specUrl) as unknown as [string, RequestInit][];
+    expect(calls.map(([url]) => url)).toEqual([
+      'https://api.example.com/v1/pets',
+      'https://api.example.com/v1/pets/7',
+      'https://api.example.com/v1/pets?pageSize=20&status=sold',
+    ]);
+    expect(JSON.parse(calls[0][1].body as string)).toEqual({ page: 1, pageSize: 20, filters: {}, sort: [] });
+    expect(calls[1][1].body).toBeUndefined();
+    expect(calls[2][1].body).toBeUndefined();
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_TREE_KEYS, TreeData, type TreeKeyFields, type TreeNode } from '../utils/data/treeData';
+
+const keys: TreeKeyFields = { idField: 'id', parentField: 'parentId', labelField: 'name' };
+
+// Node ids as nested arrays, e.g. ['1', ['2', '3']]
+const shape = (nodes: TreeNode[]): any[] =>
+  nodes.map((node) => (node.children.length > 0 ? [node.id, shape(node.children)] : node.id));
+
+const rows = [
+  { id: 1, name: 'Europe', parentId: null },
+  { id: 2, name: 'France', parentId: 1 },
+  { id: 3, name: 'Spain', parentId: 1 },
+  { id: 4, name: 'Asia' },
+  { id: 5, name: 'Orphan', parentId: 99 },
+];
+
+describe('TreeData', () => {
+  it('links flat rows through the parent field', () => {
+    const roots = TreeData.fromRows(rows, keys);
+    expect(shape(roots)).toEqual([['1', ['2', '3']], '4', '5']);
+    expect(roots[0]).toMatchObject({ label: 'Europe', value: 1, expandable: true, lazy: false });
+  });
+
+  it('keeps nested rows', () => {
+    const roots = TreeData.fromRows([{ id: 'a', label: 'A', children: [{ id: 'b', label: 'B' }] }], DEFAULT_TREE_KEYS);
+    expect(shape(roots)).toEqual([['a', ['b']]]);
+  });
+
+  it('shows rows of a parent cycle as roots instead of dropping them', () => {
+    const roots = TreeData.fromRows(
+      [
+        { id: 'A', parentId: 'B' },
+        { id: 'B', parentId: 'A' },
+        { id: 'C', parentId: 'B' },
+        { id: 'R' },
+      ],
+      keys
+    );
+
+    expect(shape(roots)).toEqual(['R', ['A', [['B', ['C']]]]]);
+    expect(roots.filter((node) => node.cycle).map((node) => node.id)).toEqual(['A']);
+    expect(TreeData.index(roots).size).toBe(4);
+  });
+
+  it('marks lazy nodes whose children were not loaded yet', () => {
+    const lazyKeys = { ...keys, hasChildrenField: 'hasChildren' };
+    const roots = TreeData.fromRows(
+      [
+        { id: 1, hasChildren: true },
+        { id: 2, hasChildren: false },
+        { id: 3, hasChildren: true },
+      ],
+      lazyKeys,
+      new Set(['3'])
+    );
+    expect(roots.map((node) => [node.id, node.lazy, node.expandable])).toEqual([
+      ['1', true, true],
+      ['2', false, false],
+      ['3', false, false],
+    ]);
+  });
+
+  it('checks descendants and derives parent states', () => {
+    const roots = TreeData.fromRows(rows, keys);
+    const europe = roots[0];
+
+    const one = TreeData.toggle(roots, new Set(), '2', true);
+    expect(TreeData.getCheckState(europe, one)).toBe('indeterminate');
+
+    const both = TreeData.toggle(roots, one, '3', true);
+    expect(both.has('1')).toBe(true);
+    expect(TreeData.getCheckState(europe, both)).toBe('checked');
+
+    const unchecked = TreeData.toggle(roots, both, '2', false);
+    expect(Array.from(unchecked)).toEqual(['3']);
+
+    expect(Array.from(TreeData.toggle(roots, new Set(), '1', true)).sort()).toEqual(['1', '2', '3']);
+  });
+
+  it('stores selections with the values found in the rows', () => {
+    const roots = TreeData.fromRows(rows, keys);
+    expect(TreeData.toSelection([1, '', null, 4])).toEqual(new Set(['1', '4']));
+    // Values of nodes that are not loaded are kept as they were
+    expect(TreeData.fromSelection(new Set(['2', '77']), roots, [77])).toEqual([2, 77]);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import type { ComponentDefinition } from '../stores/types';
+import { WizardSteps } from '../utils/rendering/wizardSteps';
+
+const step = (id: string, props: Record<string, any> = {}, children: ComponentDefinition[] = []): ComponentDefinition => ({
+  id,
+  type: 'Container',
+  name: `${id}Step`,
+  props,
+  children,
+});
+
+describe('WizardSteps', () => {
+  const steps = [
+    step('account', { label: 'Account' }),
+    step('company', {
+      label: 'Company',
+      renderWhen: { computeType: 'function', fnSource: 'return data.isBusiness === true;' },
+    }),
+    step('review'),
+  ];
+
+  it('finds a step by index, id, name or title', () => {
+    expect(WizardSteps.findStep(steps, 2)).toBe(2);
+    expect(WizardSteps.findStep(steps, '1')).toBe(1);
+    expect(WizardSteps.findStep(steps, 'company')).toBe(1);
+    expect(WizardSteps.findStep(steps, 'reviewStep')).toBe(2);
+    expect(WizardSteps.findStep(steps, 'Account')).toBe(0);
+    // Untitled steps are found by their generated title
+    expect(WizardSteps.findStep(steps, 'Step 3')).toBe(2);
+  });
+
+  it('returns -1 for unknown or out-of-range steps', () => {
+    expect(WizardSteps.findStep(steps, 3)).toBe(-1);
+    expect(WizardSteps.findStep(steps, -1)).toBe(-1);
+    expect(WizardSteps.findStep(steps, 'missing')).toBe(-1);
+  });
+
+  it('finds the nearest visible step in either direction', () => {
+    const visible = [true, false, true];
+    expect(WizardSteps.findVisible(visible, 1, 1)).toBe(2);
+    expect(WizardSteps.findVisible(visible, 1, -1)).toBe(0);
+    expect(WizardSteps.findVisible(visible, 2, 1)).toBe(2);
+    expect(WizardSteps.findVisible([true, false, false], 1, 1)).toBe(-1);
+  });
+
+  it('skips steps whose renderWhen is false', () => {
+    const personal = steps.map((item) => WizardSteps.isVisible(item, { isBusiness: false }));
+    expect(personal).toEqual([true, false, true]);
+    expect(WizardSteps.findVisible(personal, 1, 1)).toBe(2);
+    expect(WizardSteps.findVisible(personal, 1, -1)).toBe(0);
+
+    const business = steps.map((item) => WizardSteps.isVisible(item, { isBusiness: true }));
+    expect(WizardSteps.findVisible(business, 1, 1)).toBe(1);
+  });
+
+  it('collects the ids of a step and everything inside it', () => {
+    const nested = step('details', {}, [
+      { id: 'name', type: 'TextInput', props: {} },
+      step('address', {}, [{ id: 'city', type: 'TextInput', props: {} }]),
+    ]);
+    expect(Array.from(WizardSteps.collectIds(nested))).toEqual(['details', 'name', 'address', 'city']);
+  });
+});
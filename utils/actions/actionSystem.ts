@@ -9,6 +9,10 @@ import type {
   ActionEventArgs,
   ComponentStore,
 } from '../../stores/types/formEngine';
+import { parsePath, resolveRowWildcards } from '../data/dataPath';
+import { ExpressionEngine } from '../expressions/expressionEngine';
+import { dataCache } from '../cache/dataCache';
+import { getDataviewManager } from '../dataviews/dataviewManager';
 
 // Common action handlers
 export class ActionHandler {
@@ -76,12 +80,26 @@ export class ActionHandler {
       case 'removeRow':
         return this.removeRowAction(eventArgs, args);
       
+      case 'moveRow':
+        return this.moveRowAction(eventArgs, args);
+      
+      case 'duplicateRow':
+        return this.duplicateRowAction(eventArgs, args);
+      
       case 'openModal':
         return this.openModalAction(eventArgs, args);
       
       case 'closeModal':
         return this.closeModalAction(eventArgs, args);
       
+      case 'invalidateCache':
+        return this.invalidateCacheAction(eventArgs, args);
+      
+      case 'goToStep':
+      case 'nextStep':
+      case 'previousStep':
+        return this.wizardStepAction(name, eventArgs, args);
+      
       default:
         console.warn(`Unknown common action: ${name}`);
         return null;
@@ -103,36 +121,71 @@ export class ActionHandler {
     }
 
     try {
-      // Create a safe execution context
+      // Run the body in the sandboxed expression engine
+      const { type, sender, renderedProps, value, data, parentData, rootData, row } = eventArgs;
+      const store = this.createStoreFacade(eventArgs.store);
+      const event = this.createEventSnapshot(eventArgs.event);
       const context = {
-        ...eventArgs,
+        type,
+        sender,
+        store,
         args: args || {},
-        formData: eventArgs.data,
-        parentData: eventArgs.parentData,
-        rootData: eventArgs.rootData,
+        renderedProps,
+        event,
+        value,
+        data,
+        formData: data,
+        parentData,
+        rootData,
+        row,
       };
 
-      // Execute the function
-      const fn = new Function(
-        'context',
-        `
-        const { type, sender, store, args, renderedProps, event, value, data, parentData, rootData } = context;
-        ${definition.body}
-      `
+      return await ExpressionEngine.run(
+        definition.body,
+        { context, type, sender, store, args: context.args, renderedProps, event, value, data, parentData, rootData, row },
+        { strict: eventArgs.store?.strictExpressions }
       );
-
-      return await fn(context);
     } catch (error) {
       console.error(`Error executing custom action ${name}:`, error);
       throw error;
     }
   }
 
+  /**
+   * The part of the data store a custom action may use: data, row operations and validation
+   * (the whole state would let an action switch strict mode off)
+   */
+  private static createStoreFacade(store: any): Record<string, any> | undefined {
+    if (!store) return undefined;
+    return {
+      scopeId: store.scopeId,
+      data: store.data,
+      getData: (key: string) => store.getData(key),
+      setData: (key: string, value: any) => store.setData(key, value),
+      addRow: (path: string, item?: any, index?: number) => store.addRow(path, item, index),
+      removeRow: (path: string, index: number) => store.removeRow(path, index),
+      moveRow: (path: string, from: number, to: number) => store.moveRow(path, from, to),
+      duplicateRow: (path: string, index: number) => store.duplicateRow(path, index),
+      validateForm: (dataKeys?: string[]) => store.validateForm(dataKeys),
+    };
+  }
+
+  /**
+   * Plain copy of a DOM event (the event itself reaches window through event.view)
+   */
+  private static createEventSnapshot(event?: ActionEventArgs['event']): { type: string; value?: any } | undefined {
+    if (!event) return undefined;
+    return { type: event.type, value: (event.target as HTMLInputElement | null)?.value };
+  }
+
   // Common action implementations
   private static async validateAction(eventArgs: ActionEventArgs, args?: Record<string, any>): Promise<boolean> {
-    // Validation logic - would integrate with validation system
-    console.log('Validate action', eventArgs, args);
-    return true;
+    // Validate all registered fields, or only the ones listed in args.dataKeys
+    if (!eventArgs.store?.validateForm) {
+      return true;
+    }
+    const errors = await eventArgs.store.validateForm(args?.dataKeys);
+    return errors.length === 0;
   }
 
   private static async clearAction(eventArgs: ActionEventArgs, args?: Record<string, any>): Promise<void> {
@@ -156,14 +209,74 @@ export class ActionHandler {
     console.log(message, data);
   }
 
-  private static async addRowAction(eventArgs: ActionEventArgs, args?: Record<string, any>): Promise<void> {
-    // Add row to repeater - would need repeater context
-    console.log('Add row action', eventArgs, args);
+  /**
+   * Resolve the array and row index a row action works on
+   * args.dataKey names the array ("[]" resolves to the enclosing rows), otherwise the event's row is used
+   */
+  private static resolveRowTarget(
+    eventArgs: ActionEventArgs,
+    args?: Record<string, any>
+  ): { arrayPath?: string; index?: number } {
+    const rowIndices = eventArgs.row ? this.getRowIndices(eventArgs.row.arrayPath, eventArgs.row.index) : [];
+    const arrayPath = args?.dataKey
+      ? resolveRowWildcards(String(args.dataKey), rowIndices)
+      : eventArgs.row?.arrayPath;
+    const index = this.hasArg(args, 'index')
+      ? Number(args!.index)
+      : arrayPath === eventArgs.row?.arrayPath ? eventArgs.row?.index : undefined;
+    return { arrayPath, index };
   }
 
-  private static async removeRowAction(eventArgs: ActionEventArgs, args?: Record<string, any>): Promise<void> {
-    // Remove row from repeater - would need repeater context
-    console.log('Remove row action', eventArgs, args);
+  private static hasArg(args: Record<string, any> | undefined, key: string): boolean {
+    return args?.[key] !== undefined && args[key] !== '';
+  }
+
+  // Row indices of a row path, outermost first (e.g. "orders[1].lines", 2 => [1, 2])
+  private static getRowIndices(arrayPath: string, index: number): number[] {
+    const indices = parsePath(arrayPath).filter((segment): segment is number => typeof segment === 'number');
+    return [...indices, index];
+  }
+
+  private static async addRowAction(eventArgs: ActionEventArgs, args?: Record<string, any>): Promise<boolean> {
+    // Insert after the event's row, or at args.index, or append
+    const { arrayPath, index } = this.resolveRowTarget(eventArgs, args);
+    if (!arrayPath || !eventArgs.store?.addRow) {
+      console.warn('addRow: no target array (set args.dataKey or raise the event inside a Repeater row)');
+      return false;
+    }
+    const at = this.hasArg(args, 'index') ? index : index !== undefined ? index + 1 : undefined;
+    return eventArgs.store.addRow(arrayPath, args?.item ?? {}, at);
+  }
+
+  private static async removeRowAction(eventArgs: ActionEventArgs, args?: Record<string, any>): Promise<boolean> {
+    const { arrayPath, index } = this.resolveRowTarget(eventArgs, args);
+    if (!arrayPath || index === undefined || !eventArgs.store?.removeRow) {
+      console.warn('removeRow: no target row (set args.dataKey and args.index or raise the event inside a Repeater row)');
+      return false;
+    }
+    return eventArgs.store.removeRow(arrayPath, index);
+  }
+
+  private static async moveRowAction(eventArgs: ActionEventArgs, args?: Record<string, any>): Promise<boolean> {
+    // Target position from args.to, or one step in args.direction ("up" / "down")
+    const { arrayPath, index } = this.resolveRowTarget(eventArgs, args);
+    if (!arrayPath || index === undefined || !eventArgs.store?.moveRow) {
+      console.warn('moveRow: no target row (set args.dataKey and args.index or raise the event inside a Repeater row)');
+      return false;
+    }
+    const to = this.hasArg(args, 'to')
+      ? Number(args!.to)
+      : args?.direction === 'up' ? index - 1 : index + 1;
+    return eventArgs.store.moveRow(arrayPath, index, to);
+  }
+
+  private static async duplicateRowAction(eventArgs: ActionEventArgs, args?: Record<string, any>): Promise<boolean> {
+    const { arrayPath, index } = this.resolveRowTarget(eventArgs, args);
+    if (!arrayPath || index === undefined || !eventArgs.store?.duplicateRow) {
+      console.warn('duplicateRow: no target row (set args.dataKey and args.index or raise the event inside a Repeater row)');
+      return false;
+    }
+    return eventArgs.store.duplicateRow(arrayPath, index);
   }
 
   private static async openModalAction(eventArgs: ActionEventArgs, args?: Record<string, any>): Promise<void> {
@@ -171,9 +284,12 @@ export class ActionHandler {
     const modalId = args?.modalId || args?.componentId || eventArgs.sender?.key;
     const modalType = args?.modalType || (eventArgs.sender?.modal as any)?.type;
     
+    // scopeId keeps the event inside the form instance that raised it
+    const scopeId = eventArgs.store?.scopeId;
+    
     window.dispatchEvent(
       new CustomEvent('formx:openModal', {
-        detail: { modalId, modalType, args, eventArgs },
+        detail: { modalId, modalType, scopeId, args, eventArgs },
       })
     );
   }
@@ -183,11 +299,55 @@ export class ActionHandler {
     const modalId = args?.modalId || args?.componentId || eventArgs.sender?.key;
     const modalType = args?.modalType || (eventArgs.sender?.modal as any)?.type;
     
+    // scopeId keeps the event inside the form instance that raised it
+    const scopeId = eventArgs.store?.scopeId;
+    
     window.dispatchEvent(
       new CustomEvent('formx:closeModal', {
-        detail: { modalId, modalType, args, eventArgs },
+        detail: { modalId, modalType, scopeId, args, eventArgs },
+      })
+    );
+  }
+
+  /**
+   * Move a Wizard (args.wizardId: id or name, every wizard of the form when unset) -
+   * goToStep takes args.step (index, step id, name or label); nextStep validates the current step
+   */
+  private static async wizardStepAction(
+    name: string,
+    eventArgs: ActionEventArgs,
+    args?: Record<string, any>
+  ): Promise<void> {
+    if (name === 'goToStep' && !this.hasArg(args, 'step')) {
+      console.warn('goToStep: set args.step');
+      return;
+    }
+    window.dispatchEvent(
+      new CustomEvent('formx:wizardStep', {
+        detail: {
+          wizardId: args?.wizardId,
+          action: name,
+          step: args?.step,
+          scopeId: eventArgs.store?.scopeId,
+        },
       })
     );
   }
-}
 
+  /**
+   * Drop cached data (e.g. after a save) - args.dataview: every entry of a dataview,
+   * args.tag: entries with a cache tag
+   */
+  private static async invalidateCacheAction(_eventArgs: ActionEventArgs, args?: Record<string, any>): Promise<void> {
+    if (!args?.dataview && !args?.tag) {
+      console.warn('invalidateCache: set args.dataview or args.tag');
+      return;
+    }
+    if (args.dataview) {
+      getDataviewManager().clearCache(args.dataview);
+    }
+    if (args.tag) {
+      dataCache.invalidateTag(args.tag);
+    }
+  }
+}
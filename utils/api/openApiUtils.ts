@@ -2,10 +2,15 @@
  * OpenAPI Utils System
  * Provides dynamic API client generation from OpenAPI YAML/JSON specs
  * Supports caching and auto-import of generated clients
+ *
+ * Specs may be OpenAPI 3.x or Swagger 2.0, in JSON or YAML. Local $refs are resolved
+ * and every operation is listed with its parameters and response schema, so a
+ * dataview can be fed from a chosen operation instead of a guessed list endpoint.
  */
 
 import { dataCache } from '../cache/dataCache';
 import { apiConfig } from '../../config/apiConfig';
+import { parse as parseYaml } from 'yaml';
 
 export interface OpenAPIClient {
   inst: any; // Generated API client instance
@@ -24,11 +29,68 @@ export interface OpenAPISpec {
   paths: Record<string, any>;
   components?: {
     schemas?: Record<string, any>;
+    parameters?: Record<string, any>;
+    responses?: Record<string, any>;
+    requestBodies?: Record<string, any>;
   };
+  // OpenAPI 3.x
+  servers?: { url: string; variables?: Record<string, { default: string }> }[];
+  // Swagger 2.0
+  host?: string;
+  basePath?: string;
+  schemes?: string[];
+  definitions?: Record<string, any>;
 }
 
+export interface OpenAPIParameter {
+  name: string;
+  in: 'query' | 'path' | 'header' | 'cookie' | 'body' | 'formData';
+  required: boolean;
+  description?: string;
+  schema?: any;
+}
+
+export interface OpenAPIField {
+  name: string;
+  type?: string;
+  format?: string;
+  nullable?: boolean;
+  enum?: any[];
+  description?: string;
+}
+
+export interface OpenAPIOperation {
+  // operationId, or "GET /path" when the spec has none
+  id: string;
+  operationId?: string;
+  method: string;
+  path: string;
+  summary?: string;
+  description?: string;
+  tags: string[];
+  deprecated?: boolean;
+  parameters: OpenAPIParameter[];
+  requestBodySchema?: any;
+  // Schema of the success response
+  responseSchema?: any;
+  // Path of the records array in the response ('' = the response is the array)
+  itemsPath?: string;
+  itemSchema?: any;
+  // Properties of one record (or of the response object when it has no array)
+  fields: OpenAPIField[];
+}
+
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete', 'head', 'options'];
+
+// Response properties that usually hold the records of a list endpoint
+const ITEM_KEYS = ['items', 'data', 'records', 'results', 'rows', 'content', 'value', 'list'];
+
+// Query parameters that take the page size
+const PAGE_SIZE_PARAMS = ['pageSize', 'page_size', 'perPage', 'per_page', 'limit', 'size', 'top', '$top'];
+
 class OpenAPIUtils {
   private clientCache: Map<string, OpenAPIClient> = new Map();
+  private operationsCache: Map<string, OpenAPIOperation[]> = new Map();
 
   /**
    * Get or generate API client from OpenAPI URL
@@ -52,7 +114,7 @@ class OpenAPIUtils {
     try {
       const spec = await this.fetchSpec(url);
       const client = await this.generateClient(spec, url);
-      
+
       // Cache client
       this.clientCache.set(url, client);
       dataCache.set(cacheKey, client, 86400000); // Cache for 24 hours
@@ -64,19 +126,50 @@ class OpenAPIUtils {
     }
   }
 
+  /**
+   * Operations of the spec at a URL, with resolved parameters and response schemas
+   */
+  async getOperations(url: string): Promise<OpenAPIOperation[]> {
+    const cached = this.operationsCache.get(url);
+    if (cached) {
+      return cached;
+    }
+
+    const spec = await this.fetchSpec(url);
+    const operations = this.listOperations(spec);
+    this.operationsCache.set(url, operations);
+    return operations;
+  }
+
+  /**
+   * An operation of the spec by id, or its most likely list operation when operationId is omitted
+   */
+  async getOperation(url: string, operationId?: string): Promise<OpenAPIOperation | null> {
+    const operations = await this.getOperations(url);
+    if (!operationId) {
+      return this.findListOperation(operations);
+    }
+    return operations.find((operation) => operation.id === operationId || operation.operationId === operationId) || null;
+  }
+
   /**
    * Generate and load dataview data from OpenAPI URL or direct POST endpoint
+   *
+   * @param operationId - Operation to call (OpenAPIOperation.id); a list operation is picked when omitted
+   * @param params - Values for the operation's parameters (unknown ones go to the request body)
    */
   async generateAndLoadDataView(
     url: string,
-    recordsPerPage: number = 50
+    recordsPerPage: number = 50,
+    operationId?: string,
+    params?: Record<string, any>
   ): Promise<any[]> {
     try {
       // Check if URL is a direct POST endpoint (not an OpenAPI spec)
       // Detekto nëse është endpoint direkt që përdor POST
-      const isDirectEndpoint = url.includes('/api/') && (
-        url.endsWith('/Post') || 
-        url.endsWith('/Get') || 
+      const isDirectEndpoint = !operationId && url.includes('/api/') && (
+        url.endsWith('/Post') ||
+        url.endsWith('/Get') ||
         url.match(/\/api\/[^/]+\/[^/]+$/) ||
         (!url.endsWith('.yaml') && !url.endsWith('.yml') && !url.endsWith('.json') && !url.includes('openapi'))
       );
@@ -89,7 +182,7 @@ class OpenAPIUtils {
           body: JSON.stringify({
             page: 1,
             pageSize: recordsPerPage,
-            filters: {},
+            filters: params || {},
             sort: [],
           }),
         });
@@ -98,58 +191,253 @@ class OpenAPIUtils {
           throw new Error(`Failed to fetch data: ${response.statusText}`);
         }
 
-        const data = await response.json();
-        
-        // Handle different response formats
-        if (Array.isArray(data)) {
-          return data;
-        } else if (data.items && Array.isArray(data.items)) {
-          return data.items;
-        } else if (data.data && Array.isArray(data.data)) {
-          return data.data;
+        return this.extractItems(await response.json());
+      }
+
+      // OpenAPI spec: call the chosen operation (or the most likely list operation)
+      const operation = await this.getOperation(url, operationId);
+
+      if (!operation) {
+        throw new Error(operationId
+          ? `Operation "${operationId}" not found in OpenAPI spec`
+          : 'No list endpoint found in OpenAPI spec');
+      }
+
+      const data = await this.callOperation(url, operation, params, recordsPerPage);
+      return this.extractItems(data, operation.itemsPath);
+    } catch (error) {
+      console.error('Failed to load dataview data:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Call an operation of the spec at specUrl
+   * Path/query/header parameters are taken from params; the rest form the JSON body
+   */
+  async callOperation(
+    specUrl: string,
+    operation: OpenAPIOperation,
+    params: Record<string, any> = {},
+    recordsPerPage?: number
+  ): Promise<any> {
+    const spec = await this.fetchSpec(specUrl);
+    const remaining: Record<string, any> = { ...params };
+    const query = new URLSearchParams();
+    const headers: Record<string, string> = {};
+    let path = operation.path;
+
+    operation.parameters.forEach((parameter) => {
+      let value = remaining[parameter.name];
+      delete remaining[parameter.name];
+      if ((value === undefined || value === '') && recordsPerPage && parameter.in === 'query' && PAGE_SIZE_PARAMS.includes(parameter.name)) {
+        value = recordsPerPage;
+      }
+      if (value === undefined || value === null || value === '') {
+        if (parameter.in === 'path') {
+          throw new Error(`Missing value for path parameter "${parameter.name}"`);
         }
+        return;
+      }
 
-        return [];
+      if (parameter.in === 'path') {
+        path = path.replace(`{${parameter.name}}`, encodeURIComponent(String(value)));
+      } else if (parameter.in === 'query') {
+        (Array.isArray(value) ? value : [value]).forEach((item) => query.append(parameter.name, String(item)));
+      } else if (parameter.in === 'header') {
+        headers[parameter.name] = String(value);
+      } else if (parameter.in === 'body') {
+        Object.assign(remaining, typeof value === 'object' ? value : {});
       }
+    });
 
-      // Original OpenAPI spec logic (për OpenAPI specs)
-      const client = await this.get(url);
-      
-      // Try to find a GET endpoint that returns an array
-      // This is a simplified implementation - in production, you'd parse the spec more intelligently
-      const spec = await this.fetchSpec(url);
-      const listEndpoint = this.findListEndpoint(spec);
-      
-      if (!listEndpoint) {
-        throw new Error('No list endpoint found in OpenAPI spec');
+    const takesBody = operation.requestBodySchema !== undefined
+      || operation.parameters.some((parameter) => parameter.in === 'body');
+    const body = Object.keys(remaining).length > 0
+      ? remaining
+      // Same paging convention as direct dataview endpoints, only for operations that declare a body
+      : takesBody ? { page: 1, pageSize: recordsPerPage || 50, filters: {}, sort: [] } : undefined;
+    const hasBody = !['GET', 'HEAD', 'DELETE', 'OPTIONS'].includes(operation.method) && body !== undefined;
+
+    const queryString = query.toString();
+    const response = await fetch(`${this.getBaseUrl(spec, specUrl)}${path}${queryString ? `?${queryString}` : ''}`, {
+      method: operation.method,
+      headers: { ...apiConfig.getHeaders(), ...headers },
+      body: hasBody ? JSON.stringify(body) : undefined,
+    });
+
+    if (!response.ok) {
+      throw new Error(`API request failed: ${response.statusText}`);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Parse a JSON or YAML OpenAPI 3.x / Swagger 2.0 document
+   */
+  parseSpec(text: string): OpenAPISpec {
+    let spec: any;
+    try {
+      spec = JSON.parse(text);
+    } catch {
+      // "<<" merge keys are common in hand-written specs
+      spec = parseYaml(text, { merge: true });
+    }
+
+    if (!spec || typeof spec !== 'object' || (!spec.openapi && !spec.swagger)) {
+      throw new Error('Not an OpenAPI or Swagger document (missing "openapi"/"swagger" version)');
+    }
+
+    return {
+      ...spec,
+      openapi: spec.openapi !== undefined ? String(spec.openapi) : undefined,
+      swagger: spec.swagger !== undefined ? String(spec.swagger) : undefined,
+      info: spec.info || { title: 'API' },
+      paths: spec.paths || {},
+    };
+  }
+
+  /**
+   * Copy of a spec with local $refs ("#/components/...") replaced by their targets
+   * Circular references are left as { $ref } so the result stays serializable
+   */
+  resolveRefs<T>(spec: T): T {
+    const resolving: string[] = [];
+    const resolved = new Map<string, any>();
+    let circular = 0;
+
+    const walk = (node: any): any => {
+      if (Array.isArray(node)) return node.map(walk);
+      if (!node || typeof node !== 'object') return node;
+
+      const { $ref, ...siblings } = node;
+      if (typeof $ref === 'string' && $ref.startsWith('#')) {
+        let value = resolved.get($ref);
+        if (value === undefined) {
+          const target = this.resolvePointer(spec, $ref);
+          if (target === undefined || resolving.includes($ref)) {
+            circular++;
+            return node;
+          }
+          const before = circular;
+          resolving.push($ref);
+          value = walk(target);
+          resolving.pop();
+          // Results containing circular placeholders depend on where they were reached
+          if (circular === before) resolved.set($ref, value);
+        }
+        // Keywords next to $ref (OpenAPI 3.1, descriptions) override the target
+        return Object.keys(siblings).length > 0 ? { ...value, ...walk(siblings) } : value;
       }
 
-      // Call the endpoint
-      const response = await fetch(listEndpoint.url, {
-        method: listEndpoint.method || 'GET',
-        headers: apiConfig.getHeaders(),
+      const result: Record<string, any> = {};
+      Object.entries(node).forEach(([key, value]) => {
+        result[key] = walk(value);
       });
+      return result;
+    };
 
-      if (!response.ok) {
-        throw new Error(`Failed to fetch data: ${response.statusText}`);
-      }
+    return walk(spec);
+  }
+
+  /**
+   * All operations of a spec (refs are resolved here)
+   */
+  listOperations(spec: OpenAPISpec): OpenAPIOperation[] {
+    const resolvedSpec = this.resolveRefs(spec);
+    const operations: OpenAPIOperation[] = [];
+
+    Object.entries(resolvedSpec.paths || {}).forEach(([path, pathItem]) => {
+      if (!pathItem || typeof pathItem !== 'object') return;
+
+      HTTP_METHODS.forEach((method) => {
+        const operation = pathItem[method];
+        if (!operation || typeof operation !== 'object') return;
+
+        // Operation parameters override path-level ones with the same name and location
+        const byKey = new Map<string, any>();
+        [...(pathItem.parameters || []), ...(operation.parameters || [])]
+          .filter((parameter) => parameter && parameter.name)
+          .forEach((parameter) => byKey.set(`${parameter.in}:${parameter.name}`, parameter));
+        const parameters: OpenAPIParameter[] = Array.from(byKey.values()).map((parameter) => ({
+          name: parameter.name,
+          in: parameter.in,
+          required: Boolean(parameter.required) || parameter.in === 'path',
+          description: parameter.description,
+          // Swagger 2 non-body parameters carry the type on the parameter itself
+          schema: parameter.schema || (parameter.type
+            ? { type: parameter.type, format: parameter.format, items: parameter.items, enum: parameter.enum }
+            : undefined),
+        }));
+
+        const requestBodySchema = operation.requestBody
+          ? this.getContentSchema(operation.requestBody.content)
+          : parameters.find((parameter) => parameter.in === 'body')?.schema;
+
+        const response = this.getSuccessResponse(operation.responses);
+        const responseSchema = response ? response.schema || this.getContentSchema(response.content) : undefined;
+        const items = this.findItems(responseSchema);
+
+        operations.push({
+          id: operation.operationId || `${method.toUpperCase()} ${path}`,
+          operationId: operation.operationId,
+          method: method.toUpperCase(),
+          path,
+          summary: operation.summary,
+          description: operation.description,
+          tags: Array.isArray(operation.tags) ? operation.tags.map(String) : [],
+          deprecated: Boolean(operation.deprecated) || undefined,
+          parameters,
+          requestBodySchema,
+          responseSchema,
+          itemsPath: items?.path,
+          itemSchema: items?.schema,
+          fields: this.getSchemaFields(items ? items.schema : responseSchema),
+        });
+      });
+    });
 
-      const data = await response.json();
-      
-      // Handle pagination if needed
-      if (Array.isArray(data)) {
-        return data;
-      } else if (data.items && Array.isArray(data.items)) {
-        return data.items;
-      } else if (data.data && Array.isArray(data.data)) {
-        return data.data;
+    return operations;
+  }
+
+  /**
+   * Base URL operations are called on
+   * OpenAPI 3 servers[0], Swagger 2 schemes/host/basePath, else the spec's directory
+   */
+  getBaseUrl(spec: OpenAPISpec, specUrl: string): string {
+    let specLocation = specUrl;
+    try {
+      specLocation = new URL(specUrl, typeof window !== 'undefined' ? window.location.href : undefined).href;
+    } catch {
+      // Keep relative URL
+    }
+    const resolve = (url: string) => {
+      try {
+        return new URL(url, specLocation).href.replace(/\/$/, '');
+      } catch {
+        return url.replace(/\/$/, '');
       }
+    };
 
-      return [];
-    } catch (error) {
-      console.error('Failed to load dataview data:', error);
-      throw error;
+    const server = spec.servers?.[0];
+    if (server?.url) {
+      const url = server.url.replace(/\{([^}]+)\}/g, (match, name: string) =>
+        server.variables?.[name]?.default ?? match
+      );
+      return resolve(url);
     }
+
+    if (spec.swagger && (spec.host || spec.basePath)) {
+      const basePath = spec.basePath || '';
+      if (spec.host) {
+        const scheme = spec.schemes?.[0] || (specLocation.startsWith('http:') ? 'http' : 'https');
+        return `${scheme}://${spec.host}${basePath}`.replace(/\/$/, '');
+      }
+      return resolve(basePath);
+    }
+
+    return specLocation.substring(0, specLocation.lastIndexOf('/'));
   }
 
   /**
@@ -157,10 +445,11 @@ class OpenAPIUtils {
    */
   clearCache(): void {
     this.clientCache.clear();
+    this.operationsCache.clear();
     // Clear from dataCache as well
     const keys = dataCache.getStats().keys;
     keys.forEach((key) => {
-      if (key.startsWith('openapi-client-')) {
+      if (key.startsWith('openapi-client-') || key.startsWith('openapi-spec-')) {
         dataCache.delete(key);
       }
     });
@@ -168,47 +457,22 @@ class OpenAPIUtils {
 
   /**
    * Fetch OpenAPI spec from URL
+   * The raw (unresolved) spec is cached - resolved specs may be circular
    */
   private async fetchSpec(url: string): Promise<OpenAPISpec> {
-    const cacheKey = `openapi-spec-${url}`;
-    const cached = dataCache.get(cacheKey);
-    if (cached) {
-      return cached;
-    }
-
-    const response = await fetch(url, {
-      headers: apiConfig.getHeaders(),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch OpenAPI spec: ${response.statusText}`);
-    }
-
-    const contentType = response.headers.get('content-type') || '';
-    let spec: OpenAPISpec;
+    // Concurrent requests for the same spec share one fetch; cached for 1 hour
+    return dataCache.fetch(`openapi-spec-${url}`, async () => {
+      const response = await fetch(url, {
+        headers: apiConfig.getHeaders(),
+      });
 
-    if (contentType.includes('application/json')) {
-      spec = await response.json();
-    } else if (contentType.includes('yaml') || contentType.includes('yml') || url.endsWith('.yaml') || url.endsWith('.yml')) {
-      // Parse YAML - for now, try to parse as JSON first, then fallback to text parsing
-      // In production, you'd use a YAML parser like js-yaml
-      const text = await response.text();
-      try {
-        // Try JSON first
-        spec = JSON.parse(text);
-      } catch {
-        // Basic YAML parsing (simplified - in production use js-yaml)
-        spec = this.parseYAML(text);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch OpenAPI spec: ${response.statusText}`);
       }
-    } else {
-      // Try JSON by default
-      spec = await response.json();
-    }
 
-    // Cache spec
-    dataCache.set(cacheKey, spec, 3600000); // Cache for 1 hour
-
-    return spec;
+      // JSON and YAML are both detected from the content, whatever the content-type says
+      return this.parseSpec(await response.text());
+    }, { ttl: 3600000 });
   }
 
   /**
@@ -217,14 +481,14 @@ class OpenAPIUtils {
    */
   private async generateClient(spec: OpenAPISpec, url: string): Promise<OpenAPIClient> {
     const title = spec.info?.title || this.extractTitleFromUrl(url);
-    
+    const baseUrl = this.getBaseUrl(spec, url);
+
     // Create a simple client wrapper
     const client = {
       // Basic fetch wrapper
       async request(path: string, options: RequestInit = {}): Promise<any> {
-        const baseUrl = url.substring(0, url.lastIndexOf('/'));
         const fullUrl = `${baseUrl}${path}`;
-        
+
         const response = await fetch(fullUrl, {
           ...options,
           headers: {
@@ -239,15 +503,15 @@ class OpenAPIUtils {
 
         return response.json();
       },
-      
+
       // Get all paths
       getPaths(): Record<string, any> {
         return spec.paths || {};
       },
-      
-      // Get schemas
+
+      // Get schemas (Swagger 2 keeps them in definitions)
       getSchemas(): Record<string, any> {
-        return spec.components?.schemas || {};
+        return spec.components?.schemas || spec.definitions || {};
       },
     };
 
@@ -277,69 +541,149 @@ class OpenAPIUtils {
   }
 
   /**
-   * Find list endpoint in OpenAPI spec
+   * Most likely list operation: a GET returning records that needs no path parameters
    */
-  private findListEndpoint(spec: OpenAPISpec): { url: string; method: string } | null {
-    const paths = spec.paths || {};
-    
-    // Look for GET endpoints that might return arrays
-    for (const [path, methods] of Object.entries(paths)) {
-      if (methods.get) {
-        const responses = methods.get.responses || {};
-        // Check if response is an array
-        const response200 = responses['200'] || responses['200'] || responses['default'];
-        if (response200) {
-          const schema = response200.content?.['application/json']?.schema;
-          if (schema?.type === 'array' || schema?.items) {
-            return { url: path, method: 'GET' };
-          }
-        }
-      }
+  private findListOperation(operations: OpenAPIOperation[]): OpenAPIOperation | null {
+    const callable = operations.filter((operation) =>
+      operation.method === 'GET' && !operation.parameters.some((parameter) => parameter.in === 'path')
+    );
+    return callable.find((operation) => operation.itemsPath !== undefined)
+      || callable[0]
+      || operations.find((operation) => operation.method === 'GET')
+      || null;
+  }
+
+  /**
+   * Records of a response: at itemsPath when known, else a top-level array or items/data
+   */
+  private extractItems(data: any, itemsPath?: string): any[] {
+    if (itemsPath !== undefined) {
+      const items = itemsPath
+        ? itemsPath.split('.').reduce((value, key) => (value == null ? undefined : value[key]), data)
+        : data;
+      if (Array.isArray(items)) return items;
     }
 
-    // Fallback: return first GET endpoint
-    for (const [path, methods] of Object.entries(paths)) {
-      if (methods.get) {
-        return { url: path, method: 'GET' };
-      }
+    if (Array.isArray(data)) {
+      return data;
+    } else if (data?.items && Array.isArray(data.items)) {
+      return data.items;
+    } else if (data?.data && Array.isArray(data.data)) {
+      return data.data;
     }
 
-    return null;
+    return [];
   }
 
   /**
-   * Basic YAML parser (simplified - use js-yaml in production)
+   * Follow a local JSON pointer ("#/components/schemas/Pet")
    */
-  private parseYAML(text: string): OpenAPISpec {
-    // This is a very basic YAML parser - in production, use js-yaml library
-    // For now, try to extract basic info
-    const lines = text.split('\n');
-    const spec: any = {
-      info: {},
-      paths: {},
-    };
+  private resolvePointer(root: any, ref: string): any {
+    return ref
+      .slice(1)
+      .split('/')
+      .slice(1)
+      .map((part) => decodeURIComponent(part).replace(/~1/g, '/').replace(/~0/g, '~'))
+      .reduce((value, key) => (value == null ? undefined : value[key]), root);
+  }
 
-    let currentSection = '';
-    for (const line of lines) {
-      const trimmed = line.trim();
-      if (trimmed.startsWith('openapi:') || trimmed.startsWith('swagger:')) {
-        spec.openapi = trimmed.split(':')[1]?.trim().replace(/['"]/g, '');
-      } else if (trimmed.startsWith('title:')) {
-        spec.info.title = trimmed.split(':').slice(1).join(':').trim().replace(/['"]/g, '');
-      } else if (trimmed.startsWith('version:')) {
-        spec.info.version = trimmed.split(':')[1]?.trim().replace(/['"]/g, '');
-      }
+  /**
+   * Success response of an operation (200, 201, 2XX, any 2xx, then default)
+   */
+  private getSuccessResponse(responses: Record<string, any> | undefined): any {
+    if (!responses) return undefined;
+    const codes = Object.keys(responses);
+    const code = ['200', '201', '2XX', '2xx'].find((candidate) => candidate in responses)
+      || codes.find((candidate) => candidate.startsWith('2'))
+      || (codes.includes('default') ? 'default' : undefined);
+    return code ? responses[code] : undefined;
+  }
+
+  /**
+   * JSON schema of an OpenAPI 3 content map (application/json first)
+   */
+  private getContentSchema(content: Record<string, any> | undefined): any {
+    if (!content) return undefined;
+    const type = 'application/json' in content
+      ? 'application/json'
+      : Object.keys(content).find((candidate) => candidate.includes('json')) || Object.keys(content)[0];
+    return type ? content[type]?.schema : undefined;
+  }
+
+  /**
+   * Schema with allOf parts merged into one object schema
+   */
+  private mergeSchema(schema: any): any {
+    if (!schema || typeof schema !== 'object' || !Array.isArray(schema.allOf)) return schema;
+    const { allOf, ...rest } = schema;
+    return [rest, ...allOf.map((part: any) => this.mergeSchema(part))].reduce(
+      (merged, part) => ({
+        ...merged,
+        ...part,
+        properties: { ...merged.properties, ...part?.properties },
+        required: [...(merged.required || []), ...(part?.required || [])],
+      }),
+      { type: 'object' }
+    );
+  }
+
+  private isArraySchema(schema: any): boolean {
+    return Boolean(schema) && (schema.type === 'array' || (Array.isArray(schema.type) && schema.type.includes('array')) || Boolean(schema.items));
+  }
+
+  /**
+   * Where the records of a response are: the response itself or a (nested) array property
+   */
+  private findItems(schema: any, prefix = '', depth = 0): { path: string; schema: any } | null {
+    const merged = this.mergeSchema(schema);
+    if (!merged || typeof merged !== 'object') return null;
+    if (this.isArraySchema(merged)) return { path: prefix, schema: this.mergeSchema(merged.items) };
+
+    const properties: Record<string, any> = merged.properties || {};
+    const names = Object.keys(properties);
+    const join = (name: string) => (prefix ? `${prefix}.${name}` : name);
+    const arrayName = names.find((name) => ITEM_KEYS.includes(name) && this.isArraySchema(this.mergeSchema(properties[name])))
+      || names.find((name) => this.isArraySchema(this.mergeSchema(properties[name])));
+    if (arrayName) {
+      return { path: join(arrayName), schema: this.mergeSchema(this.mergeSchema(properties[arrayName]).items) };
     }
 
-    // If parsing fails, return minimal spec
-    if (!spec.info.title) {
-      spec.info.title = 'API';
+    // Envelopes like { data: { items: [...] } }
+    if (depth < 2) {
+      for (const name of names.filter((candidate) => ITEM_KEYS.includes(candidate))) {
+        const nested = this.findItems(properties[name], join(name), depth + 1);
+        if (nested) return nested;
+      }
     }
+    return null;
+  }
 
-    return spec as OpenAPISpec;
+  /**
+   * Properties of an object schema as fields
+   */
+  private getSchemaFields(schema: any): OpenAPIField[] {
+    const merged = this.mergeSchema(schema);
+    if (!merged?.properties) return [];
+    return Object.entries(merged.properties as Record<string, any>).map(([name, property]) => {
+      const resolved = this.mergeSchema(property) || {};
+      // OpenAPI 3.1 types may be lists (["string", "null"])
+      const type = Array.isArray(resolved.type)
+        ? resolved.type.find((candidate: string) => candidate !== 'null')
+        : resolved.type || (resolved.properties || resolved.$ref ? 'object' : resolved.items ? 'array' : undefined);
+      // nullable (OpenAPI 3.0), "null" in the type list (3.1), x-nullable (Swagger 2)
+      const nullable = resolved.nullable === true || resolved['x-nullable'] === true ||
+        (Array.isArray(resolved.type) && resolved.type.includes('null'));
+      return {
+        name,
+        type,
+        format: resolved.format,
+        nullable: nullable || undefined,
+        enum: Array.isArray(resolved.enum) ? resolved.enum : undefined,
+        description: resolved.description,
+      };
+    });
   }
 }
 
 // Global instance
 export const openAPIUtils = new OpenAPIUtils();
-
@@ -2,29 +2,77 @@
  * Global Data Cache System
  * Provides memory cache with optional localStorage persistence
  * Supports TTL (Time To Live) and cache invalidation
+ *
+ * fetch() shares in-flight requests per key and serves stale entries while they are refetched.
+ * Entries can be tagged (e.g. "dataview:<id>") and invalidated by tag. The localStorage layer
+ * keeps at most maxPersistedEntries entries, dropping the least recently used ones.
  */
 
 export interface CacheOptions {
   ttl?: number; // Time to live in milliseconds
   persist?: boolean; // Persist to localStorage
   prefix?: string; // Cache key prefix
+  maxPersistedEntries?: number; // LRU cap of the localStorage layer
+}
+
+export interface CacheSetOptions {
+  ttl?: number;
+  tags?: string[];
+  // Time after expiry during which fetch() still serves the entry while refetching it
+  staleTime?: number;
+  // Keep the entry out of localStorage (e.g. results for values typed by the user)
+  memoryOnly?: boolean;
+}
+
+export interface CacheFetchOptions extends CacheSetOptions {
+  // Skip cached data (concurrent requests are still shared)
+  fresh?: boolean;
+}
+
+/**
+ * Cache entry as listed by getEntries (builder cache inspector)
+ */
+export interface CacheEntryInfo {
+  key: string;
+  age: number;
+  ttl?: number;
+  // Time until expiry (negative once expired)
+  expiresIn?: number;
+  stale: boolean;
+  tags: string[];
+  persisted: boolean;
+  // Serialized size in characters
+  size: number;
+  lastAccess: number;
 }
 
 interface CacheEntry {
   data: any;
   timestamp: number;
   ttl?: number;
+  tags?: string[];
+  staleTime?: number;
+  lastAccess?: number;
+  memoryOnly?: boolean;
+}
+
+interface InflightRequest {
+  promise: Promise<any>;
+  tags: string[];
 }
 
 export class DataCache {
   private cache: Map<string, CacheEntry>;
   private options: Required<CacheOptions>;
+  private inflight = new Map<string, InflightRequest>();
+  private listeners = new Set<() => void>();
 
   constructor(options: CacheOptions = {}) {
     this.options = {
       ttl: options.ttl || 3600000, // 1 hour default
       persist: options.persist ?? true,
       prefix: options.prefix || 'formx-data-',
+      maxPersistedEntries: options.maxPersistedEntries || 200,
     };
     this.cache = new Map();
 
@@ -37,25 +85,84 @@ export class DataCache {
   /**
    * Set a value in the cache
    */
-  set(key: string, value: any, ttl?: number): void {
+  set(key: string, value: any, ttlOrOptions?: number | CacheSetOptions): void {
+    const options = typeof ttlOrOptions === 'number' ? { ttl: ttlOrOptions } : ttlOrOptions || {};
     const cacheKey = this.getCacheKey(key);
+    const now = Date.now();
     const entry: CacheEntry = {
       data: value,
-      timestamp: Date.now(),
-      ttl: ttl || this.options.ttl,
+      timestamp: now,
+      ttl: options.ttl || this.options.ttl,
+      tags: options.tags && options.tags.length > 0 ? options.tags : undefined,
+      staleTime: options.staleTime || undefined,
+      lastAccess: now,
+      memoryOnly: options.memoryOnly || undefined,
     };
 
     this.cache.set(cacheKey, entry);
 
     // Persist to localStorage if enabled
-    if (this.options.persist) {
-      try {
-        const serialized = JSON.stringify(entry);
-        localStorage.setItem(cacheKey, serialized);
-      } catch (error) {
-        console.warn('Failed to persist cache to localStorage:', error);
+    if (this.options.persist && !entry.memoryOnly) {
+      this.persistEntry(cacheKey, entry);
+    }
+    this.notify();
+  }
+
+  /**
+   * Get a value, loading it with fetcher when it is missing or expired
+   * - Requests for the same key share one fetch while it is in flight
+   * - Entries expired less than staleTime ago are returned at once and refetched in the background
+   */
+  fetch<T>(key: string, fetcher: () => Promise<T>, options: CacheFetchOptions = {}): Promise<T> {
+    if (!options.fresh) {
+      const entry = this.cache.get(this.getCacheKey(key));
+      if (entry && !this.isExpired(entry)) {
+        entry.lastAccess = Date.now();
+        return Promise.resolve(entry.data);
+      }
+      if (entry && !this.isDead(entry)) {
+        entry.lastAccess = Date.now();
+        this.revalidate(key, fetcher, options).catch((error) => {
+          console.warn(`Failed to revalidate cache entry ${key}:`, error);
+        });
+        return Promise.resolve(entry.data);
       }
     }
+
+    return this.revalidate(key, fetcher, options);
+  }
+
+  /**
+   * Delete every entry (and drop every in-flight result) with a tag
+   * Returns the number of entries deleted
+   */
+  invalidateTag(tag: string): number {
+    let count = 0;
+    this.inflight.forEach((request, cacheKey) => {
+      if (request.tags.includes(tag)) this.inflight.delete(cacheKey);
+    });
+
+    const keys: string[] = [];
+    this.cache.forEach((entry, cacheKey) => {
+      if (entry.tags?.includes(tag)) keys.push(cacheKey);
+    });
+    keys.forEach((cacheKey) => {
+      this.delete(this.getOriginalKey(cacheKey));
+      count++;
+    });
+
+    this.notify();
+    return count;
+  }
+
+  /**
+   * Listen for changes (entries set or deleted, requests started or settled)
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
   }
 
   /**
@@ -69,15 +176,15 @@ export class DataCache {
       return null;
     }
 
-    // Check if entry has expired
-    if (entry.ttl) {
-      const age = Date.now() - entry.timestamp;
-      if (age > entry.ttl) {
+    // Check if entry has expired (stale entries are kept for fetch)
+    if (this.isExpired(entry)) {
+      if (this.isDead(entry)) {
         this.delete(key);
-        return null;
       }
+      return null;
     }
 
+    entry.lastAccess = Date.now();
     return entry.data;
   }
 
@@ -93,12 +200,11 @@ export class DataCache {
     }
 
     // Check if entry has expired
-    if (entry.ttl) {
-      const age = Date.now() - entry.timestamp;
-      if (age > entry.ttl) {
+    if (this.isExpired(entry)) {
+      if (this.isDead(entry)) {
         this.delete(key);
-        return false;
       }
+      return false;
     }
 
     return true;
@@ -119,6 +225,7 @@ export class DataCache {
         console.warn('Failed to remove cache from localStorage:', error);
       }
     }
+    this.notify();
   }
 
   /**
@@ -126,6 +233,7 @@ export class DataCache {
    */
   clear(): void {
     this.cache.clear();
+    this.inflight.clear();
 
     // Clear localStorage if persistence is enabled
     if (this.options.persist) {
@@ -140,27 +248,24 @@ export class DataCache {
         console.warn('Failed to clear cache from localStorage:', error);
       }
     }
+    this.notify();
   }
 
   /**
-   * Clear expired entries
+   * Clear entries past their stale time (stale entries are still served while revalidating)
    */
   clearExpired(): void {
     const now = Date.now();
     const keysToDelete: string[] = [];
 
     this.cache.forEach((entry, key) => {
-      if (entry.ttl) {
-        const age = now - entry.timestamp;
-        if (age > entry.ttl) {
-          keysToDelete.push(key);
-        }
+      if (this.isDead(entry, now)) {
+        keysToDelete.push(key);
       }
     });
 
     keysToDelete.forEach((key) => {
-      const originalKey = key.replace(this.options.prefix, '');
-      this.delete(originalKey);
+      this.delete(this.getOriginalKey(key));
     });
   }
 
@@ -172,14 +277,9 @@ export class DataCache {
       return;
     }
 
-    try {
-      this.cache.forEach((entry, key) => {
-        const serialized = JSON.stringify(entry);
-        localStorage.setItem(key, serialized);
-      });
-    } catch (error) {
-      console.warn('Failed to persist cache to localStorage:', error);
-    }
+    this.cache.forEach((entry, key) => {
+      if (!entry.memoryOnly) this.persistEntry(key, entry);
+    });
   }
 
   /**
@@ -198,14 +298,9 @@ export class DataCache {
           if (serialized) {
             try {
               const entry: CacheEntry = JSON.parse(serialized);
-              // Check if entry has expired
-              if (entry.ttl) {
-                const age = Date.now() - entry.timestamp;
-                if (age <= entry.ttl) {
-                  this.cache.set(key, entry);
-                } else {
-                  localStorage.removeItem(key);
-                }
+              // Check if entry has expired (stale entries are kept for fetch)
+              if (this.isDead(entry)) {
+                localStorage.removeItem(key);
               } else {
                 this.cache.set(key, entry);
               }
@@ -221,6 +316,121 @@ export class DataCache {
     }
   }
 
+  /**
+   * Fetch a value and cache it, sharing the request with concurrent callers
+   */
+  private revalidate<T>(key: string, fetcher: () => Promise<T>, options: CacheSetOptions): Promise<T> {
+    const cacheKey = this.getCacheKey(key);
+    const pending = this.inflight.get(cacheKey);
+    if (pending) {
+      return pending.promise;
+    }
+
+    const promise: Promise<T> = fetcher().then((data) => {
+      // Not cached when invalidated while loading
+      if (this.inflight.get(cacheKey)?.promise === promise) {
+        this.set(key, data, options);
+      }
+      return data;
+    });
+    const settle = () => {
+      if (this.inflight.get(cacheKey)?.promise === promise) {
+        this.inflight.delete(cacheKey);
+      }
+      this.notify();
+    };
+    promise.then(settle, settle);
+
+    this.inflight.set(cacheKey, { promise, tags: options.tags || [] });
+    this.notify();
+    return promise;
+  }
+
+  /**
+   * Write an entry to localStorage, dropping least recently used entries over the cap
+   * (or when the storage quota is exceeded)
+   */
+  private persistEntry(cacheKey: string, entry: CacheEntry): void {
+    let serialized: string;
+    try {
+      serialized = JSON.stringify(entry);
+    } catch (error) {
+      console.warn('Failed to persist cache to localStorage:', error);
+      return;
+    }
+
+    try {
+      localStorage.setItem(cacheKey, serialized);
+    } catch (error) {
+      // Quota exceeded: make room and retry once
+      if (this.evictPersisted(cacheKey, Math.max(1, Math.ceil(this.getPersistedKeys().length / 4))) === 0) {
+        console.warn('Failed to persist cache to localStorage:', error);
+        return;
+      }
+      try {
+        localStorage.setItem(cacheKey, serialized);
+      } catch (retryError) {
+        console.warn('Failed to persist cache to localStorage:', retryError);
+        return;
+      }
+    }
+
+    const excess = this.getPersistedKeys().length - this.options.maxPersistedEntries;
+    if (excess > 0) {
+      this.evictPersisted(cacheKey, excess);
+    }
+  }
+
+  /**
+   * Remove the least recently used entries from localStorage (they stay in memory)
+   */
+  private evictPersisted(keepKey: string, count: number): number {
+    const lastAccess = (key: string): number => {
+      const entry = this.cache.get(key);
+      return entry ? entry.lastAccess ?? entry.timestamp : 0;
+    };
+    const victims = this.getPersistedKeys()
+      .filter((key) => key !== keepKey)
+      .sort((a, b) => lastAccess(a) - lastAccess(b))
+      .slice(0, count);
+
+    victims.forEach((key) => {
+      try {
+        localStorage.removeItem(key);
+      } catch {
+        // Ignore - nothing more to free
+      }
+    });
+    return victims.length;
+  }
+
+  private getPersistedKeys(): string[] {
+    try {
+      return Object.keys(localStorage).filter((key) => key.startsWith(this.options.prefix));
+    } catch {
+      return [];
+    }
+  }
+
+  private isExpired(entry: CacheEntry, now: number = Date.now()): boolean {
+    return Boolean(entry.ttl) && now - entry.timestamp > entry.ttl!;
+  }
+
+  // Expired and past its stale time
+  private isDead(entry: CacheEntry, now: number = Date.now()): boolean {
+    return Boolean(entry.ttl) && now - entry.timestamp > entry.ttl! + (entry.staleTime || 0);
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener();
+      } catch (error) {
+        console.warn('Cache listener failed:', error);
+      }
+    });
+  }
+
   /**
    * Get cache key with prefix
    */
@@ -228,20 +438,56 @@ export class DataCache {
     return `${this.options.prefix}${key}`;
   }
 
+  private getOriginalKey(cacheKey: string): string {
+    return cacheKey.slice(this.options.prefix.length);
+  }
+
   /**
    * Get cache statistics
    */
   getStats(): {
     size: number;
     keys: string[];
+    // Keys being fetched
+    inflight: string[];
   } {
     return {
       size: this.cache.size,
-      keys: Array.from(this.cache.keys()).map((key) =>
-        key.replace(this.options.prefix, '')
-      ),
+      keys: Array.from(this.cache.keys()).map((key) => this.getOriginalKey(key)),
+      inflight: Array.from(this.inflight.keys()).map((key) => this.getOriginalKey(key)),
     };
   }
+
+  /**
+   * Details of every entry, most recently used first
+   */
+  getEntries(): CacheEntryInfo[] {
+    const now = Date.now();
+    const persisted = new Set(this.options.persist ? this.getPersistedKeys() : []);
+    const entries: CacheEntryInfo[] = [];
+
+    this.cache.forEach((entry, cacheKey) => {
+      let size = 0;
+      try {
+        size = JSON.stringify(entry.data)?.length || 0;
+      } catch {
+        // Not serializable (e.g. an API client)
+      }
+      entries.push({
+        key: this.getOriginalKey(cacheKey),
+        age: now - entry.timestamp,
+        ttl: entry.ttl,
+        expiresIn: entry.ttl ? entry.timestamp + entry.ttl - now : undefined,
+        stale: this.isExpired(entry, now),
+        tags: entry.tags || [],
+        persisted: persisted.has(cacheKey),
+        size,
+        lastAccess: entry.lastAccess ?? entry.timestamp,
+      });
+    });
+
+    return entries.sort((a, b) => b.lastAccess - a.lastAccess);
+  }
 }
 
 // Global instance
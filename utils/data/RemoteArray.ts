@@ -28,6 +28,7 @@ export class RemoteArray {
   private sortData?: Array<{ field: string; direction: 'asc' | 'desc' }>;
   private loadedPages: Map<number, any[]>; // Cache of loaded pages
   private events: RemoteArrayEvents;
+  private generation = 0; // Bumped when the query changes; older responses are dropped
 
   constructor(options: RemoteArrayOptions, events?: RemoteArrayEvents) {
     this.recordsPerPage = options.recordsPerPage;
@@ -64,6 +65,7 @@ export class RemoteArray {
     }
 
     this.isBusy = true;
+    this.generation++;
     this.loadedPages.clear();
     this.currentPageIndex = 0;
 
@@ -155,6 +157,7 @@ export class RemoteArray {
    */
   async filter(filterData: any): Promise<void> {
     this.filterData = filterData;
+    this.generation++;
     this.loadedPages.clear();
     this.currentPageIndex = 0;
     await this.loadPage(0);
@@ -166,6 +169,7 @@ export class RemoteArray {
    */
   async sort(sortData: Array<{ field: string; direction: 'asc' | 'desc' }>): Promise<void> {
     this.sortData = sortData;
+    this.generation++;
     this.loadedPages.clear();
     this.currentPageIndex = 0;
     await this.loadPage(0);
@@ -176,6 +180,7 @@ export class RemoteArray {
    * Reset to initial state
    */
   reset(): void {
+    this.generation++;
     this.currentPageIndex = 0;
     this.currentPage = [];
     this.loadedPages.clear();
@@ -203,11 +208,14 @@ export class RemoteArray {
 
     // Check cache first
     if (this.loadedPages.has(pageIndex)) {
-      this.currentPage = this.loadedPages.get(pageIndex) || [];
+      if (pageIndex === this.currentPageIndex) {
+        this.currentPage = this.loadedPages.get(pageIndex) || [];
+      }
       return;
     }
 
     this.isBusy = true;
+    const generation = this.generation;
 
     try {
       const result = await this.fetchPromise({
@@ -217,19 +225,28 @@ export class RemoteArray {
         sortData: this.sortData,
       });
 
+      // Filter/sort changed while loading
+      if (generation !== this.generation) {
+        return;
+      }
+
       // Update state
+      const pageData = result.data || [];
       this.totalRecords = result.totalRecords;
       this.totalPages = result.totalPages || Math.ceil(result.totalRecords / this.recordsPerPage);
-      this.currentPage = result.data || [];
-      this.loadedPages.set(pageIndex, this.currentPage);
+      this.loadedPages.set(pageIndex, pageData);
       this.loadedPagesCount = this.loadedPages.size;
 
-      // Update current page index if this is the page we're viewing
+      // Update current page if this is the page we're viewing (not a preload)
       if (pageIndex === this.currentPageIndex) {
+        this.currentPage = pageData;
         this.events.onPageChange?.(this.currentPageIndex);
         this.events.onDataLoaded?.(this.currentPage);
       }
     } catch (error) {
+      if (generation !== this.generation) {
+        return;
+      }
       this.events.onError?.(error instanceof Error ? error : new Error(String(error)));
       throw error;
     } finally {
@@ -251,6 +268,33 @@ export class RemoteArray {
     return this.currentPageIndex > 0;
   }
 
+  /**
+   * Check if a scrolled view showing records up to lastVisibleIndex should load more
+   * (the view is within threshold records of the end of the loaded data)
+   */
+  shouldLoadMore(lastVisibleIndex: number): boolean {
+    const lastLoadedPage = this.getLastLoadedPage();
+    if (lastLoadedPage < 0 || lastLoadedPage >= this.totalPages - 1) {
+      return false;
+    }
+    let loadedRecords = 0;
+    this.loadedPages.forEach((pageData) => {
+      loadedRecords += pageData.length;
+    });
+    return lastVisibleIndex >= loadedRecords - this.threshold;
+  }
+
+  /**
+   * Load the page after the last loaded one (infinite scrolling, read with getAllLoadedData)
+   */
+  async loadMore(): Promise<void> {
+    await this.goToPage(this.getLastLoadedPage() + 1);
+  }
+
+  private getLastLoadedPage(): number {
+    return this.loadedPages.size > 0 ? Math.max(...Array.from(this.loadedPages.keys())) : -1;
+  }
+
   /**
    * Get all loaded data (all cached pages)
    */
@@ -0,0 +1,123 @@
+/**
+ * Data Path Utilities
+ * Dot/bracket paths for binding components to nested form data
+ *
+ * Supported syntax:
+ * - customer.address.city
+ * - items[2].price
+ * - lines[].qty     ("[]" is the current row index of the enclosing Repeater)
+ * - data['first name']
+ */
+
+export type PathSegment = string | number;
+
+// Placeholder segment for "[]" (resolved against the enclosing Repeater rows)
+export const ROW_WILDCARD = '[]';
+
+const pathCache = new Map<string, PathSegment[]>();
+
+/**
+ * Parse a path string into segments (cached by source)
+ */
+export function parsePath(path: string): PathSegment[] {
+  const cached = pathCache.get(path);
+  if (cached) return cached;
+
+  const segments: PathSegment[] = [];
+  const pattern = /([^.[\]]+)|\[(\d*)\]|\[(['"])(.*?)\3\]/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(path)) !== null) {
+    if (match[1] !== undefined) {
+      segments.push(match[1]);
+    } else if (match[2] !== undefined) {
+      segments.push(match[2] === '' ? ROW_WILDCARD : Number(match[2]));
+    } else {
+      segments.push(match[4]);
+    }
+  }
+
+  pathCache.set(path, segments);
+  return segments;
+}
+
+/**
+ * Join segments back into a path string
+ */
+export function formatPath(segments: PathSegment[]): string {
+  return segments.reduce<string>((path, segment) => {
+    if (typeof segment === 'number') return `${path}[${segment}]`;
+    if (segment === ROW_WILDCARD) return `${path}[]`;
+    if (!/^[A-Za-z_$][\w$]*$/.test(segment)) return `${path}['${segment}']`;
+    return path ? `${path}.${segment}` : segment;
+  }, '');
+}
+
+/**
+ * Whether a key is a path rather than a plain top-level key
+ */
+export function isPath(key: string): boolean {
+  return /[.[]/.test(key);
+}
+
+/**
+ * Read a value at a path
+ */
+export function getPath(obj: any, path: string | PathSegment[]): any {
+  const segments = typeof path === 'string' ? parsePath(path) : path;
+  let value = obj;
+  for (const segment of segments) {
+    if (value === null || value === undefined) return undefined;
+    value = value[segment as any];
+  }
+  return value;
+}
+
+/**
+ * Write a value at a path without mutating the source object
+ * Missing containers are created as arrays for numeric segments, objects otherwise
+ */
+export function setPath<T extends Record<string, any>>(obj: T, path: string | PathSegment[], value: any): T {
+  const segments = typeof path === 'string' ? parsePath(path) : path;
+  if (segments.length === 0) return obj;
+
+  const write = (current: any, index: number): any => {
+    const segment = segments[index];
+    const isLast = index === segments.length - 1;
+    const container = Array.isArray(current)
+      ? [...current]
+      : current && typeof current === 'object'
+        ? { ...current }
+        : typeof segment === 'number' ? [] : {};
+
+    container[segment as any] = isLast
+      ? value
+      : write(container[segment as any], index + 1);
+    return container;
+  };
+
+  return write(obj, 0);
+}
+
+/**
+ * Replace "[]" wildcards with row indices, innermost Repeater last
+ * e.g. resolveRowWildcards('lines[].qty', [2]) => 'lines[2].qty'
+ */
+export function resolveRowWildcards(path: string, rowIndices: number[]): string {
+  if (!path.includes(ROW_WILDCARD)) return path;
+  let next = 0;
+  return path.replace(/\[\]/g, (match) => {
+    const index = rowIndices[next++];
+    return index === undefined ? match : `[${index}]`;
+  });
+}
+
+/**
+ * Expand flat "a.b" keys into nested objects (e.g. initial values from an API)
+ */
+export function expandPaths(data: Record<string, any>): Record<string, any> {
+  let result: Record<string, any> = {};
+  for (const [key, value] of Object.entries(data)) {
+    result = isPath(key) ? setPath(result, key, value) : { ...result, [key]: value };
+  }
+  return result;
+}
@@ -14,6 +14,8 @@ export interface DataSourceResolverOptions {
   component: ComponentDefinition;
   getAllData: () => Record<string, any>;
   getData: (key: string) => any;
+  // Strict expression mode of the form (computed sources)
+  strict?: boolean;
 }
 
 /**
@@ -26,6 +28,7 @@ export interface DataSourceResolverOptions {
  * 5. JSON string - stringified JSON array/object
  * 6. RemoteArray - RemoteArray instance
  * 7. Dataview reference - object with dataview_id or string starting with "dataview:"
+ * 8. Remote endpoint - string starting with "remote:" followed by the URL
  */
 export async function resolveDataSource({
   source,
@@ -33,6 +36,7 @@ export async function resolveDataSource({
   component,
   getAllData,
   getData,
+  strict,
 }: DataSourceResolverOptions): Promise<any> {
   if (!source) {
     return null;
@@ -66,7 +70,10 @@ export async function resolveDataSource({
       try {
         const evaluated = ComputedPropertyEvaluator.evaluate(
           source as any,
-          formData || getAllData()
+          formData || getAllData(),
+          undefined,
+          undefined,
+          { strict }
         );
         return evaluated;
       } catch (error) {
@@ -105,12 +112,18 @@ export async function resolveDataSource({
       }
     }
 
-    // Check if it's a RemoteArray reference
+    // Check if it's a remote endpoint reference (first page only - grids page through useGridQuery)
     if (source.startsWith('remote:')) {
-      // RemoteArray references would need a cache/registry
-      // For now, return null - this can be extended
-      console.warn('RemoteArray reference not yet supported:', source);
-      return null;
+      try {
+        const page = await getDataviewManager().fetchEndpointPage(source.replace('remote:', ''), {
+          startPage: 0,
+          recordsPerPage: 100,
+        });
+        return page.data;
+      } catch (error) {
+        console.error('Error loading remote data:', error);
+        return null;
+      }
     }
 
     try {
@@ -127,6 +140,33 @@ export async function resolveDataSource({
   return null;
 }
 
+/**
+ * Source loaded page by page from the server
+ */
+export type RemoteDataSource =
+  | { type: 'dataview'; dataviewId: string }
+  | { type: 'endpoint'; url: string };
+
+/**
+ * Remote source of a data source value ("dataview:<id>", "remote:<url>" or { dataview_id })
+ * Plain dataview ids can't be told apart from dataKeys synchronously - see useGridQuery
+ */
+export function getRemoteDataSource(source: any): RemoteDataSource | null {
+  if (typeof source === 'string') {
+    if (source.startsWith('dataview:')) {
+      return { type: 'dataview', dataviewId: source.replace('dataview:', '') };
+    }
+    if (source.startsWith('remote:')) {
+      return { type: 'endpoint', url: source.replace('remote:', '') };
+    }
+    return null;
+  }
+  if (source && typeof source === 'object' && !Array.isArray(source) && typeof source.dataview_id === 'string') {
+    return { type: 'dataview', dataviewId: source.dataview_id };
+  }
+  return null;
+}
+
 /**
  * Resolve array data source (ensures result is an array)
  * Async version that supports RemoteArray and dataview references
@@ -201,7 +241,10 @@ export function resolveArrayDataSourceSync(options: DataSourceResolverOptions):
       try {
         const evaluated = ComputedPropertyEvaluator.evaluate(
           source as any,
-          options.formData || options.getAllData()
+          options.formData || options.getAllData(),
+          undefined,
+          undefined,
+          { strict: options.strict }
         );
         return Array.isArray(evaluated) ? evaluated : [];
       } catch (error) {
@@ -222,8 +265,8 @@ export function resolveArrayDataSourceSync(options: DataSourceResolverOptions):
   }
 
   if (typeof source === 'string') {
-    // Check for dataview reference (can't load synchronously)
-    if (source.startsWith('dataview:')) {
+    // Check for dataview/remote reference (can't load synchronously)
+    if (source.startsWith('dataview:') || source.startsWith('remote:')) {
       return [];
     }
 
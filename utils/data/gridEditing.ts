@@ -0,0 +1,149 @@
+/**
+ * Grid Editing
+ * Cell value coercion, per-cell validation and dirty-row tracking for editable DataGrids
+ */
+
+import type { DataGridColumn, DataGridEditorType } from '../../stores/types';
+import { ZodValidationBuilder } from '../validation/zodValidation';
+import type { ExpressionOptions } from '../expressions/expressionEngine';
+
+// Cell errors by cellKey
+export type GridCellErrors = Record<string, string>;
+
+type CellDataType = 'string' | 'number' | 'boolean' | 'date';
+
+const DATA_TYPES: Record<DataGridEditorType, CellDataType> = {
+  text: 'string',
+  number: 'number',
+  select: 'string',
+  date: 'date',
+  checkbox: 'boolean',
+};
+
+export class GridEditing {
+  /**
+   * Key of a cell in GridCellErrors
+   */
+  static cellKey(rowIndex: number, field: string): string {
+    return `${rowIndex}:${field}`;
+  }
+
+  /**
+   * Normalized columns prop (plain field names become read-only columns)
+   */
+  static toColumns(columns: any[]): DataGridColumn[] {
+    return (columns || []).map((col) => (typeof col === 'string' ? { field: col } : col));
+  }
+
+  /**
+   * Data type a cell is validated as
+   */
+  static getDataType(editor: DataGridEditorType | undefined): CellDataType {
+    return editor ? DATA_TYPES[editor] : 'string';
+  }
+
+  /**
+   * Value stored for editor input (numbers as numbers, empty input as null)
+   */
+  static coerce(value: any, editor: DataGridEditorType | undefined): any {
+    if (editor === 'checkbox') return Boolean(value);
+    if (value === '' || value === undefined) return null;
+    if (editor === 'number' && typeof value === 'string') {
+      const num = Number(value);
+      return isNaN(num) ? value : num;
+    }
+    return value;
+  }
+
+  /**
+   * New row with the columns' default values
+   */
+  static createRow(columns: DataGridColumn[]): Record<string, any> {
+    const row: Record<string, any> = {};
+    columns.forEach((col) => {
+      if (col.defaultValue !== undefined) row[col.field] = col.defaultValue;
+      else if (col.editor === 'checkbox') row[col.field] = false;
+    });
+    return row;
+  }
+
+  /**
+   * Error messages of a cell (required flag plus the column's rules)
+   */
+  static async validateCell(
+    value: any,
+    column: DataGridColumn,
+    formData?: Record<string, any>,
+    options?: ExpressionOptions
+  ): Promise<string[]> {
+    const rules = column.validations || [];
+    if (!column.required && rules.length === 0) return [];
+    try {
+      return await ZodValidationBuilder.validateField(value, rules, this.getDataType(column.editor), {
+        required: column.required,
+        formData,
+        strict: options?.strict,
+      });
+    } catch (error: any) {
+      return [error?.message || 'Validation failed'];
+    }
+  }
+
+  /**
+   * First error of every invalid cell of the editable columns
+   */
+  static async validateRows(
+    rows: any[],
+    columns: DataGridColumn[],
+    formData?: Record<string, any>,
+    options?: ExpressionOptions
+  ): Promise<GridCellErrors> {
+    const errors: GridCellErrors = {};
+    const editable = columns.filter((col) => col.editor);
+    for (let index = 0; index < rows.length; index++) {
+      for (const column of editable) {
+        const messages = await this.validateCell(rows[index]?.[column.field], column, formData, options);
+        if (messages.length > 0) errors[this.cellKey(index, column.field)] = messages[0];
+      }
+    }
+    return errors;
+  }
+
+  /**
+   * Cell errors as form error messages ("Row 2, Qty: ...")
+   */
+  static toMessages(errors: GridCellErrors, columns: DataGridColumn[]): string[] {
+    return Object.entries(errors).map(([key, message]) => {
+      const separator = key.indexOf(':');
+      const field = key.slice(separator + 1);
+      const column = columns.find((col) => col.field === field);
+      return `Row ${Number(key.slice(0, separator)) + 1}, ${column?.headerName || field}: ${message}`;
+    });
+  }
+
+  /**
+   * Cell errors after the row at index was removed (later rows move up)
+   */
+  static removeRowErrors(errors: GridCellErrors, index: number): GridCellErrors {
+    const next: GridCellErrors = {};
+    Object.entries(errors).forEach(([key, message]) => {
+      const separator = key.indexOf(':');
+      const rowIndex = Number(key.slice(0, separator));
+      if (rowIndex === index) return;
+      next[this.cellKey(rowIndex > index ? rowIndex - 1 : rowIndex, key.slice(separator + 1))] = message;
+    });
+    return next;
+  }
+
+  /**
+   * Rows that differ from the baseline
+   * origins[i] is the baseline index row i started from (null for added rows)
+   */
+  static getDirtyRows(rows: any[], baseline: any[], origins: (number | null)[]): boolean[] {
+    return rows.map((row, index) => {
+      const origin = origins[index];
+      if (origin === null || origin === undefined || origin >= baseline.length) return true;
+      return JSON.stringify(row) !== JSON.stringify(baseline[origin]);
+    });
+  }
+}
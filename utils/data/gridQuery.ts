@@ -0,0 +1,211 @@
+/**
+ * Grid Query
+ * Sorting, column filters and paging for DataGrid/DataBrowse rows
+ *
+ * The same query is applied client-side to local rows and sent to the server as
+ * RemoteArray filterData/sortData for dataview and endpoint sources.
+ */
+
+import type { DataviewFieldType, RemoteArrayOptions } from '../../stores/types';
+import type { DataviewFilterOperator } from '../dataviews/dataviewFields';
+
+export type GridSort = NonNullable<RemoteArrayOptions['sortData']>[number];
+
+export interface GridFilter {
+  field: string;
+  operator: DataviewFilterOperator;
+  // As typed in the filter input (compared according to the column type)
+  value?: any;
+  type?: DataviewFieldType;
+}
+
+// RemoteArray filterData of grids
+export interface GridFilterData {
+  conditions: GridFilter[];
+  // Free-text search over all columns (DataBrowse)
+  search?: string;
+}
+
+export type RemoteFetchParams = Parameters<RemoteArrayOptions['fetchPromise']>[0];
+export type RemoteFetchResult = Awaited<ReturnType<RemoteArrayOptions['fetchPromise']>>;
+
+const isEmpty = (value: any) =>
+  value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+
+const NUMERIC_TYPES: (DataviewFieldType | undefined)[] = ['number', 'integer'];
+const DATE_TYPES: (DataviewFieldType | undefined)[] = ['date', 'datetime'];
+
+export class GridQuery {
+  /**
+   * Whether a filter has something to filter by
+   */
+  static isActive(filter: GridFilter): boolean {
+    return filter.operator === 'empty' || filter.operator === 'notEmpty' || !isEmpty(filter.value);
+  }
+
+  /**
+   * Whether a row passes a filter
+   */
+  static matches(row: any, filter: GridFilter): boolean {
+    const value = row?.[filter.field];
+    switch (filter.operator) {
+      case 'empty':
+        return isEmpty(value);
+      case 'notEmpty':
+        return !isEmpty(value);
+      case 'equals':
+        return this.compare(value, filter.value, filter.type) === 0;
+      case 'notEquals':
+        return this.compare(value, filter.value, filter.type) !== 0;
+      case 'contains':
+        return this.contains(value, filter.value);
+      case 'notContains':
+        return !this.contains(value, filter.value);
+      case 'gt':
+        return !isEmpty(value) && this.compare(value, filter.value, filter.type) > 0;
+      case 'gte':
+        return !isEmpty(value) && this.compare(value, filter.value, filter.type) >= 0;
+      case 'lt':
+        return !isEmpty(value) && this.compare(value, filter.value, filter.type) < 0;
+      case 'lte':
+        return !isEmpty(value) && this.compare(value, filter.value, filter.type) <= 0;
+      case 'in':
+        return this.toList(filter.value).some((item) => this.compare(value, item, filter.type) === 0);
+      case 'notIn':
+        return !this.toList(filter.value).some((item) => this.compare(value, item, filter.type) === 0);
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * Filter, search and sort rows client-side
+   */
+  static apply(rows: any[], filterData?: GridFilterData, sortData?: GridSort[]): any[] {
+    const conditions = (filterData?.conditions || []).filter((filter) => this.isActive(filter));
+    const search = filterData?.search?.trim().toLowerCase();
+
+    let result = rows;
+    if (conditions.length > 0 || search) {
+      result = rows.filter((row) =>
+        conditions.every((filter) => this.matches(row, filter)) &&
+        (!search || Object.values(row || {}).some((value) => String(value ?? '').toLowerCase().includes(search)))
+      );
+    }
+
+    if (sortData && sortData.length > 0) {
+      result = [...result].sort((a, b) => {
+        for (const { field, direction } of sortData) {
+          // Empty values last in both directions
+          const left = a?.[field];
+          const right = b?.[field];
+          if (isEmpty(left) !== isEmpty(right)) return isEmpty(left) ? 1 : -1;
+          const order = this.compare(left, right);
+          if (order !== 0) return direction === 'desc' ? -order : order;
+        }
+        return 0;
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * One page of rows queried client-side, in RemoteArray fetch result form
+   */
+  static page(rows: any[], params: RemoteFetchParams): RemoteFetchResult {
+    const result = this.apply(rows, params.filterData, params.sortData);
+    const start = params.startPage * params.recordsPerPage;
+    return {
+      data: result.slice(start, start + params.recordsPerPage),
+      totalRecords: result.length,
+      totalPages: Math.max(1, Math.ceil(result.length / params.recordsPerPage)),
+    };
+  }
+
+  /**
+   * Request body fields for a query
+   * filters holds equality conditions by field (the format dataview endpoints already accept),
+   * conditions the full list with operators
+   */
+  static toRequest(filterData?: GridFilterData, sortData?: GridSort[]) {
+    const conditions = (filterData?.conditions || []).filter((filter) => this.isActive(filter));
+    const filters: Record<string, any> = {};
+    conditions
+      .filter((filter) => filter.operator === 'equals')
+      .forEach((filter) => {
+        filters[filter.field] = filter.value;
+      });
+    return {
+      filters,
+      conditions: conditions.map(({ field, operator, value }) => ({ field, operator, value })),
+      search: filterData?.search || undefined,
+      sort: sortData || [],
+    };
+  }
+
+  /**
+   * Page of a server response; responses without totals are treated as unpaged
+   * and queried client-side
+   */
+  static fromResponse(result: any, params: RemoteFetchParams): RemoteFetchResult {
+    const data = Array.isArray(result)
+      ? result
+      : [result?.data, result?.items, result?.records, result?.rows, result?.results].find(Array.isArray) || [];
+    const total = Array.isArray(result)
+      ? undefined
+      : result?.totalRecords ?? result?.total ?? result?.totalCount ?? result?.count;
+
+    if (typeof total !== 'number') {
+      // The whole set came back - page it here
+      return this.page(data, params);
+    }
+
+    return {
+      data,
+      totalRecords: total,
+      totalPages: result?.totalPages ?? Math.max(1, Math.ceil(total / params.recordsPerPage)),
+    };
+  }
+
+  /**
+   * Compare two values as the column type (numbers, dates, then case-insensitive text)
+   */
+  private static compare(left: any, right: any, type?: DataviewFieldType): number {
+    if (isEmpty(left) || isEmpty(right)) {
+      return isEmpty(left) === isEmpty(right) ? 0 : isEmpty(left) ? -1 : 1;
+    }
+    if (typeof left === 'boolean' || type === 'boolean') {
+      return String(left) === String(right).toLowerCase() ? 0 : String(left) < String(right) ? -1 : 1;
+    }
+
+    const numeric = NUMERIC_TYPES.includes(type) || (type === undefined && typeof left === 'number');
+    if (numeric && !isNaN(Number(left)) && !isNaN(Number(right))) {
+      return Number(left) - Number(right);
+    }
+
+    if (DATE_TYPES.includes(type)) {
+      const leftTime = new Date(left).getTime();
+      const rightTime = new Date(right).getTime();
+      if (!isNaN(leftTime) && !isNaN(rightTime)) return leftTime - rightTime;
+    }
+
+    return String(left).localeCompare(String(right), undefined, { sensitivity: 'base', numeric: true });
+  }
+
+  private static contains(value: any, search: any): boolean {
+    if (Array.isArray(value)) {
+      return value.some((item) => String(item).toLowerCase() === String(search).toLowerCase());
+    }
+    return String(value ?? '').toLowerCase().includes(String(search ?? '').toLowerCase());
+  }
+
+  // "a, b" or an array
+  private static toList(value: any): any[] {
+    if (Array.isArray(value)) return value;
+    return String(value ?? '')
+      .split(',')
+      .map((item) => item.trim())
+      .filter((item) => item !== '');
+  }
+}
@@ -0,0 +1,225 @@
+/**
+ * Tree Data
+ * Tree nodes from nested or flat (id/parent key) rows, and tri-state checkbox selection
+ */
+
+export interface TreeKeyFields {
+  idField: string;
+  parentField: string;
+  labelField: string;
+  // Row field telling whether a lazily loaded node has children
+  hasChildrenField?: string;
+}
+
+export interface TreeNode {
+  // Node key (string form of value)
+  id: string;
+  label: string;
+  // Id as found in the row - stored in the selection
+  value: any;
+  children: TreeNode[];
+  // Shows an expand toggle (children loaded or still to load)
+  expandable: boolean;
+  // Children are still to be loaded
+  lazy: boolean;
+  // Row of a parent cycle, cut from its parent and shown as a root
+  cycle?: boolean;
+  data?: any;
+}
+
+export type TreeCheckState = 'checked' | 'unchecked' | 'indeterminate';
+
+export const DEFAULT_TREE_KEYS: TreeKeyFields = {
+  idField: 'id',
+  parentField: 'parent_id',
+  labelField: 'label',
+};
+
+const isEmptyKey = (value: any): boolean => value === undefined || value === null || value === '';
+
+export class TreeData {
+  /**
+   * Tree of the rows - nested rows ({ id, label, children }) are kept, flat rows are linked
+   * through their parent field. Rows whose parent is empty or not among the rows are roots.
+   *
+   * @param loadedParents - Lazy trees: nodes whose children were loaded (others may still have some)
+   */
+  static fromRows(rows: any[], keys: TreeKeyFields, loadedParents?: Set<string>): TreeNode[] {
+    const items = rows.filter((row) => row && typeof row === 'object');
+    if (items.some((row) => Array.isArray(row.children))) {
+      return items.map((row) => this.fromNested(row, keys));
+    }
+
+    const nodes = new Map<string, TreeNode>();
+    items.forEach((row) => {
+      const value = row[keys.idField];
+      if (isEmptyKey(value)) return;
+      const id = String(value);
+      if (!nodes.has(id)) {
+        nodes.set(id, {
+          id,
+          label: this.getLabel(row, keys, id),
+          value,
+          children: [],
+          expandable: false,
+          lazy: false,
+          data: row,
+        });
+      }
+    });
+
+    const roots: TreeNode[] = [];
+    nodes.forEach((node) => {
+      const parentValue = node.data[keys.parentField];
+      const parent = isEmptyKey(parentValue) ? undefined : nodes.get(String(parentValue));
+      // A row listed as its own parent is a root
+      if (parent && parent !== node) parent.children.push(node);
+      else roots.push(node);
+    });
+
+    // Rows in a parent cycle (A -> B -> A) are unreachable from the roots - cut the
+    // cycle at the first such row and attach it as a root so no row disappears
+    const visited = new Set<TreeNode>();
+    const visit = (node: TreeNode) => {
+      if (visited.has(node)) return;
+      visited.add(node);
+      node.children.forEach(visit);
+    };
+    roots.forEach(visit);
+    nodes.forEach((node) => {
+      if (visited.has(node)) return;
+      const parent = nodes.get(String(node.data[keys.parentField]));
+      if (parent) parent.children = parent.children.filter((child) => child !== node);
+      node.cycle = true;
+      roots.push(node);
+      visit(node);
+    });
+
+    nodes.forEach((node) => {
+      const mayHaveChildren = keys.hasChildrenField ? Boolean(node.data[keys.hasChildrenField]) : true;
+      node.lazy = Boolean(loadedParents) && node.children.length === 0 && !loadedParents!.has(node.id) && mayHaveChildren;
+      node.expandable = node.children.length > 0 || node.lazy;
+    });
+
+    return roots;
+  }
+
+  /**
+   * Nodes by id with the id of their parent
+   */
+  static index(roots: TreeNode[]): Map<string, { node: TreeNode; parentId?: string }> {
+    const result = new Map<string, { node: TreeNode; parentId?: string }>();
+    const visit = (nodes: TreeNode[], parentId?: string) => {
+      nodes.forEach((node) => {
+        result.set(node.id, { node, parentId });
+        visit(node.children, node.id);
+      });
+    };
+    visit(roots);
+    return result;
+  }
+
+  /**
+   * Checkbox state of a node - parents with loaded children follow their children
+   */
+  static getCheckState(node: TreeNode, selected: Set<string>): TreeCheckState {
+    if (node.children.length === 0) {
+      return selected.has(node.id) ? 'checked' : 'unchecked';
+    }
+    const states = node.children.map((child) => this.getCheckState(child, selected));
+    if (states.every((state) => state === 'checked')) return 'checked';
+    if (states.every((state) => state === 'unchecked')) return 'unchecked';
+    return 'indeterminate';
+  }
+
+  /**
+   * Selection after checking/unchecking a node - applies to its descendants, then to its ancestors
+   */
+  static toggle(roots: TreeNode[], selected: Set<string>, nodeId: string, checked: boolean): Set<string> {
+    const index = this.index(roots);
+    const entry = index.get(nodeId);
+    if (!entry) return selected;
+
+    const result = new Set(selected);
+    const visit = (node: TreeNode) => {
+      if (checked) result.add(node.id);
+      else result.delete(node.id);
+      node.children.forEach(visit);
+    };
+    visit(entry.node);
+
+    // Ancestors of an unchecked node are no longer fully checked
+    if (!checked) {
+      let parentId = entry.parentId;
+      while (parentId) {
+        result.delete(parentId);
+        parentId = index.get(parentId)?.parentId;
+      }
+    }
+
+    return this.sync(roots, result);
+  }
+
+  /**
+   * Consistent selection: children of checked nodes are checked (e.g. once loaded),
+   * parents are checked exactly when all their children are
+   */
+  static sync(roots: TreeNode[], selected: Set<string>): Set<string> {
+    const result = new Set(selected);
+
+    const down = (node: TreeNode, parentChecked: boolean) => {
+      if (parentChecked) result.add(node.id);
+      node.children.forEach((child) => down(child, result.has(node.id)));
+    };
+    roots.forEach((root) => down(root, false));
+
+    const up = (node: TreeNode): boolean => {
+      if (node.children.length === 0) return result.has(node.id);
+      const allChecked = node.children.map(up).every(Boolean);
+      if (allChecked) result.add(node.id);
+      else result.delete(node.id);
+      return allChecked;
+    };
+    roots.forEach(up);
+
+    return result;
+  }
+
+  /**
+   * Node ids of a stored selection (array of ids)
+   */
+  static toSelection(value: any): Set<string> {
+    return new Set(Array.isArray(value) ? value.filter((item) => !isEmptyKey(item)).map(String) : []);
+  }
+
+  /**
+   * Stored selection of node ids - ids as found in the rows, previous values kept for nodes not loaded
+   */
+  static fromSelection(selected: Set<string>, roots: TreeNode[], previous: any): any[] {
+    const index = this.index(roots);
+    const previousValues = new Map<string, any>(
+      (Array.isArray(previous) ? previous : []).map((item: any) => [String(item), item])
+    );
+    return Array.from(selected).map((id) => index.get(id)?.node.value ?? previousValues.get(id) ?? id);
+  }
+
+  private static fromNested(row: any, keys: TreeKeyFields): TreeNode {
+    const value = row.id ?? row[keys.idField];
+    const id = String(value);
+    const children = Array.isArray(row.children) ? row.children.map((child: any) => this.fromNested(child, keys)) : [];
+    return {
+      id,
+      label: this.getLabel(row, keys, id),
+      value,
+      children,
+      expandable: children.length > 0,
+      lazy: false,
+      data: row,
+    };
+  }
+
+  private static getLabel(row: any, keys: TreeKeyFields, id: string): string {
+    const label = row[keys.labelField] ?? row.label ?? row.name;
+    return isEmptyKey(label) ? id : String(label);
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * Dataview Field Metadata
+ * Typed dataview fields from OpenAPI response schemas (or inferred from loaded records),
+ * with the default renderer and the filter operators each type supports
+ */
+
+import type { DataviewField, DataviewFieldType, DependencyCondition } from '../../stores/types';
+import type { OpenAPIField } from '../api/openApiUtils';
+
+export type DataviewFieldRenderer = 'text' | 'number' | 'date' | 'datetime' | 'boolean' | 'json';
+
+export type DataviewFilterOperator = NonNullable<DependencyCondition['operator']>;
+
+// Records sampled when inferring fields from data
+const SAMPLE_SIZE = 20;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const ISO_DATETIME = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+
+const EMPTINESS_OPERATORS: DataviewFilterOperator[] = ['empty', 'notEmpty'];
+
+const OPERATORS_BY_TYPE: Record<DataviewFieldType, DataviewFilterOperator[]> = {
+  string: ['equals', 'notEquals', 'contains', 'notContains', 'in', 'notIn'],
+  number: ['equals', 'notEquals', 'gt', 'gte', 'lt', 'lte', 'in', 'notIn'],
+  integer: ['equals', 'notEquals', 'gt', 'gte', 'lt', 'lte', 'in', 'notIn'],
+  date: ['equals', 'notEquals', 'gt', 'gte', 'lt', 'lte'],
+  datetime: ['equals', 'notEquals', 'gt', 'gte', 'lt', 'lte'],
+  boolean: ['equals', 'notEquals'],
+  array: ['contains', 'notContains'],
+  object: [],
+};
+
+export class DataviewFieldUtils {
+  /**
+   * Fields of an OpenAPI response schema
+   */
+  static fromOpenAPI(fields: OpenAPIField[]): DataviewField[] {
+    return fields.map((field) => ({
+      name: field.name,
+      type: this.typeFromSchema(field.type, field.format),
+      format: field.format,
+      nullable: Boolean(field.nullable),
+      enum: field.enum,
+      description: field.description,
+      source: 'schema',
+    }));
+  }
+
+  /**
+   * Fields inferred from loaded records (first SAMPLE_SIZE records)
+   */
+  static inferFromRecords(records: any[]): DataviewField[] {
+    const sample = (Array.isArray(records) ? records : [])
+      .slice(0, SAMPLE_SIZE)
+      .filter((record) => record && typeof record === 'object' && !Array.isArray(record));
+    const names: string[] = [];
+    sample.forEach((record) => Object.keys(record).forEach((name) => {
+      if (!names.includes(name)) names.push(name);
+    }));
+
+    return names.map((name) => {
+      const values = sample.map((record) => record[name]);
+      const present = values.filter((value) => value !== null && value !== undefined);
+      const types = Array.from(new Set(present.map((value) => this.typeOfValue(value))));
+      let type: DataviewFieldType = types.length === 1 ? types[0] : 'string';
+      // Mixed whole and decimal numbers
+      if (types.length === 2 && types.includes('integer') && types.includes('number')) type = 'number';
+      return {
+        name,
+        type,
+        nullable: present.length < values.length,
+        source: 'records' as const,
+      };
+    });
+  }
+
+  /**
+   * Schema fields first, then fields only seen in the records
+   */
+  static merge(schemaFields: DataviewField[], recordFields: DataviewField[]): DataviewField[] {
+    const known = new Set(schemaFields.map((field) => field.name));
+    return [...schemaFields, ...recordFields.filter((field) => !known.has(field.name))];
+  }
+
+  /**
+   * Default cell renderer for a field
+   */
+  static getRenderer(field: Pick<DataviewField, 'type'> | undefined): DataviewFieldRenderer {
+    switch (field?.type) {
+      case 'number':
+      case 'integer':
+        return 'number';
+      case 'date':
+        return 'date';
+      case 'datetime':
+        return 'datetime';
+      case 'boolean':
+        return 'boolean';
+      case 'object':
+      case 'array':
+        return 'json';
+      default:
+        return 'text';
+    }
+  }
+
+  /**
+   * Display text of a value for a renderer (booleans are rendered as icons by the caller)
+   */
+  static formatValue(value: any, renderer: DataviewFieldRenderer): string {
+    if (value === null || value === undefined || value === '') return '-';
+    switch (renderer) {
+      case 'number':
+        return typeof value === 'number' || !isNaN(Number(value)) ? Number(value).toLocaleString() : String(value);
+      case 'date':
+      case 'datetime': {
+        // Date-only strings are local dates, not UTC midnight
+        const date = typeof value === 'string' && ISO_DATE.test(value) ? new Date(`${value}T00:00:00`) : new Date(value);
+        if (isNaN(date.getTime())) return String(value);
+        return renderer === 'date' ? date.toLocaleDateString() : date.toLocaleString();
+      }
+      case 'boolean':
+        return value ? 'Yes' : 'No';
+      case 'json':
+        return JSON.stringify(value);
+      default:
+        return String(value);
+    }
+  }
+
+  /**
+   * Filter operators that apply to a field
+   * Enums compare by equality; empty/notEmpty only for nullable fields and strings
+   */
+  static getOperators(field: Pick<DataviewField, 'type' | 'nullable' | 'enum'>): DataviewFilterOperator[] {
+    const operators = field.enum && field.enum.length > 0
+      ? ['equals', 'notEquals', 'in', 'notIn'] as DataviewFilterOperator[]
+      : OPERATORS_BY_TYPE[field.type] || OPERATORS_BY_TYPE.string;
+    return field.nullable || field.type === 'string' || field.type === 'object'
+      ? [...operators, ...EMPTINESS_OPERATORS]
+      : operators;
+  }
+
+  /**
+   * Short label of a field's type for pickers (e.g. "integer · int64", "string?")
+   */
+  static describe(field: DataviewField): string {
+    const type = field.enum && field.enum.length > 0 ? 'enum' : field.type;
+    const format = field.format && !['date', 'date-time'].includes(field.format) ? ` · ${field.format}` : '';
+    return `${type}${format}${field.nullable ? '?' : ''}`;
+  }
+
+  private static typeFromSchema(type: string | undefined, format: string | undefined): DataviewFieldType {
+    switch (type) {
+      case 'integer':
+        return 'integer';
+      case 'number':
+        return 'number';
+      case 'boolean':
+        return 'boolean';
+      case 'array':
+        return 'array';
+      case 'object':
+        return 'object';
+      default:
+        if (format === 'date') return 'date';
+        if (format === 'date-time') return 'datetime';
+        return 'string';
+    }
+  }
+
+  private static typeOfValue(value: any): DataviewFieldType {
+    if (typeof value === 'boolean') return 'boolean';
+    if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'object') return 'object';
+    if (typeof value === 'string') {
+      if (ISO_DATE.test(value)) return 'date';
+      if (ISO_DATETIME.test(value)) return 'datetime';
+    }
+    return 'string';
+  }
+}
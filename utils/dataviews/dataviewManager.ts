@@ -16,7 +16,9 @@ import { RemoteArray } from '../data/RemoteArray';
 import { openAPIUtils } from '../api/openApiUtils';
 import { dataCache } from '../cache/dataCache';
 import { apiConfig } from '../../config/apiConfig';
-import type { Dataview, RemoteArrayOptions } from '../../stores/types';
+import { DataviewFieldUtils } from './dataviewFields';
+import { GridQuery, type RemoteFetchParams, type RemoteFetchResult } from '../data/gridQuery';
+import type { Dataview, DataviewField, RemoteArrayOptions } from '../../stores/types';
 
 /**
  * Gaia API Input structure for dataview list requests
@@ -188,51 +190,62 @@ export class DataviewManager {
    * 
    * @param dataviewId - The dataview ID or name
    * @param filterData - Optional filter parameters for cascading dropdowns
+   * @param operationId - Optional OpenAPI operation of the dataview spec to load from
    */
-  async loadDataview(dataviewId: string, filterData?: any): Promise<any[]> {
+  async loadDataview(dataviewId: string, filterData?: any, operationId?: string): Promise<any[]> {
     const dataview = this.getDataview(dataviewId);
     if (!dataview) {
       throw new Error(`Dataview not found: ${dataviewId}`);
     }
 
-    // Create cache key (include filter for filtered results)
+    // Create cache key (include operation and filter for filtered results)
+    const operationKey = operationId ? `-${operationId}` : '';
     const filterKey = filterData ? `-${JSON.stringify(filterData)}` : '';
-    const cacheKey = `dataview-data-${dataviewId}${filterKey}`;
-    
-    // Check cache first (skip if filter is applied for fresh data)
-    if (!filterData) {
-      const cached = dataCache.get(cacheKey);
-      if (cached) {
-        return cached;
-      }
-    }
+    const cacheKey = `dataview-data-${dataviewId}${operationKey}${filterKey}`;
+
+    // Concurrent loads (e.g. several Selects mounting together) share one request.
+    // Filtered loads always fetch fresh data and are not persisted (filters hold user input, e.g.
+    // the value of a unique check); unfiltered ones are served stale for up to a day while they
+    // are refetched in the background.
+    return dataCache.fetch(cacheKey, () => this.fetchDataview(dataview, filterData, operationId), {
+      ttl: filterData ? 300000 : 3600000, // 5 min or 1 hour
+      staleTime: filterData ? undefined : 86400000,
+      tags: [DataviewManager.getCacheTag(dataviewId)],
+      fresh: Boolean(filterData),
+      memoryOnly: Boolean(filterData),
+    });
+  }
 
-    try {
-      let data: any[] = [];
+  /**
+   * Cache tag of every entry of a dataview (data and fields)
+   */
+  static getCacheTag(dataviewId: string): string {
+    return `dataview:${dataviewId}`;
+  }
 
-      if (apiConfig.isGaiaEnabled()) {
+  /**
+   * Fetch dataview data (no caching)
+   */
+  private async fetchDataview(dataview: Dataview, filterData?: any, operationId?: string): Promise<any[]> {
+    try {
+      if (operationId) {
+        // Operation chosen in the builder: call it from the dataview's spec
+        return await this.loadDataviewOperation(dataview, operationId, filterData);
+      } else if (apiConfig.isGaiaEnabled()) {
         // Gaia API: Use OpenAPI YAML pattern
-        data = await this.loadDataviewGaia(dataview, filterData);
+        return await this.loadDataviewGaia(dataview, filterData);
       } else {
         // Local API: Use direct endpoint
-        data = await this.loadDataviewLocal(dataviewId, filterData);
+        return await this.loadDataviewLocal(dataview.id, filterData);
       }
-
-      // Cache data (shorter cache time if filtered)
-      const cacheTime = filterData ? 300000 : 3600000; // 5 min or 1 hour
-      dataCache.set(cacheKey, data, cacheTime);
-
-      return data;
     } catch (error) {
-      console.error(`Failed to load dataview ${dataviewId}:`, error);
+      console.error(`Failed to load dataview ${dataview.id}:`, error);
       
       // Fallback: try OpenAPI URL if available
-      if (dataview.url) {
+      if (dataview.url && !operationId) {
         try {
           console.log(`Trying fallback to OpenAPI URL: ${dataview.url}`);
-          const data = await openAPIUtils.generateAndLoadDataView(dataview.url);
-          dataCache.set(cacheKey, data, 3600000);
-          return data;
+          return await openAPIUtils.generateAndLoadDataView(dataview.url);
         } catch (fallbackError) {
           console.error(`Fallback also failed:`, fallbackError);
         }
@@ -298,19 +311,26 @@ export class DataviewManager {
     return data;
   }
 
+  /**
+   * Load dataview data from a specific operation of the dataview's OpenAPI spec
+   * Filters matching operation parameters are sent to the server, all are applied client-side
+   */
+  private async loadDataviewOperation(dataview: Dataview, operationId: string, filterData?: any): Promise<any[]> {
+    const specUrl = dataview.url || apiConfig.getGaiaDataviewYamlUrl(dataview.name);
+    const data = await openAPIUtils.generateAndLoadDataView(specUrl, this.recordsPerPage, operationId, filterData);
+
+    if (filterData && Object.keys(filterData).length > 0) {
+      return this.applyClientFilter(data, filterData);
+    }
+
+    return data;
+  }
+
   /**
    * Load dataview data using local API endpoint
    */
   private async loadDataviewLocal(dataviewId: string, filterData?: any): Promise<any[]> {
-    const baseUrl = apiConfig.getBaseUrl();
-    const endpoint = apiConfig.getEndpoint('dataviewData');
-    
-    // Build URL: /api/dataviews/{id}/data
-    const url = endpoint.startsWith('http')
-      ? `${endpoint}/${dataviewId}/data`
-      : baseUrl.endsWith('/')
-      ? `${baseUrl}${endpoint.startsWith('/') ? endpoint.slice(1) : endpoint}/${dataviewId}/data`
-      : `${baseUrl}${endpoint.startsWith('/') ? endpoint : `/${endpoint}`}/${dataviewId}/data`;
+    const url = this.getLocalDataUrl(dataviewId);
 
     const response = await fetch(url, {
       method: 'POST',
@@ -344,6 +364,105 @@ export class DataviewManager {
     return data;
   }
 
+  /**
+   * Local API data URL: /api/dataviews/{id}/data
+   */
+  private getLocalDataUrl(dataviewId: string): string {
+    const baseUrl = apiConfig.getBaseUrl();
+    const endpoint = apiConfig.getEndpoint('dataviewData');
+
+    return endpoint.startsWith('http')
+      ? `${endpoint}/${dataviewId}/data`
+      : baseUrl.endsWith('/')
+      ? `${baseUrl}${endpoint.startsWith('/') ? endpoint.slice(1) : endpoint}/${dataviewId}/data`
+      : `${baseUrl}${endpoint.startsWith('/') ? endpoint : `/${endpoint}`}/${dataviewId}/data`;
+  }
+
+  /**
+   * Load one page of dataview data for grids with server-side sort and filters
+   *
+   * Gaia API: POST /{name}/Post with tableData, advancedSqlFilters and the sort/conditions
+   * Local API: POST /api/dataviews/{id}/data with page, pageSize, filters, conditions and sort
+   * Operation sources and responses without totals are paged client-side
+   *
+   * @param params - RemoteArray fetch params (filterData is a GridFilterData)
+   */
+  async fetchDataviewPage(dataviewId: string, params: RemoteFetchParams, operationId?: string): Promise<RemoteFetchResult> {
+    const dataview = await this.findDataview(dataviewId);
+    if (!dataview) {
+      throw new Error(`Dataview not found: ${dataviewId}`);
+    }
+
+    if (operationId) {
+      const data = await this.loadDataview(dataviewId, undefined, operationId);
+      return GridQuery.page(data, params);
+    }
+
+    const query = GridQuery.toRequest(params.filterData, params.sortData);
+    let url: string;
+    let body: any;
+
+    if (apiConfig.isGaiaEnabled()) {
+      url = `${apiConfig.getGaiaBaseUrl()}/${dataview.name || dataview.id}/Post`;
+      body = {
+        tableData: {
+          currentRecord: params.startPage * params.recordsPerPage,
+          recordsPerPage: params.recordsPerPage,
+        },
+        advancedSqlFilters: query.filters,
+        conditions: query.conditions,
+        search: query.search,
+        sortData: query.sort,
+      };
+    } else {
+      url = this.getLocalDataUrl(dataviewId);
+      body = {
+        page: params.startPage + 1,
+        pageSize: params.recordsPerPage,
+        ...query,
+      };
+    }
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: apiConfig.getHeaders(),
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch dataview data: ${response.status} ${response.statusText}`);
+    }
+
+    return GridQuery.fromResponse(await response.json(), params);
+  }
+
+  /**
+   * Load one page from a plain endpoint (DataGrid/DataBrowse "remote:<url>" sources)
+   * Relative URLs are resolved against the API base URL; the body matches fetchDataviewPage
+   */
+  async fetchEndpointPage(endpoint: string, params: RemoteFetchParams): Promise<RemoteFetchResult> {
+    const baseUrl = apiConfig.getBaseUrl();
+    const url = /^https?:\/\//.test(endpoint)
+      ? endpoint
+      : `${baseUrl.replace(/\/$/, '')}${endpoint.startsWith('/') ? endpoint : `/${endpoint}`}`;
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: apiConfig.getHeaders(),
+      body: JSON.stringify({
+        page: params.startPage + 1,
+        pageSize: params.recordsPerPage,
+        ...GridQuery.toRequest(params.filterData, params.sortData),
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ${url}: ${response.status} ${response.statusText}`);
+    }
+
+    return GridQuery.fromResponse(await response.json(), params);
+  }
+
   /**
    * Apply client-side filtering to data
    * Used for cascading dropdowns when server doesn't support filtering
@@ -363,61 +482,76 @@ export class DataviewManager {
   }
 
   /**
-   * Load dataview fields (column names)
+   * Load dataview field names
+   * Names of loadDataviewFieldMetadata - use that for types, formats and enums
    */
-  async loadDataviewFields(dataviewId: string): Promise<string[]> {
+  async loadDataviewFields(dataviewId: string, operationId?: string): Promise<string[]> {
     const dataview = this.getDataview(dataviewId);
     if (!dataview) {
       throw new Error(`Dataview not found: ${dataviewId}`);
     }
 
     // Check if fields are already cached
-    if (dataview.fields && dataview.fields.length > 0) {
+    if (!operationId && dataview.fields && dataview.fields.length > 0) {
       return dataview.fields;
     }
 
+    const fields = (await this.loadDataviewFieldMetadata(dataviewId, operationId)).map((field) => field.name);
+    if (!operationId) {
+      dataview.fields = fields;
+    }
+    return fields;
+  }
+
+  /**
+   * Load typed dataview fields
+   * From the response schema of the dataview's OpenAPI operation (the list operation unless
+   * operationId is given), plus fields only seen in loaded records
+   */
+  async loadDataviewFieldMetadata(dataviewId: string, operationId?: string): Promise<DataviewField[]> {
+    const dataview = this.getDataview(dataviewId);
+    if (!dataview) {
+      throw new Error(`Dataview not found: ${dataviewId}`);
+    }
+
+    if (!operationId && dataview.fieldMetadata && dataview.fieldMetadata.length > 0) {
+      return dataview.fieldMetadata;
+    }
+
     // Check cache
-    const cacheKey = `dataview-fields-${dataviewId}`;
+    const cacheKey = `dataview-field-metadata-${dataviewId}${operationId ? `-${operationId}` : ''}`;
     const cached = dataCache.get(cacheKey);
     if (cached) {
-      // Update dataview with cached fields
-      dataview.fields = cached;
+      if (!operationId) dataview.fieldMetadata = cached;
       return cached;
     }
 
     try {
-      // Load a sample record to extract field names
-      const data = await this.loadDataview(dataviewId);
-      
-      if (data.length === 0) {
-        // Try to get fields from OpenAPI spec
-        if (dataview.url) {
-          const client = await openAPIUtils.get(dataview.url);
-          const schemas = client.inst.getSchemas();
-          
-          // Try to find schema that represents the data
-          for (const [schemaName, schema] of Object.entries(schemas)) {
-            if ((schema as any).properties) {
-              const fields = Object.keys((schema as any).properties);
-              if (fields.length > 0) {
-                dataview.fields = fields;
-                dataCache.set(cacheKey, fields, 86400000); // Cache for 24 hours
-                return fields;
-              }
-            }
-          }
+      let schemaFields: DataviewField[] = [];
+      const specUrl = dataview.url || (apiConfig.isGaiaEnabled() ? apiConfig.getGaiaDataviewYamlUrl(dataview.name) : '');
+      if (specUrl) {
+        try {
+          const operation = await openAPIUtils.getOperation(specUrl, operationId);
+          schemaFields = operation ? DataviewFieldUtils.fromOpenAPI(operation.fields) : [];
+        } catch (error) {
+          // Not an OpenAPI spec (e.g. a direct endpoint) - fields come from records
+          console.warn(`No OpenAPI schema for dataview ${dataviewId}:`, error);
         }
-        
-        return [];
       }
 
-      // Extract field names from first record
-      const firstRecord = data[0];
-      const fields = Object.keys(firstRecord);
-      
+      // Records add fields the schema doesn't declare (and are the only source without one)
+      let recordFields: DataviewField[] = [];
+      try {
+        recordFields = DataviewFieldUtils.inferFromRecords(await this.loadDataview(dataviewId, undefined, operationId));
+      } catch (error) {
+        if (schemaFields.length === 0) throw error;
+      }
+
+      const fields = DataviewFieldUtils.merge(schemaFields, recordFields);
+
       // Cache fields
-      dataview.fields = fields;
-      dataCache.set(cacheKey, fields, 86400000); // Cache for 24 hours
+      if (!operationId) dataview.fieldMetadata = fields;
+      dataCache.set(cacheKey, fields, { ttl: 86400000, tags: [DataviewManager.getCacheTag(dataviewId)] }); // Cache for 24 hours
 
       return fields;
     } catch (error) {
@@ -448,19 +582,43 @@ export class DataviewManager {
     return null;
   }
 
+  /**
+   * Get dataview by ID, loading the first page of the list if nothing is loaded yet
+   */
+  async findDataview(dataviewId: string): Promise<Dataview | null> {
+    const dataview = this.getDataview(dataviewId);
+    if (dataview || this.list.getAllLoadedData().length > 0) {
+      return dataview;
+    }
+
+    await this.list.init();
+    return this.getDataview(dataviewId);
+  }
+
+  /**
+   * Whether a dataview exists
+   * Returns undefined until the whole list is loaded (the id may be on a page not loaded yet)
+   */
+  hasDataview(dataviewId: string): boolean | undefined {
+    if (this.getDataview(dataviewId)) return true;
+    const loaded = this.list.getAllLoadedData().length;
+    if (loaded === 0 || loaded < this.list.totalRecords) return undefined;
+    return false;
+  }
+
   /**
    * Clear cache for a specific dataview or all dataviews
    */
   clearCache(dataviewId?: string): void {
     if (dataviewId) {
-      // Clear specific dataview cache
-      dataCache.delete(`dataview-data-${dataviewId}`);
-      dataCache.delete(`dataview-fields-${dataviewId}`);
+      // Clear specific dataview cache (every operation and filter)
+      dataCache.invalidateTag(DataviewManager.getCacheTag(dataviewId));
       
       // Remove from map
       const dataview = this.dataviewsMap.get(dataviewId);
       if (dataview) {
         dataview.fields = undefined;
+        dataview.fieldMetadata = undefined;
       }
     } else {
       // Clear all dataview caches
@@ -3,13 +3,14 @@
  * Evaluates component dependencies based on form data
  * 
  * Supports:
- * - Conditional disabled/enabled states
+ * - Conditional disabled/enabled states (all/any/not groups of conditions)
  * - Conditional visibility
  * - Data filtering (cascading dropdowns)
  * - Field reset on dependency change
  * - Dynamic labels, placeholders, values
  * - Conditional required state
  * - Dynamic options
+ * - Conditional validation (enabledWhen of the field and of each rule)
  */
 
 import type {
@@ -17,7 +18,20 @@ import type {
   FilterDependency,
   ComputedProperty,
   ComponentDependencies,
+  ValidationDependency,
 } from '../../stores/types';
+import type { ValidationRule } from '../../stores/types/formEngine';
+import { getPath } from '../data/dataPath';
+import { ExpressionEngine, ExpressionError, type ExpressionDependencies } from '../expressions/expressionEngine';
+
+// Entries of ComponentDependencies that read form data
+export type DependencyKind = keyof ComponentDependencies;
+
+// Result of a validation dependency: whether the field validates, and the rules that apply
+export interface EvaluatedValidation {
+  enabled: boolean;
+  rules: ValidationRule[];
+}
 
 export interface DependencyContext {
   // Current form data (all fields)
@@ -31,6 +45,9 @@ export interface DependencyContext {
   
   // Current component's dataKey
   currentDataKey?: string;
+  
+  // Refuse expressions outside the sandboxed grammar (undefined = ExpressionEngine default)
+  strict?: boolean;
 }
 
 export class DependencyEvaluator {
@@ -52,11 +69,25 @@ export class DependencyEvaluator {
           return this.evaluateExpression(condition.expression || '', context);
 
         case 'fieldValue':
-          return this.evaluateFieldValue(condition, data);
+          return this.evaluateFieldValue(condition, data, parentData);
 
         case 'function':
           return this.evaluateFunction(condition.fnSource || '', context);
 
+        // Groups: nested conditions count as true when truthy
+        case 'all':
+          return (condition.conditions || []).every((nested) => Boolean(this.evaluateCondition(nested, context)));
+
+        case 'any':
+          return (condition.conditions || []).some((nested) => Boolean(this.evaluateCondition(nested, context)));
+
+        // Not negates "all of" its conditions; an empty group is neutral (true, as an empty all)
+        case 'not': {
+          const nested = condition.conditions || [];
+          if (nested.length === 0) return true;
+          return !nested.every((item) => Boolean(this.evaluateCondition(item, context)));
+        }
+
         default:
           return condition.default;
       }
@@ -76,19 +107,17 @@ export class DependencyEvaluator {
     if (!expression) return undefined;
 
     try {
-      const { data, parentData, rootData } = context;
-      
-      // Create a safe execution context
-      const fn = new Function(
-        'data',
-        'parentData',
-        'rootData',
-        `try { return ${expression}; } catch(e) { return undefined; }`
+      const { data, parentData, rootData, strict } = context;
+      return ExpressionEngine.evaluate(
+        expression,
+        { data, parentData: parentData || {}, rootData: rootData || data },
+        { strict }
       );
-
-      return fn(data, parentData || {}, rootData || data);
     } catch (error) {
-      console.error('Error evaluating expression:', expression, error);
+      // Runtime errors (e.g. reading a field of an empty object) just yield undefined
+      if (error instanceof ExpressionError || error instanceof SyntaxError) {
+        console.error('Error evaluating expression:', expression, error);
+      }
       return undefined;
     }
   }
@@ -98,9 +127,12 @@ export class DependencyEvaluator {
    */
   private static evaluateFieldValue(
     condition: DependencyCondition,
-    data: Record<string, any>
+    data: Record<string, any>,
+    parentData?: Record<string, any>
   ): boolean {
-    const fieldValue = this.getNestedValue(data, condition.field || '');
+    // Inside a Repeater row, row fields take precedence over top-level fields
+    const rowValue = parentData ? this.getNestedValue(parentData, condition.field || '') : undefined;
+    const fieldValue = rowValue !== undefined ? rowValue : this.getNestedValue(data, condition.field || '');
     const compareValue = condition.value;
 
     switch (condition.operator) {
@@ -174,18 +206,16 @@ export class DependencyEvaluator {
     if (!fnSource) return undefined;
 
     try {
-      const { data, parentData, rootData } = context;
-      
-      const fn = new Function(
-        'data',
-        'parentData',
-        'rootData',
-        `try { ${fnSource} } catch(e) { return undefined; }`
+      const { data, parentData, rootData, strict } = context;
+      return ExpressionEngine.run(
+        fnSource,
+        { data, parentData: parentData || {}, rootData: rootData || data },
+        { strict }
       );
-
-      return fn(data, parentData || {}, rootData || data);
     } catch (error) {
-      console.error('Error evaluating function:', fnSource, error);
+      if (error instanceof ExpressionError || error instanceof SyntaxError) {
+        console.error('Error evaluating function:', fnSource, error);
+      }
       return undefined;
     }
   }
@@ -249,7 +279,8 @@ export class DependencyEvaluator {
    */
   static buildFilterParams(
     filterBy: FilterDependency | FilterDependency[] | undefined,
-    data: Record<string, any>
+    data: Record<string, any>,
+    strict?: boolean
   ): Record<string, any> {
     if (!filterBy) return {};
 
@@ -264,8 +295,7 @@ export class DependencyEvaluator {
         let finalValue = sourceValue;
         if (filter.transform) {
           try {
-            const transformFn = new Function('value', 'data', filter.transform);
-            finalValue = transformFn(sourceValue, data);
+            finalValue = ExpressionEngine.run(filter.transform, { value: sourceValue, data }, { strict });
           } catch (error) {
             console.error('Error applying filter transform:', error);
           }
@@ -306,6 +336,7 @@ export class DependencyEvaluator {
     value?: any;
     options?: any[];
     filterParams?: Record<string, any>;
+    validation?: EvaluatedValidation;
   } {
     if (!dependencies) return {};
 
@@ -349,28 +380,44 @@ export class DependencyEvaluator {
 
     // Build filter params
     if (dependencies.filterBy) {
-      result.filterParams = this.buildFilterParams(dependencies.filterBy, context.data);
+      result.filterParams = this.buildFilterParams(dependencies.filterBy, context.data, context.strict);
+    }
+
+    // Evaluate conditional validation
+    if (dependencies.validation) {
+      result.validation = this.evaluateValidation(dependencies.validation, context);
     }
 
     return result;
   }
 
   /**
-   * Get nested value from object using dot notation
-   * e.g., getNestedValue(data, "address.city") returns data.address.city
+   * Evaluate a validation dependency
+   * Rules are converted to ValidationRule (type -> key, params -> args)
    */
-  private static getNestedValue(obj: Record<string, any>, path: string): any {
-    if (!path) return undefined;
-    
-    const keys = path.split('.');
-    let value: any = obj;
+  static evaluateValidation(validation: ValidationDependency, context: DependencyContext): EvaluatedValidation {
+    const isOn = (condition?: DependencyCondition) => !condition || Boolean(this.evaluateCondition(condition, context));
 
-    for (const key of keys) {
-      if (value === null || value === undefined) return undefined;
-      value = value[key];
+    if (!isOn(validation.enabledWhen)) {
+      return { enabled: false, rules: [] };
     }
+    const rules = (validation.rules || [])
+      .filter((rule) => rule.type && isOn(rule.enabledWhen))
+      .map((rule): ValidationRule => ({
+        key: rule.type,
+        args: rule.params || {},
+        ...(rule.message ? { message: rule.message } : {}),
+      }));
+    return { enabled: true, rules };
+  }
 
-    return value;
+  /**
+   * Get nested value from object using dot/bracket notation
+   * e.g., getNestedValue(data, "items[0].address.city") returns data.items[0].address.city
+   */
+  private static getNestedValue(obj: Record<string, any>, path: string): any {
+    if (!path) return undefined;
+    return getPath(obj, path);
   }
 
   /**
@@ -384,60 +431,71 @@ export class DependencyEvaluator {
   }
 
   /**
-   * Extract all field dependencies from a component's dependencies config
-   * Returns list of dataKeys that this component depends on
+   * Data paths a condition reads (nested group conditions included)
    */
-  static extractDependentFields(dependencies: ComponentDependencies | undefined): string[] {
-    if (!dependencies) return [];
-
-    const fields = new Set<string>();
-
-    // Helper to extract fields from condition
-    const extractFromCondition = (condition?: DependencyCondition) => {
-      if (!condition) return;
-      if (condition.field) fields.add(condition.field);
-      if (condition.expression) {
-        // Extract data.fieldName patterns from expression
-        const matches = condition.expression.match(/data\.(\w+)/g) || [];
-        matches.forEach((match) => {
-          const field = match.replace('data.', '');
-          fields.add(field);
-        });
-      }
-    };
+  static getConditionDependencies(condition: DependencyCondition): ExpressionDependencies {
+    const collected: ExpressionDependencies[] = [];
+    // fieldValue conditions read the row first, then form data
+    if (condition.field) collected.push({ data: [condition.field], parentData: [condition.field], all: false });
+    if (condition.expression) collected.push(ExpressionEngine.getDependencies(condition.expression, 'expression'));
+    if (condition.fnSource) collected.push(ExpressionEngine.getDependencies(condition.fnSource, 'body'));
+    (condition.conditions || []).forEach((nested) => collected.push(this.getConditionDependencies(nested)));
+    return ExpressionEngine.mergeDependencies(...collected);
+  }
+
+  /**
+   * Extract the data paths each entry of a component's dependencies config reads
+   * Expressions and functions are analysed through their AST (see ExpressionEngine.getDependencies)
+   */
+  static extractDependenciesByKind(
+    dependencies: ComponentDependencies | undefined
+  ): Partial<Record<DependencyKind, ExpressionDependencies>> {
+    if (!dependencies) return {};
+
+    const result: Partial<Record<DependencyKind, ExpressionDependencies>> = {};
+    const fields = (paths: string[], rowPaths: string[] = []): ExpressionDependencies =>
+      ({ data: paths, parentData: rowPaths, all: false });
+
+    const extractFromCondition = (condition?: DependencyCondition): ExpressionDependencies[] =>
+      condition ? [this.getConditionDependencies(condition)] : [];
 
     // Helper to extract fields from computed property
-    const extractFromComputed = (prop?: ComputedProperty) => {
-      if (!prop) return;
-      if (prop.expression) {
-        const matches = prop.expression.match(/data\.(\w+)/g) || [];
-        matches.forEach((match) => {
-          const field = match.replace('data.', '');
-          fields.add(field);
-        });
-      }
+    const extractFromComputed = (prop?: ComputedProperty): ExpressionDependencies[] => {
+      if (!prop) return [];
+      const collected: ExpressionDependencies[] = [];
+      if (prop.expression) collected.push(ExpressionEngine.getDependencies(prop.expression, 'expression'));
+      if (prop.fnSource) collected.push(ExpressionEngine.getDependencies(prop.fnSource, 'body'));
       if (prop.template) {
-        const matches = prop.template.match(/\{data\.(\w+)\}/g) || [];
-        matches.forEach((match) => {
-          const field = match.replace('{data.', '').replace('}', '');
-          fields.add(field);
-        });
+        // "{data.customer.name}" placeholders (see evaluateTemplate)
+        const matches = prop.template.match(/\{([^}]+)\}/g) || [];
+        collected.push(fields(matches.map((match) => match.slice(1, -1).replace(/^data\./, ''))));
       }
+      return collected;
+    };
+
+    const add = (kind: DependencyKind, collected: ExpressionDependencies[]) => {
+      if (collected.length > 0) result[kind] = ExpressionEngine.mergeDependencies(...collected);
     };
 
     // Extract from all dependency types
-    extractFromCondition(dependencies.disabled);
-    extractFromCondition(dependencies.enabled);
-    extractFromCondition(dependencies.visible);
-    extractFromCondition(dependencies.required);
-    extractFromComputed(dependencies.label);
-    extractFromComputed(dependencies.placeholder);
-    extractFromComputed(dependencies.value);
-    extractFromComputed(dependencies.options);
+    add('disabled', extractFromCondition(dependencies.disabled));
+    add('enabled', extractFromCondition(dependencies.enabled));
+    add('visible', extractFromCondition(dependencies.visible));
+    add('required', extractFromCondition(dependencies.required));
+    add('label', extractFromComputed(dependencies.label));
+    add('placeholder', extractFromComputed(dependencies.placeholder));
+    add('value', extractFromComputed(dependencies.value));
+    add('options', extractFromComputed(dependencies.options));
+    if (dependencies.validation) {
+      add('validation', [
+        ...extractFromCondition(dependencies.validation.enabledWhen),
+        ...(dependencies.validation.rules || []).flatMap((rule) => extractFromCondition(rule.enabledWhen)),
+      ]);
+    }
 
     // Add resetOn fields
     if (dependencies.resetOn) {
-      dependencies.resetOn.forEach((field) => fields.add(field));
+      add('resetOn', [fields(dependencies.resetOn)]);
     }
 
     // Add filterBy source fields
@@ -445,10 +503,29 @@ export class DependencyEvaluator {
       const filters = Array.isArray(dependencies.filterBy)
         ? dependencies.filterBy
         : [dependencies.filterBy];
-      filters.forEach((filter) => fields.add(filter.sourceField));
+      add('filterBy', filters.flatMap((filter) => [
+        fields([filter.sourceField]),
+        ...(filter.transform ? [ExpressionEngine.getDependencies(filter.transform, 'body')] : []),
+      ]));
     }
 
-    return Array.from(fields);
+    return result;
+  }
+
+  /**
+   * Extract the data paths a component's dependencies config reads
+   */
+  static extractDependencies(dependencies: ComponentDependencies | undefined): ExpressionDependencies {
+    return ExpressionEngine.mergeDependencies(...Object.values(this.extractDependenciesByKind(dependencies)));
+  }
+
+  /**
+   * Extract all field dependencies from a component's dependencies config
+   * Returns list of data paths that this component depends on
+   */
+  static extractDependentFields(dependencies: ComponentDependencies | undefined): string[] {
+    const { data, parentData } = this.extractDependencies(dependencies);
+    return Array.from(new Set([...data, ...parentData]));
   }
 }
 
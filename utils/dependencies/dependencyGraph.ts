@@ -0,0 +1,253 @@
+/**
+ * Dependency Graph
+ * Form-wide graph of which components read which fields
+ *
+ * Built from each component's dependencies config and its computed renderWhen, value and label
+ * properties (as useFormComponent evaluates them). Used to
+ * show upstream/downstream fields in the builder, detect cycles and report
+ * references to dataKeys no component binds.
+ */
+
+import type { ComponentDefinition, ComponentDependencies } from '../../stores/types';
+import type { ComponentProperty } from '../../stores/types/formEngine';
+import { DependencyEvaluator, type DependencyKind } from './dependencyEvaluator';
+import { ComputedPropertyEvaluator } from '../properties/computedProperties';
+import { ExpressionEngine, type ExpressionDependencies } from '../expressions/expressionEngine';
+import { ROW_WILDCARD } from '../data/dataPath';
+
+export type DependencyGraphKind = DependencyKind | 'renderWhen';
+
+// Kinds that write the component's own value - a cycle through these never settles
+const WRITING_KINDS: DependencyGraphKind[] = ['value', 'resetOn'];
+
+// Computed component properties in the graph, with the kind their reads are listed under
+const COMPUTED_PROPERTY_KINDS: Array<[string, DependencyGraphKind]> = [
+  ['renderWhen', 'renderWhen'],
+  ['value', 'value'],
+  ['label', 'label'],
+];
+
+export interface DependencyReference {
+  kind: DependencyGraphKind;
+  // Path as written in the config (relative to the row for parentData/row fields)
+  path: string;
+  // Absolute paths it may resolve to ("[]" for Repeater rows), row path first
+  candidates: string[];
+}
+
+export interface DependencyGraphNode {
+  componentId: string;
+  name?: string;
+  type: string;
+  // Absolute bound path ("lines[].qty" inside a Repeater bound to "lines")
+  dataKey?: string;
+  references: DependencyReference[];
+  // Reads the whole data object (or has an unparseable expression)
+  readsAll: boolean;
+}
+
+export interface DependencyEdge {
+  // Component whose value is read
+  from: string;
+  // Component that reads it
+  to: string;
+  kind: DependencyGraphKind;
+  path: string;
+}
+
+export interface MissingReference {
+  componentId: string;
+  kind: DependencyGraphKind;
+  path: string;
+}
+
+export interface DependencyGraph {
+  nodes: Record<string, DependencyGraphNode>;
+  edges: DependencyEdge[];
+  // Component ids of each cycle through computed values / resetOn, in dependency order
+  cycles: string[][];
+  missing: MissingReference[];
+}
+
+/**
+ * "[]" for every row index, so "lines[2].qty" and "lines[].qty" compare equal
+ */
+const normalizePath = (path: string) => path.replace(/\[\d+\]/g, ROW_WILDCARD);
+
+/**
+ * Whether reading one path observes changes of the other (equal, parent or child)
+ */
+export function pathsOverlap(a: string, b: string): boolean {
+  const left = normalizePath(a);
+  const right = normalizePath(b);
+  if (left === right) return true;
+  const [shorter, longer] = left.length < right.length ? [left, right] : [right, left];
+  return longer.startsWith(shorter) && (longer[shorter.length] === '.' || longer[shorter.length] === '[');
+}
+
+export class DependencyGraphAnalyzer {
+  /**
+   * Build the graph for a component tree
+   * overrides replaces the dependencies of single components (e.g. unsaved edits)
+   */
+  static build(
+    components: ComponentDefinition[],
+    overrides: Record<string, ComponentDependencies | undefined> = {}
+  ): DependencyGraph {
+    const nodes: Record<string, DependencyGraphNode> = {};
+
+    const visit = (component: ComponentDefinition, rowPrefix: string | null) => {
+      const dependencies = component.id in overrides
+        ? overrides[component.id]
+        : (component.props?.dependencies as ComponentDependencies | undefined);
+      const rawDataKey = component.props?.dataKey as string | undefined;
+
+      const byKind: Partial<Record<DependencyGraphKind, ExpressionDependencies>> = {
+        ...DependencyEvaluator.extractDependenciesByKind(dependencies),
+      };
+      COMPUTED_PROPERTY_KINDS.forEach(([prop, kind]) => {
+        const property = component.props?.[prop] as ComponentProperty | undefined;
+        // Localized properties read the locale, not a field
+        if (!property || typeof property !== 'object' || property.computeType === 'localization') return;
+        const read = ComputedPropertyEvaluator.getDependencies(property);
+        const existing = byKind[kind];
+        byKind[kind] = existing ? ExpressionEngine.mergeDependencies(existing, read) : read;
+      });
+
+      const references: DependencyReference[] = [];
+      let readsAll = false;
+      for (const [kind, read] of Object.entries(byKind) as [DependencyGraphKind, ExpressionDependencies][]) {
+        readsAll = readsAll || read.all;
+        const rowPaths = rowPrefix ? read.parentData : [];
+        rowPaths.forEach((path) => {
+          const rowPath = path ? `${rowPrefix}.${path}` : rowPrefix!;
+          // A field read from both scopes (fieldValue conditions) resolves to whichever exists
+          const candidates = read.data.includes(path) ? [rowPath, path] : [rowPath];
+          references.push({ kind, path, candidates });
+        });
+        read.data
+          .filter((path) => !rowPaths.includes(path))
+          .forEach((path) => references.push({ kind, path, candidates: [path] }));
+      }
+
+      nodes[component.id] = {
+        componentId: component.id,
+        name: component.name,
+        type: component.type,
+        dataKey: rawDataKey ? this.resolvePath(rawDataKey, rowPrefix) : undefined,
+        references,
+        readsAll,
+      };
+
+      // Repeater children are bound relative to the row (see createRowScope)
+      let childPrefix = rowPrefix;
+      if (component.type === 'Repeater') {
+        const arrayKey = rawDataKey || component.name || component.id;
+        childPrefix = `${this.resolvePath(arrayKey, rowPrefix)}${ROW_WILDCARD}`;
+      }
+      component.children?.forEach((child) => visit(child, childPrefix));
+    };
+    components.forEach((component) => visit(component, null));
+
+    const bound = Object.values(nodes).filter((node) => node.dataKey);
+    const edges: DependencyEdge[] = [];
+    const missing: MissingReference[] = [];
+
+    for (const node of Object.values(nodes)) {
+      for (const reference of node.references) {
+        // Row-relative candidate wins when it matches
+        const candidate = reference.candidates.find((path) =>
+          bound.some((source) => pathsOverlap(source.dataKey!, path))
+        );
+        if (!candidate) {
+          missing.push({ componentId: node.componentId, kind: reference.kind, path: reference.path });
+          continue;
+        }
+        // Fields bound at or below the path; an enclosing container (e.g. the Repeater) only when none are
+        const sources = bound.filter((source) => pathsOverlap(source.dataKey!, candidate));
+        const specific = sources.filter((source) => normalizePath(source.dataKey!).length >= normalizePath(candidate).length);
+        (specific.length > 0 ? specific : sources)
+          // Reading an enclosing object (e.g. the whole row) isn't reading its own value
+          .filter((source) => source !== node || normalizePath(source.dataKey!) === normalizePath(candidate))
+          .forEach((source) => edges.push({
+            from: source.componentId,
+            to: node.componentId,
+            kind: reference.kind,
+            path: reference.path,
+          }));
+      }
+    }
+
+    return { nodes, edges, cycles: this.findCycles(edges), missing };
+  }
+
+  /**
+   * Fields a component reads (edges into it)
+   */
+  static getUpstream(graph: DependencyGraph, componentId: string): DependencyEdge[] {
+    return graph.edges.filter((edge) => edge.to === componentId);
+  }
+
+  /**
+   * Components that read this component's value (edges out of it)
+   */
+  static getDownstream(graph: DependencyGraph, componentId: string): DependencyEdge[] {
+    return graph.edges.filter((edge) => edge.from === componentId);
+  }
+
+  /**
+   * Cycles a component is part of
+   */
+  static getCycles(graph: DependencyGraph, componentId: string): string[][] {
+    return graph.cycles.filter((cycle) => cycle.includes(componentId));
+  }
+
+  // Absolute path of a dataKey, relative to the row unless it has its own "[]"
+  private static resolvePath(dataKey: string, rowPrefix: string | null): string {
+    if (dataKey.includes(ROW_WILDCARD) || !rowPrefix) return dataKey;
+    return `${rowPrefix}.${dataKey}`;
+  }
+
+  /**
+   * Cycles through edges that write values (computed value, resetOn), each reported once
+   * e.g. two computed values reading each other, or a computed value reading itself
+   */
+  private static findCycles(edges: DependencyEdge[]): string[][] {
+    const next = new Map<string, Set<string>>();
+    edges
+      .filter((edge) => WRITING_KINDS.includes(edge.kind))
+      .forEach((edge) => {
+        if (!next.has(edge.from)) next.set(edge.from, new Set());
+        next.get(edge.from)!.add(edge.to);
+      });
+
+    const cycles: string[][] = [];
+    const seen = new Set<string>();
+    const state = new Map<string, 'visiting' | 'done'>();
+    const stack: string[] = [];
+
+    const visit = (id: string) => {
+      state.set(id, 'visiting');
+      stack.push(id);
+      for (const target of next.get(id) || []) {
+        if (state.get(target) === 'visiting') {
+          const cycle = stack.slice(stack.indexOf(target));
+          const key = [...cycle].sort().join('|');
+          if (!seen.has(key)) {
+            seen.add(key);
+            cycles.push(cycle);
+          }
+        } else if (!state.has(target)) {
+          visit(target);
+        }
+      }
+      stack.pop();
+      state.set(id, 'done');
+    };
+    Array.from(next.keys()).forEach((id) => {
+      if (!state.has(id)) visit(id);
+    });
+
+    return cycles;
+  }
+}
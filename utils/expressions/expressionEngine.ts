@@ -0,0 +1,648 @@
+/**
+ * Expression Engine
+ * Sandboxed evaluation of user expressions and function bodies stored in form JSON
+ * (computed properties, dependencies, renderWhen, custom actions, validators)
+ *
+ * Sources are parsed once into an AST (see expressionParser.ts), cached by source, and interpreted:
+ * - only the caller's scope (data, parentData, rootData, ...), the standard function library
+ *   and safe globals can be referenced - no window, fetch, document or cookies
+ * - member access reads own properties only; constructor/__proto__/prototype are blocked
+ * - values only expose non-mutating methods (string, array, number, date)
+ *
+ * Sources outside the grammar run as plain JavaScript unless strict mode is on.
+ * Turn strict mode on for forms from untrusted sources (VITE_STRICT_EXPRESSIONS=true,
+ * ExpressionEngine.setStrictMode(true) or the FormViewer strictExpressions prop).
+ */
+
+import {
+  ExpressionParser,
+  ExpressionSyntaxError,
+  type ExpressionNode,
+  type StatementNode,
+} from './expressionParser';
+import {
+  STANDARD_FUNCTIONS,
+  SAFE_GLOBALS,
+  STRING_METHODS,
+  ARRAY_METHODS,
+  NUMBER_METHODS,
+  DATE_METHODS,
+} from './functionLibrary';
+import { formatPath, type PathSegment } from '../data/dataPath';
+
+export interface ExpressionOptions {
+  // Refuse sources outside the sandboxed grammar instead of running them as JavaScript
+  // (undefined = the global default)
+  strict?: boolean;
+}
+
+/**
+ * Data paths an expression reads (extracted from its AST)
+ */
+export interface ExpressionDependencies {
+  // Paths read from data / formData / rootData (e.g. "customer.name", "items")
+  data: string[];
+  // Paths read from parentData, relative to the Repeater row ('' = the whole row)
+  parentData: string[];
+  // Reads data in a way paths can't describe (passes data around whole, or runs as plain JavaScript)
+  all: boolean;
+}
+
+/**
+ * Sandbox violation (unknown identifier, blocked property) or a source refused in strict mode
+ * Ordinary runtime errors (reading a property of undefined) are TypeErrors as in JavaScript
+ */
+export class ExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExpressionError';
+  }
+}
+
+// Properties that lead out of the sandbox
+const BLOCKED_PROPERTIES = new Set([
+  'constructor', 'prototype', '__proto__',
+  '__defineGetter__', '__defineSetter__', '__lookupGetter__', '__lookupSetter__',
+]);
+
+const hasOwn = (object: any, key: PropertyKey) => Object.prototype.hasOwnProperty.call(object, key);
+
+/**
+ * Variables of one function/block level
+ * The root scope holds the caller's values and is read-only
+ */
+class Scope {
+  private vars = new Map<string, any>();
+  // Names declared with const
+  private constants = new Set<string>();
+
+  constructor(private parent?: Scope, private readonly = false) {}
+
+  declare(name: string, value: any, constant = false): void {
+    this.vars.set(name, value);
+    if (constant) this.constants.add(name);
+    else this.constants.delete(name);
+  }
+
+  lookup(name: string): any {
+    if (this.vars.has(name)) return this.vars.get(name);
+    if (this.parent) return this.parent.lookup(name);
+    if (hasOwn(STANDARD_FUNCTIONS, name)) return STANDARD_FUNCTIONS[name];
+    if (hasOwn(SAFE_GLOBALS, name)) return SAFE_GLOBALS[name];
+    throw new ExpressionError(`"${name}" is not defined`);
+  }
+
+  assign(name: string, value: any): void {
+    if (this.vars.has(name)) {
+      if (this.readonly) throw new ExpressionError(`Cannot assign to "${name}"`);
+      if (this.constants.has(name)) throw new ExpressionError(`Cannot assign to constant "${name}"`);
+      this.vars.set(name, value);
+      return;
+    }
+    if (!this.parent) throw new ExpressionError(`Cannot assign to undeclared "${name}"`);
+    this.parent.assign(name, value);
+  }
+}
+
+// Result of a return statement, passed up through blocks and loops
+interface Completion {
+  value: any;
+}
+
+class Interpreter {
+  /**
+   * Read a property the sandbox allows
+   */
+  static getMember(object: any, key: any): any {
+    const property = typeof key === 'number' ? key : String(key);
+    if (typeof property === 'string' && BLOCKED_PROPERTIES.has(property)) {
+      throw new ExpressionError(`Access to "${property}" is not allowed`);
+    }
+
+    if (typeof object === 'string') {
+      if (property === 'length') return object.length;
+      if (typeof property === 'number' || /^\d+$/.test(property)) return object[Number(property)];
+      if (STRING_METHODS.has(property)) return (String.prototype as any)[property].bind(object);
+      return undefined;
+    }
+    if (Array.isArray(object)) {
+      if (property === 'length') return object.length;
+      if (typeof property === 'number' || /^\d+$/.test(property)) return object[Number(property)];
+      if (ARRAY_METHODS.has(property)) return (object as any)[property].bind(object);
+      return undefined;
+    }
+    if (typeof object === 'number') {
+      return NUMBER_METHODS.has(property as string) ? (Number.prototype as any)[property].bind(object) : undefined;
+    }
+    if (object instanceof Date) {
+      return DATE_METHODS.has(property as string) ? (Date.prototype as any)[property].bind(object) : undefined;
+    }
+    if (typeof object === 'object' || typeof object === 'function') {
+      return hasOwn(object, property) ? object[property] : undefined;
+    }
+    return undefined;
+  }
+
+  // Whether a null value in this chain comes from an optional link (a?.b.c)
+  static isOptionalChain(node: ExpressionNode): boolean {
+    if (node.type === 'Member' || node.type === 'Call') {
+      return node.optional || this.isOptionalChain(node.type === 'Member' ? node.object : node.callee);
+    }
+    return false;
+  }
+
+  static evaluate(node: ExpressionNode, scope: Scope): any {
+    switch (node.type) {
+      case 'Literal':
+        return node.value;
+
+      case 'Identifier':
+        return scope.lookup(node.name);
+
+      case 'Template':
+        return node.quasis.reduce((result, text, i) => {
+          if (i >= node.expressions.length) return result + text;
+          const value = this.evaluate(node.expressions[i], scope);
+          return result + text + (value === null || value === undefined ? '' : String(value));
+        }, '');
+
+      case 'Array':
+        return node.elements.map((element) => this.evaluate(element, scope));
+
+      case 'Object': {
+        const result: Record<string, any> = {};
+        for (const property of node.properties) {
+          if (BLOCKED_PROPERTIES.has(property.key)) {
+            throw new ExpressionError(`Property "${property.key}" is not allowed`);
+          }
+          result[property.key] = this.evaluate(property.value, scope);
+        }
+        return result;
+      }
+
+      case 'Member': {
+        const object = this.evaluate(node.object, scope);
+        const key = this.evaluate(node.property, scope);
+        if (object === null || object === undefined) {
+          if (this.isOptionalChain(node)) return undefined;
+          // Same error plain JavaScript would throw (not a sandbox violation)
+          throw new TypeError(`Cannot read "${key}" of ${object}`);
+        }
+        return this.getMember(object, key);
+      }
+
+      case 'Call': {
+        let fn: any;
+        if (node.callee.type === 'Member') {
+          const object = this.evaluate(node.callee.object, scope);
+          const key = this.evaluate(node.callee.property, scope);
+          if (object === null || object === undefined) {
+            if (this.isOptionalChain(node)) return undefined;
+            throw new TypeError(`Cannot call "${key}" of ${object}`);
+          }
+          fn = this.getMember(object, key);
+        } else {
+          fn = this.evaluate(node.callee, scope);
+        }
+        if (typeof fn !== 'function') {
+          if ((fn === null || fn === undefined) && this.isOptionalChain(node)) return undefined;
+          throw new TypeError('Expression is not a function');
+        }
+        const args = node.args.map((arg) => this.evaluate(arg, scope));
+        return fn(...args);
+      }
+
+      case 'Unary': {
+        const value = this.evaluate(node.argument, scope);
+        switch (node.operator) {
+          case '!': return !value;
+          case '-': return -value;
+          case '+': return +value;
+          case 'typeof': return typeof value;
+        }
+        throw new ExpressionError(`Unknown operator "${node.operator}"`);
+      }
+
+      case 'Binary': {
+        const left = this.evaluate(node.left, scope);
+        const right = this.evaluate(node.right, scope);
+        switch (node.operator) {
+          case '+': return left + right;
+          case '-': return left - right;
+          case '*': return left * right;
+          case '/': return left / right;
+          case '%': return left % right;
+          case '==': return left == right;
+          case '!=': return left != right;
+          case '===': return left === right;
+          case '!==': return left !== right;
+          case '<': return left < right;
+          case '>': return left > right;
+          case '<=': return left <= right;
+          case '>=': return left >= right;
+        }
+        throw new ExpressionError(`Unknown operator "${node.operator}"`);
+      }
+
+      case 'Logical': {
+        const left = this.evaluate(node.left, scope);
+        switch (node.operator) {
+          case '&&': return left ? this.evaluate(node.right, scope) : left;
+          case '||': return left ? left : this.evaluate(node.right, scope);
+          case '??': return left !== null && left !== undefined ? left : this.evaluate(node.right, scope);
+        }
+        throw new ExpressionError(`Unknown operator "${node.operator}"`);
+      }
+
+      case 'Conditional':
+        return this.evaluate(node.test, scope)
+          ? this.evaluate(node.consequent, scope)
+          : this.evaluate(node.alternate, scope);
+
+      case 'Arrow': {
+        const { params, body } = node;
+        return (...args: any[]) => {
+          const fnScope = new Scope(scope);
+          params.forEach((param, i) => fnScope.declare(param, args[i]));
+          if (body.type === 'Block') {
+            return this.execute([body as StatementNode], fnScope)?.value;
+          }
+          return this.evaluate(body as ExpressionNode, fnScope);
+        };
+      }
+
+      case 'Assign': {
+        const value = this.evaluate(node.value, scope);
+        const next = node.operator === '+=' ? scope.lookup(node.name) + value
+          : node.operator === '-=' ? scope.lookup(node.name) - value
+          : value;
+        scope.assign(node.name, next);
+        return next;
+      }
+    }
+  }
+
+  /**
+   * Run statements, returning a completion when a return statement was reached
+   */
+  static execute(statements: StatementNode[], scope: Scope): Completion | undefined {
+    for (const statement of statements) {
+      const completion = this.executeStatement(statement, scope);
+      if (completion) return completion;
+    }
+    return undefined;
+  }
+
+  private static executeStatement(statement: StatementNode, scope: Scope): Completion | undefined {
+    switch (statement.type) {
+      case 'Declare':
+        for (const declaration of statement.declarations) {
+          scope.declare(
+            declaration.name,
+            declaration.init ? this.evaluate(declaration.init, scope) : undefined,
+            statement.constant
+          );
+        }
+        return undefined;
+
+      case 'If':
+        if (this.evaluate(statement.test, scope)) {
+          return this.executeStatement(statement.consequent, new Scope(scope));
+        }
+        return statement.alternate ? this.executeStatement(statement.alternate, new Scope(scope)) : undefined;
+
+      case 'ForOf': {
+        const iterable = this.evaluate(statement.iterable, scope);
+        if (iterable === null || iterable === undefined) return undefined;
+        if (!Array.isArray(iterable)) throw new ExpressionError('for...of needs an array');
+        for (const item of iterable) {
+          const loopScope = new Scope(scope);
+          loopScope.declare(statement.name, item, statement.constant);
+          const completion = this.executeStatement(statement.body, loopScope);
+          if (completion) return completion;
+        }
+        return undefined;
+      }
+
+      case 'Return':
+        return { value: statement.argument ? this.evaluate(statement.argument, scope) : undefined };
+
+      case 'Block':
+        return this.execute(statement.body, new Scope(scope));
+
+      case 'Expression':
+        this.evaluate(statement.expression, scope);
+        return undefined;
+    }
+  }
+}
+
+const DATA_ROOTS = new Set(['data', 'formData', 'rootData']);
+const PARENT_ROOTS = new Set(['parentData']);
+
+/**
+ * Collects the data paths an AST reads
+ * A member chain on data (data.customer['name']) is recorded up to its first dynamic part;
+ * a method call records its object (data.items.map(...) reads "items")
+ */
+class DependencyCollector {
+  private data = new Set<string>();
+  private parentData = new Set<string>();
+  private all = false;
+
+  result(): ExpressionDependencies {
+    return { data: Array.from(this.data), parentData: Array.from(this.parentData), all: this.all };
+  }
+
+  statements(statements: StatementNode[], shadowed: Set<string>): void {
+    for (const statement of statements) this.statement(statement, shadowed);
+  }
+
+  private statement(statement: StatementNode, shadowed: Set<string>): void {
+    switch (statement.type) {
+      case 'Declare':
+        for (const declaration of statement.declarations) {
+          if (declaration.init) this.expression(declaration.init, shadowed);
+        }
+        // Locals named like a root hide it from here on
+        this.shadow(shadowed, statement.declarations.map((d) => d.name));
+        return;
+      case 'If':
+        this.expression(statement.test, shadowed);
+        this.statement(statement.consequent, shadowed);
+        if (statement.alternate) this.statement(statement.alternate, shadowed);
+        return;
+      case 'ForOf':
+        this.expression(statement.iterable, shadowed);
+        this.statement(statement.body, this.withShadowed(shadowed, [statement.name]));
+        return;
+      case 'Return':
+        if (statement.argument) this.expression(statement.argument, shadowed);
+        return;
+      case 'Block':
+        this.statements(statement.body, new Set(shadowed));
+        return;
+      case 'Expression':
+        this.expression(statement.expression, shadowed);
+        return;
+    }
+  }
+
+  expression(node: ExpressionNode, shadowed: Set<string>): void {
+    switch (node.type) {
+      case 'Literal':
+        return;
+      case 'Identifier':
+        // A root used as a whole value (e.g. passed to a function)
+        this.record(node.name, [], shadowed);
+        return;
+      case 'Template':
+        node.expressions.forEach((expression) => this.expression(expression, shadowed));
+        return;
+      case 'Array':
+        node.elements.forEach((element) => this.expression(element, shadowed));
+        return;
+      case 'Object':
+        node.properties.forEach((property) => this.expression(property.value, shadowed));
+        return;
+      case 'Member':
+        this.member(node, shadowed);
+        return;
+      case 'Call':
+        if (node.callee.type === 'Member') {
+          // Method call: the object is read, the method name isn't data
+          this.expression(node.callee.object, shadowed);
+          if (node.callee.computed) this.expression(node.callee.property, shadowed);
+        } else {
+          this.expression(node.callee, shadowed);
+        }
+        node.args.forEach((arg) => this.expression(arg, shadowed));
+        return;
+      case 'Unary':
+        this.expression(node.argument, shadowed);
+        return;
+      case 'Binary':
+      case 'Logical':
+        this.expression(node.left, shadowed);
+        this.expression(node.right, shadowed);
+        return;
+      case 'Conditional':
+        this.expression(node.test, shadowed);
+        this.expression(node.consequent, shadowed);
+        this.expression(node.alternate, shadowed);
+        return;
+      case 'Arrow': {
+        const inner = this.withShadowed(shadowed, node.params);
+        if (node.body.type === 'Block') {
+          this.statement(node.body as StatementNode, inner);
+        } else {
+          this.expression(node.body as ExpressionNode, inner);
+        }
+        return;
+      }
+      case 'Assign':
+        this.expression(node.value, shadowed);
+        return;
+    }
+  }
+
+  private member(node: ExpressionNode & { type: 'Member' }, shadowed: Set<string>): void {
+    // Flatten the chain: root.a[b].c
+    const links: (ExpressionNode & { type: 'Member' })[] = [];
+    let current: ExpressionNode = node;
+    while (current.type === 'Member') {
+      links.unshift(current);
+      current = current.object;
+    }
+
+    if (current.type !== 'Identifier') {
+      this.expression(current, shadowed);
+      links.forEach((link) => link.computed && this.expression(link.property, shadowed));
+      return;
+    }
+
+    const segments: PathSegment[] = [];
+    let dynamicFrom = links.length;
+    for (let i = 0; i < links.length; i++) {
+      const { property } = links[i];
+      if (property.type === 'Literal' && (typeof property.value === 'string' || typeof property.value === 'number')) {
+        segments.push(property.value);
+      } else {
+        dynamicFrom = i;
+        break;
+      }
+    }
+    this.record(current.name, segments, shadowed);
+    links.slice(dynamicFrom).forEach((link) => link.computed && this.expression(link.property, shadowed));
+  }
+
+  private record(root: string, segments: PathSegment[], shadowed: Set<string>): void {
+    if (shadowed.has(root)) return;
+    if (DATA_ROOTS.has(root)) {
+      if (segments.length === 0) {
+        this.all = true;
+      } else {
+        this.data.add(formatPath(segments));
+      }
+    } else if (PARENT_ROOTS.has(root)) {
+      this.parentData.add(formatPath(segments));
+    }
+  }
+
+  private shadow(shadowed: Set<string>, names: string[]): void {
+    names.forEach((name) => shadowed.add(name));
+  }
+
+  private withShadowed(shadowed: Set<string>, names: string[]): Set<string> {
+    const next = new Set(shadowed);
+    this.shadow(next, names);
+    return next;
+  }
+}
+
+type SourceKind = 'expression' | 'body';
+
+// Parsed sources by kind and source text (a syntax error is cached too)
+const MAX_CACHED_SOURCES = 1000;
+const astCache = new Map<string, ExpressionNode | StatementNode[] | ExpressionSyntaxError>();
+const dependencyCache = new Map<string, ExpressionDependencies>();
+// Compiled JavaScript fallbacks by parameter names and body
+const fallbackCache = new Map<string, Function>();
+
+function remember<T>(cache: Map<string, T>, key: string, value: T): T {
+  if (cache.size >= MAX_CACHED_SOURCES) {
+    // Drop the oldest entry
+    cache.delete(cache.keys().next().value as string);
+  }
+  cache.set(key, value);
+  return value;
+}
+
+export class ExpressionEngine {
+  private static strictDefault = import.meta.env?.VITE_STRICT_EXPRESSIONS === 'true';
+
+  /**
+   * Set the default strict mode (used when a call doesn't pass options.strict)
+   */
+  static setStrictMode(strict: boolean): void {
+    this.strictDefault = strict;
+  }
+
+  static isStrictMode(options?: ExpressionOptions): boolean {
+    return options?.strict ?? this.strictDefault;
+  }
+
+  /**
+   * Evaluate a single expression, e.g. "data.qty * data.price"
+   */
+  static evaluate(expression: string, scope: Record<string, any>, options?: ExpressionOptions): any {
+    let ast: ExpressionNode;
+    try {
+      ast = this.parse(expression, 'expression') as ExpressionNode;
+    } catch (error) {
+      return this.fallback(error, `return (${expression});`, scope, options);
+    }
+    return Interpreter.evaluate(ast, new Scope(this.createScope(scope)));
+  }
+
+  /**
+   * Run a function body, e.g. "if (!data.qty) return 0; return data.qty * data.price;"
+   */
+  static run(body: string, scope: Record<string, any>, options?: ExpressionOptions): any {
+    let ast: StatementNode[];
+    try {
+      ast = this.parse(body, 'body') as StatementNode[];
+    } catch (error) {
+      return this.fallback(error, body, scope, options);
+    }
+    return Interpreter.execute(ast, new Scope(this.createScope(scope)))?.value;
+  }
+
+  /**
+   * Check a source against the grammar without running it
+   * Returns the syntax error message, or null when the source is valid
+   */
+  static check(source: string, kind: SourceKind = 'expression'): string | null {
+    try {
+      this.parse(source, kind);
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  /**
+   * Data paths a source reads
+   * Sources outside the grammar can read anything (all: true)
+   */
+  static getDependencies(source: string, kind: SourceKind = 'expression'): ExpressionDependencies {
+    const key = `${kind}:${source}`;
+    const cached = dependencyCache.get(key);
+    if (cached) return cached;
+
+    const collector = new DependencyCollector();
+    try {
+      const ast = this.parse(source, kind);
+      if (kind === 'expression') {
+        collector.expression(ast as ExpressionNode, new Set());
+      } else {
+        collector.statements(ast as StatementNode[], new Set());
+      }
+      return remember(dependencyCache, key, collector.result());
+    } catch {
+      return remember(dependencyCache, key, { data: [], parentData: [], all: true });
+    }
+  }
+
+  /**
+   * Combine the dependencies of several sources
+   */
+  static mergeDependencies(...dependencies: ExpressionDependencies[]): ExpressionDependencies {
+    const data = new Set<string>();
+    const parentData = new Set<string>();
+    let all = false;
+    for (const dependency of dependencies) {
+      dependency.data.forEach((path) => data.add(path));
+      dependency.parentData.forEach((path) => parentData.add(path));
+      all = all || dependency.all;
+    }
+    return { data: Array.from(data), parentData: Array.from(parentData), all };
+  }
+
+  // Parse once per source (throws the cached syntax error for invalid sources)
+  private static parse(source: string, kind: SourceKind): ExpressionNode | StatementNode[] {
+    const key = `${kind}:${source}`;
+    let ast = astCache.get(key);
+    if (!ast) {
+      try {
+        ast = kind === 'expression' ? ExpressionParser.parseExpression(source) : ExpressionParser.parseProgram(source);
+      } catch (error) {
+        if (!(error instanceof ExpressionSyntaxError)) throw error;
+        ast = error;
+      }
+      remember(astCache, key, ast);
+    }
+    if (ast instanceof ExpressionSyntaxError) throw ast;
+    return ast;
+  }
+
+  private static createScope(values: Record<string, any>): Scope {
+    const scope = new Scope(undefined, true);
+    for (const [name, value] of Object.entries(values)) {
+      scope.declare(name, value);
+    }
+    return scope;
+  }
+
+  // Sources outside the grammar: plain JavaScript, unless strict mode refuses them
+  private static fallback(error: unknown, body: string, scope: Record<string, any>, options?: ExpressionOptions): any {
+    if (!(error instanceof ExpressionSyntaxError)) throw error;
+    if (this.isStrictMode(options)) {
+      throw new ExpressionError(`Expression refused in strict mode: ${error.message}`);
+    }
+    const names = Object.keys(scope);
+    const key = `${names.join(',')}:${body}`;
+    const fn = fallbackCache.get(key) || remember(fallbackCache, key, new Function(...names, body));
+    return fn(...names.map((name) => scope[name]));
+  }
+}
@@ -0,0 +1,604 @@
+/**
+ * Expression Parser
+ * Parses the sandboxed expression language into an AST
+ *
+ * Grammar (a safe subset of JavaScript):
+ * - Literals: numbers, 'strings', "strings", `templates ${expr}`, true/false/null/undefined, [arrays], { objects }
+ * - Operators: + - * / % ! typeof, == != === !==, < > <= >=, && || ??, a ? b : c
+ * - Member access and calls: data.items[0].price, data?.customer, len(data.items)
+ * - Arrow functions: (a, b) => a + b, row => row.price
+ * - Statements (function bodies): const/let/var, assignment to locals (=, +=, -=),
+ *   if/else, for (const x of list), return, blocks
+ *
+ * Anything else (new, this, classes, regex literals, while loops, ...) is a syntax error.
+ */
+
+export type ExpressionNode =
+  | { type: 'Literal'; value: any }
+  | { type: 'Identifier'; name: string }
+  | { type: 'Template'; quasis: string[]; expressions: ExpressionNode[] }
+  | { type: 'Array'; elements: ExpressionNode[] }
+  | { type: 'Object'; properties: { key: string; value: ExpressionNode }[] }
+  | { type: 'Member'; object: ExpressionNode; property: ExpressionNode; computed: boolean; optional: boolean }
+  | { type: 'Call'; callee: ExpressionNode; args: ExpressionNode[]; optional: boolean }
+  | { type: 'Unary'; operator: string; argument: ExpressionNode }
+  | { type: 'Binary'; operator: string; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'Logical'; operator: string; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'Conditional'; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode }
+  | { type: 'Arrow'; params: string[]; body: ExpressionNode | StatementNode }
+  | { type: 'Assign'; operator: string; name: string; value: ExpressionNode };
+
+export type StatementNode =
+  | { type: 'Declare'; constant: boolean; declarations: { name: string; init?: ExpressionNode }[] }
+  | { type: 'If'; test: ExpressionNode; consequent: StatementNode; alternate?: StatementNode }
+  | { type: 'ForOf'; constant: boolean; name: string; iterable: ExpressionNode; body: StatementNode }
+  | { type: 'Return'; argument?: ExpressionNode }
+  | { type: 'Block'; body: StatementNode[] }
+  | { type: 'Expression'; expression: ExpressionNode };
+
+export class ExpressionSyntaxError extends Error {
+  constructor(message: string, public position: number) {
+    super(`${message} (at ${position})`);
+    this.name = 'ExpressionSyntaxError';
+  }
+}
+
+type TokenType = 'number' | 'string' | 'template' | 'identifier' | 'punctuator' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: any;
+  position: number;
+}
+
+const PUNCTUATORS = [
+  '===', '!==', '...', '?.', '??', '=>', '==', '!=', '<=', '>=', '&&', '||', '+=', '-=',
+  '+', '-', '*', '/', '%', '<', '>', '!', '?', ':', '.', ',', '(', ')', '[', ']', '{', '}', ';', '=',
+];
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '??': 1,
+  '||': 2,
+  '&&': 3,
+  '==': 4, '!=': 4, '===': 4, '!==': 4,
+  '<': 5, '>': 5, '<=': 5, '>=': 5,
+  '+': 6, '-': 6,
+  '*': 7, '/': 7, '%': 7,
+};
+
+const LOGICAL_OPERATORS = new Set(['&&', '||', '??']);
+
+// Words that may not be used as identifiers
+const RESERVED = new Set([
+  'const', 'let', 'var', 'if', 'else', 'for', 'of', 'return', 'typeof',
+  'true', 'false', 'null', 'undefined',
+  'new', 'this', 'function', 'class', 'while', 'do', 'import', 'export', 'delete', 'void',
+  'with', 'yield', 'await', 'async', 'super', 'throw', 'try', 'catch', 'switch', 'eval',
+]);
+
+/**
+ * Split source into tokens
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < source.length) {
+    const char = source[pos];
+
+    // Whitespace and comments
+    if (/\s/.test(char)) {
+      pos++;
+      continue;
+    }
+    if (source.startsWith('//', pos)) {
+      const end = source.indexOf('\n', pos);
+      pos = end === -1 ? source.length : end + 1;
+      continue;
+    }
+    if (source.startsWith('/*', pos)) {
+      const end = source.indexOf('*/', pos + 2);
+      if (end === -1) throw new ExpressionSyntaxError('Unterminated comment', pos);
+      pos = end + 2;
+      continue;
+    }
+
+    // Numbers
+    const numberMatch = /^(?:\d+\.?\d*(?:[eE][+-]?\d+)?|\.\d+(?:[eE][+-]?\d+)?)/.exec(source.slice(pos));
+    if (numberMatch) {
+      tokens.push({ type: 'number', value: Number(numberMatch[0]), position: pos });
+      pos += numberMatch[0].length;
+      continue;
+    }
+
+    // Identifiers and keywords
+    const identMatch = /^[A-Za-z_$][\w$]*/.exec(source.slice(pos));
+    if (identMatch) {
+      tokens.push({ type: 'identifier', value: identMatch[0], position: pos });
+      pos += identMatch[0].length;
+      continue;
+    }
+
+    // Strings
+    if (char === '"' || char === "'") {
+      const { value, end } = readString(source, pos, char);
+      tokens.push({ type: 'string', value, position: pos });
+      pos = end;
+      continue;
+    }
+
+    // Template literals
+    if (char === '`') {
+      const { value, end } = readTemplate(source, pos);
+      tokens.push({ type: 'template', value, position: pos });
+      pos = end;
+      continue;
+    }
+
+    const punctuator = PUNCTUATORS.find((p) => source.startsWith(p, pos));
+    // "a?.5:b" is a conditional, not optional chaining
+    if (punctuator && !(punctuator === '?.' && /\d/.test(source[pos + 2] || ''))) {
+      tokens.push({ type: 'punctuator', value: punctuator, position: pos });
+      pos += punctuator.length;
+      continue;
+    }
+    if (punctuator === '?.') {
+      tokens.push({ type: 'punctuator', value: '?', position: pos });
+      pos += 1;
+      continue;
+    }
+
+    throw new ExpressionSyntaxError(`Unexpected character "${char}"`, pos);
+  }
+
+  tokens.push({ type: 'eof', value: null, position: pos });
+  return tokens;
+}
+
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f', v: '\v', '0': '\0' };
+
+function readEscape(source: string, pos: number): { value: string; end: number } {
+  const next = source[pos + 1];
+  if (next === 'u') {
+    const hex = /^[0-9a-fA-F]{4}/.exec(source.slice(pos + 2));
+    if (!hex) throw new ExpressionSyntaxError('Invalid unicode escape', pos);
+    return { value: String.fromCharCode(parseInt(hex[0], 16)), end: pos + 6 };
+  }
+  return { value: ESCAPES[next] ?? next, end: pos + 2 };
+}
+
+function readString(source: string, start: number, quote: string): { value: string; end: number } {
+  let value = '';
+  let pos = start + 1;
+  while (pos < source.length && source[pos] !== quote) {
+    if (source[pos] === '\\') {
+      const escape = readEscape(source, pos);
+      value += escape.value;
+      pos = escape.end;
+    } else if (source[pos] === '\n') {
+      throw new ExpressionSyntaxError('Unterminated string', start);
+    } else {
+      value += source[pos++];
+    }
+  }
+  if (pos >= source.length) throw new ExpressionSyntaxError('Unterminated string', start);
+  return { value, end: pos + 1 };
+}
+
+// Template literal: text parts and the source of each ${...} part
+function readTemplate(source: string, start: number): { value: { quasis: string[]; sources: string[] }; end: number } {
+  const quasis: string[] = [];
+  const sources: string[] = [];
+  let text = '';
+  let pos = start + 1;
+
+  while (pos < source.length && source[pos] !== '`') {
+    if (source[pos] === '\\') {
+      const escape = readEscape(source, pos);
+      text += escape.value;
+      pos = escape.end;
+    } else if (source.startsWith('${', pos)) {
+      // Find the matching "}" (skipping nested braces and strings)
+      let depth = 1;
+      let end = pos + 2;
+      while (end < source.length && depth > 0) {
+        const c = source[end];
+        if (c === '"' || c === "'") {
+          end = readString(source, end, c).end;
+          continue;
+        }
+        if (c === '`') {
+          end = readTemplate(source, end).end;
+          continue;
+        }
+        if (c === '{') depth++;
+        if (c === '}') depth--;
+        end++;
+      }
+      if (depth > 0) throw new ExpressionSyntaxError('Unterminated template expression', pos);
+      quasis.push(text);
+      sources.push(source.slice(pos + 2, end - 1));
+      text = '';
+      pos = end;
+    } else {
+      text += source[pos++];
+    }
+  }
+  if (pos >= source.length) throw new ExpressionSyntaxError('Unterminated template literal', start);
+  quasis.push(text);
+  return { value: { quasis, sources }, end: pos + 1 };
+}
+
+class Parser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(source: string) {
+    this.tokens = tokenize(source);
+  }
+
+  parseExpressionSource(): ExpressionNode {
+    const expression = this.parseExpression();
+    this.expectEnd();
+    return expression;
+  }
+
+  parseProgramSource(): StatementNode[] {
+    const body: StatementNode[] = [];
+    while (!this.isEnd()) {
+      body.push(this.parseStatement());
+    }
+    return body;
+  }
+
+  // Token helpers
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.type !== 'eof') this.index++;
+    return token;
+  }
+
+  private isEnd(): boolean {
+    return this.peek().type === 'eof';
+  }
+
+  private isPunctuator(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.type === 'punctuator' && token.value === value;
+  }
+
+  private isKeyword(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'identifier' && token.value === value;
+  }
+
+  private eat(value: string): boolean {
+    if (this.isPunctuator(value)) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(value: string): void {
+    if (!this.eat(value)) {
+      const token = this.peek();
+      throw new ExpressionSyntaxError(`Expected "${value}"`, token.position);
+    }
+  }
+
+  private expectEnd(): void {
+    const token = this.peek();
+    if (token.type !== 'eof') {
+      throw new ExpressionSyntaxError(`Unexpected "${token.value}"`, token.position);
+    }
+  }
+
+  private expectIdentifier(): string {
+    const token = this.next();
+    if (token.type !== 'identifier' || RESERVED.has(token.value)) {
+      throw new ExpressionSyntaxError(`Expected identifier, got "${token.value ?? 'end'}"`, token.position);
+    }
+    return token.value;
+  }
+
+  // Statements
+
+  private parseStatement(): StatementNode {
+    if (this.eat(';')) {
+      return { type: 'Block', body: [] };
+    }
+
+    if (this.isPunctuator('{')) {
+      return this.parseBlock();
+    }
+
+    if (this.isKeyword('const') || this.isKeyword('let') || this.isKeyword('var')) {
+      const constant = this.isKeyword('const');
+      this.next();
+      const declarations: { name: string; init?: ExpressionNode }[] = [];
+      do {
+        const name = this.expectIdentifier();
+        const init = this.eat('=') ? this.parseExpression() : undefined;
+        declarations.push({ name, init });
+      } while (this.eat(','));
+      this.eat(';');
+      return { type: 'Declare', constant, declarations };
+    }
+
+    if (this.isKeyword('if')) {
+      this.next();
+      this.expect('(');
+      const test = this.parseExpression();
+      this.expect(')');
+      const consequent = this.parseStatement();
+      let alternate: StatementNode | undefined;
+      if (this.isKeyword('else')) {
+        this.next();
+        alternate = this.parseStatement();
+      }
+      return { type: 'If', test, consequent, alternate };
+    }
+
+    if (this.isKeyword('for')) {
+      this.next();
+      this.expect('(');
+      const constant = this.isKeyword('const');
+      if (constant || this.isKeyword('let') || this.isKeyword('var')) this.next();
+      const name = this.expectIdentifier();
+      if (!this.isKeyword('of')) {
+        throw new ExpressionSyntaxError('Only "for (const item of list)" loops are supported', this.peek().position);
+      }
+      this.next();
+      const iterable = this.parseExpression();
+      this.expect(')');
+      const body = this.parseStatement();
+      return { type: 'ForOf', constant, name, iterable, body };
+    }
+
+    if (this.isKeyword('return')) {
+      this.next();
+      const argument = this.isPunctuator(';') || this.isPunctuator('}') || this.isEnd()
+        ? undefined
+        : this.parseExpression();
+      this.eat(';');
+      return { type: 'Return', argument };
+    }
+
+    const expression = this.parseExpression();
+    this.eat(';');
+    return { type: 'Expression', expression };
+  }
+
+  private parseBlock(): StatementNode {
+    this.expect('{');
+    const body: StatementNode[] = [];
+    while (!this.isPunctuator('}')) {
+      if (this.isEnd()) throw new ExpressionSyntaxError('Expected "}"', this.peek().position);
+      body.push(this.parseStatement());
+    }
+    this.expect('}');
+    return { type: 'Block', body };
+  }
+
+  // Expressions
+
+  parseExpression(): ExpressionNode {
+    // Assignment to a local variable
+    const token = this.peek();
+    if (
+      token.type === 'identifier' &&
+      !RESERVED.has(token.value) &&
+      (this.isPunctuator('=', 1) || this.isPunctuator('+=', 1) || this.isPunctuator('-=', 1))
+    ) {
+      this.next();
+      const operator = this.next().value;
+      return { type: 'Assign', operator, name: token.value, value: this.parseExpression() };
+    }
+    return this.parseConditional();
+  }
+
+  private parseConditional(): ExpressionNode {
+    const test = this.parseBinary(0);
+    if (!this.eat('?')) return test;
+    const consequent = this.parseExpression();
+    this.expect(':');
+    const alternate = this.parseExpression();
+    return { type: 'Conditional', test, consequent, alternate };
+  }
+
+  private parseBinary(minPrecedence: number): ExpressionNode {
+    let left = this.parseUnary();
+    for (;;) {
+      const token = this.peek();
+      const precedence = token.type === 'punctuator' ? BINARY_PRECEDENCE[token.value] : undefined;
+      if (precedence === undefined || precedence <= minPrecedence) return left;
+      this.next();
+      const right = this.parseBinary(precedence);
+      left = LOGICAL_OPERATORS.has(token.value)
+        ? { type: 'Logical', operator: token.value, left, right }
+        : { type: 'Binary', operator: token.value, left, right };
+    }
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.isPunctuator('!') || this.isPunctuator('-') || this.isPunctuator('+')) {
+      const operator = this.next().value;
+      return { type: 'Unary', operator, argument: this.parseUnary() };
+    }
+    if (this.isKeyword('typeof')) {
+      this.next();
+      return { type: 'Unary', operator: 'typeof', argument: this.parseUnary() };
+    }
+    return this.parsePostfix(this.parsePrimary());
+  }
+
+  private parsePostfix(node: ExpressionNode): ExpressionNode {
+    for (;;) {
+      if (this.eat('.')) {
+        const name = this.next();
+        if (name.type !== 'identifier') throw new ExpressionSyntaxError('Expected property name', name.position);
+        node = { type: 'Member', object: node, property: { type: 'Literal', value: name.value }, computed: false, optional: false };
+      } else if (this.eat('?.')) {
+        if (this.eat('(')) {
+          node = { type: 'Call', callee: node, args: this.parseArguments(), optional: true };
+        } else if (this.eat('[')) {
+          const property = this.parseExpression();
+          this.expect(']');
+          node = { type: 'Member', object: node, property, computed: true, optional: true };
+        } else {
+          const name = this.next();
+          if (name.type !== 'identifier') throw new ExpressionSyntaxError('Expected property name', name.position);
+          node = { type: 'Member', object: node, property: { type: 'Literal', value: name.value }, computed: false, optional: true };
+        }
+      } else if (this.eat('[')) {
+        const property = this.parseExpression();
+        this.expect(']');
+        node = { type: 'Member', object: node, property, computed: true, optional: false };
+      } else if (this.eat('(')) {
+        node = { type: 'Call', callee: node, args: this.parseArguments(), optional: false };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parseArguments(): ExpressionNode[] {
+    const args: ExpressionNode[] = [];
+    while (!this.eat(')')) {
+      args.push(this.parseExpression());
+      if (!this.isPunctuator(')')) this.expect(',');
+    }
+    return args;
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.peek();
+
+    if (token.type === 'number' || token.type === 'string') {
+      this.next();
+      return { type: 'Literal', value: token.value };
+    }
+
+    if (token.type === 'template') {
+      this.next();
+      return {
+        type: 'Template',
+        quasis: token.value.quasis,
+        expressions: token.value.sources.map((source: string) => new Parser(source).parseExpressionSource()),
+      };
+    }
+
+    if (token.type === 'identifier') {
+      switch (token.value) {
+        case 'true': this.next(); return { type: 'Literal', value: true };
+        case 'false': this.next(); return { type: 'Literal', value: false };
+        case 'null': this.next(); return { type: 'Literal', value: null };
+        case 'undefined': this.next(); return { type: 'Literal', value: undefined };
+      }
+      if (RESERVED.has(token.value)) {
+        throw new ExpressionSyntaxError(`"${token.value}" is not supported`, token.position);
+      }
+      // x => ...
+      if (this.isPunctuator('=>', 1)) {
+        this.next();
+        this.next();
+        return { type: 'Arrow', params: [token.value], body: this.parseArrowBody() };
+      }
+      this.next();
+      return { type: 'Identifier', name: token.value };
+    }
+
+    if (this.isPunctuator('(')) {
+      if (this.isArrowParams()) {
+        this.next();
+        const params: string[] = [];
+        while (!this.eat(')')) {
+          params.push(this.expectIdentifier());
+          if (!this.isPunctuator(')')) this.expect(',');
+        }
+        this.expect('=>');
+        return { type: 'Arrow', params, body: this.parseArrowBody() };
+      }
+      this.next();
+      const expression = this.parseExpression();
+      this.expect(')');
+      return expression;
+    }
+
+    if (this.eat('[')) {
+      const elements: ExpressionNode[] = [];
+      while (!this.eat(']')) {
+        elements.push(this.parseExpression());
+        if (!this.isPunctuator(']')) this.expect(',');
+      }
+      return { type: 'Array', elements };
+    }
+
+    if (this.eat('{')) {
+      const properties: { key: string; value: ExpressionNode }[] = [];
+      while (!this.eat('}')) {
+        const keyToken = this.next();
+        if (keyToken.type !== 'identifier' && keyToken.type !== 'string' && keyToken.type !== 'number') {
+          throw new ExpressionSyntaxError('Expected property key', keyToken.position);
+        }
+        const key = String(keyToken.value);
+        if (this.eat(':')) {
+          properties.push({ key, value: this.parseExpression() });
+        } else if (keyToken.type === 'identifier') {
+          // Shorthand { total }
+          properties.push({ key, value: { type: 'Identifier', name: key } });
+        } else {
+          throw new ExpressionSyntaxError('Expected ":"', this.peek().position);
+        }
+        if (!this.isPunctuator('}')) this.expect(',');
+      }
+      return { type: 'Object', properties };
+    }
+
+    throw new ExpressionSyntaxError(
+      token.type === 'eof' ? 'Unexpected end of expression' : `Unexpected "${token.value}"`,
+      token.position
+    );
+  }
+
+  // "(" starts arrow parameters when the matching ")" is followed by "=>"
+  private isArrowParams(): boolean {
+    let depth = 0;
+    for (let i = this.index; i < this.tokens.length; i++) {
+      const token = this.tokens[i];
+      if (token.type !== 'punctuator') continue;
+      if (token.value === '(') depth++;
+      if (token.value === ')' && --depth === 0) {
+        const after = this.tokens[i + 1];
+        return after?.type === 'punctuator' && after.value === '=>';
+      }
+    }
+    return false;
+  }
+
+  private parseArrowBody(): ExpressionNode | StatementNode {
+    return this.isPunctuator('{') ? this.parseBlock() : this.parseExpression();
+  }
+}
+
+export class ExpressionParser {
+  /**
+   * Parse a single expression (e.g. "data.qty * data.price")
+   */
+  static parseExpression(source: string): ExpressionNode {
+    return new Parser(source).parseExpressionSource();
+  }
+
+  /**
+   * Parse a function body (e.g. "const total = data.qty * data.price; return total;")
+   */
+  static parseProgram(source: string): StatementNode[] {
+    return new Parser(source).parseProgramSource();
+  }
+}
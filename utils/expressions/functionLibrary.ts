@@ -0,0 +1,183 @@
+/**
+ * Expression Function Library
+ * Functions and safe globals available to sandboxed expressions
+ *
+ * Expressions can't reach window, fetch, document or cookies - only what is listed here
+ * and the values passed in by the caller (data, parentData, rootData, ...).
+ */
+
+const isEmpty = (value: any): boolean => {
+  if (value === null || value === undefined) return true;
+  if (typeof value === 'string') return value.trim() === '';
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === 'object') return Object.keys(value).length === 0;
+  return false;
+};
+
+const toNumber = (value: any): number => {
+  if (typeof value === 'number') return value;
+  if (value === null || value === undefined || value === '') return 0;
+  const number = Number(value);
+  return isNaN(number) ? 0 : number;
+};
+
+// Numbers from arguments, accepting a single array argument (sum(data.amounts) or sum(a, b, c))
+const numbers = (args: any[]): number[] => {
+  const values = args.length === 1 && Array.isArray(args[0]) ? args[0] : args;
+  return values.map(toNumber);
+};
+
+const toDate = (value: any): Date | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const date = value instanceof Date ? new Date(value.getTime()) : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Standard functions (spreadsheet style), callable by name: len(data.items), round(data.total, 2)
+ */
+export const STANDARD_FUNCTIONS: Record<string, (...args: any[]) => any> = {
+  // Values
+  isEmpty,
+  isNotEmpty: (value: any) => !isEmpty(value),
+  coalesce: (...values: any[]) => values.find((value) => !isEmpty(value)),
+  iif: (condition: any, whenTrue: any, whenFalse: any) => (condition ? whenTrue : whenFalse),
+  len: (value: any) => {
+    if (value === null || value === undefined) return 0;
+    if (Array.isArray(value)) return value.length;
+    if (typeof value === 'object') return Object.keys(value).length;
+    return String(value).length;
+  },
+  toNumber,
+  toString: (value: any) => (value === null || value === undefined ? '' : String(value)),
+  toBoolean: (value: any) => Boolean(value) && value !== 'false' && value !== '0',
+
+  // Strings
+  upper: (value: any) => String(value ?? '').toUpperCase(),
+  lower: (value: any) => String(value ?? '').toLowerCase(),
+  trim: (value: any) => String(value ?? '').trim(),
+  concat: (...values: any[]) => values.map((value) => (value === null || value === undefined ? '' : String(value))).join(''),
+  contains: (haystack: any, needle: any) => {
+    if (Array.isArray(haystack)) return haystack.includes(needle);
+    return String(haystack ?? '').toLowerCase().includes(String(needle ?? '').toLowerCase());
+  },
+  startsWith: (value: any, prefix: any) => String(value ?? '').startsWith(String(prefix ?? '')),
+  endsWith: (value: any, suffix: any) => String(value ?? '').endsWith(String(suffix ?? '')),
+  substring: (value: any, start: number, end?: number) => String(value ?? '').substring(start, end),
+  replace: (value: any, search: any, replacement: any) => String(value ?? '').split(String(search)).join(String(replacement ?? '')),
+  split: (value: any, separator: any = ',') => String(value ?? '').split(String(separator)),
+  join: (values: any, separator: any = ', ') => (Array.isArray(values) ? values.join(String(separator)) : String(values ?? '')),
+  padStart: (value: any, length: number, fill = ' ') => String(value ?? '').padStart(length, fill),
+
+  // Numbers
+  round: (value: any, digits = 0) => {
+    const factor = Math.pow(10, digits);
+    return Math.round(toNumber(value) * factor) / factor;
+  },
+  floor: (value: any) => Math.floor(toNumber(value)),
+  ceil: (value: any) => Math.ceil(toNumber(value)),
+  abs: (value: any) => Math.abs(toNumber(value)),
+  min: (...args: any[]) => (numbers(args).length ? Math.min(...numbers(args)) : undefined),
+  max: (...args: any[]) => (numbers(args).length ? Math.max(...numbers(args)) : undefined),
+  sum: (...args: any[]) => numbers(args).reduce((total, value) => total + value, 0),
+  avg: (...args: any[]) => {
+    const values = numbers(args);
+    return values.length ? values.reduce((total, value) => total + value, 0) / values.length : 0;
+  },
+  formatNumber: (value: any, digits = 2) => toNumber(value).toFixed(digits),
+
+  // Arrays
+  count: (values: any) => (Array.isArray(values) ? values.length : 0),
+  pluck: (values: any, key: string) => (Array.isArray(values) ? values.map((item) => item?.[key]) : []),
+  unique: (values: any) => (Array.isArray(values) ? Array.from(new Set(values)) : []),
+  first: (values: any) => (Array.isArray(values) ? values[0] : undefined),
+  last: (values: any) => (Array.isArray(values) ? values[values.length - 1] : undefined),
+
+  // Dates (ISO strings or timestamps)
+  now: () => new Date().toISOString(),
+  today: () => {
+    const date = new Date();
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  },
+  date: (value: any) => toDate(value)?.toISOString(),
+  year: (value: any) => toDate(value)?.getFullYear(),
+  month: (value: any) => {
+    const date = toDate(value);
+    return date ? date.getMonth() + 1 : undefined;
+  },
+  day: (value: any) => toDate(value)?.getDate(),
+  addDays: (value: any, days: number) => {
+    const date = toDate(value);
+    return date ? new Date(date.getTime() + toNumber(days) * DAY_MS).toISOString() : undefined;
+  },
+  diffDays: (from: any, to: any) => {
+    const start = toDate(from);
+    const end = toDate(to);
+    return start && end ? Math.round((end.getTime() - start.getTime()) / DAY_MS) : undefined;
+  },
+  formatDate: (value: any) => {
+    const date = toDate(value);
+    return date ? `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` : '';
+  },
+};
+
+/**
+ * Safe stand-ins for the JavaScript globals expressions commonly use
+ */
+export const SAFE_GLOBALS: Record<string, any> = {
+  Math: Object.freeze({
+    abs: Math.abs, ceil: Math.ceil, floor: Math.floor, round: Math.round, trunc: Math.trunc,
+    min: Math.min, max: Math.max, pow: Math.pow, sqrt: Math.sqrt, sign: Math.sign, random: Math.random,
+    PI: Math.PI, E: Math.E,
+  }),
+  Number: Object.assign((value: any) => Number(value), {
+    isFinite: Number.isFinite,
+    isInteger: Number.isInteger,
+    isNaN: Number.isNaN,
+    parseFloat: Number.parseFloat,
+    parseInt: Number.parseInt,
+  }),
+  String: (value: any) => String(value),
+  Boolean: (value: any) => Boolean(value),
+  parseInt: (value: any, radix?: number) => parseInt(value, radix),
+  parseFloat: (value: any) => parseFloat(value),
+  isNaN: (value: any) => isNaN(value),
+  isFinite: (value: any) => isFinite(value),
+  Array: Object.freeze({ isArray: Array.isArray }),
+  Object: Object.freeze({
+    keys: (value: any) => Object.keys(value ?? {}),
+    values: (value: any) => Object.values(value ?? {}),
+    entries: (value: any) => Object.entries(value ?? {}),
+  }),
+  JSON: Object.freeze({
+    stringify: (value: any) => JSON.stringify(value),
+    parse: (value: string) => JSON.parse(value),
+  }),
+  Date: Object.freeze({
+    now: () => Date.now(),
+    parse: (value: string) => Date.parse(value),
+  }),
+};
+
+// Methods callable on values of each kind (non-mutating only)
+export const STRING_METHODS = new Set([
+  'charAt', 'concat', 'endsWith', 'includes', 'indexOf', 'lastIndexOf', 'padEnd', 'padStart',
+  'repeat', 'replace', 'slice', 'split', 'startsWith', 'substring', 'toLowerCase', 'toUpperCase',
+  'trim', 'trimEnd', 'trimStart', 'toString', 'localeCompare',
+]);
+
+export const ARRAY_METHODS = new Set([
+  'concat', 'every', 'filter', 'find', 'findIndex', 'flat', 'flatMap', 'includes', 'indexOf',
+  'join', 'lastIndexOf', 'map', 'reduce', 'slice', 'some', 'toString',
+]);
+
+export const NUMBER_METHODS = new Set(['toFixed', 'toPrecision', 'toString', 'toLocaleString']);
+
+export const DATE_METHODS = new Set([
+  'getDate', 'getDay', 'getFullYear', 'getHours', 'getMinutes', 'getMonth', 'getSeconds',
+  'getTime', 'toISOString', 'toLocaleDateString', 'toLocaleString',
+]);
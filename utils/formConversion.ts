@@ -14,6 +14,7 @@ import type {
   ValidationSchema,
   ActionData,
   ModalComponentStore,
+  WorkAreaLayout,
 } from '../stores/types/formEngine';
 
 export class FormConverter {
@@ -102,6 +103,11 @@ export class FormConverter {
       componentStore.disableDataBinding = this.convertProperty(props.disableDataBinding);
     }
 
+    // Work area layout section container
+    if (props.isLayoutSection && props.sectionId) {
+      componentStore.section = props.sectionId;
+    }
+
     return componentStore;
   }
 
@@ -179,6 +185,12 @@ export class FormConverter {
       props.disableDataBinding = this.reverseConvertProperty(component.disableDataBinding);
     }
 
+    // Restore work area layout section
+    if (component.section) {
+      props.sectionId = component.section;
+      props.isLayoutSection = true;
+    }
+
     return {
       id: component.key,
       type: this.reverseMapComponentType(component.type),
@@ -198,7 +210,7 @@ export class FormConverter {
     
     for (const [key, value] of Object.entries(props)) {
       // Check if it's already a ComponentProperty
-      if (value && typeof value === 'object' && ('value' in value || 'fnSource' in value)) {
+      if (value && typeof value === 'object' && ('value' in value || 'fnSource' in value || 'condition' in value)) {
         converted[key] = value as ComponentProperty;
       } else {
         // Convert to static ComponentProperty
@@ -220,7 +232,7 @@ export class FormConverter {
     for (const [key, property] of Object.entries(props)) {
       if (property.value !== undefined) {
         converted[key] = property.value;
-      } else if (property.fnSource) {
+      } else if (property.fnSource || property.condition) {
         // Store as computed property structure
         converted[key] = property;
       }
@@ -312,7 +324,9 @@ export class FormConverter {
       defaultLanguage?: string;
       languages?: Language[];
       formValidator?: string;
+      validateOnChange?: boolean;
       actions?: Record<string, any>;
+      workAreaLayout?: WorkAreaLayout | null;
     } = {}
   ): PersistedForm {
     // Convert root components to a single form component
@@ -347,6 +361,22 @@ export class FormConverter {
       localization: {},
       actions: options.actions,
       formValidator: options.formValidator,
+      validateOnChange: options.validateOnChange,
+      workAreaLayout: this.toPersistedLayout(options.workAreaLayout),
+    };
+  }
+
+  /**
+   * Work area layout as saved with a form (the builder's templates also carry an icon)
+   */
+  static toPersistedLayout(layout?: WorkAreaLayout | null): WorkAreaLayout | undefined {
+    if (!layout) return undefined;
+    return {
+      id: layout.id,
+      name: layout.name,
+      description: layout.description,
+      direction: layout.direction,
+      sections: layout.sections.map((section) => ({ ...section })),
     };
   }
 
@@ -507,7 +537,7 @@ export class FormConverter {
    * Convert a property value to ComponentProperty
    */
   private static convertProperty(value: any): ComponentProperty {
-    if (value && typeof value === 'object' && ('value' in value || 'fnSource' in value)) {
+    if (value && typeof value === 'object' && ('value' in value || 'fnSource' in value || 'condition' in value)) {
       return value as ComponentProperty;
     }
     return { value };
@@ -520,7 +550,7 @@ export class FormConverter {
     if (property.value !== undefined) {
       return property.value;
     }
-    if (property.fnSource) {
+    if (property.fnSource || property.condition) {
       return property; // Keep as computed property
     }
     return undefined;
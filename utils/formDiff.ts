@@ -0,0 +1,269 @@
+/**
+ * Form Diff
+ * Structural differences between two component trees (e.g. two revisions of a form):
+ * components added, removed or moved, props changed and dependencies changed.
+ * Components are matched by id.
+ */
+
+import type { ComponentDefinition } from '../stores/types';
+
+export type FormChangeKind = 'added' | 'removed' | 'moved' | 'propsChanged' | 'dependenciesChanged';
+
+export interface FormPosition {
+  parentId: string | null; // null at the root
+  index: number; // Among its siblings
+}
+
+export interface FormPropChange {
+  key: string; // Prop name (or dependency name for dependenciesChanged)
+  before: any;
+  after: any;
+}
+
+export interface FormChange {
+  kind: FormChangeKind;
+  componentId: string;
+  type: string;
+  label: string;
+  from?: FormPosition;
+  to?: FormPosition;
+  // Changed props / dependencies
+  props?: FormPropChange[];
+  // Added/removed: components inside it (not listed separately)
+  descendants?: number;
+}
+
+export interface IndexedComponent extends FormPosition {
+  component: ComponentDefinition;
+}
+
+export const FORM_CHANGE_LABELS: Record<FormChangeKind, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  moved: 'Moved',
+  propsChanged: 'Props changed',
+  dependenciesChanged: 'Dependencies changed',
+};
+
+// JSON with sorted keys, so key order doesn't count as a change
+const stableStringify = (value: any): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .filter((key) => value[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'undefined';
+};
+
+const countDescendants = (component: ComponentDefinition): number =>
+  (component.children || []).reduce((count, child) => count + 1 + countDescendants(child), 0);
+
+// Ids of the longest common subsequence of two id lists (siblings that kept their order)
+const keptOrder = (before: string[], after: string[]): Set<string> => {
+  const lengths = before.map(() => new Array(after.length + 1).fill(0));
+  lengths.push(new Array(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = before[i] === after[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const result = new Set<string>();
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      result.add(before[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return result;
+};
+
+export class FormDiff {
+  /**
+   * Components by id with their position
+   */
+  static index(components: ComponentDefinition[]): Map<string, IndexedComponent> {
+    const result = new Map<string, IndexedComponent>();
+    const visit = (items: ComponentDefinition[], parentId: string | null) => {
+      items.forEach((component, index) => {
+        result.set(component.id, { component, parentId, index });
+        if (component.children) visit(component.children, component.id);
+      });
+    };
+    visit(components, null);
+    return result;
+  }
+
+  /**
+   * Whether two values are equal as JSON (key order ignored)
+   */
+  static isEqual(a: any, b: any): boolean {
+    return stableStringify(a) === stableStringify(b);
+  }
+
+  /**
+   * Display name of a component
+   */
+  static getLabel(component: ComponentDefinition): string {
+    return component.props?.label || component.name || component.props?.dataKey || component.id;
+  }
+
+  /**
+   * Changes from before to after, in the order of the after tree (removals last)
+   */
+  static diff(before: ComponentDefinition[], after: ComponentDefinition[]): FormChange[] {
+    const beforeIndex = this.index(before);
+    const afterIndex = this.index(after);
+    const changes: FormChange[] = [];
+    const moved = this.findMoved(beforeIndex, afterIndex);
+
+    afterIndex.forEach((entry, id) => {
+      const previous = beforeIndex.get(id);
+      const { component } = entry;
+      const base = { componentId: id, type: component.type, label: this.getLabel(component) };
+      const to = { parentId: entry.parentId, index: entry.index };
+
+      if (!previous) {
+        // Inside an added container: counted as its descendant
+        if (entry.parentId && !beforeIndex.has(entry.parentId)) return;
+        changes.push({ ...base, kind: 'added', to, descendants: countDescendants(component) });
+        return;
+      }
+
+      const from = { parentId: previous.parentId, index: previous.index };
+      if (moved.has(id)) {
+        changes.push({ ...base, kind: 'moved', from, to });
+      }
+
+      const props = this.diffProps(previous.component, component);
+      if (props.length > 0) {
+        changes.push({ ...base, kind: 'propsChanged', props });
+      }
+
+      const dependencies = this.diffDependencies(previous.component, component);
+      if (dependencies.length > 0) {
+        changes.push({ ...base, kind: 'dependenciesChanged', props: dependencies });
+      }
+    });
+
+    beforeIndex.forEach((entry, id) => {
+      if (afterIndex.has(id)) return;
+      if (entry.parentId && !afterIndex.has(entry.parentId)) return;
+      changes.push({
+        kind: 'removed',
+        componentId: id,
+        type: entry.component.type,
+        label: this.getLabel(entry.component),
+        from: { parentId: entry.parentId, index: entry.index },
+        descendants: countDescendants(entry.component),
+      });
+    });
+
+    return changes;
+  }
+
+  /**
+   * Number of changes of each kind
+   */
+  static summarize(changes: FormChange[]): Record<FormChangeKind, number> {
+    const result: Record<FormChangeKind, number> = {
+      added: 0,
+      removed: 0,
+      moved: 0,
+      propsChanged: 0,
+      dependenciesChanged: 0,
+    };
+    changes.forEach((change) => {
+      result[change.kind]++;
+    });
+    return result;
+  }
+
+  /**
+   * Changed props (type, name and props other than dependencies)
+   */
+  static diffProps(before: ComponentDefinition, after: ComponentDefinition): FormPropChange[] {
+    const changes: FormPropChange[] = [];
+    if (before.type !== after.type) changes.push({ key: 'type', before: before.type, after: after.type });
+    if ((before.name || '') !== (after.name || '')) changes.push({ key: 'name', before: before.name, after: after.name });
+
+    const keys = new Set([...Object.keys(before.props || {}), ...Object.keys(after.props || {})]);
+    keys.delete('dependencies');
+    Array.from(keys).sort().forEach((key) => {
+      const previous = before.props?.[key];
+      const next = after.props?.[key];
+      if (!this.isEqual(previous, next)) changes.push({ key, before: previous, after: next });
+    });
+    return changes;
+  }
+
+  /**
+   * Changed entries of props.dependencies (visibility, computed values, cascading filters, ...)
+   */
+  static diffDependencies(before: ComponentDefinition, after: ComponentDefinition): FormPropChange[] {
+    const previous = before.props?.dependencies;
+    const next = after.props?.dependencies;
+    if (this.isEqual(previous, next)) return [];
+
+    const isObject = (value: any) => value && typeof value === 'object' && !Array.isArray(value);
+    if (!isObject(previous) || !isObject(next)) {
+      return [{ key: 'dependencies', before: previous, after: next }];
+    }
+
+    const keys = new Set([...Object.keys(previous), ...Object.keys(next)]);
+    return Array.from(keys)
+      .sort()
+      .filter((key) => !this.isEqual(previous[key], next[key]))
+      .map((key) => ({ key, before: previous[key], after: next[key] }));
+  }
+
+  /**
+   * Ids of components moved to another parent, or reordered among the siblings they kept
+   */
+  private static findMoved(
+    beforeIndex: Map<string, IndexedComponent>,
+    afterIndex: Map<string, IndexedComponent>
+  ): Set<string> {
+    const moved = new Set<string>();
+    const siblings = (index: Map<string, IndexedComponent>, other: Map<string, IndexedComponent>) => {
+      const result = new Map<string | null, string[]>();
+      index.forEach((entry, id) => {
+        if (other.get(id)?.parentId !== entry.parentId) return;
+        const list = result.get(entry.parentId) || [];
+        list[entry.index] = id;
+        result.set(entry.parentId, list);
+      });
+      return result;
+    };
+
+    afterIndex.forEach((entry, id) => {
+      const previous = beforeIndex.get(id);
+      if (previous && previous.parentId !== entry.parentId) moved.add(id);
+    });
+
+    const beforeSiblings = siblings(beforeIndex, afterIndex);
+    const afterSiblings = siblings(afterIndex, beforeIndex);
+    afterSiblings.forEach((afterIds, parentId) => {
+      const after = afterIds.filter(Boolean);
+      const before = (beforeSiblings.get(parentId) || []).filter(Boolean);
+      const kept = keptOrder(before, after);
+      after.forEach((id) => {
+        if (!kept.has(id)) moved.add(id);
+      });
+    });
+
+    return moved;
+  }
+}
@@ -7,7 +7,8 @@
  */
 
 import type { ComponentDefinition } from '../stores/types';
-import type { PersistedForm } from '../stores/types/formEngine';
+import type { PersistedForm, WorkAreaLayout } from '../stores/types/formEngine';
+import type { FormSettings } from '../stores/formBuilderStore';
 import { FormConverter } from './formConversion';
 
 /**
@@ -34,6 +35,7 @@ export interface FormExport {
     author?: string;
   };
   structure: ComponentDefinition[];
+  workAreaLayout?: WorkAreaLayout; // Chosen layout - its section containers are in structure
 }
 
 /**
@@ -89,6 +91,20 @@ function cleanComponentForExport(component: ComponentDefinition): ComponentDefin
       fixTemplate(deps.placeholder);
       fixTemplate(deps.value);
       fixTemplate(deps.options);
+
+      // Conditional validation - rules without a type never apply, an empty block is dropped
+      if (deps.validation) {
+        deps = { ...deps };
+        cleaned.props.dependencies = deps;
+        const rules = (deps.validation.rules || []).filter((rule: any) => rule && rule.type);
+        const validation = { ...deps.validation, rules };
+        if (rules.length === 0) delete validation.rules;
+        if (validation.enabledWhen || validation.rules) {
+          deps.validation = validation;
+        } else {
+          delete deps.validation;
+        }
+      }
     }
   }
 
@@ -105,7 +121,8 @@ export function exportFormStructure(
     formName: string;
     description?: string;
     author?: string;
-  }
+  },
+  options: { workAreaLayout?: WorkAreaLayout | null } = {}
 ): FormExport {
   const cleanedComponents = components.map(cleanComponentForExport);
   
@@ -117,6 +134,7 @@ export function exportFormStructure(
       updatedAt: new Date().toISOString(),
     },
     structure: cleanedComponents,
+    workAreaLayout: FormConverter.toPersistedLayout(options.workAreaLayout),
   };
 }
 
@@ -369,54 +387,75 @@ function unwrapComponentProps(component: any): ComponentDefinition {
   return unwrapped;
 }
 
+// Components plus the form-level settings (formValidator, ...) found in the file
+export interface ImportedForm {
+  components: ComponentDefinition[];
+  settings: FormSettings;
+  workAreaLayout: WorkAreaLayout | null;
+}
+
 /**
- * Read form from JSON file with automatic migration and format detection
+ * Detect the format of parsed form JSON (after migration) and import it
+ */
+async function importParsedForm(parsed: any): Promise<ImportedForm> {
+  // Import migration utilities
+  const { migrateForm } = await import('./formMigration');
+  
+  // Attempt migration if needed
+  const migrationResult = migrateForm(parsed);
+  
+  if (!migrationResult.success) {
+    console.warn('Migration warnings:', migrationResult.warnings);
+    if (migrationResult.errors.length > 0) {
+      throw new Error(`Migration failed: ${migrationResult.errors.join(', ')}`);
+    }
+  }
+  
+  const dataToImport = migrationResult.data;
+  const settings: FormSettings = {
+    formValidator: dataToImport?.formValidator,
+    validateOnChange: dataToImport?.validateOnChange,
+  };
+  const workAreaLayout: WorkAreaLayout | null = dataToImport?.workAreaLayout || null;
+  
+  // Check if it's a Standard React Form Builder format (form.form.children)
+  if (dataToImport.form && dataToImport.form.children && Array.isArray(dataToImport.form.children)) {
+    return { components: dataToImport.form.children.map(unwrapComponentProps), settings, workAreaLayout };
+  }
+  // Check if it's a PersistedForm format (with ComponentProperty wrapping)
+  if (dataToImport.form && dataToImport.version) {
+    return { components: importFromPersistedForm(dataToImport as PersistedForm), settings, workAreaLayout };
+  }
+  // Check if it's a FormExport format
+  if (dataToImport.structure && Array.isArray(dataToImport.structure)) {
+    return { components: dataToImport.structure.map(unwrapComponentProps), settings, workAreaLayout };
+  }
+  // Check if it's a direct array of components
+  if (Array.isArray(dataToImport) && dataToImport.every((c: any) => (c.id || c.key) && c.type)) {
+    return { components: dataToImport.map(unwrapComponentProps), settings: {}, workAreaLayout: null };
+  }
+  
+  throw new Error('Invalid form data structure');
+}
+
+/**
+ * Import form data held in memory (e.g. a stored form or revision) - any supported format,
+ * as an object or a JSON string
+ */
+export async function importFormData(data: any): Promise<ImportedForm> {
+  return importParsedForm(typeof data === 'string' ? JSON.parse(data) : data);
+}
+
+/**
+ * Read form and its form-level settings from JSON file
  */
-export function readFormFromFile(file: File): Promise<ComponentDefinition[]> {
-  return new Promise(async (resolve, reject) => {
+export function readFormFileWithSettings(file: File): Promise<ImportedForm> {
+  return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.onload = async (e) => {
       try {
         const json = JSON.parse(e.target?.result as string);
-        
-        // Import migration utilities
-        const { migrateForm } = await import('./formMigration');
-        
-        // Attempt migration if needed
-        const migrationResult = migrateForm(json);
-        
-        if (!migrationResult.success) {
-          console.warn('Migration warnings:', migrationResult.warnings);
-          if (migrationResult.errors.length > 0) {
-            throw new Error(`Migration failed: ${migrationResult.errors.join(', ')}`);
-          }
-        }
-        
-        const dataToImport = migrationResult.data;
-        
-        // Check if it's a Standard React Form Builder format (form.form.children)
-        if (dataToImport.form && dataToImport.form.children && Array.isArray(dataToImport.form.children)) {
-          const components = dataToImport.form.children.map(unwrapComponentProps);
-          resolve(components);
-        }
-        // Check if it's a PersistedForm format (with ComponentProperty wrapping)
-        else if (dataToImport.form && dataToImport.version) {
-          const components = importFromPersistedForm(dataToImport as PersistedForm);
-          resolve(components);
-        } 
-        // Check if it's a FormExport format
-        else if (dataToImport.structure && Array.isArray(dataToImport.structure)) {
-          const components = dataToImport.structure.map(unwrapComponentProps);
-          resolve(components);
-        }
-        // Check if it's a direct array of components
-        else if (Array.isArray(dataToImport) && dataToImport.every((c: any) => (c.id || c.key) && c.type)) {
-          const components = dataToImport.map(unwrapComponentProps);
-          resolve(components);
-        }
-        else {
-          throw new Error('Invalid form data structure');
-        }
+        resolve(await importParsedForm(json));
       } catch (error) {
         console.error('Error parsing JSON:', error);
         reject(new Error('Failed to read or parse file: ' + (error instanceof Error ? error.message : 'Unknown error')));
@@ -427,43 +466,21 @@ export function readFormFromFile(file: File): Promise<ComponentDefinition[]> {
   });
 }
 
+/**
+ * Read form from JSON file with automatic migration and format detection
+ */
+export async function readFormFromFile(file: File): Promise<ComponentDefinition[]> {
+  const { components } = await readFormFileWithSettings(file);
+  return components;
+}
+
 /**
  * Import form from JSON string with automatic migration and format detection
  */
 export async function importFormFromJSON(jsonString: string): Promise<ComponentDefinition[]> {
   try {
-    const parsed = JSON.parse(jsonString);
-    
-    // Import migration utilities
-    const { migrateForm } = await import('./formMigration');
-    
-    // Attempt migration if needed
-    const migrationResult = migrateForm(parsed);
-    
-    if (!migrationResult.success && migrationResult.errors.length > 0) {
-      throw new Error(`Migration failed: ${migrationResult.errors.join(', ')}`);
-    }
-    
-    const dataToImport = migrationResult.data;
-    
-    // Check if it's a Standard React Form Builder format (form.form.children)
-    if (dataToImport.form && dataToImport.form.children && Array.isArray(dataToImport.form.children)) {
-      return dataToImport.form.children.map(unwrapComponentProps);
-    }
-    // Check if it's a PersistedForm format (with ComponentProperty wrapping)
-    if (dataToImport.form && dataToImport.version) {
-      return importFromPersistedForm(dataToImport as PersistedForm);
-    }
-    // Check if it's a FormExport format
-    else if (dataToImport.structure && Array.isArray(dataToImport.structure)) {
-      return dataToImport.structure.map(unwrapComponentProps);
-    }
-    // Check if it's a direct array of components
-    else if (Array.isArray(dataToImport) && dataToImport.every((c: any) => (c.id || c.key) && c.type)) {
-      return dataToImport.map(unwrapComponentProps);
-    }
-    
-    throw new Error('Invalid form data structure');
+    const { components } = await importParsedForm(JSON.parse(jsonString));
+    return components;
   } catch (error) {
     console.error('Error parsing JSON:', error);
     throw new Error('Invalid JSON format: ' + (error instanceof Error ? error.message : 'Unknown error'));
@@ -486,6 +503,9 @@ export function exportAsStandardFormat(
     };
     defaultLanguage?: string;
     languages?: Array<{ code: string; name: string }>;
+    formValidator?: string;
+    validateOnChange?: boolean;
+    workAreaLayout?: WorkAreaLayout | null;
   } = {}
 ): any {
   const cleanedComponents = components.map(cleanComponentForExport);
@@ -519,6 +539,9 @@ export function exportAsStandardFormat(
       { code: 'en-US', name: 'English (US)' },
     ],
     localization: {},
+    formValidator: options.formValidator || undefined,
+    validateOnChange: options.validateOnChange || undefined,
+    workAreaLayout: FormConverter.toPersistedLayout(options.workAreaLayout),
   };
 }
 
@@ -542,7 +565,9 @@ export function exportAsPersistedForm(
     defaultLanguage?: string;
     languages?: Array<{ code: string; name: string }>;
     formValidator?: string;
+    validateOnChange?: boolean;
     actions?: Record<string, any>;
+    workAreaLayout?: WorkAreaLayout | null;
   } = {}
 ): PersistedForm {
   return FormConverter.toPersistedForm(components, options);
@@ -575,7 +600,9 @@ export function downloadPersistedForm(
     defaultLanguage?: string;
     languages?: Array<{ code: string; name: string }>;
     formValidator?: string;
+    validateOnChange?: boolean;
     actions?: Record<string, any>;
+    workAreaLayout?: WorkAreaLayout | null;
   } = {}
 ): void {
   const persistedForm = exportAsPersistedForm(components, options);
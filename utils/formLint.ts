@@ -0,0 +1,265 @@
+/**
+ * Form Linting
+ * Static checks over the component tree before a form is saved
+ */
+
+import type { ComponentDefinition } from '../stores/types';
+import type { ActionData } from '../stores/types/formEngine';
+import { getComponentsByCategory } from './componentLibrary';
+import { DependencyGraphAnalyzer, type DependencyGraph } from './dependencies/dependencyGraph';
+import { WizardSteps } from './rendering/wizardSteps';
+
+export type LintRuleId =
+  | 'duplicateDataKey'
+  | 'duplicateName'
+  | 'missingDataKey'
+  | 'brokenFilterSource'
+  | 'dependencyCycle'
+  | 'missingModal'
+  | 'unknownDataview'
+  | 'emptyOptions'
+  | 'unreachableWizardStep';
+
+export type LintSeverity = 'error' | 'warning' | 'off';
+
+export interface LintIssue {
+  rule: LintRuleId;
+  severity: Exclude<LintSeverity, 'off'>;
+  componentId: string;
+  message: string;
+}
+
+export interface LintOptions {
+  // Overrides of DEFAULT_LINT_SEVERITY
+  severity?: Partial<Record<LintRuleId, LintSeverity>>;
+  // Whether a dataview id exists (undefined = unknown, e.g. the list isn't loaded)
+  hasDataview?: (dataviewId: string) => boolean | undefined;
+}
+
+export const LINT_RULES: Record<LintRuleId, string> = {
+  duplicateDataKey: 'Duplicate dataKey',
+  duplicateName: 'Duplicate name',
+  missingDataKey: 'Input without dataKey',
+  brokenFilterSource: 'Broken filterBy source field',
+  dependencyCycle: 'Dependency cycle',
+  missingModal: 'openModal target missing',
+  unknownDataview: 'Unknown dataview',
+  emptyOptions: 'Select without options',
+  unreachableWizardStep: 'Unreachable or empty Wizard step',
+};
+
+// Errors block saving
+export const DEFAULT_LINT_SEVERITY: Record<LintRuleId, LintSeverity> = {
+  duplicateDataKey: 'error',
+  duplicateName: 'warning',
+  missingDataKey: 'warning',
+  brokenFilterSource: 'error',
+  dependencyCycle: 'error',
+  missingModal: 'error',
+  unknownDataview: 'warning',
+  emptyOptions: 'warning',
+  unreachableWizardStep: 'warning',
+};
+
+// Inputs are expected to bind a dataKey (Button is listed with the inputs but holds no value)
+const INPUT_TYPES = getComponentsByCategory('Inputs')
+  .map((item) => item.type as string)
+  .filter((type) => type !== 'Button');
+
+const OPTION_TYPES = ['Select', 'DropDown', 'RadioGroup', 'CheckBoxGroup'];
+
+// Marker set by the property editor while a dataview is being chosen
+const DATAVIEW_PENDING = '__DATAVIEW_PENDING__';
+
+const flatten = (components: ComponentDefinition[]): ComponentDefinition[] =>
+  components.flatMap((component) => [component, ...flatten(component.children || [])]);
+
+const displayName = (component: ComponentDefinition) =>
+  component.name || (component.props?.dataKey as string | undefined) || component.id;
+
+export class FormLinter {
+  /**
+   * Run all rules over a component tree
+   */
+  static lint(components: ComponentDefinition[], options: LintOptions = {}): LintIssue[] {
+    const severity = { ...DEFAULT_LINT_SEVERITY, ...options.severity };
+    const all = flatten(components);
+    const issues: LintIssue[] = [];
+
+    const report = (rule: LintRuleId, component: ComponentDefinition, message: string) => {
+      const level = severity[rule];
+      if (level !== 'off') {
+        issues.push({ rule, severity: level, componentId: component.id, message });
+      }
+    };
+
+    // Absolute dataKeys, missing references and cycles
+    const graph = DependencyGraphAnalyzer.build(components);
+
+    this.checkDuplicates(graph, all, report);
+    this.checkInputs(all, report);
+    this.checkDependencies(graph, all, report);
+    this.checkModals(all, report);
+    this.checkDataviews(all, options.hasDataview, report);
+    this.checkWizards(all, report);
+
+    // Errors first, then tree order
+    return issues.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+  }
+
+  /**
+   * Whether the issues allow saving
+   */
+  static canSave(issues: LintIssue[]): boolean {
+    return !issues.some((issue) => issue.severity === 'error');
+  }
+
+  private static checkDuplicates(
+    graph: DependencyGraph,
+    all: ComponentDefinition[],
+    report: (rule: LintRuleId, component: ComponentDefinition, message: string) => void
+  ) {
+    // Absolute paths, so the same relative key in a Repeater row and outside it don't clash
+    const byDataKey = new Map<string, ComponentDefinition[]>();
+    const byName = new Map<string, ComponentDefinition[]>();
+    all.forEach((component) => {
+      const dataKey = graph.nodes[component.id]?.dataKey;
+      if (dataKey) byDataKey.set(dataKey, [...(byDataKey.get(dataKey) || []), component]);
+      if (component.name) byName.set(component.name, [...(byName.get(component.name) || []), component]);
+    });
+
+    byDataKey.forEach((owners, dataKey) => {
+      if (owners.length < 2) return;
+      owners.forEach((component) =>
+        report('duplicateDataKey', component, `dataKey "${dataKey}" is used by ${owners.length} components`)
+      );
+    });
+    byName.forEach((owners, name) => {
+      if (owners.length < 2) return;
+      owners.forEach((component) =>
+        report('duplicateName', component, `Name "${name}" is used by ${owners.length} components`)
+      );
+    });
+  }
+
+  private static checkInputs(
+    all: ComponentDefinition[],
+    report: (rule: LintRuleId, component: ComponentDefinition, message: string) => void
+  ) {
+    all.forEach((component) => {
+      if (INPUT_TYPES.includes(component.type) && !component.props?.dataKey && !component.props?.disableDataBinding) {
+        report('missingDataKey', component, `${displayName(component)} (${component.type}) has no dataKey, its value won't be saved`);
+      }
+
+      if (OPTION_TYPES.includes(component.type)) {
+        const source = component.props?.optionsSource ?? component.props?.options;
+        const empty = source === undefined || source === null || source === '' ||
+          (Array.isArray(source) && source.length === 0);
+        if (empty) {
+          report('emptyOptions', component, `${displayName(component)} has no options`);
+        }
+      }
+    });
+  }
+
+  private static checkDependencies(
+    graph: DependencyGraph,
+    all: ComponentDefinition[],
+    report: (rule: LintRuleId, component: ComponentDefinition, message: string) => void
+  ) {
+    const byId = new Map(all.map((component) => [component.id, component]));
+
+    graph.missing
+      .filter((reference) => reference.kind === 'filterBy')
+      .forEach((reference) => {
+        const component = byId.get(reference.componentId);
+        if (component) {
+          report('brokenFilterSource', component, `filterBy reads "${reference.path}", which no component is bound to`);
+        }
+      });
+
+    graph.cycles.forEach((cycle) => {
+      const names = [...cycle, cycle[0]].map((id) => (byId.get(id) ? displayName(byId.get(id)!) : id));
+      const component = byId.get(cycle[0]);
+      if (component) {
+        report('dependencyCycle', component, `Computed values update each other: ${names.join(' → ')}`);
+      }
+    });
+  }
+
+  private static checkModals(
+    all: ComponentDefinition[],
+    report: (rule: LintRuleId, component: ComponentDefinition, message: string) => void
+  ) {
+    const modals = all.filter((component) => (component.type as string) === 'Modal' || component.props?.modal);
+    const modalIds = new Set(modals.map((component) => component.id));
+    const modalTypes = new Set(modals.map((component) => component.props?.modal?.type).filter(Boolean));
+
+    all.forEach((component) => {
+      const events = (component.props?.events || {}) as Record<string, ActionData[]>;
+      Object.entries(events).forEach(([eventName, actions]) => {
+        (actions || [])
+          .filter((action) => action.name === 'openModal')
+          .forEach((action) => {
+            // Same resolution as ActionHandler.openModalAction
+            const modalId = action.args?.modalId || action.args?.componentId;
+            const modalType = action.args?.modalType;
+            if (modalId && !modalIds.has(modalId)) {
+              report('missingModal', component, `${eventName} opens modal "${modalId}", which doesn't exist`);
+            } else if (!modalId && modalType && !modalTypes.has(modalType)) {
+              report('missingModal', component, `${eventName} opens modal type "${modalType}", which no modal has`);
+            } else if (!modalId && !modalType && !modalIds.has(component.id)) {
+              report('missingModal', component, `${eventName} runs openModal without a modal id`);
+            }
+          });
+      });
+    });
+  }
+
+  private static checkDataviews(
+    all: ComponentDefinition[],
+    hasDataview: LintOptions['hasDataview'],
+    report: (rule: LintRuleId, component: ComponentDefinition, message: string) => void
+  ) {
+    all.forEach((component) => {
+      ['optionsSource', 'dataSource'].forEach((key) => {
+        const source = component.props?.[key];
+        if (source === DATAVIEW_PENDING) {
+          report('unknownDataview', component, `${displayName(component)} has no dataview selected (${key})`);
+          return;
+        }
+        // Dataview references are stored as { dataview_id } objects
+        const dataviewId = source && typeof source === 'object' && !Array.isArray(source)
+          ? source.dataview_id
+          : undefined;
+        if (dataviewId && hasDataview?.(String(dataviewId)) === false) {
+          report('unknownDataview', component, `Dataview "${dataviewId}" (${key}) is not known to the dataview manager`);
+        }
+      });
+    });
+  }
+
+  private static checkWizards(
+    all: ComponentDefinition[],
+    report: (rule: LintRuleId, component: ComponentDefinition, message: string) => void
+  ) {
+    all
+      .filter((component) => component.type === 'Wizard')
+      .forEach((wizard) => {
+        // Every child is a step (see FormWizard)
+        const steps = wizard.children || [];
+        if (steps.length === 0) {
+          report('unreachableWizardStep', wizard, `${displayName(wizard)} has no steps`);
+        }
+        steps.forEach((step, index) => {
+          const title = WizardSteps.getTitle(step, index, wizard.props?.steps);
+          const renderWhen = step.props?.renderWhen;
+          if (renderWhen && !renderWhen.computeType && renderWhen.value === false) {
+            report('unreachableWizardStep', step, `Step "${title}" never renders and is always skipped`);
+          } else if (step.type === 'Container' && (step.children || []).length === 0) {
+            report('unreachableWizardStep', step, `Step "${title}" has no content`);
+          }
+        });
+      });
+  }
+}
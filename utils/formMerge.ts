@@ -0,0 +1,251 @@
+/**
+ * Form Merge
+ * Three-way merge of component trees: the version both sides started from (base), mine and theirs.
+ * Components are matched by id (as in FormDiff). Changes made on one side only are taken over;
+ * props are merged key by key, so both sides may edit different props of one component.
+ * Overlapping changes are conflicts, picked per component (mine by default).
+ */
+
+import type { ComponentDefinition } from '../stores/types';
+import { FormDiff, type IndexedComponent } from './formDiff';
+
+export type MergeSide = 'mine' | 'theirs';
+
+// props: both changed the same props; deleted: deleted on one side, changed on the other;
+// moved: moved to different containers
+export type FormConflictKind = 'props' | 'deleted' | 'moved';
+
+export interface FormMergeConflict {
+  componentId: string;
+  type: string;
+  label: string;
+  kinds: FormConflictKind[];
+  // Props changed differently on both sides (type and name included)
+  keys: string[];
+  // The component on each side (undefined = deleted there)
+  mine?: ComponentDefinition;
+  theirs?: ComponentDefinition;
+}
+
+export interface FormMergeResult {
+  components: ComponentDefinition[];
+  conflicts: FormMergeConflict[];
+}
+
+type Index = Map<string, IndexedComponent>;
+
+interface MergedEntry {
+  component: ComponentDefinition; // Without children
+  parentId: string | null;
+  source: IndexedComponent; // Side the component is taken from (for ordering)
+}
+
+// Component without its subtree
+const withoutChildren = (component: ComponentDefinition): ComponentDefinition => {
+  const { children, ...rest } = component;
+  return rest;
+};
+
+// Ids of the children of a parent on one side, in order
+const childIds = (index: Index, parentId: string | null): string[] =>
+  Array.from(index.entries())
+    .filter(([, entry]) => entry.parentId === parentId)
+    .sort((a, b) => a[1].index - b[1].index)
+    .map(([id]) => id);
+
+// Whether the ids shared with base are in another order than in base
+const isReordered = (ids: string[], baseIds: string[]): boolean => {
+  const shared = ids.filter((id) => baseIds.includes(id));
+  const baseShared = baseIds.filter((id) => shared.includes(id));
+  return shared.some((id, position) => baseShared[position] !== id);
+};
+
+export class FormMerge {
+  /**
+   * Merge mine and theirs (both derived from base); choices pick the side of conflicting components
+   */
+  static merge(
+    base: ComponentDefinition[],
+    mine: ComponentDefinition[],
+    theirs: ComponentDefinition[],
+    choices: Record<string, MergeSide> = {}
+  ): FormMergeResult {
+    const baseIndex = FormDiff.index(base);
+    const mineIndex = FormDiff.index(mine);
+    const theirsIndex = FormDiff.index(theirs);
+    const conflicts = new Map<string, FormMergeConflict>();
+    const merged = new Map<string, MergedEntry>();
+
+    const addConflict = (id: string, kind: FormConflictKind, keys: string[] = []) => {
+      const mineEntry = mineIndex.get(id);
+      const theirsEntry = theirsIndex.get(id);
+      const component = (mineEntry || theirsEntry || baseIndex.get(id))!.component;
+      const conflict = conflicts.get(id) || {
+        componentId: id,
+        type: component.type,
+        label: FormDiff.getLabel(component),
+        kinds: [],
+        keys: [],
+        mine: mineEntry && withoutChildren(mineEntry.component),
+        theirs: theirsEntry && withoutChildren(theirsEntry.component),
+      };
+      if (!conflict.kinds.includes(kind)) conflict.kinds.push(kind);
+      conflict.keys.push(...keys);
+      conflicts.set(id, conflict);
+    };
+    const choose = (id: string): MergeSide => choices[id] || 'mine';
+
+    const ids = new Set([...mineIndex.keys(), ...theirsIndex.keys()]);
+    ids.forEach((id) => {
+      const baseEntry = baseIndex.get(id);
+      const mineEntry = mineIndex.get(id);
+      const theirsEntry = theirsIndex.get(id);
+
+      // Only on one side: added there, or deleted on the other
+      if (!mineEntry || !theirsEntry) {
+        const kept = (mineEntry || theirsEntry)!;
+        if (baseEntry) {
+          const keptSide: MergeSide = mineEntry ? 'mine' : 'theirs';
+          // Deleted on one side, untouched on the other
+          if (!this.isTouched(id, baseIndex, mineEntry ? mineIndex : theirsIndex)) return;
+          addConflict(id, 'deleted');
+          if (choose(id) !== keptSide) return;
+        }
+        merged.set(id, { component: withoutChildren(kept.component), parentId: kept.parentId, source: kept });
+        return;
+      }
+
+      const { component, keys } = this.mergeComponent(
+        baseEntry?.component,
+        mineEntry.component,
+        theirsEntry.component,
+        choose(id)
+      );
+      if (keys.length > 0) addConflict(id, 'props', keys);
+
+      const parent = this.pick(baseEntry?.parentId, mineEntry.parentId, theirsEntry.parentId);
+      let source = parent && parent.value === mineEntry.parentId ? mineEntry : theirsEntry;
+      if (!parent) {
+        addConflict(id, 'moved');
+        source = choose(id) === 'mine' ? mineEntry : theirsEntry;
+      }
+      merged.set(id, { component, parentId: source.parentId, source });
+    });
+
+    // Drop components whose container was deleted
+    let removed = true;
+    while (removed) {
+      removed = false;
+      merged.forEach((entry, id) => {
+        if (entry.parentId !== null && !merged.has(entry.parentId)) {
+          merged.delete(id);
+          removed = true;
+        }
+      });
+    }
+
+    const build = (parentId: string | null): ComponentDefinition[] =>
+      this.orderChildren(parentId, merged, baseIndex, mineIndex, theirsIndex).map((id) => {
+        const { component } = merged.get(id)!;
+        const result: ComponentDefinition = { ...component };
+        if ('parentId' in component) result.parentId = parentId || undefined;
+        const hasChildren = [mineIndex, theirsIndex, baseIndex].some((index) => index.get(id)?.component.children);
+        if (hasChildren) result.children = build(id);
+        return result;
+      });
+
+    return { components: build(null), conflicts: Array.from(conflicts.values()) };
+  }
+
+  /**
+   * Three-way pick of a value: the side that changed it; null when both changed it differently
+   */
+  private static pick<T>(base: T | undefined, mine: T, theirs: T): { value: T } | null {
+    if (FormDiff.isEqual(mine, theirs)) return { value: mine };
+    if (FormDiff.isEqual(mine, base)) return { value: theirs };
+    if (FormDiff.isEqual(theirs, base)) return { value: mine };
+    return null;
+  }
+
+  /**
+   * Merge type, name and props key by key; keys changed differently on both sides take the chosen side
+   */
+  private static mergeComponent(
+    base: ComponentDefinition | undefined,
+    mine: ComponentDefinition,
+    theirs: ComponentDefinition,
+    side: MergeSide
+  ): { component: ComponentDefinition; keys: string[] } {
+    const keys: string[] = [];
+    const mergeValue = (key: string, baseValue: any, mineValue: any, theirsValue: any) => {
+      const picked = this.pick(baseValue, mineValue, theirsValue);
+      if (picked) return picked.value;
+      keys.push(key);
+      return side === 'mine' ? mineValue : theirsValue;
+    };
+
+    const component = withoutChildren(mine);
+    component.type = mergeValue('type', base?.type, mine.type, theirs.type);
+    const name = mergeValue('name', base?.name, mine.name, theirs.name);
+    if (name === undefined) delete component.name;
+    else component.name = name;
+
+    const props: Record<string, any> = {};
+    const propKeys = new Set([
+      ...Object.keys(base?.props || {}),
+      ...Object.keys(mine.props || {}),
+      ...Object.keys(theirs.props || {}),
+    ]);
+    propKeys.forEach((key) => {
+      const value = mergeValue(key, base?.props?.[key], mine.props?.[key], theirs.props?.[key]);
+      if (value !== undefined) props[key] = value;
+    });
+    component.props = props;
+
+    return { component, keys };
+  }
+
+  /**
+   * Whether a side changed a component of base: its props, its container or what it contains
+   */
+  private static isTouched(id: string, baseIndex: Index, sideIndex: Index): boolean {
+    const baseEntry = baseIndex.get(id)!;
+    const sideEntry = sideIndex.get(id)!;
+    if (baseEntry.parentId !== sideEntry.parentId) return true;
+    if (!FormDiff.isEqual(withoutChildren(baseEntry.component), withoutChildren(sideEntry.component))) return true;
+    return childIds(sideIndex, id).some((childId) => {
+      const childBase = baseIndex.get(childId);
+      return !childBase || childBase.parentId !== id || this.isTouched(childId, baseIndex, sideIndex);
+    });
+  }
+
+  /**
+   * Merged children of a parent: in the order of the side that reordered them (mine first),
+   * components new to the parent are placed after their previous sibling on their side
+   */
+  private static orderChildren(
+    parentId: string | null,
+    merged: Map<string, MergedEntry>,
+    baseIndex: Index,
+    mineIndex: Index,
+    theirsIndex: Index
+  ): string[] {
+    const children = Array.from(merged.keys()).filter((id) => merged.get(id)!.parentId === parentId);
+    const baseOrder = childIds(baseIndex, parentId);
+    const mineOrder = childIds(mineIndex, parentId);
+    const theirsOrder = childIds(theirsIndex, parentId);
+    const primary = !isReordered(mineOrder, baseOrder) && isReordered(theirsOrder, baseOrder) ? theirsOrder : mineOrder;
+
+    const result = primary.filter((id) => children.includes(id));
+    children
+      .filter((id) => !result.includes(id))
+      .sort((a, b) => merged.get(a)!.source.index - merged.get(b)!.source.index)
+      .forEach((id) => {
+        const sideOrder = mineIndex.get(id) === merged.get(id)!.source ? mineOrder : theirsOrder;
+        const before = sideOrder.slice(0, sideOrder.indexOf(id)).reverse();
+        const previous = before.find((siblingId) => result.includes(siblingId));
+        result.splice(previous ? result.indexOf(previous) + 1 : 0, 0, id);
+      });
+    return result;
+  }
+}
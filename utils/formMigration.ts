@@ -62,6 +62,7 @@ export function migrateForm(data: any, fromVersion?: string): MigrationResult {
       migratedData = FormConverter.toPersistedForm(components, {
         version: '1',
         defaultLanguage: 'en-US',
+        workAreaLayout: detected.format === 'export' ? (data as any).workAreaLayout : undefined,
       });
 
       // Preserve metadata if available
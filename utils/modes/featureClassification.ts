@@ -36,6 +36,8 @@ export const VALIDATION_RULES_CLASSIFICATION: Record<string, FeatureClassificati
   lessThan: { category: 'advanced' },
   moreThan: { category: 'advanced' },
   multipleOf: { category: 'advanced' },
+  unique: { category: 'advanced' },
+  remote: { category: 'advanced' },
 };
 
 /**
@@ -51,6 +53,10 @@ export const EVENT_ACTIONS_CLASSIFICATION: Record<string, FeatureClassification>
   removeRow: { category: 'simple' },
   openModal: { category: 'simple' },
   closeModal: { category: 'simple' },
+  invalidateCache: { category: 'simple' },
+  goToStep: { category: 'simple' },
+  nextStep: { category: 'simple' },
+  previousStep: { category: 'simple' },
   
   // Advanced Mode Actions
   custom: { category: 'advanced' },
@@ -75,6 +81,7 @@ export const DATA_SOURCE_TYPES_CLASSIFICATION: Record<string, FeatureClassificat
 export const CONDITIONAL_RENDERING_MODES_CLASSIFICATION: Record<string, FeatureClassification> = {
   // Simple Mode
   always: { category: 'simple' },
+  rules: { category: 'simple' },
   
   // Advanced Mode
   expression: { category: 'advanced' },
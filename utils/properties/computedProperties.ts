@@ -4,6 +4,8 @@
  */
 
 import type { ComponentProperty } from '../../stores/types/formEngine';
+import { ExpressionEngine, type ExpressionOptions, type ExpressionDependencies } from '../expressions/expressionEngine';
+import { DependencyEvaluator } from '../dependencies/dependencyEvaluator';
 
 export class ComputedPropertyEvaluator {
   /**
@@ -13,7 +15,8 @@ export class ComputedPropertyEvaluator {
     property: ComponentProperty | undefined,
     formData: Record<string, any> = {},
     parentData?: Record<string, any>,
-    rootData?: Record<string, any>
+    rootData?: Record<string, any>,
+    options?: ExpressionOptions
   ): any {
     if (!property) return undefined;
 
@@ -24,7 +27,7 @@ export class ComputedPropertyEvaluator {
 
     // Computed property
     if (property.computeType === 'function' && property.fnSource) {
-      return this.evaluateFunction(property.fnSource, formData, parentData, rootData);
+      return this.evaluateFunction(property.fnSource, formData, parentData, rootData, options);
     }
 
     // Localized property
@@ -32,6 +35,16 @@ export class ComputedPropertyEvaluator {
       return this.evaluateLocalization(property, formData);
     }
 
+    // Rule (fieldValue comparisons in all/any/not groups)
+    if (property.computeType === 'condition') {
+      return DependencyEvaluator.evaluateCondition(property.condition, {
+        data: formData,
+        parentData,
+        rootData,
+        strict: options?.strict,
+      });
+    }
+
     return property.value;
   }
 
@@ -42,28 +55,17 @@ export class ComputedPropertyEvaluator {
     fnSource: string,
     formData: Record<string, any>,
     parentData?: Record<string, any>,
-    rootData?: Record<string, any>
+    rootData?: Record<string, any>,
+    options?: ExpressionOptions
   ): any {
     try {
-      // Create a safe execution context
-      const context = {
+      // Function body run by the sandboxed expression engine
+      return ExpressionEngine.run(fnSource, {
         formData,
         data: formData,
         parentData: parentData || {},
         rootData: rootData || formData,
-      };
-
-      // Execute the function
-      const fn = new Function('formData', 'data', 'parentData', 'rootData', `
-        try {
-          ${fnSource}
-        } catch (error) {
-          console.error('Error in computed property:', error);
-          return undefined;
-        }
-      `);
-
-      return fn(context.formData, context.data, context.parentData, context.rootData);
+      }, options);
     } catch (error) {
       console.error('Error evaluating computed property:', error);
       return undefined;
@@ -93,30 +95,32 @@ export class ComputedPropertyEvaluator {
     props: Record<string, ComponentProperty>,
     formData: Record<string, any> = {},
     parentData?: Record<string, any>,
-    rootData?: Record<string, any>
+    rootData?: Record<string, any>,
+    options?: ExpressionOptions
   ): Record<string, any> {
     const evaluated: Record<string, any> = {};
     
     for (const [key, property] of Object.entries(props)) {
-      evaluated[key] = this.evaluate(property, formData, parentData, rootData);
+      evaluated[key] = this.evaluate(property, formData, parentData, rootData, options);
     }
     
     return evaluated;
   }
 
   /**
-   * Check if a property has dependencies that need to be tracked
+   * Get the data paths a property reads (from the AST of its function source)
    */
-  static getDependencies(property: ComponentProperty): string[] {
+  static getDependencies(property: ComponentProperty): ExpressionDependencies {
     if (property.computeType === 'function' && property.fnSource) {
-      // Simple regex to find formData.fieldName patterns
-      const matches = property.fnSource.match(/formData\.(\w+)|data\.(\w+)/g) || [];
-      return matches.map((match) => {
-        const parts = match.split('.');
-        return parts[parts.length - 1];
-      });
+      return ExpressionEngine.getDependencies(property.fnSource, 'body');
+    }
+    if (property.computeType === 'localization') {
+      return { data: ['_locale'], parentData: [], all: false };
+    }
+    if (property.computeType === 'condition' && property.condition) {
+      return DependencyEvaluator.getConditionDependencies(property.condition);
     }
-    return [];
+    return { data: [], parentData: [], all: false };
   }
 }
 
@@ -5,6 +5,7 @@
 
 import type { ComponentProperty } from '../../stores/types/formEngine';
 import { ComputedPropertyEvaluator } from '../properties/computedProperties';
+import { ExpressionEngine, type ExpressionOptions } from '../expressions/expressionEngine';
 
 export class ConditionalRenderer {
   /**
@@ -14,7 +15,8 @@ export class ConditionalRenderer {
     renderWhen: ComponentProperty<boolean> | undefined,
     formData: Record<string, any> = {},
     parentData?: Record<string, any>,
-    rootData?: Record<string, any>
+    rootData?: Record<string, any>,
+    options?: ExpressionOptions
   ): boolean {
     if (!renderWhen) return true;
 
@@ -23,7 +25,8 @@ export class ConditionalRenderer {
       renderWhen,
       formData,
       parentData,
-      rootData
+      rootData,
+      options
     );
 
     // Handle boolean result
@@ -42,21 +45,16 @@ export class ConditionalRenderer {
     expression: string,
     formData: Record<string, any> = {},
     parentData?: Record<string, any>,
-    rootData?: Record<string, any>
+    rootData?: Record<string, any>,
+    options?: ExpressionOptions
   ): boolean {
     try {
-      const context = {
+      const result = ExpressionEngine.evaluate(expression, {
         formData,
         data: formData,
         parentData: parentData || {},
         rootData: rootData || formData,
-      };
-
-      const fn = new Function('formData', 'data', 'parentData', 'rootData', `
-        return ${expression};
-      `);
-
-      const result = fn(context.formData, context.data, context.parentData, context.rootData);
+      }, options);
       return Boolean(result);
     } catch (error) {
       console.error('Error evaluating renderWhen expression:', error);
@@ -0,0 +1,69 @@
+/**
+ * Wizard Steps
+ * Every child of a Wizard is a step (normally a Container). A step's renderWhen decides
+ * whether the wizard shows it; steps that don't render are skipped by navigation.
+ */
+
+import type { ComponentDefinition } from '../../stores/types';
+import type { ComponentProperty } from '../../stores/types/formEngine';
+import type { ExpressionOptions } from '../expressions/expressionEngine';
+import { ConditionalRenderer } from './conditionalRendering';
+
+// Step reference in goToStep: index (0-based) or the step's id, name or label
+export type WizardStepRef = number | string;
+
+export class WizardSteps {
+  /**
+   * Title of a step - its label, else the wizard's legacy `steps` titles
+   */
+  static getTitle(step: ComponentDefinition, index: number, legacyTitles: string[] = []): string {
+    const label = step.props?.label;
+    if (typeof label === 'string' && label.trim()) return label;
+    return legacyTitles[index] || `Step ${index + 1}`;
+  }
+
+  /**
+   * Whether a step is shown (renderWhen of the step)
+   */
+  static isVisible(
+    step: ComponentDefinition,
+    formData: Record<string, any>,
+    parentData?: Record<string, any>,
+    options?: ExpressionOptions
+  ): boolean {
+    const renderWhen = step.props?.renderWhen as ComponentProperty<boolean> | undefined;
+    return ConditionalRenderer.shouldRender(renderWhen, formData, parentData, formData, options);
+  }
+
+  /**
+   * Index of a step, or -1 when no step matches
+   */
+  static findStep(steps: ComponentDefinition[], ref: WizardStepRef): number {
+    if (typeof ref === 'number' || /^\d+$/.test(ref)) {
+      const index = Number(ref);
+      return index >= 0 && index < steps.length ? index : -1;
+    }
+    return steps.findIndex(
+      (step, index) => step.id === ref || step.name === ref || this.getTitle(step, index) === ref
+    );
+  }
+
+  /**
+   * Nearest visible step from `from` in a direction (1 = forward, -1 = back), or -1
+   */
+  static findVisible(visible: boolean[], from: number, direction: 1 | -1): number {
+    for (let index = from; index >= 0 && index < visible.length; index += direction) {
+      if (visible[index]) return index;
+    }
+    return -1;
+  }
+
+  /**
+   * Ids of a step and everything inside it
+   */
+  static collectIds(step: ComponentDefinition, ids: Set<string> = new Set()): Set<string> {
+    ids.add(step.id);
+    step.children?.forEach((child) => this.collectIds(child, ids));
+    return ids;
+  }
+}
@@ -0,0 +1,193 @@
+/**
+ * Async Validation
+ * Rules checked against a server, run after the synchronous rules pass:
+ * - unique: the value must not exist in a dataview column (args: dataview, field, operationId?, ignoreCase?)
+ * - remote: an endpoint must accept the value (args: endpoint, params?)
+ *
+ * Both take `debounce` (ms while typing, default 400) and `cacheTtl` (ms, default 1 minute).
+ * Results are cached in DataCache per rule and value (memory only). A remote endpoint receives
+ * POST { value, ...params } and answers true/false, { valid, message } or an error message string.
+ */
+
+import type { ValidationRule } from '../../stores/types/formEngine';
+import { dataCache } from '../cache/dataCache';
+import { getDataviewManager, DataviewManager } from '../dataviews/dataviewManager';
+import { getPath } from '../data/dataPath';
+import { apiConfig } from '../../config/apiConfig';
+import { ZodValidationBuilder } from './zodValidation';
+
+export const ASYNC_VALIDATION_RULES = ['unique', 'remote'];
+
+// Cache tag of every async validation result
+export const ASYNC_VALIDATION_TAG = 'async-validation';
+
+const DEFAULT_DEBOUNCE = 400;
+const DEFAULT_CACHE_TTL = 60000; // 1 minute
+
+/**
+ * Thrown when a check is cancelled because a newer value is being checked
+ */
+export class AsyncValidationCancelledError extends Error {
+  constructor() {
+    super('Validation cancelled');
+    this.name = 'AsyncValidationCancelledError';
+  }
+}
+
+export interface AsyncValidationOptions {
+  formData?: Record<string, any>;
+  // Aborting rejects with AsyncValidationCancelledError and aborts remote requests. Unique checks load
+  // through DataviewManager, which takes no signal: they complete and are cached for the next check
+  signal?: AbortSignal;
+  // Strict expression mode for validateWhen
+  strict?: boolean;
+}
+
+export class AsyncValidationRunner {
+  /**
+   * Whether a rule is checked by this runner (ZodValidationBuilder skips these keys)
+   */
+  static isAsyncRule(rule: ValidationRule): boolean {
+    return ASYNC_VALIDATION_RULES.includes(rule.key);
+  }
+
+  /**
+   * Debounce while typing - the longest of the rules
+   */
+  static getDebounce(rules: ValidationRule[]): number {
+    return Math.max(0, ...rules.map((rule) => Number(rule.args?.debounce ?? DEFAULT_DEBOUNCE) || 0));
+  }
+
+  /**
+   * Empty values are not checked (that is the required rule's job)
+   */
+  static isEmpty(value: any): boolean {
+    if (value === null || value === undefined) return true;
+    if (typeof value === 'string') return value.trim() === '';
+    return Array.isArray(value) && value.length === 0;
+  }
+
+  /**
+   * Check a value against async rules and return the error messages
+   */
+  static async validate(value: any, rules: ValidationRule[], options: AsyncValidationOptions = {}): Promise<string[]> {
+    if (this.isEmpty(value)) {
+      return [];
+    }
+
+    const applicable = rules.filter(
+      (rule) => this.isAsyncRule(rule) && ZodValidationBuilder.isRuleApplicable(rule, options.formData, { strict: options.strict })
+    );
+    const results = await this.whenNotCancelled(
+      Promise.all(applicable.map((rule) => this.checkRule(rule, value, options.signal))),
+      options.signal
+    );
+    return results.filter((message): message is string => message !== null);
+  }
+
+  /**
+   * Error message of one rule, or null when the value passes
+   */
+  private static async checkRule(rule: ValidationRule, value: any, signal?: AbortSignal): Promise<string | null> {
+    const args = rule.args || {};
+    const cacheKey = `validation-${rule.key}-${JSON.stringify(args)}-${JSON.stringify(value)}`;
+    const tags = rule.key === 'unique' && args.dataview
+      ? [ASYNC_VALIDATION_TAG, DataviewManager.getCacheTag(args.dataview)]
+      : [ASYNC_VALIDATION_TAG];
+
+    try {
+      const message = await dataCache.fetch(
+        cacheKey,
+        () => (rule.key === 'unique' ? this.checkUnique(args, value) : this.checkRemote(args, value, signal)),
+        { ttl: Number(args.cacheTtl) || DEFAULT_CACHE_TTL, tags, memoryOnly: true }
+      );
+      return message === null ? null : rule.message || message;
+    } catch (error: any) {
+      if (signal?.aborted) throw new AsyncValidationCancelledError();
+      // Shared the request of a check that was cancelled - run it again
+      if (error?.name === 'AbortError') return this.checkRule(rule, value, signal);
+      // Failed checks are not cached, the next change retries
+      console.error(`Async validation "${rule.key}" failed:`, error);
+      return 'The value could not be verified, please try again';
+    }
+  }
+
+  /**
+   * The value must not exist in a dataview column
+   */
+  private static async checkUnique(args: Record<string, any>, value: any): Promise<string | null> {
+    if (!args.dataview || !args.field) {
+      throw new Error('The unique rule needs a dataview and a field');
+    }
+    const manager = getDataviewManager();
+    if (!(await manager.findDataview(args.dataview))) {
+      throw new Error(`Dataview not found: ${args.dataview}`);
+    }
+
+    // Filtered on the server where supported, compared here in any case
+    const rows = await manager.loadDataview(args.dataview, { [args.field]: value }, args.operationId);
+    const normalize = (item: any) => (args.ignoreCase ? String(item).toLowerCase() : String(item));
+    const exists = rows.some((row) => {
+      const rowValue = getPath(row, args.field);
+      return rowValue !== undefined && rowValue !== null && normalize(rowValue) === normalize(value);
+    });
+    return exists ? 'This value is already taken' : null;
+  }
+
+  /**
+   * The endpoint must accept the value
+   * Relative URLs are resolved against the API base URL
+   */
+  private static async checkRemote(args: Record<string, any>, value: any, signal?: AbortSignal): Promise<string | null> {
+    if (!args.endpoint) {
+      throw new Error('The remote rule needs an endpoint');
+    }
+    const endpoint: string = args.endpoint;
+    const baseUrl = apiConfig.getBaseUrl();
+    const url = /^https?:\/\//.test(endpoint)
+      ? endpoint
+      : `${baseUrl.replace(/\/$/, '')}${endpoint.startsWith('/') ? endpoint : `/${endpoint}`}`;
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: apiConfig.getHeaders(),
+      body: JSON.stringify({ value, ...(args.params || {}) }),
+      signal,
+    });
+    if (!response.ok) {
+      throw new Error(`Validation endpoint failed: ${response.status} ${response.statusText}`);
+    }
+
+    const result = await response.json();
+    if (result === true || result === null) return null;
+    if (result === false) return 'The value was not accepted';
+    if (typeof result === 'string') return result;
+    if (typeof result === 'object' && 'valid' in result) {
+      return result.valid ? null : result.message || 'The value was not accepted';
+    }
+    return null;
+  }
+
+  /**
+   * Reject as soon as the signal aborts
+   */
+  private static whenNotCancelled<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) return promise;
+    if (signal.aborted) return Promise.reject(new AsyncValidationCancelledError());
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => reject(new AsyncValidationCancelledError());
+      signal.addEventListener('abort', onAbort, { once: true });
+      promise.then(
+        (result) => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(result);
+        },
+        (error) => {
+          signal.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      );
+    });
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Form-Level Validation
+ * Executes PersistedForm.formValidator for cross-field rules
+ *
+ * The validator source is a function body receiving:
+ * - data: current form data
+ * - rootData: root form data (same as data outside nested forms)
+ * - addError(dataKey, message): attach an error to a field
+ * - addFormError(message): add an error not tied to a field
+ *
+ * It may also return errors instead of calling the helpers:
+ * a string / string[] (form-level) or a Record<dataKey, string | string[]>.
+ *
+ * Example:
+ *   if (data.password !== data.confirmPassword) {
+ *     addError('confirmPassword', 'Passwords must match');
+ *   }
+ */
+
+import { ExpressionEngine, type ExpressionOptions } from '../expressions/expressionEngine';
+
+// Key used for errors that are not attached to a field
+export const FORM_ERROR_KEY = '';
+
+export interface FormValidatorResult {
+  // Error messages by dataKey (FORM_ERROR_KEY for form-level errors)
+  errors: Record<string, string[]>;
+  // Set when the validator itself failed to compile or threw
+  exception?: string;
+}
+
+export class FormValidatorRunner {
+  /**
+   * Run a form validator against form data
+   */
+  static async run(
+    source: string | undefined,
+    data: Record<string, any> = {},
+    rootData?: Record<string, any>,
+    options?: ExpressionOptions
+  ): Promise<FormValidatorResult> {
+    const errors: Record<string, string[]> = {};
+    if (!source || !source.trim()) {
+      return { errors };
+    }
+
+    const addError = (dataKey: string, message: string) => {
+      const key = dataKey || FORM_ERROR_KEY;
+      const messages = errors[key] || (errors[key] = []);
+      if (message && !messages.includes(message)) {
+        messages.push(message);
+      }
+    };
+    const addFormError = (message: string) => addError(FORM_ERROR_KEY, message);
+
+    try {
+      const returned = await ExpressionEngine.run(
+        source,
+        { data, rootData: rootData || data, addError, addFormError },
+        options
+      );
+      this.collectReturned(returned, addError);
+      return { errors };
+    } catch (error: any) {
+      console.error('Error executing form validator:', error);
+      return { errors, exception: error?.message || String(error) };
+    }
+  }
+
+  /**
+   * Merge errors returned by the validator (instead of using the helpers)
+   */
+  private static collectReturned(
+    returned: any,
+    addError: (dataKey: string, message: string) => void
+  ): void {
+    if (returned === undefined || returned === null || returned === true) return;
+
+    if (returned === false) {
+      addError(FORM_ERROR_KEY, 'Form is invalid');
+    } else if (typeof returned === 'string') {
+      addError(FORM_ERROR_KEY, returned);
+    } else if (Array.isArray(returned)) {
+      returned.forEach((message) => addError(FORM_ERROR_KEY, String(message)));
+    } else if (typeof returned === 'object') {
+      for (const [dataKey, messages] of Object.entries(returned)) {
+        const list = Array.isArray(messages) ? messages : [messages];
+        list.filter(Boolean).forEach((message) => addError(dataKey, String(message)));
+      }
+    }
+  }
+}
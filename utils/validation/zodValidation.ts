@@ -5,6 +5,7 @@
 
 import { z } from 'zod';
 import type { ValidationRule, ValidationSchema } from '../../stores/types/formEngine';
+import { ExpressionEngine, type ExpressionOptions } from '../expressions/expressionEngine';
 
 // Validation rule builders
 export class ZodValidationBuilder {
@@ -95,7 +96,7 @@ export class ZodValidationBuilder {
       case 'regex':
         if (dataType === 'string') {
           try {
-            const regex = new RegExp(args.pattern || '');
+            const regex = new RegExp(args.pattern || '', args.flags || undefined);
             return (schema as z.ZodString).regex(regex, message || 'Invalid format');
           } catch {
             return schema;
@@ -153,6 +154,17 @@ export class ZodValidationBuilder {
         }
         return schema;
       
+      // Inclusive value range (numbers, dates, or numeric strings)
+      case 'range': {
+        const { min, max } = args;
+        const rangeMessage = message || (
+          min !== undefined && max !== undefined ? `Value must be between ${min} and ${max}` :
+          min !== undefined ? `Value must be at least ${min}` :
+          `Value must be at most ${max}`
+        );
+        return schema.refine((value: any) => this.isInRange(value, min, max), { message: rangeMessage });
+      }
+      
       // Number validations
       case 'lessThan':
         if (dataType === 'number') {
@@ -183,6 +195,30 @@ export class ZodValidationBuilder {
     }
   }
 
+  /**
+   * Check a value against inclusive bounds
+   * Compares as dates, numbers or strings depending on the value
+   */
+  private static isInRange(value: any, min: any, max: any): boolean {
+    const hasMin = min !== undefined && min !== null && min !== '';
+    const hasMax = max !== undefined && max !== null && max !== '';
+    if (!hasMin && !hasMax) return true;
+
+    let toComparable: (v: any) => number | string;
+    if (value instanceof Date) {
+      toComparable = (v) => (v instanceof Date ? v : new Date(v)).getTime();
+    } else if (!isNaN(Number(value)) && (!hasMin || !isNaN(Number(min))) && (!hasMax || !isNaN(Number(max)))) {
+      toComparable = (v) => Number(v);
+    } else {
+      toComparable = (v) => String(v);
+    }
+
+    const comparable = toComparable(value);
+    if (hasMin && comparable < toComparable(min)) return false;
+    if (hasMax && comparable > toComparable(max)) return false;
+    return true;
+  }
+
   /**
    * Validate a value against a validation schema
    */
@@ -190,22 +226,12 @@ export class ZodValidationBuilder {
     value: any,
     schema: ValidationSchema,
     dataType: 'string' | 'number' | 'boolean' | 'date' | 'array' | 'object' = 'string',
-    formData?: Record<string, any>
+    formData?: Record<string, any>,
+    options?: ExpressionOptions
   ): Promise<{ success: boolean; errors: string[] }> {
     try {
       // Filter rules by validateWhen condition if present
-      const applicableRules = schema.validations.filter((rule) => {
-        if (!rule.validateWhen) return true;
-        
-        // Evaluate validateWhen expression
-        try {
-          // Simple expression evaluation (can be enhanced)
-          const fn = new Function('data', `return ${rule.validateWhen}`);
-          return fn(formData || {});
-        } catch {
-          return true; // Default to applying rule if evaluation fails
-        }
-      });
+      const applicableRules = schema.validations.filter((rule) => this.isRuleApplicable(rule, formData, options));
 
       const zodSchema = this.buildSchema(applicableRules, dataType);
       await zodSchema.parseAsync(value);
@@ -225,6 +251,102 @@ export class ZodValidationBuilder {
     }
   }
 
+  /**
+   * Validate a single field value
+   * Empty values only fail the `required` rule (or the required flag); other rules
+   * are applied to non-empty values, so optional fields can be left blank
+   */
+  static async validateField(
+    value: any,
+    rules: ValidationRule[],
+    dataType: 'string' | 'number' | 'boolean' | 'date' | 'array' | 'object' = 'string',
+    options: { required?: boolean; formData?: Record<string, any>; strict?: boolean } = {}
+  ): Promise<string[]> {
+    const requiredRule = rules.find((rule) => rule.key === 'required');
+    const otherRules = rules.filter((rule) => rule.key !== 'required');
+    const expressionOptions = { strict: options.strict };
+    const isRequired = options.required || (requiredRule !== undefined && this.isRuleApplicable(requiredRule, options.formData, expressionOptions));
+
+    if (this.isEmptyValue(value, dataType)) {
+      return isRequired ? [requiredRule?.message || 'This field is required'] : [];
+    }
+
+    if (otherRules.length === 0) {
+      return [];
+    }
+
+    const result = await this.validate(
+      this.coerceValue(value, dataType),
+      { validations: otherRules },
+      dataType,
+      options.formData,
+      expressionOptions
+    );
+    return result.success ? [] : result.errors;
+  }
+
+  /**
+   * Map a component type to the data type its value is validated as
+   */
+  static getFieldDataType(componentType: string): 'string' | 'number' | 'boolean' | 'date' | 'array' {
+    switch (componentType) {
+      case 'Amount':
+        return 'number';
+      case 'CheckBox':
+      case 'Toggle':
+        return 'boolean';
+      case 'DateTime':
+      case 'DateTimeCb':
+        return 'date';
+      case 'CheckBoxGroup':
+      case 'MultiUpload':
+      case 'DataGrid':
+      case 'Tree':
+        return 'array';
+      default:
+        return 'string';
+    }
+  }
+
+  /**
+   * Check a rule's validateWhen condition
+   */
+  static isRuleApplicable(rule: ValidationRule, formData?: Record<string, any>, options?: ExpressionOptions): boolean {
+    if (!rule.validateWhen) return true;
+    try {
+      return Boolean(ExpressionEngine.evaluate(rule.validateWhen, { data: formData || {} }, options));
+    } catch {
+      return true; // Default to applying rule if evaluation fails
+    }
+  }
+
+  /**
+   * Check if a value counts as "not filled in" for its data type
+   */
+  private static isEmptyValue(value: any, dataType: string): boolean {
+    if (value === null || value === undefined) return true;
+    if (typeof value === 'string' && value.trim() === '') return true;
+    if (Array.isArray(value) && value.length === 0) return true;
+    // An unchecked required checkbox counts as empty
+    if (dataType === 'boolean' && value === false) return true;
+    return false;
+  }
+
+  /**
+   * Coerce raw input values (usually strings) to the schema data type
+   */
+  private static coerceValue(value: any, dataType: string): any {
+    if (dataType === 'number' && typeof value === 'string') {
+      const num = Number(value);
+      return isNaN(num) ? value : num;
+    }
+    if (dataType === 'date' && (typeof value === 'string' || typeof value === 'number')) {
+      const date = new Date(value);
+      return isNaN(date.getTime()) ? value : date;
+    }
+    return value;
+  }
+
   /**
    * Get validation error messages for a component
    */